@@ -0,0 +1,20 @@
+-- Meta object to campaign mapping
+-- Links Meta campaigns, ad sets, ads and lead forms back to our campaigns so
+-- leadgen webhooks can be attributed to the right campaign and owner
+
+CREATE TABLE meta_ad_mappings (
+    id TEXT PRIMARY KEY,
+    campaign_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    meta_object_type TEXT NOT NULL CHECK (meta_object_type IN ('campaign', 'adset', 'ad', 'form')),
+    meta_object_id TEXT NOT NULL,
+    ad_creative_id TEXT, -- Set for 'ad' rows: which of our creatives the ad runs
+    created_at INTEGER DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (campaign_id) REFERENCES campaigns(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id),
+    FOREIGN KEY (ad_creative_id) REFERENCES ad_creatives(id) ON DELETE SET NULL,
+    UNIQUE(meta_object_type, meta_object_id, campaign_id)
+);
+
+CREATE INDEX idx_meta_ad_mappings_object ON meta_ad_mappings(meta_object_type, meta_object_id);
+CREATE INDEX idx_meta_ad_mappings_campaign ON meta_ad_mappings(campaign_id);
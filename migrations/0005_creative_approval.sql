@@ -0,0 +1,8 @@
+-- Creative approval workflow
+-- Records who reviewed each generated creative, when, and why it was rejected
+
+ALTER TABLE ad_creatives ADD COLUMN reviewed_by TEXT REFERENCES users(id);
+ALTER TABLE ad_creatives ADD COLUMN reviewed_at INTEGER;
+ALTER TABLE ad_creatives ADD COLUMN rejection_reason TEXT;
+
+CREATE INDEX idx_creatives_campaign_status ON ad_creatives(campaign_id, status);
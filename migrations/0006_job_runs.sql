@@ -0,0 +1,19 @@
+-- Scheduled job runs
+-- One row per cron-triggered run so sending health can be checked from the admin API
+
+CREATE TABLE job_runs (
+    id TEXT PRIMARY KEY,
+    job_name TEXT NOT NULL,
+    cron TEXT, -- Cron expression that triggered the run, NULL for manual runs
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+    started_at INTEGER NOT NULL,
+    finished_at INTEGER,
+    duration_ms INTEGER,
+    sms_processed INTEGER DEFAULT 0,
+    emails_processed INTEGER DEFAULT 0,
+    error_count INTEGER DEFAULT 0,
+    errors TEXT, -- JSON array of error messages
+    created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+CREATE INDEX idx_job_runs_job_started ON job_runs(job_name, started_at);
@@ -0,0 +1,11 @@
+-- Skipped-step handling
+-- Per-step fallback when a lead can't be reached on the step's channel, and a
+-- record on the journey of why it paused or which steps were skipped
+
+ALTER TABLE drip_steps ADD COLUMN fallback_action TEXT DEFAULT 'skip' CHECK (fallback_action IN ('skip', 'substitute', 'pause'));
+
+ALTER TABLE lead_journeys ADD COLUMN status_reason TEXT; -- Why the journey is paused/failed
+ALTER TABLE lead_journeys ADD COLUMN skipped_steps TEXT; -- JSON array of skipped/substituted steps
+
+-- Static email body, used by email steps without a SendGrid template and by SMS steps substituted to email
+ALTER TABLE email_messages ADD COLUMN content TEXT;
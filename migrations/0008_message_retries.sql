@@ -0,0 +1,90 @@
+-- Message send retries
+-- Attempt counter and next-attempt time for queued SMS/email, plus a
+-- dead_letter status for messages that exhausted their retries. SQLite can't
+-- alter a CHECK constraint, so both tables are rebuilt.
+
+PRAGMA defer_foreign_keys = true;
+
+CREATE TABLE sms_messages_new (
+    id TEXT PRIMARY KEY,
+    lead_id TEXT NOT NULL,
+    drip_step_id TEXT,
+    twilio_sid TEXT UNIQUE,
+    to_number TEXT NOT NULL,
+    from_number TEXT NOT NULL,
+    content TEXT NOT NULL,
+    status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'queued', 'sent', 'delivered', 'failed', 'dead_letter')),
+    scheduled_at INTEGER NOT NULL,
+    attempt_count INTEGER DEFAULT 0,
+    next_attempt_at INTEGER, -- Set when a retryable failure schedules another attempt
+    sent_at INTEGER,
+    delivered_at INTEGER,
+    error_message TEXT,
+    created_at INTEGER DEFAULT (strftime('%s', 'now')),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE,
+    FOREIGN KEY (drip_step_id) REFERENCES drip_steps(id) ON DELETE SET NULL
+);
+
+INSERT INTO sms_messages_new (
+    id, lead_id, drip_step_id, twilio_sid, to_number, from_number, content, status,
+    scheduled_at, sent_at, delivered_at, error_message, created_at, updated_at
+)
+SELECT
+    id, lead_id, drip_step_id, twilio_sid, to_number, from_number, content, status,
+    scheduled_at, sent_at, delivered_at, error_message, created_at, updated_at
+FROM sms_messages;
+
+DROP TABLE sms_messages;
+ALTER TABLE sms_messages_new RENAME TO sms_messages;
+
+CREATE INDEX idx_sms_messages_lead ON sms_messages(lead_id);
+CREATE INDEX idx_sms_messages_status ON sms_messages(status);
+CREATE INDEX idx_sms_messages_scheduled ON sms_messages(scheduled_at);
+CREATE INDEX idx_sms_messages_twilio_sid ON sms_messages(twilio_sid);
+CREATE INDEX idx_sms_messages_next_attempt ON sms_messages(status, next_attempt_at);
+
+CREATE TABLE email_messages_new (
+    id TEXT PRIMARY KEY,
+    lead_id TEXT NOT NULL,
+    drip_step_id TEXT,
+    sendgrid_message_id TEXT,
+    to_email TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    content TEXT,
+    template_id TEXT,
+    dynamic_data TEXT, -- JSON string
+    status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'delivered', 'opened', 'clicked', 'bounced', 'failed', 'dead_letter')),
+    scheduled_at INTEGER NOT NULL,
+    attempt_count INTEGER DEFAULT 0,
+    next_attempt_at INTEGER,
+    sent_at INTEGER,
+    delivered_at INTEGER,
+    opened_at INTEGER,
+    clicked_at INTEGER,
+    error_message TEXT,
+    created_at INTEGER DEFAULT (strftime('%s', 'now')),
+    updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE,
+    FOREIGN KEY (drip_step_id) REFERENCES drip_steps(id) ON DELETE SET NULL
+);
+
+INSERT INTO email_messages_new (
+    id, lead_id, drip_step_id, sendgrid_message_id, to_email, subject, content, template_id,
+    dynamic_data, status, scheduled_at, sent_at, delivered_at, opened_at, clicked_at,
+    error_message, created_at, updated_at
+)
+SELECT
+    id, lead_id, drip_step_id, sendgrid_message_id, to_email, subject, content, template_id,
+    dynamic_data, status, scheduled_at, sent_at, delivered_at, opened_at, clicked_at,
+    error_message, created_at, updated_at
+FROM email_messages;
+
+DROP TABLE email_messages;
+ALTER TABLE email_messages_new RENAME TO email_messages;
+
+CREATE INDEX idx_email_messages_lead ON email_messages(lead_id);
+CREATE INDEX idx_email_messages_status ON email_messages(status);
+CREATE INDEX idx_email_messages_scheduled ON email_messages(scheduled_at);
+CREATE INDEX idx_email_messages_sendgrid_id ON email_messages(sendgrid_message_id);
+CREATE INDEX idx_email_messages_next_attempt ON email_messages(status, next_attempt_at);
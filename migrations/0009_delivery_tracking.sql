@@ -0,0 +1,8 @@
+-- Delivery status tracking
+-- Carrier error codes from Twilio status callbacks and delivered-SMS counts on journeys
+
+ALTER TABLE sms_messages ADD COLUMN error_code TEXT;
+
+ALTER TABLE lead_journeys ADD COLUMN total_sms_delivered INTEGER DEFAULT 0;
+
+CREATE INDEX idx_webhook_received ON webhook_events(source, received_at);
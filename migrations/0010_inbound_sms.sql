@@ -0,0 +1,25 @@
+-- Inbound SMS and keyword handling
+-- Replies from leads, SMS consent driven by STOP/START keywords, and an
+-- optional per-campaign pause when a lead replies
+
+CREATE TABLE inbound_messages (
+    id TEXT PRIMARY KEY,
+    lead_id TEXT, -- NULL when no lead matched the sender
+    twilio_sid TEXT UNIQUE,
+    from_number TEXT NOT NULL,
+    to_number TEXT NOT NULL,
+    body TEXT NOT NULL,
+    keyword TEXT, -- stop, start, help when the body was a compliance keyword
+    received_at INTEGER NOT NULL,
+    FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_inbound_messages_lead ON inbound_messages(lead_id, received_at);
+
+ALTER TABLE leads ADD COLUMN sms_consent TEXT DEFAULT 'granted' CHECK (sms_consent IN ('granted', 'revoked'));
+ALTER TABLE leads ADD COLUMN sms_consent_updated_at INTEGER;
+CREATE INDEX idx_leads_phone ON leads(phone);
+
+ALTER TABLE lead_journeys ADD COLUMN response_at INTEGER; -- Last inbound reply from the lead
+
+ALTER TABLE drip_campaigns ADD COLUMN pause_on_reply BOOLEAN DEFAULT 0;
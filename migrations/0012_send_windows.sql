@@ -0,0 +1,10 @@
+-- Drip campaign send windows
+-- Quiet hours for SMS: messages are only sent between send_window_start and
+-- send_window_end (minutes after midnight) on send_window_days, in the lead's
+-- local timezone. send_window_timezone is used when the lead's timezone can't
+-- be inferred from a form field or the phone's area code.
+
+ALTER TABLE drip_campaigns ADD COLUMN send_window_start INTEGER DEFAULT 540; -- 09:00
+ALTER TABLE drip_campaigns ADD COLUMN send_window_end INTEGER DEFAULT 1200; -- 20:00
+ALTER TABLE drip_campaigns ADD COLUMN send_window_days TEXT DEFAULT '[0,1,2,3,4,5,6]'; -- JSON array, 0 = Sunday
+ALTER TABLE drip_campaigns ADD COLUMN send_window_timezone TEXT DEFAULT 'America/New_York';
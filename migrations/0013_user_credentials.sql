@@ -0,0 +1,23 @@
+-- Per-user provider credentials
+-- Each user's Meta, Twilio, SendGrid and OpenAI credentials, encrypted with
+-- AES-GCM under ENCRYPTION_KEY. account_id holds the provider's public
+-- account identifier (Twilio AccountSid, Meta ad account, SendGrid sender) so
+-- inbound webhooks can be matched to the tenant that owns them.
+
+CREATE TABLE user_credentials (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    provider TEXT NOT NULL CHECK (provider IN ('meta', 'twilio', 'sendgrid', 'openai')),
+    account_id TEXT,
+    encrypted_data TEXT NOT NULL, -- base64 AES-GCM ciphertext of the JSON credentials
+    iv TEXT NOT NULL,
+    status TEXT DEFAULT 'unverified' CHECK (status IN ('unverified', 'valid', 'invalid')),
+    verified_at INTEGER,
+    verification_error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE(user_id, provider)
+);
+
+CREATE INDEX idx_user_credentials_account ON user_credentials(provider, account_id);
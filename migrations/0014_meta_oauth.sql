@@ -0,0 +1,7 @@
+-- Meta OAuth connections
+-- Tokens from Facebook Login expire (long-lived user tokens last ~60 days), so
+-- their expiry is kept outside the encrypted blob for the scheduled refresh.
+
+ALTER TABLE user_credentials ADD COLUMN expires_at INTEGER;
+
+CREATE INDEX idx_user_credentials_expiry ON user_credentials(provider, expires_at);
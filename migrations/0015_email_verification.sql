@@ -0,0 +1,7 @@
+-- Email verification
+-- New accounts confirm their address through an emailed link. Accounts created
+-- before verification existed are treated as verified.
+
+ALTER TABLE users ADD COLUMN email_verified BOOLEAN DEFAULT 0;
+
+UPDATE users SET email_verified = 1;
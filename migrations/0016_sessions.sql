@@ -0,0 +1,22 @@
+-- Login sessions
+-- One row per signed-in device. Access tokens are short-lived JWTs carrying the
+-- session id; the long-lived refresh token lives in an HttpOnly cookie and is
+-- stored here only as a SHA-256 hash. Refresh tokens rotate on every use, and
+-- the previous hash is kept so a replayed (stolen) token revokes the session.
+
+CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    refresh_token_hash TEXT NOT NULL UNIQUE,
+    previous_token_hash TEXT,
+    user_agent TEXT,
+    ip_address TEXT,
+    created_at INTEGER NOT NULL,
+    last_used_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    revoked_at INTEGER,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_sessions_user ON sessions(user_id, revoked_at);
+CREATE INDEX idx_sessions_previous_token ON sessions(previous_token_hash);
@@ -0,0 +1,6 @@
+-- Lead list queries
+-- /api/leads pages through a user's leads across campaigns, newest first by
+-- default, using (captured_at, id) as the cursor.
+
+CREATE INDEX idx_leads_campaign_captured ON leads(campaign_id, captured_at, id);
+CREATE INDEX idx_leads_email ON leads(email);
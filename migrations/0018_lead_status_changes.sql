@@ -0,0 +1,19 @@
+-- Lead status history
+-- leads and lead_journeys only hold the current status; every change to a
+-- lead's status, its SMS consent or one of its journeys is also recorded here
+-- so the lead timeline can show when and why it happened.
+
+CREATE TABLE lead_status_changes (
+    id TEXT PRIMARY KEY,
+    lead_id TEXT NOT NULL,
+    journey_id TEXT, -- Set for journey_status changes
+    field TEXT NOT NULL CHECK (field IN ('status', 'sms_consent', 'journey_status')),
+    from_value TEXT,
+    to_value TEXT NOT NULL,
+    reason TEXT,
+    changed_at INTEGER NOT NULL,
+    FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE,
+    FOREIGN KEY (journey_id) REFERENCES lead_journeys(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_lead_status_changes_lead ON lead_status_changes(lead_id, changed_at);
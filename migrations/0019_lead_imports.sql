@@ -0,0 +1,45 @@
+-- CSV lead imports
+-- Uploaded files live in R2; rows are read in chunks starting at byte_offset
+-- so a large file is spread over several invocations. Rows that could not be
+-- imported, including duplicates of existing leads, are kept for the report.
+
+CREATE TABLE lead_imports (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    campaign_id TEXT NOT NULL, -- Campaign the imported leads are filed under
+    drip_campaign_id TEXT, -- Imported leads are enrolled here when set
+    file_name TEXT NOT NULL,
+    r2_key TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    columns TEXT NOT NULL, -- JSON array of header names
+    mapping TEXT, -- JSON array with the lead field for each column
+    status TEXT NOT NULL DEFAULT 'uploaded' CHECK (status IN ('uploaded', 'processing', 'completed', 'failed')),
+    byte_offset INTEGER NOT NULL DEFAULT 0, -- Start of the next unread row
+    rows_processed INTEGER DEFAULT 0,
+    rows_imported INTEGER DEFAULT 0,
+    rows_duplicate INTEGER DEFAULT 0,
+    rows_failed INTEGER DEFAULT 0,
+    error_message TEXT, -- Why the whole import failed
+    locked_until INTEGER, -- Lease held by the invocation processing a chunk
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    completed_at INTEGER,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (campaign_id) REFERENCES campaigns(id) ON DELETE CASCADE,
+    FOREIGN KEY (drip_campaign_id) REFERENCES drip_campaigns(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_lead_imports_user ON lead_imports(user_id, created_at);
+CREATE INDEX idx_lead_imports_status ON lead_imports(status);
+
+CREATE TABLE lead_import_errors (
+    id TEXT PRIMARY KEY,
+    import_id TEXT NOT NULL,
+    row_number INTEGER NOT NULL, -- Line in the file, the header being row 1
+    type TEXT NOT NULL CHECK (type IN ('invalid', 'duplicate')),
+    message TEXT NOT NULL,
+    row_data TEXT, -- JSON array of the row's values
+    FOREIGN KEY (import_id) REFERENCES lead_imports(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_lead_import_errors_import ON lead_import_errors(import_id, row_number);
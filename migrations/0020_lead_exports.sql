@@ -0,0 +1,23 @@
+-- Lead exports too large to stream in one response
+-- The file is written to R2 in the background and downloaded through a
+-- short-lived link; it is deleted once expires_at passes.
+
+CREATE TABLE lead_exports (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    format TEXT NOT NULL CHECK (format IN ('csv', 'ndjson')),
+    filters TEXT NOT NULL, -- JSON copy of the leads list filters and sort
+    status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'failed', 'expired')),
+    r2_key TEXT NOT NULL,
+    row_count INTEGER DEFAULT 0,
+    file_size INTEGER,
+    error_message TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    completed_at INTEGER,
+    expires_at INTEGER,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_lead_exports_user ON lead_exports(user_id, created_at);
+CREATE INDEX idx_lead_exports_status ON lead_exports(status, expires_at);
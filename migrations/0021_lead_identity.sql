@@ -0,0 +1,47 @@
+-- Lead identity and merging
+-- email_key and phone_key are the normalized email and phone a person is
+-- matched on across a user's campaigns: lowercased email, and the phone's
+-- digits with a leading + (10-digit NANP numbers get the 1 country code).
+-- A merged lead keeps its row, pointing at the lead it was merged into, after
+-- its messages and journeys have moved there.
+
+ALTER TABLE leads ADD COLUMN email_key TEXT;
+ALTER TABLE leads ADD COLUMN phone_key TEXT;
+ALTER TABLE leads ADD COLUMN merged_into TEXT REFERENCES leads(id);
+ALTER TABLE leads ADD COLUMN merged_at INTEGER;
+
+UPDATE leads SET email_key = LOWER(TRIM(email))
+WHERE email IS NOT NULL AND TRIM(email) <> '';
+
+-- Keep only the phone's digits, one character at a time, as phoneKey does
+WITH RECURSIVE phone_digits(id, rest, digits) AS (
+    SELECT id, phone, '' FROM leads WHERE phone IS NOT NULL
+    UNION ALL
+    SELECT id, SUBSTR(rest, 2), digits || CASE WHEN SUBSTR(rest, 1, 1) GLOB '[0-9]' THEN SUBSTR(rest, 1, 1) ELSE '' END
+    FROM phone_digits WHERE rest <> ''
+)
+UPDATE leads SET phone_key = '+' || (
+    SELECT digits FROM phone_digits WHERE phone_digits.id = leads.id AND rest = ''
+)
+WHERE phone IS NOT NULL;
+
+UPDATE leads SET phone_key = '+1' || SUBSTR(phone_key, 2)
+WHERE LENGTH(phone_key) = 11;
+
+UPDATE leads SET phone_key = NULL
+WHERE phone_key = '+';
+
+CREATE INDEX idx_leads_email_key ON leads(email_key);
+CREATE INDEX idx_leads_phone_key ON leads(phone_key);
+CREATE INDEX idx_leads_merged_into ON leads(merged_into);
+
+-- Groups of leads a user has reviewed and kept apart; lead_ids is the sorted,
+-- comma-separated ids, so the group shows again if another lead joins it
+CREATE TABLE lead_duplicate_dismissals (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    lead_ids TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    UNIQUE (user_id, lead_ids),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
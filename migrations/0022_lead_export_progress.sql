@@ -0,0 +1,11 @@
+-- Resumable lead exports
+-- An export is written over several invocations: each one uploads whole
+-- multipart parts, then records where it stopped. The bytes short of a full
+-- part are kept in R2 under tail_key until the next invocation picks them up.
+
+ALTER TABLE lead_exports ADD COLUMN upload_id TEXT; -- R2 multipart upload being written
+ALTER TABLE lead_exports ADD COLUMN parts TEXT; -- JSON array of the parts uploaded so far
+ALTER TABLE lead_exports ADD COLUMN columns TEXT; -- JSON array of CSV columns, fixed by the first invocation
+ALTER TABLE lead_exports ADD COLUMN cursor TEXT; -- JSON position after the last lead written
+ALTER TABLE lead_exports ADD COLUMN tail_key TEXT;
+ALTER TABLE lead_exports ADD COLUMN locked_until INTEGER; -- Lease held by the invocation writing the export
@@ -0,0 +1,5 @@
+-- Email journey tracking
+-- The journey a queued email belongs to, sent to SendGrid as the journey_id
+-- custom arg so opens and clicks are counted against it directly
+
+ALTER TABLE email_messages ADD COLUMN journey_id TEXT REFERENCES lead_journeys(id) ON DELETE SET NULL;
\ No newline at end of file
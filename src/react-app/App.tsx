@@ -13,8 +13,14 @@ const CampaignsPage = React.lazy(() => import('./pages/CampaignsPage').then(m =>
 const CreateCampaignPage = React.lazy(() => import('./pages/CreateCampaignPage').then(m => ({ default: m.CreateCampaignPage })));
 const DripCampaignsPage = React.lazy(() => import('./pages/DripCampaignsPage').then(m => ({ default: m.DripCampaignsPage })));
 const LeadsPage = React.lazy(() => import('./pages/LeadsPage').then(m => ({ default: m.LeadsPage })));
+const LeadDetailPage = React.lazy(() => import('./pages/LeadDetailPage').then(m => ({ default: m.LeadDetailPage })));
+const LeadImportPage = React.lazy(() => import('./pages/LeadImportPage').then(m => ({ default: m.LeadImportPage })));
+const LeadDuplicatesPage = React.lazy(() => import('./pages/LeadDuplicatesPage').then(m => ({ default: m.LeadDuplicatesPage })));
 const AnalyticsPage = React.lazy(() => import('./pages/AnalyticsPage').then(m => ({ default: m.AnalyticsPage })));
 const SettingsPage = React.lazy(() => import('./pages/SettingsPage').then(m => ({ default: m.SettingsPage })));
+const ForgotPasswordPage = React.lazy(() => import('./pages/ForgotPasswordPage').then(m => ({ default: m.ForgotPasswordPage })));
+const ResetPasswordPage = React.lazy(() => import('./pages/ResetPasswordPage').then(m => ({ default: m.ResetPasswordPage })));
+const VerifyEmailPage = React.lazy(() => import('./pages/VerifyEmailPage').then(m => ({ default: m.VerifyEmailPage })));
 
 // Login Page Component with proper styling
 function LoginPage() {
@@ -119,6 +125,10 @@ function LoginPage() {
             </div>
           )}
 
+          <div className="auth-message">
+            <a href="/forgot-password" className="auth-link">Forgot your password?</a>
+          </div>
+
           <div className="form-actions">
             <button
               type="submit"
@@ -250,6 +260,9 @@ function AppContent() {
         <Suspense fallback={<PageLoader />}>
           <Routes>
             <Route path="/login" element={<LoginPage />} />
+            <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+            <Route path="/reset-password" element={<ResetPasswordPage />} />
+            <Route path="/verify-email" element={<VerifyEmailPage />} />
             <Route path="/" element={
               <ProtectedRoute>
                 <Dashboard />
@@ -275,6 +288,21 @@ function AppContent() {
                 <LeadsPage />
               </ProtectedRoute>
             } />
+            <Route path="/leads/import" element={
+              <ProtectedRoute>
+                <LeadImportPage />
+              </ProtectedRoute>
+            } />
+            <Route path="/leads/duplicates" element={
+              <ProtectedRoute>
+                <LeadDuplicatesPage />
+              </ProtectedRoute>
+            } />
+            <Route path="/leads/:id" element={
+              <ProtectedRoute>
+                <LeadDetailPage />
+              </ProtectedRoute>
+            } />
             <Route path="/analytics" element={
               <ProtectedRoute>
                 <AnalyticsPage />
@@ -0,0 +1,38 @@
+import React from 'react';
+import logo from '../assets/logo.png';
+
+interface AuthLayoutProps {
+  children: React.ReactNode;
+  title: string;
+  subtitle?: string;
+}
+
+// Centered card used by the signed-out account pages
+export function AuthLayout({ children, title, subtitle }: AuthLayoutProps) {
+  return (
+    <div className="auth-page">
+      <div className="auth-background">
+        <div className="bg-gradient"></div>
+        <div className="bg-pattern"></div>
+      </div>
+
+      <div className="auth-container">
+        <div className="auth-header">
+          <img
+            src={logo}
+            alt="LeadFuego"
+            className="auth-logo"
+          />
+          <h1>{title}</h1>
+          {subtitle && <p>{subtitle}</p>}
+        </div>
+
+        {children}
+
+        <div className="auth-footer">
+          <p><a href="/login" className="auth-link">Back to sign in</a></p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,7 +8,8 @@ interface AuthContextType {
   isLoading: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (userData: any) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  logoutEverywhere: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -19,19 +20,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const isAuthenticated = !!user;
 
-  // Check for existing auth token on mount
+  // Resume the session from the refresh cookie on mount
   useEffect(() => {
     const initAuth = async () => {
-      const token = localStorage.getItem('auth_token');
-      if (token) {
-        try {
-          const currentUser = await apiService.getCurrentUser();
-          setUser(currentUser);
-        } catch (error) {
-          // Token is invalid, remove it
-          localStorage.removeItem('auth_token');
-          console.error('Invalid token:', error);
-        }
+      const session = await apiService.refreshSession();
+      if (session?.user) {
+        setUser(session.user);
       }
       setIsLoading(false);
     };
@@ -44,7 +38,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       const response = await apiService.login(email, password);
       if (response.success && response.token && response.user) {
-        localStorage.setItem('auth_token', response.token);
         setUser(response.user);
       } else {
         throw new Error('Login failed');
@@ -68,7 +61,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       const response = await apiService.register(userData);
       if (response.success && response.token && response.user) {
-        localStorage.setItem('auth_token', response.token);
         setUser(response.user);
       } else {
         throw new Error('Registration failed');
@@ -81,8 +73,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('auth_token');
+  const logout = async () => {
+    try {
+      await apiService.logout();
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+    setUser(null);
+  };
+
+  const logoutEverywhere = async () => {
+    await apiService.logoutEverywhere();
     setUser(null);
   };
 
@@ -93,7 +94,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       isLoading,
       login,
       register,
-      logout
+      logout,
+      logoutEverywhere
     }}>
       {children}
     </AuthContext.Provider>
@@ -146,6 +146,7 @@ function CampaignCard({
   const statusColors = {
     draft: 'bg-gray-100 text-gray-800',
     review: 'bg-yellow-100 text-yellow-800',
+    launching: 'bg-purple-100 text-purple-800',
     active: 'bg-green-100 text-green-800',
     paused: 'bg-orange-100 text-orange-800',
     completed: 'bg-blue-100 text-blue-800'
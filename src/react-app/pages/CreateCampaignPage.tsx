@@ -5,6 +5,7 @@ import { LoadingSpinner } from '../components/LoadingSpinner';
 import { useAsyncAction } from '../hooks/useApi';
 import { apiService } from '../services/apiService';
 import { useToast } from '../contexts/ToastContext';
+import type { AdCreative, CreateCampaignData, CreativePreview, PreviewFormat } from '../types';
 
 type WizardStep = 'setup' | 'targeting' | 'creative' | 'drip' | 'review';
 
@@ -38,8 +39,30 @@ interface CampaignData {
   };
 }
 
+// Map wizard state onto the worker's create/update campaign payload
+function toCampaignRequest(data: CampaignData): CreateCampaignData {
+  return {
+    name: data.name,
+    objective: data.objective,
+    dailyBudget: data.dailyBudget / 100,
+    targetAudience: {
+      ageMin: data.audience.ageMin,
+      ageMax: data.audience.ageMax,
+      genders: data.audience.genders as ('male' | 'female' | 'all')[],
+      locations: data.audience.locations,
+      interests: data.audience.interests
+    },
+    creativeGuidance: {
+      brandVoice: data.creativeGuidance.brandVoice || undefined,
+      keyMessage: data.creativeGuidance.keyMessage || undefined,
+      visualStyle: data.creativeGuidance.visualStyle || undefined
+    }
+  };
+}
+
 export function CreateCampaignPage() {
   const [currentStep, setCurrentStep] = useState<WizardStep>('setup');
+  const [draftCampaignId, setDraftCampaignId] = useState<string | null>(null);
   const [campaignData, setCampaignData] = useState<CampaignData>({
     name: '',
     objective: 'LEAD_GENERATION',
@@ -64,9 +87,20 @@ export function CreateCampaignPage() {
   });
 
   const { showToast } = useToast();
-  const { execute: createCampaign, loading: creating } = useAsyncAction(
-    (data: any) => apiService.createCampaign(data)
-  );
+
+  // Creatives are generated against a saved campaign, so the wizard keeps a
+  // draft once the creative step needs one and updates it from then on
+  const saveDraftCampaign = async (data: CampaignData): Promise<string> => {
+    if (draftCampaignId) {
+      await apiService.updateCampaign(draftCampaignId, toCampaignRequest(data));
+      return draftCampaignId;
+    }
+    const campaign = await apiService.createCampaign(toCampaignRequest(data));
+    setDraftCampaignId(campaign.id);
+    return campaign.id;
+  };
+
+  const { execute: createCampaign, loading: creating } = useAsyncAction(saveDraftCampaign);
 
   const steps: { key: WizardStep; title: string; description: string }[] = [
     { key: 'setup', title: 'Campaign Setup', description: 'Basic campaign information' },
@@ -152,6 +186,7 @@ export function CreateCampaignPage() {
             <CreativeGuidanceStep 
               data={campaignData} 
               onChange={setCampaignData} 
+              onSaveDraft={() => saveDraftCampaign(campaignData)}
             />
           )}
           {currentStep === 'drip' && (
@@ -335,10 +370,12 @@ function TargetingStep({
 
 function CreativeGuidanceStep({ 
   data, 
-  onChange 
+  onChange,
+  onSaveDraft
 }: { 
   data: CampaignData; 
   onChange: (data: CampaignData) => void; 
+  onSaveDraft: () => Promise<string>;
 }) {
   const updateGuidance = (field: keyof CampaignData['creativeGuidance'], value: string) => {
     onChange({ 
@@ -402,6 +439,136 @@ function CreativeGuidanceStep({
           review, edit, and approve them before launch.
         </p>
       </div>
+
+      <CreativePreviewPanel canGenerate={!!data.name} onSaveDraft={onSaveDraft} />
+    </div>
+  );
+}
+
+const PREVIEW_FORMAT_LABELS: Record<PreviewFormat, string> = {
+  DESKTOP_FEED_STANDARD: 'Desktop Feed',
+  MOBILE_FEED_STANDARD: 'Mobile Feed',
+  INSTAGRAM_STANDARD: 'Instagram Feed',
+  INSTAGRAM_STORY: 'Instagram Story'
+};
+
+function CreativePreviewPanel({
+  canGenerate,
+  onSaveDraft
+}: {
+  canGenerate: boolean;
+  onSaveDraft: () => Promise<string>;
+}) {
+  const { showToast } = useToast();
+  const [creatives, setCreatives] = useState<AdCreative[]>([]);
+  const [selectedCreativeId, setSelectedCreativeId] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<CreativePreview[]>([]);
+  const [format, setFormat] = useState<PreviewFormat>('DESKTOP_FEED_STANDARD');
+
+  const { execute: generate, loading: generating, error: generateError } = useAsyncAction(async () => {
+    const campaignId = await onSaveDraft();
+    return apiService.generateCreatives(campaignId);
+  });
+
+  const { execute: loadPreviews, loading: loadingPreviews, error: previewError } = useAsyncAction(
+    (creativeId: string) => apiService.getCreativePreviews(creativeId)
+  );
+
+  const selectCreative = async (creativeId: string) => {
+    setSelectedCreativeId(creativeId);
+    setPreviews([]);
+    const result = await loadPreviews(creativeId);
+    if (result) {
+      setPreviews(result);
+    }
+  };
+
+  const handleGenerate = async () => {
+    const result = await generate();
+    if (result && result.length > 0) {
+      setCreatives(result);
+      showToast(`Generated ${result.length} creatives`, 'success');
+      await selectCreative(result[0].id);
+    }
+  };
+
+  const activePreview = previews.find(p => p.format === format);
+
+  return (
+    <div className="border-t border-border pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h4 className="font-medium text-foreground">Ad Previews</h4>
+          <p className="text-sm text-muted-foreground">
+            Generate creatives and see how they render across Facebook and Instagram placements.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleGenerate}
+          loading={generating}
+          disabled={!canGenerate}
+        >
+          {creatives.length > 0 ? 'Regenerate' : 'Generate Creatives'}
+        </Button>
+      </div>
+
+      {(generateError || previewError) && (
+        <div className="text-destructive text-sm mb-4">{generateError || previewError}</div>
+      )}
+
+      {creatives.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            {creatives.map((creative, index) => (
+              <button
+                key={creative.id}
+                onClick={() => selectCreative(creative.id)}
+                className={`w-full text-left p-3 rounded-md border text-sm transition-colors ${
+                  creative.id === selectedCreativeId
+                    ? 'border-primary bg-secondary'
+                    : 'border-border hover:bg-secondary/50'
+                }`}
+              >
+                <div className="font-medium text-foreground">Variation {index + 1}</div>
+                <div className="text-muted-foreground line-clamp-2">{creative.primaryText}</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2">
+            <div className="flex flex-wrap gap-2 mb-3">
+              {(Object.keys(PREVIEW_FORMAT_LABELS) as PreviewFormat[]).map((key) => (
+                <Button
+                  key={key}
+                  size="sm"
+                  variant={format === key ? 'primary' : 'outline'}
+                  onClick={() => setFormat(key)}
+                >
+                  {PREVIEW_FORMAT_LABELS[key]}
+                </Button>
+              ))}
+            </div>
+
+            {loadingPreviews ? (
+              <div className="flex justify-center py-12">
+                <LoadingSpinner text="Rendering previews..." />
+              </div>
+            ) : activePreview?.previewUrl ? (
+              <iframe
+                title={`${PREVIEW_FORMAT_LABELS[format]} preview`}
+                src={activePreview.previewUrl}
+                className="w-full rounded-md border border-border bg-white"
+                style={{ height: format === 'INSTAGRAM_STORY' ? 640 : 480 }}
+              />
+            ) : (
+              <div className="text-sm text-muted-foreground py-12 text-center">
+                No preview available for this placement
+              </div>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
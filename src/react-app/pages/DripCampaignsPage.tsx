@@ -4,7 +4,7 @@ import { Button, Input, Select } from '../components/Form';
 import { LoadingSpinner, LoadingOverlay } from '../components/LoadingSpinner';
 import { useApi, useAsyncAction, usePagination } from '../hooks/useApi';
 import { apiService } from '../services/apiService';
-import type { DripCampaign } from '../types';
+import type { DripCampaign, LeadJourney } from '../types';
 
 export function DripCampaignsPage() {
   const { page, limit, nextPage, prevPage } = usePagination();
@@ -87,6 +87,8 @@ export function DripCampaignsPage() {
         </Card>
       )}
 
+      <JourneyAttentionCard />
+
       {loading ? (
         <div className="flex justify-center py-12">
           <LoadingSpinner size="lg" text="Loading drip campaigns..." />
@@ -259,6 +261,68 @@ function DripCampaignCard({
   );
 }
 
+// Journeys that paused on an unreachable step or skipped/substituted steps
+function JourneyAttentionCard() {
+  const { data: journeys, refetch } = useApi(() => apiService.getJourneys(), []);
+  const { execute: resumeJourney, loading: resuming } = useAsyncAction(
+    (id: string) => apiService.resumeJourney(id)
+  );
+
+  const flagged = (journeys || []).filter(
+    (journey: LeadJourney) => journey.status === 'paused' || journey.skippedSteps.length > 0
+  );
+
+  if (flagged.length === 0) {
+    return null;
+  }
+
+  const handleResume = async (journey: LeadJourney) => {
+    const resumed = await resumeJourney(journey.id);
+    if (resumed) {
+      refetch();
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <h3 className="font-semibold text-foreground mb-1">Journeys needing attention</h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Leads that are missing a phone number or email for one of their steps
+      </p>
+
+      <div className="divide-y divide-border">
+        {flagged.map((journey) => (
+          <div key={journey.id} className="py-3 flex items-start justify-between gap-4">
+            <div className="text-sm space-y-1">
+              <div className="font-medium text-foreground">
+                Lead {journey.leadId} • Step {journey.currentStep}
+                <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+                  journey.status === 'paused' ? 'bg-orange-100 text-orange-800' : 'bg-gray-100 text-gray-800'
+                }`}>
+                  {journey.status}
+                </span>
+              </div>
+              {journey.statusReason && (
+                <div className="text-orange-700">{journey.statusReason}</div>
+              )}
+              {journey.skippedSteps.map((step) => (
+                <div key={`${step.stepNumber}-${step.at}`} className="text-muted-foreground">
+                  Step {step.stepNumber} ({step.channel}) {step.action}: {step.reason}
+                </div>
+              ))}
+            </div>
+            {journey.status === 'paused' && (
+              <Button size="sm" variant="outline" onClick={() => handleResume(journey)} loading={resuming}>
+                Resume
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
 // Template Selection Component for Creating New Drip Campaigns
 export function DripCampaignTemplates() {
   const templates = [
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { AuthLayout } from '../components/AuthLayout';
+import { apiService } from '../services/apiService';
+
+export function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    try {
+      await apiService.forgotPassword(email);
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <AuthLayout title="Check your email">
+        <p className="auth-message">
+          If an account exists for {email}, we've sent a link to reset your password. It expires in 1 hour.
+        </p>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout title="Forgot your password?" subtitle="Enter your email and we'll send you a reset link">
+      <form className="auth-form" onSubmit={handleSubmit}>
+        <div className="form-group">
+          <label htmlFor="email">Email</label>
+          <div className="input-group">
+            <input
+              id="email"
+              name="email"
+              type="email"
+              required
+              placeholder="you@company.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {error && <div className="auth-error">{error}</div>}
+
+        <div className="form-actions">
+          <button type="submit" disabled={loading} className="btn btn-primary btn-full">
+            {loading && <div className="btn-spinner"></div>}
+            {loading ? 'Sending...' : 'Send reset link'}
+          </button>
+        </div>
+      </form>
+    </AuthLayout>
+  );
+}
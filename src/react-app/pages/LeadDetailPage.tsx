@@ -0,0 +1,166 @@
+import { Link, useParams } from 'react-router-dom';
+import { PageLayout, Card, EmptyState } from '../components/PageLayout';
+import { Button } from '../components/Form';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { useApi } from '../hooks/useApi';
+import { apiService } from '../services/apiService';
+import type { Lead, LeadTimelineEvent } from '../types';
+
+const EVENT_LABELS: Record<LeadTimelineEvent['type'], string> = {
+  captured: 'Captured',
+  sms: 'SMS',
+  email: 'Email',
+  reply: 'Reply',
+  journey: 'Journey',
+  status_change: 'Status'
+};
+
+const EVENT_COLORS: Record<LeadTimelineEvent['type'], string> = {
+  captured: 'bg-green-100 text-green-800',
+  sms: 'bg-blue-100 text-blue-800',
+  email: 'bg-purple-100 text-purple-800',
+  reply: 'bg-yellow-100 text-yellow-800',
+  journey: 'bg-secondary text-secondary-foreground',
+  status_change: 'bg-red-100 text-red-800'
+};
+
+export function LeadDetailPage() {
+  const { id = '' } = useParams();
+  const { data, loading, error, refetch } = useApi(() => apiService.getLeadTimeline(id), [id]);
+
+  const lead = data?.lead;
+  const name = lead ? [lead.firstName, lead.lastName].filter(Boolean).join(' ') || lead.email || 'Lead' : 'Lead';
+
+  return (
+    <PageLayout
+      title={name}
+      subtitle={lead?.campaignName ? `Captured by ${lead.campaignName}` : undefined}
+      actions={
+        <>
+          <Link to="/leads">
+            <Button variant="outline">All leads</Button>
+          </Link>
+          <Button variant="secondary" onClick={refetch}>
+            Refresh
+          </Button>
+        </>
+      }
+    >
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" text="Loading lead..." />
+        </div>
+      ) : error || !data ? (
+        <Card>
+          <div className="text-destructive">
+            <p className="font-medium">Error loading lead</p>
+            <p className="text-sm mt-1">{error}</p>
+          </div>
+        </Card>
+      ) : (
+        <>
+          {data.lead.mergedInto && (
+            <Card className="mb-6">
+              <p className="text-sm text-foreground">
+                This lead was merged into another lead
+                {data.lead.mergedAt ? ` on ${new Date(data.lead.mergedAt).toLocaleDateString()}` : ''}; its
+                messages and drip campaigns are there now.{' '}
+                <Link to={`/leads/${data.lead.mergedInto}`} className="font-medium text-primary hover:underline">
+                  View merged lead
+                </Link>
+              </p>
+            </Card>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <LeadSummary lead={data.lead} />
+
+            <div className="lg:col-span-2">
+              <Card title="Timeline" description="Everything that has happened with this lead, oldest first">
+                {data.events.length === 0 ? (
+                  <EmptyState title="Nothing yet" description="Activity for this lead will appear here" />
+                ) : (
+                  <ol className="space-y-6">
+                    {data.events.map(event => (
+                      <TimelineItem key={event.id} event={event} />
+                    ))}
+                  </ol>
+                )}
+              </Card>
+            </div>
+          </div>
+        </>
+      )}
+    </PageLayout>
+  );
+}
+
+function LeadSummary({ lead }: { lead: Lead }) {
+  const details: [string, string | undefined][] = [
+    ['Email', lead.email],
+    ['Phone', lead.phone],
+    ['Company', lead.company],
+    ['Status', lead.status],
+    ['SMS consent', lead.smsConsent],
+    ['Source', lead.source === 'meta' ? 'Meta lead form' : 'Manual'],
+    ['Captured', new Date(lead.capturedAt).toLocaleString()]
+  ];
+
+  return (
+    <Card title="Contact">
+      <dl className="space-y-3">
+        {details.filter(([, value]) => value).map(([label, value]) => (
+          <div key={label}>
+            <dt className="text-sm text-muted-foreground">{label}</dt>
+            <dd className="text-foreground">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </Card>
+  );
+}
+
+function TimelineItem({ event }: { event: LeadTimelineEvent }) {
+  return (
+    <li className="border-l-2 border-border pl-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <span className={`px-2 py-1 text-xs font-medium rounded-full ${EVENT_COLORS[event.type]}`}>
+            {EVENT_LABELS[event.type]}
+          </span>
+          <span className="font-medium text-foreground">{event.title}</span>
+        </div>
+        <span className="text-sm text-muted-foreground whitespace-nowrap">
+          {new Date(event.at).toLocaleString()}
+        </span>
+      </div>
+
+      {event.detail && (
+        <p className="text-sm text-muted-foreground mt-2 whitespace-pre-wrap">{event.detail}</p>
+      )}
+
+      {event.fields && (
+        <dl className="grid grid-cols-2 gap-2 mt-3 text-sm">
+          {Object.entries(event.fields).map(([question, answer]) => (
+            <div key={question}>
+              <dt className="text-muted-foreground">{question.replace(/_/g, ' ')}</dt>
+              <dd className="text-foreground">{answer}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {event.transitions && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {event.transitions.map((transition, index) => (
+            <li key={index} className="flex gap-3 text-muted-foreground">
+              <span className="w-20 capitalize">{transition.status.replace('_', ' ')}</span>
+              <span>{new Date(transition.at).toLocaleString()}</span>
+              {transition.detail && <span className="text-destructive">{transition.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
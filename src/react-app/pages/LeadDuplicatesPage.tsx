@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { PageLayout, Card, EmptyState } from '../components/PageLayout';
+import { Button } from '../components/Form';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { useApi } from '../hooks/useApi';
+import { useToast } from '../contexts/ToastContext';
+import { apiService } from '../services/apiService';
+import type { Lead, LeadDuplicateGroup } from '../types';
+
+export function LeadDuplicatesPage() {
+  const { showToast } = useToast();
+  const [resolved, setResolved] = useState<Set<string>>(new Set());
+
+  const { data: groups, loading, error, refetch } = useApi(() => apiService.getLeadDuplicates(), []);
+  const pending = (groups || []).filter(group => !resolved.has(group.key));
+
+  const resolve = (group: LeadDuplicateGroup) => {
+    setResolved(prev => new Set(prev).add(group.key));
+  };
+
+  return (
+    <PageLayout
+      title="Duplicate leads"
+      subtitle="Leads with the same email or phone, likely the same person"
+      actions={
+        <>
+          <Link to="/leads">
+            <Button variant="outline">All leads</Button>
+          </Link>
+          <Button onClick={() => { setResolved(new Set()); refetch(); }}>
+            Refresh
+          </Button>
+        </>
+      }
+    >
+      {error && (
+        <Card className="mb-6">
+          <div className="text-destructive">
+            <p className="font-medium">Error loading duplicates</p>
+            <p className="text-sm mt-1">{error}</p>
+          </div>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" text="Looking for duplicates..." />
+        </div>
+      ) : pending.length === 0 ? (
+        <Card>
+          <EmptyState
+            title="No duplicates to review"
+            description="Leads that share an email or phone number will appear here"
+            icon={
+              <svg className="w-full h-full" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            }
+          />
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {pending.map(group => (
+            <DuplicateGroup
+              key={group.key}
+              group={group}
+              onResolved={() => resolve(group)}
+              onError={(title, message) => showToast(title, 'error', message)}
+            />
+          ))}
+        </div>
+      )}
+    </PageLayout>
+  );
+}
+
+function DuplicateGroup({
+  group,
+  onResolved,
+  onError
+}: {
+  group: LeadDuplicateGroup;
+  onResolved: () => void;
+  onError: (title: string, message?: string) => void;
+}) {
+  // The first lead captured is kept by default
+  const [survivorId, setSurvivorId] = useState(group.leads[0].id);
+  const [submitting, setSubmitting] = useState(false);
+
+  const merge = async () => {
+    const duplicateIds = group.leads.map(lead => lead.id).filter(id => id !== survivorId);
+    if (!window.confirm(
+      `Merge ${duplicateIds.length} lead${duplicateIds.length === 1 ? '' : 's'} into the selected lead? ` +
+      'Their messages and drip campaigns move to it, and this cannot be undone.'
+    )) return;
+
+    setSubmitting(true);
+    try {
+      await apiService.mergeLeads(survivorId, duplicateIds);
+      onResolved();
+    } catch (error) {
+      onError('Merge failed', error instanceof Error ? error.message : undefined);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const dismiss = async () => {
+    setSubmitting(true);
+    try {
+      await apiService.dismissLeadDuplicates(group.leads.map(lead => lead.id));
+      onResolved();
+    } catch (error) {
+      onError('Failed to dismiss duplicates', error instanceof Error ? error.message : undefined);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card
+      title={leadName(group.leads[0])}
+      description={`${group.leads.length} leads with the same ${group.matchedOn.join(' and ')}`}
+    >
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="text-left py-3 px-4 font-medium text-foreground">Keep</th>
+              <th className="text-left py-3 px-4 font-medium text-foreground">Contact</th>
+              <th className="text-left py-3 px-4 font-medium text-foreground">Campaign</th>
+              <th className="text-left py-3 px-4 font-medium text-foreground">Status</th>
+              <th className="text-left py-3 px-4 font-medium text-foreground">Captured</th>
+            </tr>
+          </thead>
+          <tbody>
+            {group.leads.map(lead => (
+              <tr key={lead.id} className="border-b border-border">
+                <td className="py-3 px-4">
+                  <input
+                    type="radio"
+                    name={`survivor-${group.key}`}
+                    checked={lead.id === survivorId}
+                    onChange={() => setSurvivorId(lead.id)}
+                  />
+                </td>
+                <td className="py-3 px-4">
+                  <Link to={`/leads/${lead.id}`} className="font-medium text-foreground hover:text-primary">
+                    {leadName(lead)}
+                  </Link>
+                  {lead.email && <div className="text-sm text-muted-foreground">{lead.email}</div>}
+                  {lead.phone && <div className="text-sm text-muted-foreground">{lead.phone}</div>}
+                </td>
+                <td className="py-3 px-4 text-sm text-muted-foreground">
+                  {lead.campaignName || `Campaign #${lead.campaignId.slice(-8)}`}
+                </td>
+                <td className="py-3 px-4 text-sm text-muted-foreground capitalize">{lead.status}</td>
+                <td className="py-3 px-4 text-sm text-muted-foreground">
+                  {new Date(lead.capturedAt).toLocaleDateString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end space-x-2 mt-6">
+        <Button variant="outline" onClick={dismiss} disabled={submitting}>
+          Not duplicates
+        </Button>
+        <Button onClick={merge} loading={submitting}>
+          Merge into selected
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
+function leadName(lead: Lead): string {
+  return [lead.firstName, lead.lastName].filter(Boolean).join(' ') || lead.email || lead.phone || 'Unnamed lead';
+}
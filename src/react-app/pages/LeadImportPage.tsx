@@ -0,0 +1,342 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { PageLayout, Card } from '../components/PageLayout';
+import { Button, Select } from '../components/Form';
+import { useApi } from '../hooks/useApi';
+import { useToast } from '../contexts/ToastContext';
+import { apiService } from '../services/apiService';
+import type { LeadImport, LeadImportError, LeadImportPreview, LeadImportTarget } from '../types';
+
+const TARGET_OPTIONS: { value: LeadImportTarget; label: string }[] = [
+  { value: 'first_name', label: 'First name' },
+  { value: 'last_name', label: 'Last name' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'company', label: 'Company' },
+  { value: 'custom', label: 'Custom field' },
+  { value: 'ignore', label: "Don't import" }
+];
+
+const POLL_INTERVAL_MS = 2000;
+
+export function LeadImportPage() {
+  const { showToast } = useToast();
+  const [campaignId, setCampaignId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<LeadImportPreview | null>(null);
+  const [mapping, setMapping] = useState<LeadImportTarget[]>([]);
+  const [dripCampaignId, setDripCampaignId] = useState('');
+  const [leadImport, setLeadImport] = useState<LeadImport | null>(null);
+  const [importErrors, setImportErrors] = useState<LeadImportError[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: campaignsData } = useApi(() => apiService.getCampaigns(1, 100), []);
+  const { data: dripCampaignsData } = useApi(() => apiService.getDripCampaigns(1, 100), []);
+
+  // Follow the import until it finishes
+  useEffect(() => {
+    if (leadImport?.status !== 'processing') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        setLeadImport(await apiService.getLeadImport(leadImport.id));
+      } catch (error) {
+        showToast(error instanceof Error ? error.message : 'Failed to load import progress', 'error');
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [leadImport, showToast]);
+
+  // Then load the rows that were left out
+  const reportId = leadImport && leadImport.status !== 'processing' && leadImport.rowsDuplicate + leadImport.rowsFailed > 0
+    ? leadImport.id
+    : undefined;
+  useEffect(() => {
+    if (!reportId) return;
+
+    apiService.getLeadImportErrors(reportId)
+      .then(setImportErrors)
+      .catch(() => setImportErrors([]));
+  }, [reportId]);
+
+  const upload = async () => {
+    if (!file || !campaignId) return;
+
+    setSubmitting(true);
+    try {
+      const uploaded = await apiService.uploadLeadImport(file, campaignId);
+      setPreview(uploaded);
+      setMapping(uploaded.suggestedMapping);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to upload file', 'error');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const start = async () => {
+    if (!preview) return;
+
+    setSubmitting(true);
+    try {
+      setLeadImport(await apiService.startLeadImport(preview.leadImport.id, mapping, dripCampaignId));
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to start import', 'error');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const downloadErrors = async () => {
+    if (!leadImport) return;
+
+    try {
+      const blob = await apiService.downloadLeadImportErrors(leadImport.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${leadImport.fileName.replace(/\.csv$/i, '')}-errors.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to download error report', 'error');
+    }
+  };
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setMapping([]);
+    setDripCampaignId('');
+    setLeadImport(null);
+    setImportErrors([]);
+  };
+
+  const mapped = new Set(mapping);
+  const mappingError = !mapped.has('email') && !mapped.has('phone')
+    ? 'Map a column to email or phone so leads can be contacted'
+    : undefined;
+
+  return (
+    <PageLayout
+      title="Import leads"
+      subtitle="Upload a CSV file, match its columns to lead fields, then import"
+      actions={
+        <Link to="/leads">
+          <Button variant="outline">All leads</Button>
+        </Link>
+      }
+    >
+      {!preview && (
+        <Card title="Upload file" description="CSV with a header row, up to 10 MB">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Select
+              label="Campaign"
+              options={[
+                { value: '', label: 'Choose a campaign' },
+                ...(campaignsData?.items || []).map(campaign => ({ value: campaign.id, label: campaign.name }))
+              ]}
+              value={campaignId}
+              onChange={(e) => setCampaignId(e.target.value)}
+            />
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">CSV file</label>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="block w-full text-sm text-muted-foreground"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end mt-6">
+            <Button onClick={upload} disabled={!file || !campaignId} loading={submitting}>
+              Upload
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {preview && !leadImport && (
+        <Card
+          title="Match columns"
+          description={`${preview.leadImport.fileName}: choose the lead field each column goes into`}
+        >
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-3 px-4 font-medium text-foreground">Column</th>
+                  <th className="text-left py-3 px-4 font-medium text-foreground">Sample values</th>
+                  <th className="text-left py-3 px-4 font-medium text-foreground">Import as</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.leadImport.columns.map((column, index) => (
+                  <tr key={index} className="border-b border-border">
+                    <td className="py-3 px-4 font-medium text-foreground">{column}</td>
+                    <td className="py-3 px-4 text-sm text-muted-foreground">
+                      {preview.rows.map(row => row[index]).filter(Boolean).slice(0, 3).join(', ') || '—'}
+                    </td>
+                    <td className="py-3 px-4">
+                      <Select
+                        options={TARGET_OPTIONS.filter(option =>
+                          option.value === mapping[index] ||
+                          option.value === 'custom' ||
+                          option.value === 'ignore' ||
+                          !mapped.has(option.value)
+                        )}
+                        value={mapping[index]}
+                        onChange={(e) => {
+                          const target = e.target.value as LeadImportTarget;
+                          setMapping(prev => prev.map((value, i) => (i === index ? target : value)));
+                        }}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+            <Select
+              label="Start a drip campaign (optional)"
+              options={[
+                { value: '', label: 'No drip campaign' },
+                ...(dripCampaignsData?.items || [])
+                  .filter(campaign => campaign.status === 'active')
+                  .map(campaign => ({ value: campaign.id, label: campaign.name }))
+              ]}
+              value={dripCampaignId}
+              onChange={(e) => setDripCampaignId(e.target.value)}
+            />
+          </div>
+
+          {mappingError && (
+            <p className="text-sm text-destructive mt-4">{mappingError}</p>
+          )}
+
+          <div className="flex justify-end space-x-2 mt-6">
+            <Button variant="outline" onClick={reset}>
+              Choose another file
+            </Button>
+            <Button onClick={start} disabled={!!mappingError} loading={submitting}>
+              Import leads
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {leadImport && (
+        <ImportProgress
+          leadImport={leadImport}
+          errors={importErrors}
+          onDownloadErrors={downloadErrors}
+          onReset={reset}
+        />
+      )}
+    </PageLayout>
+  );
+}
+
+function ImportProgress({
+  leadImport,
+  errors,
+  onDownloadErrors,
+  onReset
+}: {
+  leadImport: LeadImport;
+  errors: LeadImportError[];
+  onDownloadErrors: () => void;
+  onReset: () => void;
+}) {
+  const percent = leadImport.status === 'completed'
+    ? 100
+    : Math.floor((leadImport.bytesProcessed / Math.max(leadImport.fileSize, 1)) * 100);
+  const problemRows = leadImport.rowsDuplicate + leadImport.rowsFailed;
+
+  return (
+    <>
+      <Card
+        title={leadImport.status === 'processing' ? 'Importing...' : leadImport.status === 'completed' ? 'Import complete' : 'Import failed'}
+        description={leadImport.fileName}
+        className="mb-6"
+      >
+        <div className="w-full bg-secondary rounded-full h-2 mb-4">
+          <div className="bg-primary h-2 rounded-full" style={{ width: `${percent}%` }} />
+        </div>
+
+        {leadImport.errorMessage && (
+          <p className="text-sm text-destructive mb-4">{leadImport.errorMessage}</p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Rows read" value={leadImport.rowsProcessed} />
+          <Stat label="Imported" value={leadImport.rowsImported} />
+          <Stat label="Duplicates" value={leadImport.rowsDuplicate} />
+          <Stat label="Invalid" value={leadImport.rowsFailed} />
+        </div>
+
+        {leadImport.status !== 'processing' && (
+          <div className="flex justify-end space-x-2 mt-6">
+            {problemRows > 0 && (
+              <Button variant="outline" onClick={onDownloadErrors}>
+                Download error report
+              </Button>
+            )}
+            <Button variant="outline" onClick={onReset}>
+              Import another file
+            </Button>
+            <Link to="/leads">
+              <Button>View leads</Button>
+            </Link>
+          </div>
+        )}
+      </Card>
+
+      {errors.length > 0 && (
+        <Card
+          title="Rows not imported"
+          description={problemRows > errors.length ? `First ${errors.length} of ${problemRows}; download the report for all of them` : undefined}
+        >
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-3 px-4 font-medium text-foreground">Row</th>
+                  <th className="text-left py-3 px-4 font-medium text-foreground">Problem</th>
+                  <th className="text-left py-3 px-4 font-medium text-foreground">Values</th>
+                </tr>
+              </thead>
+              <tbody>
+                {errors.map(error => (
+                  <tr key={error.id} className="border-b border-border">
+                    <td className="py-3 px-4 text-sm text-foreground">{error.rowNumber}</td>
+                    <td className="py-3 px-4 text-sm">
+                      <span className={error.type === 'duplicate' ? 'text-muted-foreground' : 'text-destructive'}>
+                        {error.message}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-muted-foreground">
+                      {error.values.filter(Boolean).join(', ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: number }) {
+  return (
+    <div>
+      <div className="text-2xl font-bold text-foreground">{value}</div>
+      <div className="text-sm text-muted-foreground">{label}</div>
+    </div>
+  );
+}
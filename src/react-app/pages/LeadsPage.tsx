@@ -1,68 +1,146 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { PageLayout, Card, EmptyState } from '../components/PageLayout';
 import { Button, Input, Select } from '../components/Form';
 import { LoadingSpinner } from '../components/LoadingSpinner';
-import { useApi, usePagination } from '../hooks/useApi';
+import { useApi } from '../hooks/useApi';
+import { useToast } from '../contexts/ToastContext';
 import { apiService } from '../services/apiService';
-import type { Lead } from '../types';
+import type { Lead, LeadExportFormat, LeadFilters } from '../types';
+
+const PAGE_SIZE = 20;
+const EXPORT_POLL_MS = 2000;
 
 export function LeadsPage() {
+  const { showToast } = useToast();
+  const [exporting, setExporting] = useState(false);
   const [filters, setFilters] = useState({
     campaignId: '',
     search: '',
-    status: ''
+    status: '',
+    from: '',
+    to: '',
+    sort: 'captured_at:desc'
   });
-  
-  const { page, limit, nextPage, prevPage } = usePagination();
-  
+  // Search runs on the server, so wait for typing to pause
+  const [search, setSearch] = useState('');
+  // Cursors for the pages visited so far; the last one is the current page
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(filters.search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [filters.search]);
+
+  const [sort, order] = filters.sort.split(':') as [LeadFilters['sort'], LeadFilters['order']];
+  const query: LeadFilters = {
+    search,
+    status: (filters.status || undefined) as LeadFilters['status'],
+    campaignId: filters.campaignId,
+    from: filters.from,
+    to: filters.to,
+    sort,
+    order
+  };
+  const queryKey = JSON.stringify(query);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setCursors([undefined]);
+  }, [queryKey]);
+
+  const cursor = cursors[cursors.length - 1];
   const { 
     data: leadsData, 
     loading, 
     error, 
     refetch 
   } = useApi(() => 
-    apiService.getLeads(page, limit, filters.campaignId || undefined), 
-    [page, limit, filters.campaignId]
+    apiService.getLeads(query, PAGE_SIZE, cursor), 
+    [queryKey, cursor]
   );
 
+  const { data: campaignsData } = useApi(() => apiService.getCampaigns(1, 100), []);
+
   const leads = leadsData?.items || [];
   const total = leadsData?.total || 0;
-  const totalPages = Math.ceil(total / limit);
-
-  // Filter leads based on search and status
-  const filteredLeads = leads.filter(lead => {
-    const matchesSearch = !filters.search || 
-      lead.email?.toLowerCase().includes(filters.search.toLowerCase()) ||
-      lead.phone?.includes(filters.search);
-    
-    const matchesStatus = !filters.status || lead.status === filters.status;
-    
-    return matchesSearch && matchesStatus;
-  });
+  const page = cursors.length;
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+  const hasFilters = !!(search || filters.status || filters.campaignId || filters.from || filters.to);
+
+  const nextPage = () => {
+    if (leadsData?.nextCursor) {
+      setCursors(prev => [...prev, leadsData.nextCursor]);
+    }
+  };
+  const prevPage = () => setCursors(prev => (prev.length > 1 ? prev.slice(0, -1) : prev));
+
+  // Exports use the current filters and sort. Large ones are prepared on the
+  // server; wait for them, then follow the download link.
+  const exportLeads = async (format: LeadExportFormat) => {
+    setExporting(true);
+    try {
+      const result = await apiService.exportLeads(query, format);
+      if ('file' in result) {
+        saveFile(result.file, result.fileName);
+        return;
+      }
+
+      showToast('Preparing your export', 'info', 'The download will start when it is ready');
+      let leadExport = result.leadExport;
+      while (leadExport.status === 'processing') {
+        await new Promise(resolve => setTimeout(resolve, EXPORT_POLL_MS));
+        leadExport = await apiService.getLeadExport(leadExport.id);
+      }
+
+      if (leadExport.downloadUrl) {
+        window.location.assign(leadExport.downloadUrl);
+      } else {
+        showToast('Export failed', 'error', leadExport.errorMessage);
+      }
+    } catch (error) {
+      showToast('Export failed', 'error', error instanceof Error ? error.message : undefined);
+    } finally {
+      setExporting(false);
+    }
+  };
 
   return (
     <PageLayout
       title="Leads"
       subtitle="Manage and track your captured leads"
       actions={
-        <Button onClick={() => refetch()}>
-          Refresh
-        </Button>
+        <>
+          <Link to="/leads/duplicates">
+            <Button variant="outline">Review duplicates</Button>
+          </Link>
+          <Link to="/leads/import">
+            <Button variant="outline">Import CSV</Button>
+          </Link>
+          <Button variant="outline" onClick={() => exportLeads('csv')} loading={exporting} disabled={total === 0}>
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => exportLeads('ndjson')} disabled={exporting || total === 0}>
+            Export JSON
+          </Button>
+          <Button onClick={() => refetch()}>
+            Refresh
+          </Button>
+        </>
       }
     >
       {/* Filters */}
       <Card className="mb-6">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <Input
-            placeholder="Search by email or phone..."
+            placeholder="Search by name, email, phone or company..."
             value={filters.search}
             onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
           />
           <Select
             options={[
               { value: '', label: 'All Campaigns' },
-              { value: 'campaign1', label: 'Campaign 1' },
-              { value: 'campaign2', label: 'Campaign 2' }
+              ...(campaignsData?.items || []).map(campaign => ({ value: campaign.id, label: campaign.name }))
             ]}
             value={filters.campaignId}
             onChange={(e) => setFilters(prev => ({ ...prev, campaignId: e.target.value }))}
@@ -77,6 +155,30 @@ export function LeadsPage() {
             value={filters.status}
             onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value }))}
           />
+          <Input
+            type="date"
+            label="Captured from"
+            value={filters.from}
+            onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+          />
+          <Input
+            type="date"
+            label="Captured to"
+            value={filters.to}
+            onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+          />
+          <Select
+            label="Sort by"
+            options={[
+              { value: 'captured_at:desc', label: 'Newest first' },
+              { value: 'captured_at:asc', label: 'Oldest first' },
+              { value: 'name:asc', label: 'Name (A–Z)' },
+              { value: 'name:desc', label: 'Name (Z–A)' },
+              { value: 'email:asc', label: 'Email (A–Z)' }
+            ]}
+            value={filters.sort}
+            onChange={(e) => setFilters(prev => ({ ...prev, sort: e.target.value }))}
+          />
         </div>
       </Card>
 
@@ -93,11 +195,11 @@ export function LeadsPage() {
         <div className="flex justify-center py-12">
           <LoadingSpinner size="lg" text="Loading leads..." />
         </div>
-      ) : filteredLeads.length === 0 ? (
+      ) : leads.length === 0 ? (
         <Card>
           <EmptyState
             title="No leads found"
-            description={filters.search || filters.status ? 
+            description={hasFilters ? 
               "Try adjusting your filters to see more leads" : 
               "Leads will appear here once your campaigns start capturing them"
             }
@@ -125,7 +227,7 @@ export function LeadsPage() {
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredLeads.map((lead) => (
+                  {leads.map((lead) => (
                     <LeadRow key={lead.id} lead={lead} />
                   ))}
                 </tbody>
@@ -137,7 +239,7 @@ export function LeadsPage() {
           {totalPages > 1 && (
             <div className="flex items-center justify-between mt-6">
               <div className="text-sm text-muted-foreground">
-                Showing {filteredLeads.length} of {total} leads
+                Showing {(page - 1) * PAGE_SIZE + 1}–{(page - 1) * PAGE_SIZE + leads.length} of {total} leads
               </div>
               <div className="flex items-center space-x-2">
                 <Button
@@ -155,7 +257,7 @@ export function LeadsPage() {
                   variant="outline"
                   size="sm"
                   onClick={nextPage}
-                  disabled={page === totalPages}
+                  disabled={!leadsData?.nextCursor}
                 >
                   Next
                 </Button>
@@ -168,6 +270,15 @@ export function LeadsPage() {
   );
 }
 
+function saveFile(file: Blob, fileName: string) {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 function LeadRow({ lead }: { lead: Lead }) {
   const statusColors = {
     active: 'bg-green-100 text-green-800',
@@ -179,7 +290,12 @@ function LeadRow({ lead }: { lead: Lead }) {
     <tr className="border-b border-border hover:bg-secondary/50">
       <td className="py-3 px-4">
         <div>
-          <div className="font-medium text-foreground">{lead.email}</div>
+          <Link to={`/leads/${lead.id}`} className="font-medium text-foreground hover:text-primary">
+            {[lead.firstName, lead.lastName].filter(Boolean).join(' ') || lead.email}
+          </Link>
+          {(lead.firstName || lead.lastName) && lead.email && (
+            <div className="text-sm text-muted-foreground">{lead.email}</div>
+          )}
           {lead.phone && (
             <div className="text-sm text-muted-foreground">{lead.phone}</div>
           )}
@@ -187,7 +303,7 @@ function LeadRow({ lead }: { lead: Lead }) {
       </td>
       <td className="py-3 px-4">
         <span className="text-sm text-muted-foreground">
-          Campaign #{lead.campaignId.slice(-8)}
+          {lead.campaignName || `Campaign #${lead.campaignId.slice(-8)}`}
         </span>
       </td>
       <td className="py-3 px-4">
@@ -206,22 +322,11 @@ function LeadRow({ lead }: { lead: Lead }) {
         </span>
       </td>
       <td className="py-3 px-4">
-        <div className="flex items-center space-x-2">
-          <Button
-            size="sm"
-            variant="outline"
-            onClick={() => window.location.href = `/leads/${lead.id}`}
-          >
-            View
+        <Link to={`/leads/${lead.id}`}>
+          <Button size="sm" variant="outline">
+            View timeline
           </Button>
-          <Button
-            size="sm"
-            variant="outline"
-            onClick={() => window.location.href = `/leads/${lead.id}/journey`}
-          >
-            Journey
-          </Button>
-        </div>
+        </Link>
       </td>
     </tr>
   );
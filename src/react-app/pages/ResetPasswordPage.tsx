@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { AuthLayout } from '../components/AuthLayout';
+import { apiService } from '../services/apiService';
+
+export function ResetPasswordPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [done, setDone] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await apiService.resetPassword(token, password);
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <AuthLayout title="Reset link missing">
+        <p className="auth-message">
+          Open the link from your reset email, or <a href="/forgot-password" className="auth-link">request a new one</a>.
+        </p>
+      </AuthLayout>
+    );
+  }
+
+  if (done) {
+    return (
+      <AuthLayout title="Password updated">
+        <p className="auth-message">You can now sign in with your new password.</p>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout title="Choose a new password">
+      <form className="auth-form" onSubmit={handleSubmit}>
+        <div className="form-group">
+          <label htmlFor="password">New password</label>
+          <div className="input-group">
+            <input
+              id="password"
+              name="password"
+              type="password"
+              required
+              minLength={8}
+              placeholder="At least 8 characters"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="confirmPassword">Confirm password</label>
+          <div className="input-group">
+            <input
+              id="confirmPassword"
+              name="confirmPassword"
+              type="password"
+              required
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="auth-error">
+            {error}
+            {error.includes('expired') && (
+              <> — <a href="/forgot-password" className="auth-link">request a new link</a></>
+            )}
+          </div>
+        )}
+
+        <div className="form-actions">
+          <button type="submit" disabled={loading} className="btn btn-primary btn-full">
+            {loading && <div className="btn-spinner"></div>}
+            {loading ? 'Saving...' : 'Update password'}
+          </button>
+        </div>
+      </form>
+    </AuthLayout>
+  );
+}
@@ -1,19 +1,52 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { PageLayout, Card } from '../components/PageLayout';
-import { Form, Input, Button } from '../components/Form';
+import { Form, Input, Select, Button } from '../components/Form';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
-import { useAsyncAction } from '../hooks/useApi';
+import { useApi, useAsyncAction } from '../hooks/useApi';
 import { apiService } from '../services/apiService';
+import type { MetaConnection, Session } from '../types';
 
 export function SettingsPage() {
-  const [activeTab, setActiveTab] = useState<'profile' | 'api' | 'notifications'>('profile');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { showToast } = useToast();
+  const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'api' | 'notifications'>(
+    searchParams.has('meta') ? 'api' : 'profile'
+  );
+  const metaConnection = useApi(() => apiService.getMetaConnection(), []);
+
+  // Facebook Login redirects back here with ?meta=connected|error
+  useEffect(() => {
+    const result = searchParams.get('meta');
+    if (!result) return;
+
+    if (result === 'connected') {
+      showToast('Facebook account connected. Choose an ad account and page to finish.', 'success');
+    } else {
+      showToast('Could not connect your Facebook account. Please try again.', 'error');
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams, showToast]);
 
   return (
     <PageLayout
       title="Settings"
       subtitle="Manage your account settings and API configurations"
     >
+      {metaConnection.data?.needsReconnect && (
+        <div className="mb-6 p-4 rounded-md border border-yellow-300 bg-yellow-50 flex items-center justify-between gap-4">
+          <p className="text-sm text-yellow-800">
+            {metaConnection.data.status === 'invalid'
+              ? 'Your Facebook connection has expired. Reconnect to keep launching ads and receiving leads.'
+              : 'Your Facebook connection expires soon. Reconnect to keep launching ads and receiving leads.'}
+          </p>
+          <Button size="sm" variant="outline" onClick={() => setActiveTab('api')}>
+            Reconnect
+          </Button>
+        </div>
+      )}
+
       <div className="flex flex-col lg:flex-row gap-8">
         {/* Sidebar Navigation */}
         <div className="lg:w-64 flex-shrink-0">
@@ -24,6 +57,12 @@ export function SettingsPage() {
             >
               Profile Settings
             </NavButton>
+            <NavButton
+              active={activeTab === 'security'}
+              onClick={() => setActiveTab('security')}
+            >
+              Security
+            </NavButton>
             <NavButton
               active={activeTab === 'api'}
               onClick={() => setActiveTab('api')}
@@ -42,7 +81,10 @@ export function SettingsPage() {
         {/* Main Content */}
         <div className="flex-1">
           {activeTab === 'profile' && <ProfileSettings />}
-          {activeTab === 'api' && <ApiSettings />}
+          {activeTab === 'security' && <SecuritySettings />}
+          {activeTab === 'api' && (
+            <ApiSettings metaConnection={metaConnection.data} onMetaChange={metaConnection.refetch} />
+          )}
           {activeTab === 'notifications' && <NotificationSettings />}
         </div>
       </div>
@@ -86,6 +128,19 @@ function ProfileSettings() {
   const { execute: updateProfile, loading } = useAsyncAction(
     (_data: typeof formData) => apiService.getCurrentUser() // TODO: Implement updateProfile endpoint
   );
+  const { execute: resendVerification, loading: resending } = useAsyncAction(
+    () => apiService.resendVerification()
+  );
+
+  const handleResendVerification = async () => {
+    // null means the request failed
+    const result = await resendVerification();
+    if (result !== null) {
+      showToast(`Verification email sent to ${user?.email}`, 'success');
+    } else {
+      showToast('Could not send verification email', 'error');
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -128,6 +183,14 @@ function ProfileSettings() {
           disabled
           description="Email cannot be changed after registration"
         />
+        {user?.emailVerified === false && (
+          <div className="flex items-center justify-between gap-4 p-3 rounded-md border border-yellow-300 bg-yellow-50">
+            <p className="text-sm text-yellow-800">Your email address hasn't been verified yet.</p>
+            <Button type="button" size="sm" variant="outline" onClick={handleResendVerification} loading={resending}>
+              Resend link
+            </Button>
+          </div>
+        )}
         
         <Input
           label="Company"
@@ -146,13 +209,91 @@ function ProfileSettings() {
   );
 }
 
-function ApiSettings() {
+function SecuritySettings() {
+  const { logoutEverywhere } = useAuth();
+  const { showToast } = useToast();
+  const { data: sessions, loading, error, refetch } = useApi(() => apiService.getSessions(), []);
+
+  const { execute: revoke, loading: revoking } = useAsyncAction(
+    (id: string) => apiService.revokeSession(id)
+  );
+  const { execute: logoutAll, loading: loggingOut } = useAsyncAction(() => logoutEverywhere());
+
+  const handleRevoke = async (session: Session) => {
+    // null means the request failed
+    const result = await revoke(session.id);
+    if (result !== null) {
+      showToast('Device signed out', 'success');
+      await refetch();
+    } else {
+      showToast('Could not sign out that device', 'error');
+    }
+  };
+
+  const handleLogoutAll = async () => {
+    if (!window.confirm('Sign out of LeadFuego on every device, including this one?')) return;
+    await logoutAll();
+  };
+
+  return (
+    <Card
+      title="Active Sessions"
+      description="Devices currently signed in to your account"
+    >
+      <div className="space-y-4">
+        {loading && <p className="text-sm text-muted-foreground">Loading sessions…</p>}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {sessions?.map(session => (
+          <div key={session.id} className="flex items-center justify-between py-3 border-b border-border last:border-0">
+            <div>
+              <h4 className="font-medium text-foreground">
+                {describeDevice(session.userAgent)}
+                {session.current && <span className="ml-2 text-xs text-primary">This device</span>}
+              </h4>
+              <p className="text-sm text-muted-foreground">
+                {session.ipAddress ? `${session.ipAddress} · ` : ''}
+                Last active {new Date(session.lastUsedAt).toLocaleString()}
+              </p>
+            </div>
+            {!session.current && (
+              <Button size="sm" variant="outline" onClick={() => handleRevoke(session)} disabled={revoking}>
+                Sign out
+              </Button>
+            )}
+          </div>
+        ))}
+
+        <div className="flex justify-end">
+          <Button variant="destructive" onClick={handleLogoutAll} loading={loggingOut}>
+            Log Out Everywhere
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+// Short browser/OS label from a user agent string
+function describeDevice(userAgent?: string): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = ['Edg', 'Chrome', 'Firefox', 'Safari'].find(name => userAgent.includes(`${name}/`));
+  const os = ['Windows', 'Mac OS', 'iPhone', 'Android', 'Linux'].find(name => userAgent.includes(name));
+  const browserName = browser === 'Edg' ? 'Edge' : browser;
+
+  return [browserName, os].filter(Boolean).join(' on ') || 'Unknown device';
+}
+
+function ApiSettings({
+  metaConnection,
+  onMetaChange
+}: {
+  metaConnection: MetaConnection | null;
+  onMetaChange: () => Promise<void>;
+}) {
   const { showToast } = useToast();
   const [formData, setFormData] = useState({
-    metaAccessToken: '',
-    metaAdAccountId: '',
-    metaAppId: '',
-    metaAppSecret: '',
     openaiApiKey: '',
     twilioAccountSid: '',
     twilioAuthToken: '',
@@ -180,39 +321,7 @@ function ApiSettings() {
 
   return (
     <div className="space-y-6">
-      <Card title="Meta API Configuration" description="Configure your Meta Marketing API credentials">
-        <Form>
-          <Input
-            label="Access Token"
-            type="password"
-            value={formData.metaAccessToken}
-            onChange={handleChange('metaAccessToken')}
-            placeholder="Enter your Meta access token"
-            description="Your Meta Marketing API access token"
-          />
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <Input
-              label="Ad Account ID"
-              value={formData.metaAdAccountId}
-              onChange={handleChange('metaAdAccountId')}
-              placeholder="act_1234567890"
-            />
-            <Input
-              label="App ID"
-              value={formData.metaAppId}
-              onChange={handleChange('metaAppId')}
-              placeholder="Enter your app ID"
-            />
-          </div>
-          <Input
-            label="App Secret"
-            type="password"
-            value={formData.metaAppSecret}
-            onChange={handleChange('metaAppSecret')}
-            placeholder="Enter your app secret"
-          />
-        </Form>
-      </Card>
+      <MetaSettings connection={metaConnection} onChange={onMetaChange} />
 
       <Card title="OpenAI Configuration" description="Configure your OpenAI API for content generation">
         <Form>
@@ -264,6 +373,135 @@ function ApiSettings() {
   );
 }
 
+function MetaSettings({
+  connection,
+  onChange
+}: {
+  connection: MetaConnection | null;
+  onChange: () => Promise<void>;
+}) {
+  const { showToast } = useToast();
+  const [selection, setSelection] = useState({ adAccountId: '', pageId: '' });
+  const accounts = useApi(
+    () => connection?.connected ? apiService.getMetaAccounts() : Promise.resolve(null),
+    [connection?.connected]
+  );
+
+  useEffect(() => {
+    setSelection({
+      adAccountId: connection?.adAccountId || '',
+      pageId: connection?.pageId || ''
+    });
+  }, [connection?.adAccountId, connection?.pageId]);
+
+  const { execute: connect, loading: connecting } = useAsyncAction(
+    () => apiService.startMetaOAuth()
+  );
+  const { execute: selectAccount, loading: saving, error: saveError } = useAsyncAction(
+    (adAccountId: string, pageId: string) => apiService.selectMetaAccount(adAccountId, pageId)
+  );
+
+  const handleConnect = async () => {
+    const url = await connect();
+    if (url) {
+      window.location.href = url;
+    } else {
+      showToast('Facebook Login is not available right now', 'error');
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selection.adAccountId || !selection.pageId) return;
+
+    // null means the action failed; the error is reported below
+    const result = await selectAccount(selection.adAccountId, selection.pageId);
+    if (result !== null) {
+      showToast('Ad account and page connected', 'success');
+      await onChange();
+    }
+  };
+
+  useEffect(() => {
+    if (saveError) showToast(saveError, 'error');
+  }, [saveError, showToast]);
+
+  const expiresOn = connection?.expiresAt
+    ? new Date(connection.expiresAt).toLocaleDateString()
+    : null;
+
+  return (
+    <Card
+      title="Meta Ads"
+      description="Connect the Facebook account that owns your ad account and lead form page"
+    >
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="text-sm">
+            {connection?.connected ? (
+              <p className="text-foreground">
+                Connected{connection.connectedVia === 'oauth' ? ' with Facebook' : ' with an access token'}
+                {expiresOn && <span className="text-muted-foreground"> · access expires {expiresOn}</span>}
+              </p>
+            ) : (
+              <p className="text-muted-foreground">Not connected</p>
+            )}
+            {connection?.error && <p className="text-xs text-destructive">{connection.error}</p>}
+          </div>
+          <Button
+            variant={connection?.connected && !connection.needsReconnect ? 'outline' : 'primary'}
+            onClick={handleConnect}
+            loading={connecting}
+          >
+            {connection?.connected ? 'Reconnect with Facebook' : 'Connect with Facebook'}
+          </Button>
+        </div>
+
+        {connection?.connected && (
+          <Form onSubmit={handleSave}>
+            {accounts.error && <p className="text-sm text-destructive">{accounts.error}</p>}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select
+                label="Ad Account"
+                value={selection.adAccountId}
+                onChange={(e) => setSelection(prev => ({ ...prev, adAccountId: e.target.value }))}
+                disabled={accounts.loading}
+                options={[
+                  { value: '', label: accounts.loading ? 'Loading…' : 'Select an ad account' },
+                  ...(accounts.data?.adAccounts || []).map(account => ({
+                    value: account.id,
+                    label: `${account.name} (${account.id})`
+                  }))
+                ]}
+              />
+              <Select
+                label="Facebook Page"
+                value={selection.pageId}
+                onChange={(e) => setSelection(prev => ({ ...prev, pageId: e.target.value }))}
+                disabled={accounts.loading}
+                description="New lead form submissions on this page are captured automatically"
+                options={[
+                  { value: '', label: accounts.loading ? 'Loading…' : 'Select a page' },
+                  ...(accounts.data?.pages || []).map(page => ({ value: page.id, label: page.name }))
+                ]}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                loading={saving}
+                disabled={!selection.adAccountId || !selection.pageId}
+              >
+                Save Selection
+              </Button>
+            </div>
+          </Form>
+        )}
+      </div>
+    </Card>
+  );
+}
+
 function NotificationSettings() {
   const { showToast } = useToast();
   const [settings, setSettings] = useState({
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { AuthLayout } from '../components/AuthLayout';
+import { apiService } from '../services/apiService';
+
+export function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState(token ? '' : 'Verification link is missing its token');
+
+  useEffect(() => {
+    if (!token) return;
+
+    apiService.verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Verification failed');
+        setStatus('failed');
+      });
+  }, [token]);
+
+  if (status === 'verifying') {
+    return (
+      <AuthLayout title="Verifying your email">
+        <p className="auth-message">One moment...</p>
+      </AuthLayout>
+    );
+  }
+
+  if (status === 'verified') {
+    return (
+      <AuthLayout title="Email verified">
+        <p className="auth-message">Thanks for confirming your email address.</p>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout title="Couldn't verify email">
+      <p className="auth-error">{error}</p>
+      <p className="auth-message">You can send a new link from Settings after signing in.</p>
+    </AuthLayout>
+  );
+}
@@ -1,34 +1,299 @@
 import type {
   User,
   Campaign,
+  AdCreative,
+  CreativePreview,
   Lead,
+  LeadFilters,
+  LeadDuplicateGroup,
+  LeadTimeline,
+  LeadTimelineEvent,
+  LeadImport,
+  LeadImportError,
+  LeadImportPreview,
+  LeadImportTarget,
+  LeadExport,
+  LeadExportFormat,
+  CursorPage,
   DripCampaign,
   DripStep,
   LeadJourney,
+  SkippedStep,
   DashboardStats,
   AuthResponse,
   PaginatedResponse,
   CreateCampaignData,
-  CreateDripCampaignData
+  CreateDripCampaignData,
+  MetaConnection,
+  MetaAdAccount,
+  MetaPage,
+  Session,
+  ApiResponse
 } from '../types';
 
+interface SessionRow {
+  id: string;
+  user_agent?: string;
+  ip_address?: string;
+  created_at: number;
+  last_used_at: number;
+  expires_at: number;
+  current: boolean;
+}
+
+// Creative rows come back from the worker in database (snake_case) shape
+interface AdCreativeRow {
+  id: string;
+  campaign_id: string;
+  meta_creative_id?: string;
+  type: AdCreative['type'];
+  primary_text?: string;
+  headline?: string;
+  description?: string;
+  image_url?: string;
+  image_hash?: string;
+  call_to_action: string;
+  generation_prompt?: string;
+  ai_model_used?: string;
+  performance_score?: number;
+  status: AdCreative['status'];
+  reviewed_by?: string;
+  reviewed_at?: number;
+  rejection_reason?: string;
+  created_at: number;
+}
+
+function mapCreative(row: AdCreativeRow): AdCreative {
+  return {
+    id: row.id,
+    campaignId: row.campaign_id,
+    metaCreativeId: row.meta_creative_id,
+    type: row.type,
+    primaryText: row.primary_text,
+    headline: row.headline,
+    description: row.description,
+    imageUrl: row.image_url,
+    imageHash: row.image_hash,
+    callToAction: row.call_to_action,
+    generationPrompt: row.generation_prompt,
+    aiModelUsed: row.ai_model_used,
+    performanceScore: row.performance_score,
+    status: row.status,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    rejectionReason: row.rejection_reason,
+    createdAt: row.created_at
+  };
+}
+
+// Lead rows come back in database shape, with custom fields as a JSON column
+interface LeadRow {
+  id: string;
+  campaign_id: string;
+  campaign_name?: string;
+  meta_lead_id?: string;
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  custom_fields?: string;
+  captured_at: number;
+  status: Lead['status'];
+  sms_consent?: Lead['smsConsent'];
+  merged_into?: string;
+  merged_at?: number;
+}
+
+function mapLead(row: LeadRow): Lead {
+  let customFields: Record<string, unknown> | undefined;
+  try {
+    customFields = row.custom_fields ? JSON.parse(row.custom_fields) : undefined;
+  } catch {
+    customFields = undefined;
+  }
+
+  return {
+    id: row.id,
+    campaignId: row.campaign_id,
+    campaignName: row.campaign_name,
+    metaLeadId: row.meta_lead_id,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    email: row.email,
+    phone: row.phone,
+    company: row.company,
+    source: row.meta_lead_id ? 'meta' : 'manual',
+    customFields,
+    capturedAt: row.captured_at,
+    status: row.status,
+    smsConsent: row.sms_consent,
+    mergedInto: row.merged_into,
+    mergedAt: row.merged_at
+  };
+}
+
+// Import rows come back in database shape, with columns and mapping as JSON columns
+interface LeadImportRow {
+  id: string;
+  campaign_id: string;
+  drip_campaign_id?: string;
+  file_name: string;
+  file_size: number;
+  byte_offset: number;
+  columns: string;
+  mapping?: string;
+  status: LeadImport['status'];
+  rows_processed: number;
+  rows_imported: number;
+  rows_duplicate: number;
+  rows_failed: number;
+  error_message?: string;
+  created_at: number;
+  completed_at?: number;
+}
+
+function mapLeadImport(row: LeadImportRow): LeadImport {
+  return {
+    id: row.id,
+    campaignId: row.campaign_id,
+    dripCampaignId: row.drip_campaign_id,
+    fileName: row.file_name,
+    fileSize: row.file_size,
+    bytesProcessed: row.byte_offset,
+    columns: JSON.parse(row.columns),
+    mapping: row.mapping ? JSON.parse(row.mapping) : undefined,
+    status: row.status,
+    rowsProcessed: row.rows_processed,
+    rowsImported: row.rows_imported,
+    rowsDuplicate: row.rows_duplicate,
+    rowsFailed: row.rows_failed,
+    errorMessage: row.error_message,
+    createdAt: row.created_at,
+    completedAt: row.completed_at
+  };
+}
+
+interface LeadImportErrorRow {
+  id: string;
+  row_number: number;
+  type: LeadImportError['type'];
+  message: string;
+  row_data?: string;
+}
+
+interface LeadExportRow {
+  id: string;
+  format: LeadExportFormat;
+  status: LeadExport['status'];
+  row_count: number;
+  file_size?: number;
+  error_message?: string;
+  created_at: number;
+  completed_at?: number;
+  expires_at?: number;
+  download_url?: string;
+  download_expires_at?: number;
+}
+
+function mapLeadExport(row: LeadExportRow): LeadExport {
+  return {
+    id: row.id,
+    format: row.format,
+    status: row.status,
+    rowCount: row.row_count,
+    fileSize: row.file_size,
+    errorMessage: row.error_message,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+    expiresAt: row.expires_at,
+    downloadUrl: row.download_url,
+    downloadExpiresAt: row.download_expires_at
+  };
+}
+
+// Journey rows come back in database shape, with skipped steps as a JSON column
+interface LeadJourneyRow {
+  id: string;
+  lead_id: string;
+  campaign_id: string;
+  current_step: number;
+  status: LeadJourney['status'];
+  status_reason?: string;
+  skipped_steps?: string;
+  started_at: number;
+  completed_at?: number;
+  last_interaction_at?: number;
+  response_at?: number;
+  total_sms_sent: number;
+  total_emails_sent: number;
+  total_opens: number;
+  total_clicks: number;
+  conversion_event?: string;
+  converted_at?: number;
+  created_at: number;
+  updated_at: number;
+}
+
+function mapJourney(row: LeadJourneyRow): LeadJourney {
+  const skipped: Array<{ step_number: number; channel: SkippedStep['channel']; action: SkippedStep['action']; reason: string; at: number }> =
+    row.skipped_steps ? JSON.parse(row.skipped_steps) : [];
+
+  return {
+    id: row.id,
+    leadId: row.lead_id,
+    campaignId: row.campaign_id,
+    currentStep: row.current_step,
+    status: row.status,
+    statusReason: row.status_reason,
+    skippedSteps: skipped.map(step => ({
+      stepNumber: step.step_number,
+      channel: step.channel,
+      action: step.action,
+      reason: step.reason,
+      at: step.at
+    })),
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    lastInteractionAt: row.last_interaction_at,
+    responseAt: row.response_at,
+    totalSmsSent: row.total_sms_sent,
+    totalEmailsSent: row.total_emails_sent,
+    totalOpens: row.total_opens,
+    totalClicks: row.total_clicks,
+    conversionEvent: row.conversion_event,
+    convertedAt: row.converted_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
 class ApiService {
   private baseUrl: string;
+  // Short-lived access token, kept in memory only; the refresh token is an HttpOnly cookie
+  private accessToken: string | null = null;
+  private refreshing: Promise<AuthResponse | null> | null = null;
 
   constructor() {
     this.baseUrl = '/api';
   }
 
+  setAccessToken(token: string | null) {
+    this.accessToken = token;
+  }
+
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    retryOnUnauthorized = true
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
-    const token = localStorage.getItem('auth_token');
+    const token = this.accessToken;
 
     const config: RequestInit = {
       headers: {
-        'Content-Type': 'application/json',
+        // File uploads need the browser to set the multipart boundary
+        ...(!(options.body instanceof FormData) && { 'Content-Type': 'application/json' }),
         ...(token && { Authorization: `Bearer ${token}` }),
         ...options.headers,
       },
@@ -37,6 +302,14 @@ class ApiService {
 
     try {
       const response = await fetch(url, config);
+
+      // Access token expired or revoked: refresh once and retry
+      if (response.status === 401 && retryOnUnauthorized && token) {
+        const refreshed = await this.refreshSession();
+        if (refreshed) {
+          return this.request<T>(endpoint, options, false);
+        }
+      }
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ 
@@ -52,12 +325,99 @@ class ApiService {
     }
   }
 
+  // Fetch with the access token, for responses that aren't JSON such as file downloads
+  private async fetchWithAuth(endpoint: string, options: RequestInit = {}, retryOnUnauthorized = true): Promise<Response> {
+    const token = this.accessToken;
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      ...options,
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers
+      }
+    });
+
+    if (response.status === 401 && retryOnUnauthorized && token) {
+      const refreshed = await this.refreshSession();
+      if (refreshed) {
+        return this.fetchWithAuth(endpoint, options, false);
+      }
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({
+        error: `HTTP ${response.status}: ${response.statusText}`
+      }));
+      throw new Error(errorData.error || `Request failed: ${response.status}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Get a new access token from the refresh cookie. Concurrent callers share
+   * one request, since each refresh rotates the cookie.
+   */
+  async refreshSession(): Promise<AuthResponse | null> {
+    if (!this.refreshing) {
+      this.refreshing = fetch(`${this.baseUrl}/auth/refresh`, { method: 'POST' })
+        .then(async (response) => {
+          if (!response.ok) {
+            this.accessToken = null;
+            return null;
+          }
+          const data: AuthResponse = await response.json();
+          this.accessToken = data.token || null;
+          return data;
+        })
+        .catch(() => null)
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
   // Authentication endpoints
   async login(email: string, password: string): Promise<AuthResponse> {
-    return this.request<AuthResponse>('/auth/login', {
+    const response = await this.request<AuthResponse>('/auth/login', {
       method: 'POST',
       body: JSON.stringify({ email, password }),
     });
+    this.accessToken = response.token || null;
+    return response;
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await this.request<ApiResponse>('/auth/logout', { method: 'POST' }, false);
+    } finally {
+      this.accessToken = null;
+    }
+  }
+
+  async logoutEverywhere(): Promise<void> {
+    try {
+      await this.request<ApiResponse>('/auth/logout-all', { method: 'POST' });
+    } finally {
+      this.accessToken = null;
+    }
+  }
+
+  async getSessions(): Promise<Session[]> {
+    const response = await this.request<ApiResponse<SessionRow[]>>('/auth/sessions');
+    return (response.data || []).map(row => ({
+      id: row.id,
+      userAgent: row.user_agent,
+      ipAddress: row.ip_address,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at,
+      expiresAt: row.expires_at,
+      current: row.current
+    }));
+  }
+
+  async revokeSession(id: string): Promise<void> {
+    await this.request<ApiResponse>(`/auth/sessions/${id}`, { method: 'DELETE' });
   }
 
   async register(userData: {
@@ -67,10 +427,39 @@ class ApiService {
     lastName: string;
     company?: string;
   }): Promise<AuthResponse> {
-    return this.request<AuthResponse>('/auth/register', {
+    const response = await this.request<AuthResponse>('/auth/register', {
       method: 'POST',
       body: JSON.stringify(userData),
     });
+    this.accessToken = response.token || null;
+    return response;
+  }
+
+  async forgotPassword(email: string): Promise<void> {
+    await this.request<ApiResponse>('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    await this.request<ApiResponse>('/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    await this.request<ApiResponse>('/auth/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async resendVerification(): Promise<void> {
+    await this.request<ApiResponse>('/auth/resend-verification', {
+      method: 'POST',
+    });
   }
 
   async getCurrentUser(): Promise<User> {
@@ -93,17 +482,19 @@ class ApiService {
   }
 
   async createCampaign(data: CreateCampaignData): Promise<Campaign> {
-    return this.request<Campaign>('/campaigns', {
+    const response = await this.request<ApiResponse<Campaign>>('/campaigns', {
       method: 'POST',
       body: JSON.stringify(data),
     });
+    return response.data!;
   }
 
   async updateCampaign(id: string, data: Partial<CreateCampaignData>): Promise<Campaign> {
-    return this.request<Campaign>(`/campaigns/${id}`, {
+    const response = await this.request<ApiResponse<Campaign>>(`/campaigns/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     });
+    return response.data!;
   }
 
   async deleteCampaign(id: string): Promise<void> {
@@ -113,18 +504,149 @@ class ApiService {
   }
 
   // Lead endpoints
-  async getLeads(page = 1, limit = 20, campaignId?: string): Promise<PaginatedResponse<Lead>> {
-    const params = new URLSearchParams({ 
-      page: page.toString(), 
-      limit: limit.toString() 
-    });
-    if (campaignId) params.set('campaignId', campaignId);
-    
-    return this.request<PaginatedResponse<Lead>>(`/leads?${params}`);
+  async getLeads(filters: LeadFilters = {}, limit = 20, cursor?: string): Promise<CursorPage<Lead>> {
+    const params = new URLSearchParams({ limit: limit.toString() });
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+    if (cursor) params.set('cursor', cursor);
+
+    const response = await this.request<ApiResponse<LeadRow[]> & {
+      meta?: { total?: number; nextCursor?: string };
+    }>(`/leads?${params}`);
+
+    return {
+      items: (response.data || []).map(mapLead),
+      total: response.meta?.total || 0,
+      nextCursor: response.meta?.nextCursor
+    };
   }
 
   async getLead(id: string): Promise<Lead> {
-    return this.request<Lead>(`/leads/${id}`);
+    const response = await this.request<ApiResponse<LeadRow>>(`/leads/${id}`);
+    return mapLead(response.data!);
+  }
+
+  async getLeadTimeline(id: string): Promise<LeadTimeline> {
+    const response = await this.request<ApiResponse<{ lead: LeadRow; events: LeadTimelineEvent[] }>>(
+      `/leads/${id}/timeline`
+    );
+    return { lead: mapLead(response.data!.lead), events: response.data!.events };
+  }
+
+  async getLeadDuplicates(): Promise<LeadDuplicateGroup[]> {
+    const response = await this.request<ApiResponse<{
+      key: string;
+      matched_on: LeadDuplicateGroup['matchedOn'];
+      leads: LeadRow[];
+    }[]>>('/leads/duplicates');
+
+    return (response.data || []).map(group => ({
+      key: group.key,
+      matchedOn: group.matched_on,
+      leads: group.leads.map(mapLead)
+    }));
+  }
+
+  async mergeLeads(survivorId: string, duplicateIds: string[]): Promise<Lead> {
+    const response = await this.request<ApiResponse<LeadRow>>(`/leads/${survivorId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ duplicateIds })
+    });
+    return mapLead(response.data!);
+  }
+
+  async dismissLeadDuplicates(leadIds: string[]): Promise<void> {
+    await this.request<ApiResponse>('/leads/duplicates/dismiss', {
+      method: 'POST',
+      body: JSON.stringify({ leadIds })
+    });
+  }
+
+  // Lead import endpoints
+  async uploadLeadImport(file: File, campaignId: string): Promise<LeadImportPreview> {
+    const body = new FormData();
+    body.append('file', file);
+    body.append('campaignId', campaignId);
+
+    const response = await this.request<ApiResponse<{
+      leadImport: LeadImportRow;
+      rows: string[][];
+      suggestedMapping: LeadImportTarget[];
+    }>>('/leads/imports', {
+      method: 'POST',
+      body
+    });
+    const preview = response.data!;
+    return {
+      leadImport: mapLeadImport(preview.leadImport),
+      rows: preview.rows,
+      suggestedMapping: preview.suggestedMapping
+    };
+  }
+
+  async startLeadImport(id: string, mapping: LeadImportTarget[], dripCampaignId?: string): Promise<LeadImport> {
+    const response = await this.request<ApiResponse<LeadImportRow>>(`/leads/imports/${id}/start`, {
+      method: 'POST',
+      body: JSON.stringify({ mapping, dripCampaignId: dripCampaignId || undefined })
+    });
+    return mapLeadImport(response.data!);
+  }
+
+  async getLeadImport(id: string): Promise<LeadImport> {
+    const response = await this.request<ApiResponse<LeadImportRow>>(`/leads/imports/${id}`);
+    return mapLeadImport(response.data!);
+  }
+
+  async getLeadImports(): Promise<LeadImport[]> {
+    const response = await this.request<ApiResponse<LeadImportRow[]>>('/leads/imports');
+    return (response.data || []).map(mapLeadImport);
+  }
+
+  async getLeadImportErrors(id: string): Promise<LeadImportError[]> {
+    const response = await this.request<ApiResponse<LeadImportErrorRow[]>>(`/leads/imports/${id}/errors`);
+    return (response.data || []).map(row => ({
+      id: row.id,
+      rowNumber: row.row_number,
+      type: row.type,
+      message: row.message,
+      values: row.row_data ? JSON.parse(row.row_data) : []
+    }));
+  }
+
+  async downloadLeadImportErrors(id: string): Promise<Blob> {
+    const response = await this.fetchWithAuth(`/leads/imports/${id}/errors?format=csv`);
+    return response.blob();
+  }
+
+  // Lead export endpoints
+  /**
+   * Export the leads matching the list filters. Small exports come back as the
+   * file; larger ones are prepared in the background, to follow with getLeadExport.
+   */
+  async exportLeads(
+    filters: LeadFilters,
+    format: LeadExportFormat
+  ): Promise<{ file: Blob; fileName: string } | { leadExport: LeadExport }> {
+    const params = Object.fromEntries(Object.entries(filters).filter(([, value]) => value));
+    const response = await this.fetchWithAuth('/leads/exports', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...params, format })
+    });
+
+    if (response.status === 202) {
+      const result: ApiResponse<LeadExportRow> = await response.json();
+      return { leadExport: mapLeadExport(result.data!) };
+    }
+
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1];
+    return { file: await response.blob(), fileName: fileName || `leads.${format}` };
+  }
+
+  async getLeadExport(id: string): Promise<LeadExport> {
+    const response = await this.request<ApiResponse<LeadExportRow>>(`/leads/exports/${id}`);
+    return mapLeadExport(response.data!);
   }
 
   // Drip campaign endpoints
@@ -194,6 +716,44 @@ class ApiService {
     return this.request<LeadJourney>(`/lead-journeys/${id}`);
   }
 
+  async getJourneys(status?: LeadJourney['status'], limit = 50): Promise<LeadJourney[]> {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (status) params.set('status', status);
+
+    const response = await this.request<ApiResponse<LeadJourneyRow[]>>(`/drip/journeys?${params}`);
+    return (response.data || []).map(mapJourney);
+  }
+
+  async resumeJourney(id: string): Promise<LeadJourney> {
+    const response = await this.request<ApiResponse<LeadJourneyRow>>(`/drip/journeys/${id}/resume`, {
+      method: 'POST',
+    });
+    return mapJourney(response.data!);
+  }
+
+  // Meta connection endpoints
+  async getMetaConnection(): Promise<MetaConnection> {
+    const response = await this.request<ApiResponse<MetaConnection>>('/meta/connection');
+    return response.data!;
+  }
+
+  async startMetaOAuth(): Promise<string> {
+    const response = await this.request<ApiResponse<{ url: string }>>('/meta/oauth/start');
+    return response.data!.url;
+  }
+
+  async getMetaAccounts(): Promise<{ adAccounts: MetaAdAccount[]; pages: MetaPage[] }> {
+    const response = await this.request<ApiResponse<{ adAccounts: MetaAdAccount[]; pages: MetaPage[] }>>('/meta/accounts');
+    return response.data!;
+  }
+
+  async selectMetaAccount(adAccountId: string, pageId: string): Promise<void> {
+    await this.request<ApiResponse>('/meta/connection', {
+      method: 'POST',
+      body: JSON.stringify({ adAccountId, pageId }),
+    });
+  }
+
   // Creative generation endpoints
   async generateAdContent(prompt: string, campaignId: string): Promise<{ content: string }> {
     return this.request<{ content: string }>('/creatives/generate-content', {
@@ -209,6 +769,22 @@ class ApiService {
     });
   }
 
+  async generateCreatives(campaignId: string, variations = 3): Promise<AdCreative[]> {
+    const response = await this.request<ApiResponse<AdCreativeRow[]>>('/creatives/generate', {
+      method: 'POST',
+      body: JSON.stringify({ campaignId, variations }),
+    });
+    return (response.data || []).map(mapCreative);
+  }
+
+  async getCreativePreviews(creativeId: string, refresh = false): Promise<CreativePreview[]> {
+    const response = await this.request<ApiResponse<CreativePreview[]>>(`/creatives/${creativeId}/preview`, {
+      method: 'POST',
+      body: JSON.stringify({ refresh }),
+    });
+    return response.data || [];
+  }
+
   // Analytics endpoints
   async getCampaignAnalytics(campaignId: string, startDate?: string, endDate?: string) {
     const params = new URLSearchParams();
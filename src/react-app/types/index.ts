@@ -7,11 +7,23 @@ export interface User {
   company?: string;
   subscriptionTier: 'free' | 'pro' | 'enterprise';
   onboardingCompleted: boolean;
+  emailVerified?: boolean;
   isActive: boolean;
   createdAt: number;
   updatedAt: number;
 }
 
+// Signed-in device
+export interface Session {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+  current: boolean;
+}
+
 // Campaign types
 export interface Campaign {
   id: string;
@@ -22,7 +34,7 @@ export interface Campaign {
   dailyBudget: number; // in cents
   targetAudience: any; // JSON object
   creativeGuidance?: any; // JSON object
-  status: 'draft' | 'review' | 'active' | 'paused' | 'completed';
+  status: 'draft' | 'review' | 'launching' | 'active' | 'paused' | 'completed';
   launchDate?: number;
   endDate?: number;
   isActive: boolean;
@@ -45,14 +57,31 @@ export interface AdCreative {
   generationPrompt?: string;
   aiModelUsed?: string;
   performanceScore?: number;
-  status: 'generated' | 'uploaded' | 'active' | 'paused';
+  status: 'generated' | 'approved' | 'rejected' | 'uploaded' | 'active' | 'paused';
+  reviewedBy?: string;
+  reviewedAt?: number;
+  rejectionReason?: string;
   createdAt: number;
 }
 
+export type PreviewFormat =
+  | 'DESKTOP_FEED_STANDARD'
+  | 'MOBILE_FEED_STANDARD'
+  | 'INSTAGRAM_STANDARD'
+  | 'INSTAGRAM_STORY';
+
+export interface CreativePreview {
+  format: PreviewFormat;
+  previewUrl?: string;
+  body: string;
+  cachedAt: number;
+}
+
 // Lead types
 export interface Lead {
   id: string;
   campaignId: string;
+  campaignName?: string;
   metaLeadId?: string;
   firstName?: string;
   lastName?: string;
@@ -63,9 +92,106 @@ export interface Lead {
   customFields?: any; // JSON object
   capturedAt: number;
   status: 'active' | 'converted' | 'unsubscribed';
+  smsConsent?: 'granted' | 'revoked';
+  mergedInto?: string; // Lead this one was merged into
+  mergedAt?: number;
+}
+
+// Leads that look like the same person, oldest first
+export interface LeadDuplicateGroup {
+  key: string;
+  matchedOn: ('email' | 'phone')[];
+  leads: Lead[];
+}
+
+export interface LeadTimelineEvent {
+  id: string;
+  type: 'captured' | 'sms' | 'email' | 'reply' | 'journey' | 'status_change';
+  at: number;
+  title: string;
+  detail?: string;
+  status?: string;
+  transitions?: { status: string; at: number; detail?: string }[];
+  fields?: Record<string, string>; // Form answers on the captured event
+}
+
+export interface LeadTimeline {
+  lead: Lead;
+  events: LeadTimelineEvent[];
+}
+
+// Lead field a CSV column is imported into
+export type LeadImportTarget = 'first_name' | 'last_name' | 'email' | 'phone' | 'company' | 'custom' | 'ignore';
+
+export interface LeadImport {
+  id: string;
+  campaignId: string;
+  dripCampaignId?: string;
+  fileName: string;
+  fileSize: number;
+  bytesProcessed: number;
+  columns: string[];
+  mapping?: LeadImportTarget[];
+  status: 'uploaded' | 'processing' | 'completed' | 'failed';
+  rowsProcessed: number;
+  rowsImported: number;
+  rowsDuplicate: number;
+  rowsFailed: number;
+  errorMessage?: string;
+  createdAt: number;
+  completedAt?: number;
+}
+
+export interface LeadImportPreview {
+  leadImport: LeadImport;
+  rows: string[][]; // First few data rows
+  suggestedMapping: LeadImportTarget[];
+}
+
+export interface LeadImportError {
+  id: string;
+  rowNumber: number;
+  type: 'invalid' | 'duplicate';
+  message: string;
+  values: string[];
+}
+
+export type LeadExportFormat = 'csv' | 'ndjson';
+
+// An export too large to stream, written in the background
+export interface LeadExport {
+  id: string;
+  format: LeadExportFormat;
+  status: 'processing' | 'completed' | 'failed' | 'expired';
+  rowCount: number;
+  fileSize?: number;
+  errorMessage?: string;
+  createdAt: number;
+  completedAt?: number;
+  expiresAt?: number;
+  downloadUrl?: string; // Short-lived link, set once the export has finished
+  downloadExpiresAt?: number;
+}
+
+export interface LeadFilters {
+  search?: string;
+  status?: Lead['status'];
+  campaignId?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string;
+  sort?: 'captured_at' | 'name' | 'email';
+  order?: 'asc' | 'desc';
 }
 
 // Drip Campaign types
+// SMS quiet hours, in the lead's local time
+export interface SendWindow {
+  start: string; // HH:MM
+  end: string;
+  days: number[]; // 0 = Sunday
+  timezone: string; // Used when the lead's timezone is unknown
+}
+
 export interface DripCampaign {
   id: string;
   name: string;
@@ -75,6 +201,8 @@ export interface DripCampaign {
   triggerEvent: string;
   totalSteps: number;
   active: boolean;
+  pauseOnReply?: boolean;
+  sendWindow?: SendWindow;
   createdBy: string;
   createdAt: number;
   updatedAt: number;
@@ -89,19 +217,31 @@ export interface DripStep {
   contentTemplate?: string;
   subjectTemplate?: string;
   sendgridTemplateId?: string;
+  fallbackAction?: 'skip' | 'substitute' | 'pause';
   active: boolean;
   createdAt: number;
 }
 
+export interface SkippedStep {
+  stepNumber: number;
+  channel: 'sms' | 'email';
+  action: 'skipped' | 'substituted';
+  reason: string;
+  at: number;
+}
+
 export interface LeadJourney {
   id: string;
   leadId: string;
   campaignId: string;
   currentStep: number;
   status: 'active' | 'completed' | 'paused' | 'failed';
+  statusReason?: string;
+  skippedSteps: SkippedStep[];
   startedAt: number;
   completedAt?: number;
   lastInteractionAt?: number;
+  responseAt?: number;
   totalSmsSent: number;
   totalEmailsSent: number;
   totalOpens: number;
@@ -121,8 +261,10 @@ export interface SmsMessage {
   toNumber: string;
   fromNumber: string;
   content: string;
-  status: 'pending' | 'queued' | 'sent' | 'delivered' | 'failed';
+  status: 'pending' | 'queued' | 'sent' | 'delivered' | 'failed' | 'dead_letter' | 'suppressed';
   scheduledAt: number;
+  attemptCount?: number;
+  nextAttemptAt?: number;
   sentAt?: number;
   deliveredAt?: number;
   errorMessage?: string;
@@ -139,8 +281,10 @@ export interface EmailMessage {
   subject: string;
   templateId?: string;
   dynamicData?: any; // JSON object
-  status: 'pending' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced';
+  status: 'pending' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'failed' | 'dead_letter' | 'suppressed';
   scheduledAt: number;
+  attemptCount?: number;
+  nextAttemptAt?: number;
   sentAt?: number;
   deliveredAt?: number;
   openedAt?: number;
@@ -167,6 +311,31 @@ export interface DripAnalytics {
   createdAt: number;
 }
 
+// Meta connection types
+export interface MetaConnection {
+  connected: boolean;
+  connectedVia?: 'oauth' | 'manual';
+  adAccountId?: string;
+  pageId?: string;
+  expiresAt?: number;
+  status?: 'unverified' | 'valid' | 'invalid';
+  error?: string;
+  needsReconnect: boolean;
+}
+
+export interface MetaAdAccount {
+  id: string;
+  name: string;
+  accountStatus: number;
+  currency?: string;
+}
+
+export interface MetaPage {
+  id: string;
+  name: string;
+  tasks: string[];
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -182,6 +351,12 @@ export interface AuthResponse {
   error?: string;
 }
 
+export interface CursorPage<T> {
+  items: T[];
+  total: number;
+  nextCursor?: string;
+}
+
 export interface PaginatedResponse<T> {
   items: T[];
   total: number;
@@ -201,6 +376,7 @@ export interface CreateCampaignData {
     interests?: string[];
     locations?: string[];
     gender?: 'male' | 'female' | 'all';
+    genders?: ('male' | 'female' | 'all')[];
   };
   creativeGuidance?: {
     brandVoice?: string;
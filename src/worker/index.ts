@@ -7,6 +7,17 @@ import { campaignRoutes } from './routes/campaigns';
 import { creativeRoutes } from './routes/creatives';
 import { webhookRoutes } from './routes/webhooks';
 import { dripCampaignRoutes } from './routes/drip-campaigns';
+import { adminRoutes } from './routes/admin';
+import { suppressionRoutes } from './routes/suppressions';
+import { credentialRoutes } from './routes/credentials';
+import { metaRoutes } from './routes/meta';
+import { leadRoutes } from './routes/leads';
+import { leadImportRoutes } from './routes/lead-imports';
+import { leadExportRoutes } from './routes/lead-exports';
+import { handleScheduledEvent } from './jobs/message-processor';
+import { handleMetaTokenRefresh, META_TOKEN_REFRESH_CRON } from './jobs/meta-token-refresh';
+import { handleLeadImports } from './jobs/lead-import';
+import { handleLeadExports } from './jobs/lead-export';
 import { errorHandler } from './middleware/error-handler';
 
 const app = new Hono<{ Bindings: Env }>();
@@ -31,7 +42,8 @@ app.get('/api/', (c) => c.json({
     'AI Content Generation',
     'Meta API Integration',
     'Lead Capture Webhooks',
-    'Drip Campaign Automation'
+    'Drip Campaign Automation',
+    'Scheduled Message Sending'
   ],
   timestamp: new Date().toISOString()
 }));
@@ -42,6 +54,14 @@ app.route('/api/campaigns', campaignRoutes);
 app.route('/api/creatives', creativeRoutes);
 app.route('/api/webhooks', webhookRoutes);
 app.route('/api/drip', dripCampaignRoutes);
+app.route('/api/admin', adminRoutes);
+app.route('/api/suppressions', suppressionRoutes);
+app.route('/api/credentials', credentialRoutes);
+app.route('/api/meta', metaRoutes);
+// Before /api/leads so /imports and /exports aren't taken for a lead id
+app.route('/api/leads/imports', leadImportRoutes);
+app.route('/api/leads/exports', leadExportRoutes);
+app.route('/api/leads', leadRoutes);
 
 // Global error handler
 app.onError(errorHandler);
@@ -51,4 +71,18 @@ app.all('/api/*', (c) => {
   return c.json({ error: 'Endpoint not found' }, 404);
 });
 
-export default app;
+export default {
+  fetch: app.fetch,
+
+  // Cron Triggers - sends queued SMS/email messages, resumes lead imports and
+  // exports and cleans up finished exports; refreshes Meta tokens daily
+  async scheduled(controller, env, ctx) {
+    if (controller.cron === META_TOKEN_REFRESH_CRON) {
+      ctx.waitUntil(handleMetaTokenRefresh(env, controller.cron));
+      return;
+    }
+    ctx.waitUntil(handleScheduledEvent(env, controller.cron));
+    ctx.waitUntil(handleLeadImports(env, controller.cron));
+    ctx.waitUntil(handleLeadExports(env, controller.cron));
+  }
+} satisfies ExportedHandler<Env>;
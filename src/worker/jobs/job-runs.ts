@@ -0,0 +1,71 @@
+// Job runs - records every Cron Trigger job run in job_runs
+
+import { Env } from '../types/env';
+import { JobRun } from '../types/database';
+import { DatabaseService } from '../services/database';
+import { generateId } from '../utils/crypto';
+
+// What a run reports back: messages sent, for jobs that send any, and one
+// error per item it could not process
+export interface JobOutcome {
+  smsProcessed?: number;
+  emailsProcessed?: number;
+  errors: string[];
+}
+
+/**
+ * Record a run as running, do the job's work and record how it went. A run
+ * whose work throws is recorded as failed rather than rethrown.
+ */
+export async function runRecordedJob(
+  env: Env,
+  jobName: string,
+  cron: string | undefined,
+  work: (startedAt: number) => Promise<JobOutcome>
+): Promise<JobRun> {
+  const db = new DatabaseService(env.DB);
+  const startedAt = Date.now();
+  const run: JobRun = {
+    id: await generateId(),
+    job_name: jobName,
+    cron,
+    status: 'running',
+    started_at: startedAt,
+    error_count: 0,
+    created_at: startedAt
+  };
+
+  await db.createJobRun(run);
+
+  let result: Partial<JobRun>;
+  try {
+    const { smsProcessed, emailsProcessed, errors } = await work(startedAt);
+
+    result = {
+      status: 'succeeded',
+      sms_processed: smsProcessed,
+      emails_processed: emailsProcessed,
+      error_count: errors.length,
+      errors: errors.length > 0 ? JSON.stringify(errors) : undefined
+    };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Job ${jobName} failed:`, error);
+
+    result = {
+      status: 'failed',
+      error_count: 1,
+      errors: JSON.stringify([errorMsg])
+    };
+  }
+
+  const finishedAt = Date.now();
+  const completed: Partial<JobRun> = {
+    ...result,
+    finished_at: finishedAt,
+    duration_ms: finishedAt - startedAt
+  };
+  await db.updateJobRun(run.id, completed);
+
+  return { ...run, ...completed };
+}
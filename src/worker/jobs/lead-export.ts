@@ -0,0 +1,49 @@
+// Lead export job - carries on writing large exports, deletes export files past their retention and gives up on exports that stopped making progress
+
+import { Env } from '../types/env';
+import { JobRun } from '../types/database';
+import { DatabaseService } from '../services/database';
+import { LeadExportService } from '../services/lead-export';
+import { runRecordedJob } from './job-runs';
+
+export const LEAD_EXPORT_JOB = 'lead-export';
+
+// Every run moves an export on, so one that hasn't moved for this long is stuck
+const EXPORT_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Leave room in the invocation for recording the run
+const RUN_BUDGET_MS = 25 * 1000;
+
+/**
+ * Cron Trigger handler, run alongside the message processor. Runs that have
+ * exports to resume or files to delete are recorded in job_runs; null when
+ * there is nothing to do.
+ */
+export async function handleLeadExports(env: Env, cron?: string): Promise<JobRun | null> {
+  const db = new DatabaseService(env.DB);
+  const now = Date.now();
+  const [stalled, expired] = await Promise.all([db.getStalledLeadExports(now), db.getExpiredLeadExports(now, 1)]);
+  if (stalled.length === 0 && expired.length === 0) {
+    return null;
+  }
+
+  return runRecordedJob(env, LEAD_EXPORT_JOB, cron, async startedAt => {
+    const exporter = new LeadExportService(env);
+    const errors: string[] = [];
+
+    for (const leadExport of stalled) {
+      if (Date.now() - startedAt > RUN_BUDGET_MS) break;
+
+      const processed = await exporter.process(leadExport.id, startedAt + RUN_BUDGET_MS);
+      if (processed?.status === 'failed') {
+        errors.push(`Export ${leadExport.id}: ${processed.error_message}`);
+      }
+    }
+
+    const timedOut = await db.failStalledLeadExports(Date.now() - EXPORT_TIMEOUT_MS, Date.now());
+    if (timedOut > 0) errors.push(`${timedOut} export(s) timed out`);
+    await exporter.deleteExpired(startedAt);
+
+    return { errors };
+  });
+}
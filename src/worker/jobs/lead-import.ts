@@ -0,0 +1,39 @@
+// Lead import job - resumes CSV imports that no request is processing any more
+
+import { Env } from '../types/env';
+import { JobRun } from '../types/database';
+import { DatabaseService } from '../services/database';
+import { LeadImportService } from '../services/lead-import';
+import { runRecordedJob } from './job-runs';
+
+export const LEAD_IMPORT_JOB = 'lead-import';
+
+// Leave room in the invocation for recording the run
+const RUN_BUDGET_MS = 25 * 1000;
+
+/**
+ * Cron Trigger handler, run alongside the message processor. Runs that have
+ * imports to resume are recorded in job_runs; null when there are none.
+ */
+export async function handleLeadImports(env: Env, cron?: string): Promise<JobRun | null> {
+  const stalled = await new DatabaseService(env.DB).getStalledLeadImports(Date.now());
+  if (stalled.length === 0) {
+    return null;
+  }
+
+  return runRecordedJob(env, LEAD_IMPORT_JOB, cron, async startedAt => {
+    const importer = new LeadImportService(env);
+    const errors: string[] = [];
+
+    for (const leadImport of stalled) {
+      if (Date.now() - startedAt > RUN_BUDGET_MS) break;
+
+      const processed = await importer.process(leadImport.id, startedAt + RUN_BUDGET_MS);
+      if (processed?.status === 'failed') {
+        errors.push(`Import ${leadImport.id}: ${processed.error_message}`);
+      }
+    }
+
+    return { errors };
+  });
+}
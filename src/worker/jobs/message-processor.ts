@@ -1,25 +1,71 @@
 // Message processor for drip campaign automation
-// This would typically run as a scheduled job to process pending SMS/email messages
+// Runs from the worker's Cron Trigger to process pending SMS/email messages
 
 import { Env } from '../types/env';
 import { DatabaseService } from '../services/database';
 import { TwilioService } from '../services/twilio';
 import { SendGridService } from '../services/sendgrid';
+import { JourneySchedulerService } from '../services/journey-scheduler';
+import { SuppressionService } from '../services/suppression';
+import { CredentialVaultService } from '../services/credential-vault';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryDecision,
+  RetryPolicy,
+  SendError,
+  decideRetry,
+  isRetryableError,
+  isRetryableStatus
+} from '../services/delivery-retry';
+import { EmailMessage, JobRun, SMSMessage, Suppression } from '../types/database';
+import { runRecordedJob } from './job-runs';
+
+export interface MessageStatusEvent {
+  type: 'twilio' | 'sendgrid';
+  messageId: string;
+  status: string;
+  timestamp: number;
+  url?: string;
+  error?: string;
+  errorCode?: string;
+  bounceType?: string; // SendGrid bounce classification: 'bounce' (hard) or 'blocked'
+  // SendGrid custom_args
+  leadId?: string;
+  dripStepId?: string;
+  journeyId?: string;
+}
 
 export interface MessageProcessorOptions {
   batchSize?: number;
-  maxRetries?: number;
+  maxRetries?: number; // Retries after the first attempt before a message is dead-lettered
+}
+
+interface Senders {
+  twilio: TwilioService;
+  sendgrid: SendGridService;
 }
 
 export class MessageProcessor {
+  private env: Env;
   private db: DatabaseService;
-  private twilio: TwilioService;
-  private sendgrid: SendGridService;
-
-  constructor(env: Env, _options: MessageProcessorOptions = {}) {
+  private vault: CredentialVaultService;
+  private senders = new Map<string, Senders>(); // By owning user
+  private journeys: JourneySchedulerService;
+  private suppressions: SuppressionService;
+  private batchSize: number;
+  private retryPolicy: RetryPolicy;
+
+  constructor(env: Env, options: MessageProcessorOptions = {}) {
+    this.env = env;
     this.db = new DatabaseService(env.DB);
-    this.twilio = new TwilioService(env);
-    this.sendgrid = new SendGridService(env);
+    this.vault = new CredentialVaultService(this.db, env.ENCRYPTION_KEY);
+    this.journeys = new JourneySchedulerService(this.db, env);
+    this.suppressions = new SuppressionService(this.db);
+    this.batchSize = options.batchSize ?? 50;
+    this.retryPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: options.maxRetries !== undefined ? options.maxRetries + 1 : DEFAULT_RETRY_POLICY.maxAttempts
+    };
   }
 
   /**
@@ -63,19 +109,38 @@ export class MessageProcessor {
     let processed = 0;
 
     try {
-      const pendingMessages = await this.db.getPendingSMSMessages(50);
+      const pendingMessages = await this.db.getPendingSMSMessages(this.batchSize);
       console.log(`Found ${pendingMessages.length} pending SMS messages`);
 
       for (const message of pendingMessages) {
+        const attempt = (message.attempt_count || 0) + 1;
+
         try {
+          if (await this.skipIfSuppressed(message)) {
+            continue;
+          }
+
+          // Retries and late cron runs can fall into quiet hours
+          const sendAt = await this.journeys.getSMSSendTime(message);
+          if (sendAt > Date.now()) {
+            await this.db.updateSMSMessage(message.id, {
+              next_attempt_at: sendAt,
+              updated_at: Date.now()
+            });
+            console.log(`SMS ${message.id} deferred to ${new Date(sendAt).toISOString()} by send window`);
+            continue;
+          }
+
           // Update status to queued
           await this.db.updateSMSMessage(message.id, {
             status: 'queued',
+            attempt_count: attempt,
             updated_at: Date.now()
           });
 
-          // Send SMS via Twilio
-          const result = await this.twilio.sendSMS({
+          // Send SMS via the lead owner's Twilio account
+          const { twilio } = await this.getSenders(message.lead_id);
+          const result = await twilio.sendSMS({
             to: message.to_number,
             from: message.from_number,
             body: message.content,
@@ -83,40 +148,36 @@ export class MessageProcessor {
             dripStepId: message.drip_step_id
           });
 
-          if (result.sid) {
-            // Update with Twilio SID and sent status
-            await this.db.updateSMSMessage(message.id, {
-              status: 'sent',
-              twilio_sid: result.sid,
-              sent_at: Date.now(),
-              updated_at: Date.now()
-            });
+          // Update with Twilio SID and sent status
+          const sentAt = Date.now();
+          await this.db.updateSMSMessage(message.id, {
+            status: 'sent',
+            twilio_sid: result.sid,
+            sent_at: sentAt,
+            next_attempt_at: undefined,
+            error_message: undefined,
+            updated_at: sentAt
+          });
 
-            // Update journey stats
-            await this.updateJourneyStats(message.lead_id, 'sms_sent');
-            
-            processed++;
-            console.log(`SMS sent successfully: ${result.sid}`);
-          } else {
-            // Mark as failed
-            await this.db.updateSMSMessage(message.id, {
-              status: 'failed',
-              error_message: 'SMS send failed',
-              updated_at: Date.now()
-            });
+          // Count the send and queue the next step
+          await this.advanceJourney(message, sentAt, true);
 
-            errors.push(`SMS failed for ${message.to_number}`);
-          }
+          processed++;
+          console.log(`SMS sent successfully: ${result.sid}`);
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-          errors.push(`SMS processing error for ${message.id}: ${errorMsg}`);
-          
-          // Mark as failed
+          errors.push(`SMS processing error for ${message.id} (attempt ${attempt}): ${errorMsg}`);
+
+          const decision = decideRetry(attempt, isRetryableError(error), Date.now(), this.retryPolicy);
           await this.db.updateSMSMessage(message.id, {
-            status: 'failed',
+            ...this.failureUpdate(decision),
             error_message: errorMsg,
             updated_at: Date.now()
           });
+
+          if (decision.action !== 'retry') {
+            await this.advanceJourney(message, Date.now(), false);
+          }
         }
       }
     } catch (error) {
@@ -135,58 +196,70 @@ export class MessageProcessor {
     let processed = 0;
 
     try {
-      const pendingMessages = await this.db.getPendingEmailMessages(50);
+      const pendingMessages = await this.db.getPendingEmailMessages(this.batchSize);
       console.log(`Found ${pendingMessages.length} pending email messages`);
 
       for (const message of pendingMessages) {
+        const attempt = (message.attempt_count || 0) + 1;
+
         try {
+          if (await this.skipIfSuppressed(message)) {
+            continue;
+          }
+
           // Prepare email data
           const emailData = {
             to: message.to_email,
             subject: message.subject,
+            content: message.content,
             templateId: message.template_id,
             dynamicData: message.dynamic_data ? JSON.parse(message.dynamic_data) : undefined,
             leadId: message.lead_id,
-            dripStepId: message.drip_step_id
+            dripStepId: message.drip_step_id,
+            journeyId: message.journey_id
           };
 
-          // Send email via SendGrid
-          const result = await this.sendgrid.sendEmail(emailData);
+          // Send email via the lead owner's SendGrid account
+          const { sendgrid } = await this.getSenders(message.lead_id);
+          const result = await sendgrid.sendEmail(emailData);
 
-          if (result.success) {
-            // Update with SendGrid message ID and sent status
-            await this.db.updateEmailMessage(message.id, {
-              status: 'sent',
-              sendgrid_message_id: result.messageId,
-              sent_at: Date.now(),
-              updated_at: Date.now()
-            });
+          if (!result.success) {
+            const statusCode = result.statusCode || 500;
+            throw new SendError(result.error || 'Unknown error', isRetryableStatus(statusCode), statusCode);
+          }
 
-            // Update journey stats
-            await this.updateJourneyStats(message.lead_id, 'email_sent');
-            
-            processed++;
-            console.log(`Email sent successfully: ${result.messageId}`);
-          } else {
-            // Mark as failed
-            await this.db.updateEmailMessage(message.id, {
-              status: 'bounced',
-              error_message: result.error || 'Unknown error',
-              updated_at: Date.now()
-            });
+          // Update with SendGrid message ID and sent status
+          const sentAt = Date.now();
+          await this.db.updateEmailMessage(message.id, {
+            status: 'sent',
+            sendgrid_message_id: result.messageId,
+            attempt_count: attempt,
+            sent_at: sentAt,
+            next_attempt_at: undefined,
+            error_message: undefined,
+            updated_at: sentAt
+          });
 
-            errors.push(`Email failed for ${message.to_email}: ${result.error}`);
-          }
+          // Count the send and queue the next step
+          await this.advanceJourney(message, sentAt, true);
+
+          processed++;
+          console.log(`Email sent successfully: ${result.messageId}`);
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-          errors.push(`Email processing error for ${message.id}: ${errorMsg}`);
-          
-          // Mark as failed
+          errors.push(`Email processing error for ${message.id} (attempt ${attempt}): ${errorMsg}`);
+
+          const decision = decideRetry(attempt, isRetryableError(error), Date.now(), this.retryPolicy);
           await this.db.updateEmailMessage(message.id, {
-            status: 'bounced',
+            ...this.failureUpdate(decision),
+            attempt_count: attempt,
             error_message: errorMsg,
             updated_at: Date.now()
           });
+
+          if (decision.action !== 'retry') {
+            await this.advanceJourney(message, Date.now(), false);
+          }
         }
       }
     } catch (error) {
@@ -198,44 +271,115 @@ export class MessageProcessor {
   }
 
   /**
-   * Update journey statistics when messages are sent
+   * Twilio and SendGrid clients for the user who owns the lead's campaign, so
+   * each tenant sends from their own accounts. Cached for the processor's run.
    */
-  private async updateJourneyStats(leadId: string, statType: 'sms_sent' | 'email_sent'): Promise<void> {
-    try {
-      // This is a simplified version - in practice you'd need to find the active journey
-      // and update the appropriate stats field
-      console.log(`Updated journey stats for lead ${leadId}: ${statType}`);
-    } catch (error) {
-      console.error('Error updating journey stats:', error);
+  private async getSenders(leadId: string): Promise<Senders> {
+    const lead = await this.db.getLeadById(leadId);
+    const campaign = lead ? await this.db.getCampaignById(lead.campaign_id) : null;
+    const userId = campaign?.user_id ?? '';
+
+    let senders = this.senders.get(userId);
+    if (!senders) {
+      const env = userId ? await this.vault.envForUser(this.env, userId) : this.env;
+      senders = { twilio: new TwilioService(env), sendgrid: new SendGridService(env) };
+      this.senders.set(userId, senders);
+    }
+
+    return senders;
+  }
+
+  /**
+   * Status fields for a failed attempt: back to pending with a next attempt
+   * time, permanently failed, or dead-lettered once retries run out
+   */
+  private failureUpdate(
+    decision: RetryDecision
+  ): { status: 'pending' | 'failed' | 'dead_letter'; next_attempt_at?: number } {
+    switch (decision.action) {
+      case 'retry':
+        return { status: 'pending', next_attempt_at: decision.nextAttemptAt };
+      case 'dead_letter':
+        return { status: 'dead_letter', next_attempt_at: undefined };
+      default:
+        return { status: 'failed', next_attempt_at: undefined };
+    }
+  }
+
+  /**
+   * Send-time suppression check, since the lead may have opted out after the
+   * message was queued. A suppressed message keeps a `suppressed` status and
+   * its journey moves on without counting a send.
+   */
+  private async skipIfSuppressed(message: SMSMessage | EmailMessage): Promise<boolean> {
+    const lead = await this.db.getLeadById(message.lead_id);
+    if (!lead) {
+      return false;
+    }
+
+    const isSMS = 'to_number' in message;
+    const reason = isSMS
+      ? await this.suppressions.getSuppressionReason(lead, 'sms', message.to_number)
+      : await this.suppressions.getSuppressionReason(lead, 'email', message.to_email);
+    if (!reason) {
+      return false;
+    }
+
+    const updates = {
+      status: 'suppressed' as const,
+      next_attempt_at: undefined,
+      error_message: reason,
+      updated_at: Date.now()
+    };
+    if (isSMS) {
+      await this.db.updateSMSMessage(message.id, updates);
+    } else {
+      await this.db.updateEmailMessage(message.id, updates);
     }
+
+    console.log(`Suppressed ${isSMS ? 'SMS' : 'email'} ${message.id}: ${reason}`);
+    await this.advanceJourney(message, Date.now(), false);
+    return true;
   }
 
   /**
-   * Process webhook events to update message statuses
+   * Move the lead's journey past a drip step message. Errors are logged so a
+   * journey problem never fails the message itself.
    */
-  async processWebhookEvent(event: {
-    type: 'twilio' | 'sendgrid';
-    messageId: string;
-    status: string;
-    timestamp: number;
-    url?: string;
-    error?: string;
-  }): Promise<void> {
+  private async advanceJourney(
+    message: SMSMessage | EmailMessage,
+    completedAt: number,
+    sent: boolean
+  ): Promise<void> {
+    if (!message.drip_step_id) {
+      return;
+    }
+
+    const channel = 'to_number' in message ? 'sms' : 'email';
+
     try {
-      if (event.type === 'twilio') {
-        await this.processTwilioWebhook(event);
-      } else if (event.type === 'sendgrid') {
-        await this.processSendGridWebhook(event);
-      }
+      await this.journeys.advanceAfterStep(message.lead_id, message.drip_step_id, channel, completedAt, sent);
     } catch (error) {
-      console.error('Error processing webhook event:', error);
+      console.error(`Error advancing journey for lead ${message.lead_id}:`, error);
     }
   }
 
   /**
-   * Process Twilio webhook events
+   * Process webhook events to update message statuses. Errors propagate so the
+   * caller can record them against the stored webhook event.
    */
-  private async processTwilioWebhook(event: any): Promise<void> {
+  async processWebhookEvent(event: MessageStatusEvent): Promise<void> {
+    if (event.type === 'twilio') {
+      await this.processTwilioWebhook(event);
+    } else if (event.type === 'sendgrid') {
+      await this.processSendGridWebhook(event);
+    }
+  }
+
+  /**
+   * Process Twilio status callbacks
+   */
+  private async processTwilioWebhook(event: MessageStatusEvent): Promise<void> {
     // Find SMS message by Twilio SID
     const message = await this.db.getSMSMessageBySid(event.messageId);
     
@@ -244,73 +388,169 @@ export class MessageProcessor {
       return;
     }
 
-    const statusMap: Record<string, string> = {
+    const statusMap: Record<string, SMSMessage['status']> = {
+      'sent': 'sent',
       'delivered': 'delivered',
       'undelivered': 'failed',
       'failed': 'failed'
     };
 
-    const newStatus = statusMap[event.status] || event.status;
+    const newStatus = statusMap[event.status];
+    if (!newStatus) {
+      // queued/sending/accepted etc. carry nothing we track
+      return;
+    }
 
-    await this.db.updateSMSMessage(message.id, {
-      status: newStatus as any,
-      delivered_at: event.status === 'delivered' ? event.timestamp : undefined,
-      error_message: event.error,
+    // Callbacks can arrive out of order; never move a final status backwards
+    if (message.status === newStatus || (newStatus === 'sent' && message.status !== 'queued')) {
+      return;
+    }
+
+    const updates: Partial<SMSMessage> = {
+      status: newStatus,
       updated_at: Date.now()
-    });
+    };
+
+    if (newStatus === 'delivered') {
+      updates.delivered_at = event.timestamp;
+    } else if (newStatus === 'failed') {
+      updates.error_code = event.errorCode;
+      updates.error_message = event.error || `Twilio status ${event.status}`;
+    }
+
+    await this.db.updateSMSMessage(message.id, updates);
+
+    if (newStatus === 'delivered' && message.drip_step_id) {
+      await this.journeys.recordEngagement(message.lead_id, message.drip_step_id, 'total_sms_delivered', event.timestamp);
+    }
 
     console.log(`Updated SMS ${message.id} status to ${newStatus}`);
   }
 
   /**
-   * Process SendGrid webhook events
+   * Process SendGrid event webhook events
    */
-  private async processSendGridWebhook(event: any): Promise<void> {
-    // Find email message by SendGrid message ID
-    const message = await this.db.getEmailMessageBySendGridId(event.messageId);
-    
+  private async processSendGridWebhook(event: MessageStatusEvent): Promise<void> {
+    // sg_message_id is the X-Message-Id we stored plus a ".filter..." suffix;
+    // fall back to the lead/step custom_args for events without one
+    const sendgridId = event.messageId.split('.')[0];
+    let message = sendgridId ? await this.db.getEmailMessageBySendGridId(sendgridId) : null;
+    if (!message && event.leadId && event.dripStepId) {
+      message = await this.db.getLatestEmailMessageForStep(event.leadId, event.dripStepId);
+    }
+
     if (!message) {
       console.warn(`Email message not found for ID: ${event.messageId}`);
       return;
     }
 
-    const statusMap: Record<string, string> = {
-      'delivered': 'delivered',
-      'bounce': 'bounced',
-      'open': 'opened',
-      'click': 'clicked'
-    };
-
-    const newStatus = statusMap[event.status] || event.status;
-
-    const updates: any = {
-      status: newStatus,
+    const updates: Partial<EmailMessage> = {
       updated_at: Date.now()
     };
+    let counter: 'total_opens' | 'total_clicks' | undefined;
+
+    switch (event.status) {
+      case 'delivered':
+        updates.delivered_at = event.timestamp;
+        updates.status = 'delivered';
+        break;
+      case 'open':
+        // Journey counts unique opens/clicks per message
+        if (!message.opened_at) {
+          updates.opened_at = event.timestamp;
+          counter = 'total_opens';
+        }
+        updates.status = 'opened';
+        break;
+      case 'click':
+        if (!message.clicked_at) {
+          updates.clicked_at = event.timestamp;
+          counter = 'total_clicks';
+        }
+        updates.status = 'clicked';
+        break;
+      case 'bounce':
+        updates.status = 'bounced';
+        updates.error_message = event.error || 'Bounced';
+        // 'blocked' bounces are temporary refusals, not a dead address
+        if (event.bounceType !== 'blocked') {
+          await this.suppressRecipient(message, 'hard_bounce', updates.error_message);
+        }
+        break;
+      case 'dropped':
+        updates.status = 'failed';
+        updates.error_message = event.error || 'Dropped by SendGrid';
+        break;
+      case 'spamreport':
+      case 'unsubscribe':
+      case 'group_unsubscribe':
+        await this.db.updateLeadStatus(message.lead_id, 'unsubscribed', `SendGrid ${event.status}`);
+        await this.suppressRecipient(
+          message,
+          event.status === 'spamreport' ? 'spam_report' : 'sendgrid_unsubscribe',
+          `SendGrid ${event.status}`
+        );
+        console.log(`Lead ${message.lead_id} unsubscribed via SendGrid ${event.status}`);
+        break;
+      default:
+        // processed/deferred/group_resubscribe carry nothing we track
+        return;
+    }
 
-    if (event.status === 'delivered') {
-      updates.delivered_at = event.timestamp;
-    } else if (event.status === 'open') {
-      updates.opened_at = event.timestamp;
-      // Update journey stats
-      await this.updateJourneyStats(message.lead_id, 'email_sent'); // TODO: Add opens tracking
-    } else if (event.status === 'click') {
-      updates.clicked_at = event.timestamp;
-      // Update journey stats  
-      await this.updateJourneyStats(message.lead_id, 'email_sent'); // TODO: Add clicks tracking
+    // Events arrive out of order; keep the furthest engagement status
+    if (updates.status && EMAIL_STATUS_RANK[updates.status] <= EMAIL_STATUS_RANK[message.status]) {
+      delete updates.status;
     }
 
     await this.db.updateEmailMessage(message.id, updates);
 
-    console.log(`Updated email ${message.id} status to ${newStatus}`);
+    if (counter) {
+      const dripStepId = message.drip_step_id || event.dripStepId;
+      const journeyId = message.journey_id || event.journeyId;
+      if (journeyId) {
+        await this.journeys.recordEngagementForJourney(journeyId, message.lead_id, counter, event.timestamp);
+      } else if (dripStepId) {
+        await this.journeys.recordEngagement(message.lead_id, dripStepId, counter, event.timestamp);
+      }
+    }
+
+    console.log(`Processed SendGrid ${event.status} for email ${message.id}`);
+  }
+
+  /**
+   * Add an email's recipient to the lead owner's suppression list
+   */
+  private async suppressRecipient(
+    message: EmailMessage,
+    source: Suppression['source'],
+    reason: string
+  ): Promise<void> {
+    const lead = await this.db.getLeadById(message.lead_id);
+    if (lead) {
+      await this.suppressions.suppressLead(lead, 'email', source, reason, message.to_email);
+    }
   }
 }
 
+// Later statuses win; bounce/failure outrank engagement
+const EMAIL_STATUS_RANK: Record<EmailMessage['status'], number> = {
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  opened: 3,
+  clicked: 4,
+  failed: 5,
+  bounced: 5,
+  dead_letter: 5,
+  suppressed: 5
+};
+
+export const MESSAGE_PROCESSOR_JOB = 'message-processor';
+
 /**
  * Cloudflare Workers Scheduled Event handler
- * This would be called by a Cron Trigger to process messages periodically
+ * Called by the Cron Trigger; every run is recorded in job_runs
  */
-export async function handleScheduledEvent(env: Env): Promise<void> {
-  const processor = new MessageProcessor(env);
-  await processor.processPendingMessages();
+export async function handleScheduledEvent(env: Env, cron?: string): Promise<JobRun> {
+  return runRecordedJob(env, MESSAGE_PROCESSOR_JOB, cron, () => new MessageProcessor(env).processPendingMessages());
 }
\ No newline at end of file
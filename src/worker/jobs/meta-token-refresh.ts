@@ -0,0 +1,71 @@
+// Meta token refresh - extends long-lived Facebook Login tokens before they expire
+
+import { Env } from '../types/env';
+import { JobRun } from '../types/database';
+import { DatabaseService } from '../services/database';
+import { CredentialVaultService } from '../services/credential-vault';
+import { META_RECONNECT_WINDOW_MS, MetaOAuthService } from '../services/meta-oauth';
+import { runRecordedJob } from './job-runs';
+
+export const META_TOKEN_REFRESH_JOB = 'meta-token-refresh';
+export const META_TOKEN_REFRESH_CRON = '0 6 * * *';
+
+/**
+ * Refresh every OAuth Meta token that expires within the reconnect window.
+ * Tokens Meta won't extend are marked invalid so the user is asked to
+ * reconnect. Returns error messages for tokens that could not be refreshed.
+ */
+export async function refreshExpiringMetaTokens(env: Env): Promise<{ refreshed: number; errors: string[] }> {
+  const db = new DatabaseService(env.DB);
+  const vault = new CredentialVaultService(db, env.ENCRYPTION_KEY);
+  const oauth = new MetaOAuthService(env);
+
+  const expiring = await db.getUserCredentialsExpiringBefore('meta', Date.now() + META_RECONNECT_WINDOW_MS);
+  const errors: string[] = [];
+  let refreshed = 0;
+
+  for (const credential of expiring) {
+    try {
+      const credentials = await vault.get(credential.user_id, 'meta');
+      if (!credentials || credentials.connectedVia !== 'oauth') {
+        continue;
+      }
+
+      const info = await oauth.inspectToken(credentials.accessToken);
+      if (!info.valid) {
+        await vault.recordVerification(credential.user_id, 'meta', 'Facebook access expired - reconnect to continue');
+        errors.push(`User ${credential.user_id}: token no longer valid`);
+        continue;
+      }
+
+      const token = await oauth.exchangeForLongLivedToken(credentials.accessToken);
+      await vault.save(credential.user_id, 'meta', {
+        ...credentials,
+        accessToken: token.accessToken,
+        // Without an expiry on the exchange the token is still due when the old one was,
+        // and dropping it would keep the token out of later refreshes
+        expiresAt: token.expiresAt ?? info.expiresAt ?? credentials.expiresAt
+      });
+      await vault.recordVerification(credential.user_id, 'meta');
+      refreshed++;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Meta token refresh failed for user ${credential.user_id}:`, error);
+      errors.push(`User ${credential.user_id}: ${errorMsg}`);
+
+      // Only ask for reconnection once the token has actually run out
+      if (credential.expires_at && credential.expires_at <= Date.now()) {
+        await vault.recordVerification(credential.user_id, 'meta', 'Facebook access expired - reconnect to continue');
+      }
+    }
+  }
+
+  return { refreshed, errors };
+}
+
+/**
+ * Daily Cron Trigger handler; every run is recorded in job_runs
+ */
+export async function handleMetaTokenRefresh(env: Env, cron?: string): Promise<JobRun> {
+  return runRecordedJob(env, META_TOKEN_REFRESH_JOB, cron, () => refreshExpiringMetaTokens(env));
+}
@@ -10,6 +10,7 @@ import { User } from '../types/database';
 declare module 'hono' {
   interface ContextVariableMap {
     user: User;
+    sessionId: string;
   }
 }
 
@@ -27,14 +28,16 @@ export async function authMiddleware(c: Context<{ Bindings: Env }>, next: Next)
     const db = new DatabaseService(c.env.DB);
     const authService = new AuthService(db, c.env.JWT_SECRET);
     
-    // Verify token and get user
-    const user = await authService.getUserFromToken(token);
-    if (!user || !user.is_active) {
+    // Verify token and its session (revoked sessions are logged out), then get user
+    const session = await authService.getSessionFromToken(token);
+    const user = session ? await db.getUserById(session.user_id) : null;
+    if (!session || !user || !user.is_active) {
       return c.json({ error: 'Invalid or expired token' }, 401);
     }
 
     // Add user to context for use in route handlers
     c.set('user', user);
+    c.set('sessionId', session.id);
     
     await next();
   } catch (error) {
@@ -61,5 +64,20 @@ export async function optionalAuthMiddleware(c: Context<{ Bindings: Env }>, next
     console.error('Optional auth error:', error);
   }
   
+  await next();
+}
+
+// Admin middleware - must run after authMiddleware; admins are listed by email in ADMIN_EMAILS
+export async function adminMiddleware(c: Context<{ Bindings: Env }>, next: Next) {
+  const user = c.get('user');
+  const adminEmails = (c.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!user || !adminEmails.includes(user.email.toLowerCase())) {
+    return c.json({ error: 'Admin access required' }, 403);
+  }
+
   await next();
 }
\ No newline at end of file
@@ -0,0 +1,41 @@
+// Admin API Routes - operational visibility into background jobs
+
+import { Hono } from 'hono';
+import { Env } from '../types/env';
+import { JobRun } from '../types/database';
+import { ApiResponse } from '../types/api';
+import { DatabaseService } from '../services/database';
+import { authMiddleware, adminMiddleware } from '../middleware/auth';
+
+export const adminRoutes = new Hono<{ Bindings: Env }>();
+
+// All routes require an authenticated admin
+adminRoutes.use('*', authMiddleware, adminMiddleware);
+
+// GET /api/admin/jobs - Most recent scheduled job runs
+adminRoutes.get('/jobs', async (c) => {
+  try {
+    const limit = Math.min(parseInt(c.req.query('limit') || '20'), 100);
+    const jobName = c.req.query('job');
+
+    const db = new DatabaseService(c.env.DB);
+    const runs = await db.getRecentJobRuns(limit, jobName);
+
+    const response: ApiResponse<JobRun[]> = {
+      success: true,
+      data: runs,
+      meta: {
+        limit,
+        total: runs.length
+      }
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get job runs error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to fetch job runs'
+    }, 500);
+  }
+});
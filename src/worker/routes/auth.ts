@@ -1,12 +1,17 @@
-// Authentication routes - register, login, profile
+// Authentication routes - register, login, sessions, profile, password reset, email verification
 
-import { Hono } from 'hono';
+import { Context, Hono } from 'hono';
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie';
 import { z } from 'zod';
 import { Env } from '../types/env';
-import { AuthRequest, RegisterRequest, AuthResponse } from '../types/api';
-import { AuthService } from '../services/auth';
+import { AuthRequest, RegisterRequest, AuthResponse, ApiResponse } from '../types/api';
+import { Session, User } from '../types/database';
+import { AuthService, REFRESH_TOKEN_TTL_MS } from '../services/auth';
 import { DatabaseService } from '../services/database';
+import { AccountTokenService } from '../services/account-tokens';
+import { AccountEmailService } from '../services/account-email';
 import { authMiddleware } from '../middleware/auth';
+import { hashPassword } from '../utils/crypto';
 
 // Validation schemas
 const loginSchema = z.object({
@@ -22,8 +27,62 @@ const registerSchema = z.object({
   company: z.string().optional()
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.string().min(1, 'Email is required')
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters')
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Token is required')
+});
+
 export const authRoutes = new Hono<{ Bindings: Env }>();
 
+// Refresh tokens never reach JavaScript; the cookie is only sent to /api/auth
+const REFRESH_COOKIE = 'refresh_token';
+
+function appUrl(env: Env, requestUrl: string): string {
+  return env.WEBHOOK_BASE_URL || new URL(requestUrl).origin;
+}
+
+function setRefreshCookie(c: Context<{ Bindings: Env }>, refreshToken: string) {
+  setCookie(c, REFRESH_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'Strict',
+    path: '/api/auth',
+    maxAge: REFRESH_TOKEN_TTL_MS / 1000
+  });
+}
+
+function clearRefreshCookie(c: Context<{ Bindings: Env }>) {
+  deleteCookie(c, REFRESH_COOKIE, { path: '/api/auth', secure: true });
+}
+
+function deviceInfo(c: Context<{ Bindings: Env }>) {
+  return {
+    userAgent: c.req.header('User-Agent'),
+    ipAddress: c.req.header('CF-Connecting-IP')
+  };
+}
+
+function authUser(user: User): NonNullable<AuthResponse['user']> {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.first_name,
+    lastName: user.last_name,
+    company: user.company,
+    subscriptionTier: user.subscription_tier,
+    onboardingCompleted: user.onboarding_completed,
+    emailVerified: user.email_verified
+  };
+}
+
 // POST /api/auth/register
 authRoutes.post('/register', async (c) => {
   try {
@@ -44,22 +103,24 @@ authRoutes.post('/register', async (c) => {
       validated.company
     );
     
-    // Generate JWT token
-    const token = await authService.generateJWT(user);
+    // Send the verification link; the account works while it is pending
+    try {
+      const verificationToken = await new AccountTokenService(c.env.KV).issue('email_verification', user.id);
+      await new AccountEmailService(c.env, appUrl(c.env, c.req.url)).sendEmailVerification(user, verificationToken);
+    } catch (error) {
+      console.error('Verification email error:', error);
+    }
+    
+    // Start a session: refresh token in a cookie, short-lived access token in the body
+    const { session, refreshToken } = await authService.createSession(user, deviceInfo(c));
+    const token = await authService.generateJWT(user, session.id);
+    setRefreshCookie(c, refreshToken);
     
     // Return success response
     const response: AuthResponse = {
       success: true,
       token,
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        company: user.company,
-        subscriptionTier: user.subscription_tier,
-        onboardingCompleted: user.onboarding_completed
-      }
+      user: authUser(user)
     };
     
     return c.json(response, 201);
@@ -104,22 +165,16 @@ authRoutes.post('/login', async (c) => {
       validated.password
     );
     
-    // Generate JWT token
-    const token = await authService.generateJWT(user);
+    // Start a session: refresh token in a cookie, short-lived access token in the body
+    const { session, refreshToken } = await authService.createSession(user, deviceInfo(c));
+    const token = await authService.generateJWT(user, session.id);
+    setRefreshCookie(c, refreshToken);
     
     // Return success response
     const response: AuthResponse = {
       success: true,
       token,
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        company: user.company,
-        subscriptionTier: user.subscription_tier,
-        onboardingCompleted: user.onboarding_completed
-      }
+      user: authUser(user)
     };
     
     return c.json(response);
@@ -146,21 +201,169 @@ authRoutes.post('/login', async (c) => {
   }
 });
 
+// POST /api/auth/refresh - Trade the refresh cookie for a new access token (and rotated cookie)
+authRoutes.post('/refresh', async (c) => {
+  const refreshToken = getCookie(c, REFRESH_COOKIE);
+  if (!refreshToken) {
+    return c.json({
+      success: false,
+      error: 'Not signed in'
+    }, 401);
+  }
+
+  try {
+    const db = new DatabaseService(c.env.DB);
+    const authService = new AuthService(db, c.env.JWT_SECRET);
+
+    const { user, session, refreshToken: nextToken } = await authService.refreshSession(refreshToken);
+    const token = await authService.generateJWT(user, session.id);
+    setRefreshCookie(c, nextToken);
+
+    const response: AuthResponse = {
+      success: true,
+      token,
+      user: authUser(user)
+    };
+
+    return c.json(response);
+  } catch (error) {
+    clearRefreshCookie(c);
+
+    if (error instanceof Error && error.message.includes('Invalid refresh token')) {
+      return c.json({
+        success: false,
+        error: 'Session expired'
+      }, 401);
+    }
+
+    console.error('Refresh error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to refresh session'
+    }, 500);
+  }
+});
+
+// POST /api/auth/logout - End this device's session
+authRoutes.post('/logout', async (c) => {
+  try {
+    const refreshToken = getCookie(c, REFRESH_COOKIE);
+    if (refreshToken) {
+      const authService = new AuthService(new DatabaseService(c.env.DB), c.env.JWT_SECRET);
+      await authService.revokeSessionByRefreshToken(refreshToken);
+    }
+
+    clearRefreshCookie(c);
+    return c.json({
+      success: true,
+      message: 'Logged out'
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to log out'
+    }, 500);
+  }
+});
+
+// POST /api/auth/logout-all (protected route) - End every session, including this one
+authRoutes.post('/logout-all', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const db = new DatabaseService(c.env.DB);
+    const revoked = await db.revokeSessionsByUser(user.id);
+
+    clearRefreshCookie(c);
+    return c.json({
+      success: true,
+      message: `Logged out of ${revoked} session${revoked === 1 ? '' : 's'}`
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to log out of all sessions'
+    }, 500);
+  }
+});
+
+// GET /api/auth/sessions (protected route) - Signed-in devices
+authRoutes.get('/sessions', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const currentSessionId = c.get('sessionId');
+    const db = new DatabaseService(c.env.DB);
+    const sessions = await db.getActiveSessionsByUser(user.id);
+
+    const response: ApiResponse<Array<Omit<Session, 'refresh_token_hash' | 'previous_token_hash'> & { current: boolean }>> = {
+      success: true,
+      data: sessions.map(session => ({
+        id: session.id,
+        user_id: session.user_id,
+        user_agent: session.user_agent,
+        ip_address: session.ip_address,
+        created_at: session.created_at,
+        last_used_at: session.last_used_at,
+        expires_at: session.expires_at,
+        revoked_at: session.revoked_at,
+        current: session.id === currentSessionId
+      }))
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve sessions'
+    }, 500);
+  }
+});
+
+// DELETE /api/auth/sessions/:id (protected route) - Sign out one device
+authRoutes.delete('/sessions/:id', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const db = new DatabaseService(c.env.DB);
+    const session = await db.getSessionById(c.req.param('id'));
+
+    if (!session || session.revoked_at) {
+      return c.json({
+        success: false,
+        error: 'Session not found'
+      }, 404);
+    }
+
+    if (session.user_id !== user.id) {
+      return c.json({
+        success: false,
+        error: 'Access denied'
+      }, 403);
+    }
+
+    await db.revokeSession(session.id);
+
+    return c.json({
+      success: true,
+      message: 'Session revoked'
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to revoke session'
+    }, 500);
+  }
+});
+
 // GET /api/auth/profile (protected route)
 authRoutes.get('/profile', authMiddleware, async (c) => {
   const user = c.get('user');
   
   const response: AuthResponse = {
     success: true,
-    user: {
-      id: user.id,
-      email: user.email,
-      firstName: user.first_name,
-      lastName: user.last_name,
-      company: user.company,
-      subscriptionTier: user.subscription_tier,
-      onboardingCompleted: user.onboarding_completed
-    }
+    user: authUser(user)
   };
   
   return c.json(response);
@@ -198,15 +401,7 @@ authRoutes.put('/profile', authMiddleware, async (c) => {
     
     const response: AuthResponse = {
       success: true,
-      user: {
-        id: updatedUser!.id,
-        email: updatedUser!.email,
-        firstName: updatedUser!.first_name,
-        lastName: updatedUser!.last_name,
-        company: updatedUser!.company,
-        subscriptionTier: updatedUser!.subscription_tier,
-        onboardingCompleted: updatedUser!.onboarding_completed
-      }
+      user: authUser(updatedUser!)
     };
     
     return c.json(response);
@@ -225,4 +420,160 @@ authRoutes.put('/profile', authMiddleware, async (c) => {
       error: 'Failed to update profile' 
     }, 500);
   }
+});
+
+// POST /api/auth/forgot-password
+authRoutes.post('/forgot-password', async (c) => {
+  try {
+    const body = await c.req.json();
+    const validated = forgotPasswordSchema.parse(body);
+
+    const db = new DatabaseService(c.env.DB);
+    const user = await db.getUserByEmail(validated.email);
+
+    // Same response whether or not the account exists, so this can't be used to probe emails
+    if (user && user.is_active) {
+      try {
+        const token = await new AccountTokenService(c.env.KV).issue('password_reset', user.id);
+        await new AccountEmailService(c.env, appUrl(c.env, c.req.url)).sendPasswordReset(user, token);
+      } catch (error) {
+        console.error('Password reset email error:', error);
+      }
+    }
+
+    return c.json({
+      success: true,
+      message: 'If an account exists for that email, a reset link is on its way'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, 400);
+    }
+
+    console.error('Forgot password error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to start password reset'
+    }, 500);
+  }
+});
+
+// POST /api/auth/reset-password
+authRoutes.post('/reset-password', async (c) => {
+  try {
+    const body = await c.req.json();
+    const validated = resetPasswordSchema.parse(body);
+
+    const userId = await new AccountTokenService(c.env.KV).consume('password_reset', validated.token);
+    const db = new DatabaseService(c.env.DB);
+    const user = userId ? await db.getUserById(userId) : null;
+
+    if (!user || !user.is_active) {
+      return c.json({
+        success: false,
+        error: 'This reset link is invalid or has expired'
+      }, 400);
+    }
+
+    // The link was delivered to the account's inbox, which also proves the address
+    await db.updateUser(user.id, {
+      password_hash: await hashPassword(validated.password),
+      email_verified: true
+    });
+
+    // Sign out anyone who was using the old password
+    await db.revokeSessionsByUser(user.id);
+    clearRefreshCookie(c);
+
+    return c.json({
+      success: true,
+      message: 'Password updated'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, 400);
+    }
+
+    console.error('Reset password error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to reset password'
+    }, 500);
+  }
+});
+
+// POST /api/auth/verify-email
+authRoutes.post('/verify-email', async (c) => {
+  try {
+    const body = await c.req.json();
+    const validated = verifyEmailSchema.parse(body);
+
+    const userId = await new AccountTokenService(c.env.KV).consume('email_verification', validated.token);
+    const db = new DatabaseService(c.env.DB);
+    const user = userId ? await db.getUserById(userId) : null;
+
+    if (!user) {
+      return c.json({
+        success: false,
+        error: 'This verification link is invalid or has expired'
+      }, 400);
+    }
+
+    await db.updateUser(user.id, { email_verified: true });
+
+    return c.json({
+      success: true,
+      message: 'Email verified'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, 400);
+    }
+
+    console.error('Verify email error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to verify email'
+    }, 500);
+  }
+});
+
+// POST /api/auth/resend-verification (protected route)
+authRoutes.post('/resend-verification', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+
+    if (user.email_verified) {
+      return c.json({
+        success: false,
+        error: 'Email is already verified'
+      }, 400);
+    }
+
+    const token = await new AccountTokenService(c.env.KV).issue('email_verification', user.id);
+    await new AccountEmailService(c.env, appUrl(c.env, c.req.url)).sendEmailVerification(user, token);
+
+    return c.json({
+      success: true,
+      message: 'Verification email sent'
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to send verification email'
+    }, 500);
+  }
 });
\ No newline at end of file
@@ -186,10 +186,10 @@ campaignRoutes.put('/:id', async (c) => {
     }
     
     // Prevent updates to launched campaigns
-    if (campaign.status === 'active') {
+    if (campaign.status === 'active' || campaign.status === 'launching') {
       return c.json({ 
         success: false, 
-        error: 'Cannot modify active campaigns' 
+        error: `Cannot modify ${campaign.status} campaigns` 
       }, 400);
     }
     
@@ -255,10 +255,12 @@ campaignRoutes.delete('/:id', async (c) => {
     }
     
     // Prevent deletion of active campaigns
-    if (campaign.status === 'active') {
+    if (campaign.status === 'active' || campaign.status === 'launching') {
       return c.json({ 
         success: false, 
-        error: 'Cannot delete active campaigns. Pause first.' 
+        error: campaign.status === 'active'
+          ? 'Cannot delete active campaigns. Pause first.'
+          : 'Cannot delete a campaign while it is launching'
       }, 400);
     }
     
@@ -3,12 +3,15 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import { Env } from '../types/env';
-import { GenerateCreativeRequest, ApiResponse } from '../types/api';
+import { GenerateCreativeRequest, ApiResponse, CreativePreview } from '../types/api';
 import { AdCreative, CreativeGuidance } from '../types/database';
 import { DatabaseService } from '../services/database';
 import { WorkersAIService } from '../services/workers-ai';
 import { OpenAIService } from '../services/openai';
-import { MetaAPIService } from '../services/meta-api';
+import { MetaAPIService, PREVIEW_FORMATS } from '../services/meta-api';
+import { CredentialVaultService } from '../services/credential-vault';
+import { CampaignLaunchError, CampaignLaunchService, LaunchResult } from '../services/campaign-launcher';
+import { CreativeApprovalService, canTransitionCreative } from '../services/creative-approval';
 import { authMiddleware } from '../middleware/auth';
 import { generateId } from '../utils/crypto';
 
@@ -21,9 +24,26 @@ const generateCreativeSchema = z.object({
   includeImages: z.boolean().default(true)
 });
 
+const previewCreativeSchema = z.object({
+  formats: z.array(z.enum(PREVIEW_FORMATS)).min(1).default([...PREVIEW_FORMATS]),
+  pageId: z.string().optional(),
+  refresh: z.boolean().default(false)
+});
+
+// Meta's preview iframe links expire, so cached previews are short-lived
+const PREVIEW_CACHE_TTL = 60 * 60 * 6;
+
 const approveCreativeSchema = z.object({
-  creativeId: z.string().min(1, 'Creative ID is required'),
-  approved: z.boolean()
+  approved: z.boolean(),
+  rejectionReason: z.string().max(500, 'Reason too long').optional()
+});
+
+const launchCampaignSchema = z.object({
+  campaignId: z.string().min(1, 'Campaign ID is required'),
+  pageId: z.string().optional(),
+  leadFormId: z.string().optional(),
+  link: z.string().url().optional(),
+  creativeIds: z.array(z.string().min(1)).min(1).optional()
 });
 
 export const creativeRoutes = new Hono<{ Bindings: Env }>();
@@ -63,9 +83,10 @@ creativeRoutes.post('/generate', async (c) => {
       : undefined;
     const audience = JSON.parse(campaign.target_audience);
     
-    // Initialize AI services
+    // Initialize AI services (images bill to the user's own OpenAI key when connected)
+    const userEnv = await new CredentialVaultService(db, c.env.ENCRYPTION_KEY).envForUser(c.env, user.id);
     const workersAI = new WorkersAIService(c.env);
-    const openAI = new OpenAIService(c.env);
+    const openAI = new OpenAIService(userEnv);
     
     // Generate ad copy variations with Workers AI
     console.log('Generating ad copy with Workers AI...');
@@ -189,41 +210,88 @@ creativeRoutes.post('/generate', async (c) => {
 // POST /api/creatives/:id/preview - Generate Meta ad previews
 creativeRoutes.post('/:id/preview', async (c) => {
   try {
-    // const user = c.get('user'); // Will be used for ownership verification
+    const user = c.get('user');
     const creativeId = c.req.param('id');
+    const body = await c.req.json().catch(() => ({}));
+    const validated = previewCreativeSchema.parse(body);
     
-    // TODO: Implement getCreativeById in DatabaseService
-    // const db = new DatabaseService(c.env.DB);
-    // const creative = await db.getCreativeById(creativeId);
-    
-    // For now, return mock preview data
-    // In production, this would use Meta's generatepreviews API
-    const previews = [
-      {
-        platform: 'facebook_desktop',
-        preview_url: 'https://mockup.facebook.com/preview/desktop',
-        body: 'Sample ad text goes here',
-        headline: 'Sample Headline',
-        image_url: 'https://via.placeholder.com/1200x630'
-      },
-      {
-        platform: 'instagram_feed',
-        preview_url: 'https://mockup.instagram.com/preview/feed',
-        body: 'Sample ad text goes here',
-        headline: 'Sample Headline',
-        image_url: 'https://via.placeholder.com/1080x1080'
-      }
-    ];
+    const db = new DatabaseService(c.env.DB);
+    const creative = await db.getCreativeById(creativeId);
     
-    // Mock check for creative existence
-    if (!creativeId) {
+    if (!creative) {
       return c.json({ 
         success: false, 
         error: 'Creative not found' 
       }, 404);
     }
     
-    const response: ApiResponse<any[]> = {
+    // Verify ownership through the parent campaign
+    const campaign = await db.getCampaignById(creative.campaign_id);
+    if (!campaign || campaign.user_id !== user.id) {
+      return c.json({ 
+        success: false, 
+        error: 'Access denied' 
+      }, 403);
+    }
+    
+    const userEnv = await new CredentialVaultService(db, c.env.ENCRYPTION_KEY).envForUser(c.env, user.id);
+    const metaAPI = new MetaAPIService(
+      userEnv.META_ACCESS_TOKEN || '',
+      userEnv.META_AD_ACCOUNT_ID || '',
+      userEnv.META_APP_SECRET || ''
+    );
+    
+    if (!metaAPI.isConfigured()) {
+      return c.json({
+        success: false,
+        error: 'Meta API credentials not configured'
+      }, 400);
+    }
+    
+    // Creatives not yet on Meta are previewed from their story spec
+    const pageId = validated.pageId || userEnv.META_PAGE_ID;
+    if (!creative.meta_creative_id && !pageId) {
+      return c.json({
+        success: false,
+        error: 'A Facebook page ID is required to preview unlaunched creatives'
+      }, 400);
+    }
+    
+    const previews: CreativePreview[] = [];
+    for (const format of validated.formats) {
+      const cacheKey = `creative_preview:${creative.id}:${format}`;
+      
+      if (!validated.refresh) {
+        const cached = await c.env.KV.get<CreativePreview>(cacheKey, 'json');
+        if (cached) {
+          previews.push(cached);
+          continue;
+        }
+      }
+      
+      const results = creative.meta_creative_id
+        ? await metaAPI.generatePreviews(creative.meta_creative_id, format)
+        : await metaAPI.generatePreviewsFromSpec({
+            page_id: pageId,
+            link_data: metaAPI.buildLinkData(creative)
+          }, format);
+      
+      if (results.length === 0) continue;
+      
+      const preview: CreativePreview = {
+        format,
+        previewUrl: results[0].body.match(/src="([^"]+)"/)?.[1]?.replace(/&amp;/g, '&'),
+        body: results[0].body,
+        cachedAt: Date.now()
+      };
+      
+      await c.env.KV.put(cacheKey, JSON.stringify(preview), {
+        expirationTtl: PREVIEW_CACHE_TTL
+      });
+      previews.push(preview);
+    }
+    
+    const response: ApiResponse<CreativePreview[]> = {
       success: true,
       data: previews
     };
@@ -231,6 +299,14 @@ creativeRoutes.post('/:id/preview', async (c) => {
     return c.json(response);
     
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        success: false, 
+        error: 'Validation failed', 
+        details: error.errors 
+      }, 400);
+    }
+    
     console.error('Preview generation error:', error);
     return c.json({ 
       success: false, 
@@ -239,26 +315,51 @@ creativeRoutes.post('/:id/preview', async (c) => {
   }
 });
 
-// POST /api/creatives/:id/approve - Approve creative for campaign launch
+// POST /api/creatives/:id/approve - Approve or reject a creative for campaign launch
 creativeRoutes.post('/:id/approve', async (c) => {
   try {
-    // const user = c.get('user'); // Will be used for ownership verification
-    // const creativeId = c.req.param('id'); // Will be used to identify creative
+    const user = c.get('user');
+    const creativeId = c.req.param('id');
     const body = await c.req.json();
     const validated = approveCreativeSchema.parse(body);
     
-    // const db = new DatabaseService(c.env.DB); // Will be used for database operations
+    const db = new DatabaseService(c.env.DB);
+    const creative = await db.getCreativeById(creativeId);
+    
+    if (!creative) {
+      return c.json({ 
+        success: false, 
+        error: 'Creative not found' 
+      }, 404);
+    }
+    
+    // Verify ownership through the parent campaign
+    const campaign = await db.getCampaignById(creative.campaign_id);
+    if (!campaign || campaign.user_id !== user.id) {
+      return c.json({ 
+        success: false, 
+        error: 'Access denied' 
+      }, 403);
+    }
     
-    // Update creative status
-    // TODO: Implement updateCreative method in DatabaseService
-    const status = validated.approved ? 'approved' : 'rejected';
+    if (!canTransitionCreative(creative.status, validated.approved ? 'approved' : 'rejected')) {
+      return c.json({
+        success: false,
+        error: `Creative cannot be ${validated.approved ? 'approved' : 'rejected'} while ${creative.status}`
+      }, 409);
+    }
     
-    // For now, just return success
-    // In production, this would update the database and potentially trigger Meta campaign creation
+    const approval = new CreativeApprovalService(db);
+    const reviewed = await approval.review(
+      creative,
+      user.id,
+      validated.approved,
+      validated.rejectionReason
+    );
     
-    const response: ApiResponse<{ status: string }> = {
+    const response: ApiResponse<AdCreative> = {
       success: true,
-      data: { status }
+      data: reviewed
     };
     
     return c.json(response);
@@ -284,17 +385,11 @@ creativeRoutes.post('/:id/approve', async (c) => {
 creativeRoutes.post('/launch', async (c) => {
   try {
     const user = c.get('user');
-    const { campaignId } = await c.req.json();
-    
-    if (!campaignId) {
-      return c.json({
-        success: false,
-        error: 'Campaign ID is required'
-      }, 400);
-    }
+    const body = await c.req.json();
+    const validated = launchCampaignSchema.parse(body);
     
     const db = new DatabaseService(c.env.DB);
-    const campaign = await db.getCampaignById(campaignId);
+    const campaign = await db.getCampaignById(validated.campaignId);
     
     if (!campaign) {
       return c.json({ 
@@ -311,11 +406,36 @@ creativeRoutes.post('/launch', async (c) => {
       }, 403);
     }
     
-    // Get user's Meta credentials (in production, these would be encrypted in database)
+    if (['launching', 'active', 'deleted'].includes(campaign.status)) {
+      return c.json({
+        success: false,
+        error: `Cannot launch a campaign with status '${campaign.status}'`
+      }, 400);
+    }
+    
+    // A paused campaign that was launched before is resumed, not launched again
+    if (campaign.meta_campaign_id) {
+      return c.json({
+        success: false,
+        error: 'Campaign has already been launched on Meta'
+      }, 400);
+    }
+    
+    // The user's own Meta credentials, falling back to the platform account
+    const userEnv = await new CredentialVaultService(db, c.env.ENCRYPTION_KEY).envForUser(c.env, user.id);
+    
+    const pageId = validated.pageId || userEnv.META_PAGE_ID;
+    if (!pageId) {
+      return c.json({
+        success: false,
+        error: 'A Facebook page ID is required to launch'
+      }, 400);
+    }
+    
     const metaAPI = new MetaAPIService(
-      c.env.META_ACCESS_TOKEN || '',
-      c.env.META_AD_ACCOUNT_ID || '',
-      c.env.META_APP_SECRET || ''
+      userEnv.META_ACCESS_TOKEN || '',
+      userEnv.META_AD_ACCOUNT_ID || '',
+      userEnv.META_APP_SECRET || ''
     );
     
     if (!metaAPI.isConfigured()) {
@@ -334,19 +454,47 @@ creativeRoutes.post('/launch', async (c) => {
       }, 400);
     }
     
-    // For now, return success without actually launching
-    // In production, this would:
-    // 1. Create Meta campaign
-    // 2. Create ad sets
-    // 3. Upload images
-    // 4. Create creatives
-    // 5. Create ads
-    // 6. Update campaign status to 'active'
+    const creatives = await db.getCreativesByCampaignId(campaign.id);
+    
+    // Refuse to launch any explicitly selected creative that hasn't been approved
+    if (validated.creativeIds) {
+      const selected = creatives.filter(creative => validated.creativeIds!.includes(creative.id));
+      const notApproved = [
+        ...validated.creativeIds.filter(id => !selected.some(creative => creative.id === id)),
+        ...selected.filter(creative => creative.status !== 'approved').map(creative => creative.id)
+      ];
+      
+      if (notApproved.length > 0) {
+        return c.json({
+          success: false,
+          error: 'Only approved creatives can be launched',
+          details: { creativeIds: notApproved }
+        }, 400);
+      }
+    }
+    
+    const approvedCreatives = creatives.filter(creative =>
+      creative.status === 'approved' &&
+      (!validated.creativeIds || validated.creativeIds.includes(creative.id))
+    );
+    if (approvedCreatives.length === 0) {
+      return c.json({
+        success: false,
+        error: 'Campaign has no approved creatives'
+      }, 400);
+    }
+    
+    const launcher = new CampaignLaunchService(db, metaAPI);
+    const result = await launcher.launch(campaign, approvedCreatives, {
+      pageId,
+      leadFormId: validated.leadFormId,
+      link: validated.link
+    });
     
-    const response: ApiResponse<{ metaCampaignId: string; status: string }> = {
+    const response: ApiResponse<LaunchResult & { status: string }> = {
       success: true,
       data: {
-        metaCampaignId: 'mock_meta_campaign_123',
+        ...result,
         status: 'launched'
       }
     };
@@ -354,10 +502,25 @@ creativeRoutes.post('/launch', async (c) => {
     return c.json(response);
     
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        success: false, 
+        error: 'Validation failed', 
+        details: error.errors 
+      }, 400);
+    }
+    
+    if (error instanceof CampaignLaunchError) {
+      return c.json({
+        success: false,
+        error: error.message
+      }, 409);
+    }
+    
     console.error('Launch creative error:', error);
     return c.json({ 
       success: false, 
-      error: 'Failed to launch campaign' 
+      error: error instanceof Error ? `Failed to launch campaign: ${error.message}` : 'Failed to launch campaign'
     }, 500);
   }
 });
@@ -0,0 +1,239 @@
+// Credential routes - connect each user's own Meta, Twilio, SendGrid and OpenAI accounts
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { Env } from '../types/env';
+import { ApiResponse } from '../types/api';
+import { DatabaseService } from '../services/database';
+import {
+  applyCredentials,
+  CREDENTIAL_PROVIDERS,
+  CredentialProvider,
+  CredentialSummary,
+  CredentialVaultService
+} from '../services/credential-vault';
+import { MetaAPIService } from '../services/meta-api';
+import { TwilioService } from '../services/twilio';
+import { SendGridService } from '../services/sendgrid';
+import { OpenAIService } from '../services/openai';
+import { authMiddleware } from '../middleware/auth';
+
+// Validation schemas
+const credentialSchemas = {
+  meta: z.object({
+    accessToken: z.string().min(1),
+    adAccountId: z.string().regex(/^act_\d+$/, 'Ad account ID must look like act_123456789'),
+    appSecret: z.string().min(1),
+    appId: z.string().optional(),
+    pageId: z.string().optional()
+  }),
+  twilio: z.object({
+    accountSid: z.string().regex(/^AC[0-9a-fA-F]{32}$/, 'Invalid Account SID'),
+    authToken: z.string().min(1),
+    phoneNumber: z.string().regex(/^\+[1-9]\d{6,14}$/, 'Phone number must be in E.164 format')
+  }),
+  sendgrid: z.object({
+    apiKey: z.string().min(1),
+    fromEmail: z.string().email(),
+    fromName: z.string().max(100).optional(),
+    unsubscribeGroupId: z.string().regex(/^\d+$/).optional(),
+    webhookPublicKey: z.string().regex(/^[A-Za-z0-9+/]+={0,2}$/, 'Webhook public key must be base64').optional()
+  }),
+  openai: z.object({
+    apiKey: z.string().min(1)
+  })
+} satisfies Record<CredentialProvider, z.ZodTypeAny>;
+
+interface ConnectionTestResult {
+  valid: boolean;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+export const credentialRoutes = new Hono<{ Bindings: Env }>();
+
+// All credential routes require authentication
+credentialRoutes.use('*', authMiddleware);
+
+function isProvider(value: string): value is CredentialProvider {
+  return (CREDENTIAL_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Call each provider with the given env's credentials to prove they work
+ */
+async function testConnection(env: Env, provider: CredentialProvider): Promise<ConnectionTestResult> {
+  switch (provider) {
+    case 'meta': {
+      const metaAPI = new MetaAPIService(
+        env.META_ACCESS_TOKEN || '',
+        env.META_AD_ACCOUNT_ID || '',
+        env.META_APP_SECRET || ''
+      );
+      const result = await metaAPI.validateCredentials();
+      return { valid: result.valid, details: { accountName: result.accountName }, error: result.error };
+    }
+    case 'twilio': {
+      try {
+        const account = await new TwilioService(env).getAccountInfo();
+        return {
+          valid: account.status === 'active',
+          details: account,
+          error: account.status === 'active' ? undefined : `Twilio account is ${account.status}`
+        };
+      } catch (error) {
+        return { valid: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }
+    case 'sendgrid': {
+      const sender = await new SendGridService(env).verifySender();
+      return {
+        valid: sender.verified,
+        details: sender,
+        error: sender.verified ? undefined : `Sender ${sender.email} is not verified (${sender.status})`
+      };
+    }
+    case 'openai':
+      return await new OpenAIService(env).validateCredentials();
+  }
+}
+
+// GET /api/credentials - Connected providers and their verification status
+credentialRoutes.get('/', async (c) => {
+  try {
+    const user = c.get('user');
+    const vault = new CredentialVaultService(new DatabaseService(c.env.DB), c.env.ENCRYPTION_KEY);
+
+    const response: ApiResponse<CredentialSummary[]> = {
+      success: true,
+      data: await vault.list(user.id)
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get credentials error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve credentials'
+    }, 500);
+  }
+});
+
+// PUT /api/credentials/:provider - Store (or replace) credentials for a provider
+credentialRoutes.put('/:provider', async (c) => {
+  try {
+    const user = c.get('user');
+    const provider = c.req.param('provider');
+
+    if (!isProvider(provider)) {
+      return c.json({
+        success: false,
+        error: 'Unknown provider'
+      }, 404);
+    }
+
+    const body = await c.req.json();
+    const validated = credentialSchemas[provider].parse(body);
+
+    const vault = new CredentialVaultService(new DatabaseService(c.env.DB), c.env.ENCRYPTION_KEY);
+    const credential = await vault.save(user.id, provider, validated);
+
+    const response: ApiResponse<CredentialSummary> = {
+      success: true,
+      data: credential
+    };
+
+    return c.json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, 400);
+    }
+
+    console.error('Save credentials error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to save credentials'
+    }, 500);
+  }
+});
+
+// DELETE /api/credentials/:provider - Disconnect a provider
+credentialRoutes.delete('/:provider', async (c) => {
+  try {
+    const user = c.get('user');
+    const provider = c.req.param('provider');
+
+    if (!isProvider(provider)) {
+      return c.json({
+        success: false,
+        error: 'Unknown provider'
+      }, 404);
+    }
+
+    const vault = new CredentialVaultService(new DatabaseService(c.env.DB), c.env.ENCRYPTION_KEY);
+    const removed = await vault.remove(user.id, provider);
+
+    if (!removed) {
+      return c.json({
+        success: false,
+        error: 'No credentials stored for this provider'
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      message: 'Credentials removed'
+    });
+  } catch (error) {
+    console.error('Delete credentials error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to remove credentials'
+    }, 500);
+  }
+});
+
+// POST /api/credentials/:provider/test - Check stored credentials against the provider
+credentialRoutes.post('/:provider/test', async (c) => {
+  try {
+    const user = c.get('user');
+    const provider = c.req.param('provider');
+
+    if (!isProvider(provider)) {
+      return c.json({
+        success: false,
+        error: 'Unknown provider'
+      }, 404);
+    }
+
+    const vault = new CredentialVaultService(new DatabaseService(c.env.DB), c.env.ENCRYPTION_KEY);
+    const credentials = await vault.get(user.id, provider);
+
+    if (!credentials) {
+      return c.json({
+        success: false,
+        error: 'No credentials stored for this provider'
+      }, 404);
+    }
+
+    const result = await testConnection(applyCredentials(c.env, provider, credentials), provider);
+    await vault.recordVerification(user.id, provider, result.valid ? undefined : (result.error || 'Connection test failed'));
+
+    const response: ApiResponse<ConnectionTestResult> = {
+      success: true,
+      data: result
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Test credentials error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to test credentials'
+    }, 500);
+  }
+});
@@ -3,31 +3,67 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import { Env } from '../types/env';
-import { DripCampaign, DripStep, LeadJourney, SMSMessage, EmailMessage } from '../types/database';
+import { DripCampaign, DripStep, LeadJourney } from '../types/database';
 import { ApiResponse } from '../types/api';
 import { DatabaseService } from '../services/database';
 import { authMiddleware } from '../middleware/auth';
+import { JourneySchedulerService } from '../services/journey-scheduler';
 import { generateId } from '../utils/crypto';
+import { validateTemplate } from '../utils/template';
+import { DEFAULT_TIMEZONE, isValidTimeZone, parseTimeOfDay } from '../utils/send-window';
 
 // Validation schemas
+const timeOfDaySchema = z.string().refine(value => parseTimeOfDay(value) !== null, 'Expected HH:MM (24-hour)');
+
+// SMS quiet hours in the lead's local time
+const sendWindowSchema = z.object({
+  start: timeOfDaySchema,
+  end: timeOfDaySchema,
+  days: z.array(z.number().int().min(0).max(6)).min(1).max(7), // 0 = Sunday
+  timezone: z.string().refine(isValidTimeZone, 'Unknown timezone').default(DEFAULT_TIMEZONE)
+}).refine(window => parseTimeOfDay(window.start)! < parseTimeOfDay(window.end)!, {
+  message: 'Send window must end after it starts',
+  path: ['end']
+});
+
 const createDripCampaignSchema = z.object({
   name: z.string().min(1).max(255),
   description: z.string().max(1000).optional(),
   trigger_type: z.enum(['meta_lead', 'manual', 'api']),
+  pause_on_reply: z.boolean().default(false),
+  send_window: sendWindowSchema.default({
+    start: '09:00',
+    end: '20:00',
+    days: [0, 1, 2, 3, 4, 5, 6],
+    timezone: DEFAULT_TIMEZONE
+  }),
   steps: z.array(z.object({
     step_number: z.number().min(1).max(20),
     channel: z.enum(['sms', 'email']),
     delay_minutes: z.number().min(0).max(43200), // Max 30 days
     content_template: z.string().max(2000).optional(),
     subject_template: z.string().max(200).optional(),
-    sendgrid_template_id: z.string().optional()
+    sendgrid_template_id: z.string().optional(),
+    fallback_action: z.enum(['skip', 'substitute', 'pause']).default('skip')
+  }).superRefine((step, ctx) => {
+    // Reject merge fields the template engine can't fill
+    for (const field of ['content_template', 'subject_template'] as const) {
+      const template = step[field];
+      if (!template) continue;
+
+      for (const message of validateTemplate(template)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+      }
+    }
   })).min(1).max(20)
 });
 
 const updateDripCampaignSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   description: z.string().max(1000).optional(),
-  active: z.boolean().optional()
+  active: z.boolean().optional(),
+  pause_on_reply: z.boolean().optional(),
+  send_window: sendWindowSchema.optional()
 });
 
 const startJourneySchema = z.object({
@@ -35,6 +71,15 @@ const startJourneySchema = z.object({
   campaignId: z.string().min(1)
 });
 
+function sendWindowColumns(window: z.infer<typeof sendWindowSchema>): Partial<DripCampaign> {
+  return {
+    send_window_start: parseTimeOfDay(window.start)!,
+    send_window_end: parseTimeOfDay(window.end)!,
+    send_window_days: JSON.stringify([...new Set(window.days)].sort()),
+    send_window_timezone: window.timezone
+  };
+}
+
 export const dripCampaignRoutes = new Hono<{ Bindings: Env }>();
 
 // All routes require authentication
@@ -82,6 +127,8 @@ dripCampaignRoutes.post('/campaigns', async (c) => {
       trigger_type: validated.trigger_type,
       total_steps: validated.steps.length,
       active: false, // Start as inactive
+      pause_on_reply: validated.pause_on_reply,
+      ...sendWindowColumns(validated.send_window),
       created_by: user.id,
       created_at: now,
       updated_at: now
@@ -101,6 +148,7 @@ dripCampaignRoutes.post('/campaigns', async (c) => {
         content_template: stepData.content_template,
         subject_template: stepData.subject_template,
         sendgrid_template_id: stepData.sendgrid_template_id,
+        fallback_action: stepData.fallback_action,
         active: true,
         created_at: now
       };
@@ -199,8 +247,10 @@ dripCampaignRoutes.put('/campaigns/:id', async (c) => {
       }, 403);
     }
 
+    const { send_window, ...updates } = validated;
     await db.updateDripCampaign(campaignId, {
-      ...validated,
+      ...updates,
+      ...(send_window && sendWindowColumns(send_window)),
       updated_at: Date.now()
     });
 
@@ -348,40 +398,14 @@ dripCampaignRoutes.post('/journeys/start', async (c) => {
       }, 404);
     }
 
-    // Check if journey already exists
-    const existingJourney = await db.getJourneyByLeadAndCampaign(validated.leadId, validated.campaignId);
-    if (existingJourney) {
+    const journey = await new JourneySchedulerService(db, c.env).enroll(validated.leadId, validated.campaignId);
+    if (!journey) {
       return c.json({
         success: false,
         error: 'Journey already exists for this lead and campaign'
       }, 400);
     }
 
-    // Create journey
-    const journeyId = await generateId();
-    const now = Date.now();
-
-    const journey: LeadJourney = {
-      id: journeyId,
-      lead_id: validated.leadId,
-      campaign_id: validated.campaignId,
-      current_step: 0,
-      status: 'active',
-      started_at: now,
-      last_interaction_at: now,
-      total_sms_sent: 0,
-      total_emails_sent: 0,
-      total_opens: 0,
-      total_clicks: 0,
-      created_at: now,
-      updated_at: now
-    };
-
-    await db.createLeadJourney(journey);
-
-    // Queue first step
-    await queueNextStep(journey, c.env);
-
     const response: ApiResponse<LeadJourney> = {
       success: true,
       data: journey
@@ -431,6 +455,54 @@ dripCampaignRoutes.get('/journeys', async (c) => {
   }
 });
 
+// POST /api/drip/journeys/:id/resume - Resume a journey paused on an unreachable step
+dripCampaignRoutes.post('/journeys/:id/resume', async (c) => {
+  try {
+    const user = c.get('user');
+    const journeyId = c.req.param('id');
+
+    const db = new DatabaseService(c.env.DB);
+    const journey = await db.getLeadJourneyById(journeyId);
+
+    if (!journey) {
+      return c.json({
+        success: false,
+        error: 'Journey not found'
+      }, 404);
+    }
+
+    const campaign = await db.getDripCampaignById(journey.campaign_id);
+    if (!campaign || campaign.created_by !== user.id) {
+      return c.json({
+        success: false,
+        error: 'Access denied'
+      }, 403);
+    }
+
+    if (journey.status !== 'paused') {
+      return c.json({
+        success: false,
+        error: `Journey is ${journey.status}, only paused journeys can be resumed`
+      }, 409);
+    }
+
+    await new JourneySchedulerService(db, c.env).resume(journey);
+
+    const response: ApiResponse<LeadJourney | null> = {
+      success: true,
+      data: await db.getLeadJourneyById(journeyId)
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Resume journey error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to resume journey'
+    }, 500);
+  }
+});
+
 // GET /api/drip/campaigns/:id/analytics - Get campaign analytics
 dripCampaignRoutes.get('/campaigns/:id/analytics', async (c) => {
   try {
@@ -461,87 +533,4 @@ dripCampaignRoutes.get('/campaigns/:id/analytics', async (c) => {
       error: 'Failed to get campaign analytics'
     }, 500);
   }
-});
-
-// Helper function to queue next step in journey
-async function queueNextStep(journey: LeadJourney, env: Env): Promise<void> {
-  const db = new DatabaseService(env.DB);
-  const nextStepNumber = journey.current_step + 1;
-
-  // Get next step
-  const step = await db.getDripStepByNumber(journey.campaign_id, nextStepNumber);
-  if (!step || !step.active) {
-    // Journey complete
-    await db.updateLeadJourney(journey.id, {
-      status: 'completed',
-      completed_at: Date.now(),
-      updated_at: Date.now()
-    });
-    return;
-  }
-
-  // Get lead information
-  const lead = await db.getLeadById(journey.lead_id);
-  if (!lead) {
-    throw new Error('Lead not found');
-  }
-
-  // Calculate send time
-  const scheduledAt = Date.now() + (step.delay_minutes * 60 * 1000);
-  const messageId = await generateId();
-
-  if (step.channel === 'sms') {
-    // Queue SMS
-    if (!lead.phone) {
-      console.log(`Skipping SMS step for lead ${lead.id} - no phone number`);
-      return;
-    }
-
-    const smsMessage: SMSMessage = {
-      id: messageId,
-      lead_id: lead.id,
-      drip_step_id: step.id,
-      to_number: lead.phone,
-      from_number: env.TWILIO_PHONE_NUMBER || '',
-      content: step.content_template || 'Thank you for your interest!',
-      status: 'pending',
-      scheduled_at: scheduledAt,
-      created_at: Date.now(),
-      updated_at: Date.now()
-    };
-
-    await db.createSMSMessage(smsMessage);
-  } else if (step.channel === 'email') {
-    // Queue Email
-    if (!lead.email) {
-      console.log(`Skipping email step for lead ${lead.id} - no email address`);
-      return;
-    }
-
-    const emailMessage: EmailMessage = {
-      id: messageId,
-      lead_id: lead.id,
-      drip_step_id: step.id,
-      to_email: lead.email,
-      subject: step.subject_template || 'Thank you for your interest!',
-      template_id: step.sendgrid_template_id,
-      dynamic_data: JSON.stringify({
-        first_name: lead.first_name,
-        last_name: lead.last_name,
-        company: lead.company
-      }),
-      status: 'pending',
-      scheduled_at: scheduledAt,
-      created_at: Date.now(),
-      updated_at: Date.now()
-    };
-
-    await db.createEmailMessage(emailMessage);
-  }
-
-  // Update journey current step
-  await db.updateLeadJourney(journey.id, {
-    current_step: nextStepNumber,
-    updated_at: Date.now()
-  });
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,173 @@
+// Lead export routes - download the leads list as CSV or NDJSON, in the background when it is large
+
+import { Context, Hono } from 'hono';
+import { z } from 'zod';
+import { Env } from '../types/env';
+import { ApiResponse } from '../types/api';
+import { LeadExport } from '../types/database';
+import { DatabaseService } from '../services/database';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_STREAM_MAX_ROWS,
+  LeadExportService,
+  exportFileName
+} from '../services/lead-export';
+import { authMiddleware } from '../middleware/auth';
+import { leadFiltersSchema, toLeadQuery } from './leads';
+
+// Validation schemas
+const exportLeadsSchema = leadFiltersSchema.extend({
+  format: z.enum(['csv', 'ndjson']).default('csv')
+});
+
+// An export written to R2, with a fresh download link once it has finished
+export interface LeadExportStatus {
+  id: string;
+  format: LeadExport['format'];
+  status: LeadExport['status'];
+  row_count: number;
+  file_size?: number;
+  error_message?: string;
+  created_at: number;
+  completed_at?: number;
+  expires_at?: number;
+  download_url?: string;
+  download_expires_at?: number;
+}
+
+export const leadExportRoutes = new Hono<{ Bindings: Env }>();
+
+async function toStatus(c: Context<{ Bindings: Env }>, leadExport: LeadExport): Promise<LeadExportStatus> {
+  const status: LeadExportStatus = {
+    id: leadExport.id,
+    format: leadExport.format,
+    status: leadExport.status,
+    row_count: leadExport.row_count,
+    file_size: leadExport.file_size,
+    error_message: leadExport.error_message,
+    created_at: leadExport.created_at,
+    completed_at: leadExport.completed_at,
+    expires_at: leadExport.expires_at
+  };
+
+  if (leadExport.status === 'completed') {
+    const link = await new LeadExportService(c.env).createDownloadLink(leadExport);
+    status.download_url = link.url;
+    status.download_expires_at = link.expiresAt;
+  }
+
+  return status;
+}
+
+// POST /api/leads/exports - Export the leads matching the list filters. Small
+// exports are streamed back as the file; larger ones are written in the
+// background, over several invocations, and answered with 202 and the export
+// to follow
+leadExportRoutes.post('/', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const validated = exportLeadsSchema.parse(body);
+    const query = toLeadQuery(validated);
+
+    const db = new DatabaseService(c.env.DB);
+    const exporter = new LeadExportService(c.env);
+    const total = await db.countLeadsByUser(user.id, query);
+
+    if (total <= EXPORT_STREAM_MAX_ROWS) {
+      return c.body(exporter.stream(user.id, query, validated.format), 200, {
+        'Content-Type': EXPORT_CONTENT_TYPES[validated.format],
+        'Content-Disposition': `attachment; filename="${exportFileName(validated.format, Date.now())}"`,
+        'X-Export-Rows': String(total)
+      });
+    }
+
+    const leadExport = await exporter.start(user.id, query, validated.format);
+    c.executionCtx.waitUntil(exporter.process(leadExport.id));
+
+    const response: ApiResponse<LeadExportStatus> = {
+      success: true,
+      data: await toStatus(c, leadExport),
+      meta: { total }
+    };
+
+    return c.json(response, 202);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, 400);
+    }
+
+    console.error('Export leads error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to export leads'
+    }, 500);
+  }
+});
+
+// GET /api/leads/exports/download/:token - The file behind a download link; the link is the credential
+leadExportRoutes.get('/download/:token', async (c) => {
+  try {
+    const exporter = new LeadExportService(c.env);
+    const leadExport = await exporter.resolveDownloadLink(c.req.param('token'));
+    const object = leadExport && await c.env.R2.get(leadExport.r2_key);
+
+    if (!leadExport || !object) {
+      return c.json({
+        success: false,
+        error: 'This download link has expired'
+      }, 404);
+    }
+
+    return c.body(object.body, 200, {
+      'Content-Type': EXPORT_CONTENT_TYPES[leadExport.format],
+      'Content-Disposition': `attachment; filename="${exportFileName(leadExport.format, leadExport.created_at)}"`,
+      'Content-Length': String(object.size),
+      'Cache-Control': 'private, no-store'
+    });
+  } catch (error) {
+    console.error('Download lead export error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to download export'
+    }, 500);
+  }
+});
+
+// GET /api/leads/exports/:id - Export progress, with a download link once finished
+leadExportRoutes.get('/:id', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const db = new DatabaseService(c.env.DB);
+    const leadExport = await db.getLeadExportById(c.req.param('id'));
+
+    if (!leadExport || leadExport.user_id !== user.id) {
+      return c.json({
+        success: false,
+        error: 'Export not found'
+      }, 404);
+    }
+
+    // Carry on writing while the user waits, rather than until the next cron run
+    if (leadExport.status === 'processing') {
+      c.executionCtx.waitUntil(new LeadExportService(c.env).process(leadExport.id));
+    }
+
+    const response: ApiResponse<LeadExportStatus> = {
+      success: true,
+      data: await toStatus(c, leadExport)
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get lead export error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve export'
+    }, 500);
+  }
+});
@@ -0,0 +1,277 @@
+// Lead import routes - upload a CSV, map its columns, then follow the import and its error report
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { Env } from '../types/env';
+import { ApiResponse } from '../types/api';
+import { LeadImport, LeadImportError } from '../types/database';
+import { DatabaseService } from '../services/database';
+import { ImportFileError, ImportPreview, LeadImportService } from '../services/lead-import';
+import { authMiddleware } from '../middleware/auth';
+import { toCsvValue } from '../utils/csv';
+
+// Validation schemas
+const startImportSchema = z.object({
+  mapping: z.array(z.enum(['first_name', 'last_name', 'email', 'phone', 'company', 'custom', 'ignore'])),
+  dripCampaignId: z.string().optional()
+});
+
+const ERROR_REPORT_PAGE_SIZE = 1000;
+
+export const leadImportRoutes = new Hono<{ Bindings: Env }>();
+
+// Rows of the error report CSV: the file's own columns after the row number and problem
+async function* errorReportLines(db: DatabaseService, leadImport: LeadImport): AsyncGenerator<string> {
+  const columns: string[] = JSON.parse(leadImport.columns);
+  yield ['Row', 'Problem', 'Message', ...columns].map(toCsvValue).join(',') + '\r\n';
+
+  let afterRow = 0;
+  for (;;) {
+    const errors = await db.getLeadImportErrors(leadImport.id, ERROR_REPORT_PAGE_SIZE, afterRow);
+    for (const error of errors) {
+      yield [
+        error.row_number,
+        error.type,
+        error.message,
+        ...(error.row_data ? JSON.parse(error.row_data) as string[] : [])
+      ].map(toCsvValue).join(',') + '\r\n';
+    }
+
+    if (errors.length < ERROR_REPORT_PAGE_SIZE) return;
+    afterRow = errors[errors.length - 1].row_number;
+  }
+}
+
+// All lead import routes require authentication
+leadImportRoutes.use('*', authMiddleware);
+
+// POST /api/leads/imports - Upload a CSV file (multipart: file, campaignId)
+leadImportRoutes.post('/', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.parseBody();
+    const file = body.file;
+    const campaignId = body.campaignId;
+
+    if (!(file instanceof File) || typeof campaignId !== 'string' || !campaignId) {
+      return c.json({
+        success: false,
+        error: 'A CSV file and campaign are required'
+      }, 400);
+    }
+
+    const db = new DatabaseService(c.env.DB);
+    const campaign = await db.getCampaignById(campaignId);
+    if (!campaign || campaign.user_id !== user.id) {
+      return c.json({
+        success: false,
+        error: 'Campaign not found'
+      }, 404);
+    }
+
+    const preview = await new LeadImportService(c.env).upload(user.id, campaign.id, file);
+
+    const response: ApiResponse<ImportPreview> = {
+      success: true,
+      data: preview
+    };
+
+    return c.json(response, 201);
+  } catch (error) {
+    if (error instanceof ImportFileError) {
+      return c.json({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    console.error('Upload lead import error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to upload file'
+    }, 500);
+  }
+});
+
+// GET /api/leads/imports - Recent imports
+leadImportRoutes.get('/', async (c) => {
+  try {
+    const user = c.get('user');
+    const db = new DatabaseService(c.env.DB);
+    const imports = await db.getLeadImportsByUser(user.id);
+
+    const response: ApiResponse<LeadImport[]> = {
+      success: true,
+      data: imports
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get lead imports error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve imports'
+    }, 500);
+  }
+});
+
+// GET /api/leads/imports/:id - Import progress
+leadImportRoutes.get('/:id', async (c) => {
+  try {
+    const user = c.get('user');
+    const db = new DatabaseService(c.env.DB);
+    const leadImport = await db.getLeadImportById(c.req.param('id'));
+
+    if (!leadImport || leadImport.user_id !== user.id) {
+      return c.json({
+        success: false,
+        error: 'Import not found'
+      }, 404);
+    }
+
+    const response: ApiResponse<LeadImport> = {
+      success: true,
+      data: leadImport
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get lead import error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve import'
+    }, 500);
+  }
+});
+
+// POST /api/leads/imports/:id/start - Confirm the column mapping and start importing
+leadImportRoutes.post('/:id/start', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const validated = startImportSchema.parse(body);
+
+    const db = new DatabaseService(c.env.DB);
+    const leadImport = await db.getLeadImportById(c.req.param('id'));
+
+    if (!leadImport || leadImport.user_id !== user.id) {
+      return c.json({
+        success: false,
+        error: 'Import not found'
+      }, 404);
+    }
+
+    if (leadImport.status !== 'uploaded') {
+      return c.json({
+        success: false,
+        error: 'Import has already been started'
+      }, 400);
+    }
+
+    if (validated.dripCampaignId) {
+      const dripCampaign = await db.getDripCampaignById(validated.dripCampaignId);
+      if (!dripCampaign || dripCampaign.created_by !== user.id) {
+        return c.json({
+          success: false,
+          error: 'Drip campaign not found'
+        }, 404);
+      }
+      if (!dripCampaign.active) {
+        return c.json({
+          success: false,
+          error: 'Drip campaign is not active'
+        }, 400);
+      }
+    }
+
+    const importer = new LeadImportService(c.env);
+    const started = await importer.start(leadImport, validated.mapping, validated.dripCampaignId);
+
+    // Work through the file after responding; the cron job picks up anything left
+    c.executionCtx.waitUntil(importer.process(started.id));
+
+    const response: ApiResponse<LeadImport> = {
+      success: true,
+      data: started
+    };
+
+    return c.json(response, 202);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, 400);
+    }
+
+    if (error instanceof ImportFileError) {
+      return c.json({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    console.error('Start lead import error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to start import'
+    }, 500);
+  }
+});
+
+// GET /api/leads/imports/:id/errors - Rows that were not imported (?format=csv to download)
+leadImportRoutes.get('/:id/errors', async (c) => {
+  try {
+    const user = c.get('user');
+    const db = new DatabaseService(c.env.DB);
+    const leadImport = await db.getLeadImportById(c.req.param('id'));
+
+    if (!leadImport || leadImport.user_id !== user.id) {
+      return c.json({
+        success: false,
+        error: 'Import not found'
+      }, 404);
+    }
+
+    // The download has every problem row, read a page at a time; the JSON list is for display
+    if (c.req.query('format') === 'csv') {
+      const fileName = leadImport.file_name.replace(/\.csv$/i, '').replace(/[^\w.-]+/g, '_');
+      const encoder = new TextEncoder();
+      const lines = errorReportLines(db, leadImport);
+      const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const { value, done } = await lines.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(value));
+          }
+        },
+        async cancel() {
+          await lines.return(undefined);
+        }
+      });
+
+      return c.body(body, 200, {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}-errors.csv"`
+      });
+    }
+
+    const errors = await db.getLeadImportErrors(leadImport.id, 100);
+
+    const response: ApiResponse<LeadImportError[]> = {
+      success: true,
+      data: errors
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get lead import errors error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve import errors'
+    }, 500);
+  }
+});
@@ -0,0 +1,328 @@
+// Lead routes - search, filter and page through the leads captured by a user's campaigns
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { Env } from '../types/env';
+import { ApiResponse, LeadTimelineEvent } from '../types/api';
+import { Lead, LeadListItem, LeadListQuery } from '../types/database';
+import { DatabaseService } from '../services/database';
+import { LeadTimelineService } from '../services/lead-timeline';
+import {
+  LeadDuplicateGroup,
+  LeadMergeError,
+  LeadMergeService,
+  MERGE_MAX_DUPLICATES
+} from '../services/lead-merge';
+import { authMiddleware } from '../middleware/auth';
+
+// Validation schemas
+const dateParam = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+
+// Filters and sort shared by the list and lead exports
+export const leadFiltersSchema = z.object({
+  search: z.string().max(100).optional(),
+  status: z.enum(['active', 'converted', 'unsubscribed']).optional(),
+  campaignId: z.string().optional(),
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  sort: z.enum(['captured_at', 'name', 'email']).default('captured_at'),
+  order: z.enum(['asc', 'desc']).optional()
+});
+
+const listLeadsSchema = leadFiltersSchema.extend({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional()
+});
+
+const dismissDuplicatesSchema = z.object({
+  leadIds: z.array(z.string()).min(2).max(MERGE_MAX_DUPLICATES + 1)
+});
+
+const mergeLeadsSchema = z.object({
+  duplicateIds: z.array(z.string()).min(1).max(MERGE_MAX_DUPLICATES)
+});
+
+export interface LeadCursor {
+  sort: LeadListQuery['sort'];
+  order: LeadListQuery['order'];
+  value: string | number;
+  id: string;
+}
+
+export const leadRoutes = new Hono<{ Bindings: Env }>();
+
+// All lead routes require authentication
+leadRoutes.use('*', authMiddleware);
+
+export function encodeCursor(cursor: LeadCursor): string {
+  return btoa(JSON.stringify(cursor))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '');
+}
+
+export function decodeCursor(value: string): LeadCursor | null {
+  try {
+    const cursor = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/')));
+    const validValue = typeof cursor.value === 'string' || typeof cursor.value === 'number';
+    return typeof cursor.id === 'string' && validValue ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// A bare date in `to` covers the whole day
+function endOfRange(value: string): number {
+  const time = Date.parse(value);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+/**
+ * Parsed list filters as a database query. Newest first by date;
+ * alphabetical by name or email.
+ */
+export function toLeadQuery(params: z.infer<typeof leadFiltersSchema>): Omit<LeadListQuery, 'limit' | 'after'> {
+  return {
+    search: params.search?.trim() || undefined,
+    status: params.status,
+    campaignId: params.campaignId,
+    capturedFrom: params.from ? Date.parse(params.from) : undefined,
+    capturedTo: params.to ? endOfRange(params.to) : undefined,
+    sort: params.sort,
+    order: params.order || (params.sort === 'captured_at' ? 'desc' : 'asc')
+  };
+}
+
+// GET /api/leads - Search and filter the user's leads
+leadRoutes.get('/', async (c) => {
+  try {
+    const user = c.get('user');
+    const params = listLeadsSchema.parse(c.req.query());
+    const query = toLeadQuery(params);
+
+    let after: LeadListQuery['after'];
+    if (params.cursor) {
+      const cursor = decodeCursor(params.cursor);
+      if (!cursor || cursor.sort !== query.sort || cursor.order !== query.order) {
+        return c.json({
+          success: false,
+          error: 'Invalid cursor'
+        }, 400);
+      }
+      after = { value: cursor.value, id: cursor.id };
+    }
+
+    const db = new DatabaseService(c.env.DB);
+    const { leads, total, next } = await db.getLeadsByUser(user.id, {
+      ...query,
+      limit: params.limit,
+      after
+    });
+
+    const response: ApiResponse<LeadListItem[]> = {
+      success: true,
+      data: leads,
+      meta: {
+        limit: params.limit,
+        total,
+        nextCursor: next ? encodeCursor({ sort: query.sort, order: query.order, ...next }) : undefined
+      }
+    };
+
+    return c.json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, 400);
+    }
+
+    console.error('Get leads error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve leads'
+    }, 500);
+  }
+});
+
+// GET /api/leads/duplicates - Groups of leads that share an email or phone
+leadRoutes.get('/duplicates', async (c) => {
+  try {
+    const user = c.get('user');
+    const db = new DatabaseService(c.env.DB);
+    const groups = await new LeadMergeService(db).findDuplicates(user.id);
+
+    const response: ApiResponse<LeadDuplicateGroup[]> = {
+      success: true,
+      data: groups,
+      meta: { total: groups.length }
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get lead duplicates error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve duplicate leads'
+    }, 500);
+  }
+});
+
+// POST /api/leads/duplicates/dismiss - Mark a group as different people
+leadRoutes.post('/duplicates/dismiss', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const validated = dismissDuplicatesSchema.parse(body);
+
+    const db = new DatabaseService(c.env.DB);
+    await new LeadMergeService(db).dismiss(user.id, validated.leadIds);
+
+    return c.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, 400);
+    }
+
+    if (error instanceof LeadMergeError) {
+      return c.json({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    console.error('Dismiss lead duplicates error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to dismiss duplicates'
+    }, 500);
+  }
+});
+
+// POST /api/leads/:id/merge - Merge duplicate leads into this one
+leadRoutes.post('/:id/merge', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const validated = mergeLeadsSchema.parse(body);
+
+    const db = new DatabaseService(c.env.DB);
+    const lead = await new LeadMergeService(db).merge(user.id, c.req.param('id'), validated.duplicateIds);
+
+    const response: ApiResponse<Lead> = {
+      success: true,
+      data: lead
+    };
+
+    return c.json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, 400);
+    }
+
+    if (error instanceof LeadMergeError) {
+      return c.json({
+        success: false,
+        error: error.message
+      }, 400);
+    }
+
+    console.error('Merge leads error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to merge leads'
+    }, 500);
+  }
+});
+
+// GET /api/leads/:id - Lead details, including leads since merged into another
+leadRoutes.get('/:id', async (c) => {
+  try {
+    const user = c.get('user');
+    const leadId = c.req.param('id');
+
+    const db = new DatabaseService(c.env.DB);
+    const lead = await db.getLeadById(leadId);
+
+    if (!lead) {
+      return c.json({
+        success: false,
+        error: 'Lead not found'
+      }, 404);
+    }
+
+    const campaign = await db.getCampaignById(lead.campaign_id);
+    if (!campaign || campaign.user_id !== user.id) {
+      return c.json({
+        success: false,
+        error: 'Access denied'
+      }, 403);
+    }
+
+    const response: ApiResponse<LeadListItem> = {
+      success: true,
+      data: { ...lead, campaign_name: campaign.name }
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get lead error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve lead'
+    }, 500);
+  }
+});
+
+// GET /api/leads/:id/timeline - Lead details with everything that happened to the lead
+leadRoutes.get('/:id/timeline', async (c) => {
+  try {
+    const user = c.get('user');
+    const leadId = c.req.param('id');
+
+    const db = new DatabaseService(c.env.DB);
+    const lead = await db.getLeadById(leadId);
+
+    if (!lead) {
+      return c.json({
+        success: false,
+        error: 'Lead not found'
+      }, 404);
+    }
+
+    const campaign = await db.getCampaignById(lead.campaign_id);
+    if (!campaign || campaign.user_id !== user.id) {
+      return c.json({
+        success: false,
+        error: 'Access denied'
+      }, 403);
+    }
+
+    const timeline = new LeadTimelineService(db);
+    const response: ApiResponse<{ lead: LeadListItem; events: LeadTimelineEvent[] }> = {
+      success: true,
+      data: {
+        lead: { ...lead, campaign_name: campaign.name },
+        events: await timeline.build(lead, campaign.name)
+      }
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get lead timeline error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve lead timeline'
+    }, 500);
+  }
+});
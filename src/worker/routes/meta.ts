@@ -0,0 +1,273 @@
+// Meta routes - Facebook Login connect flow and ad account / page selection
+
+import { Hono } from 'hono';
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie';
+import { z } from 'zod';
+import { Env } from '../types/env';
+import { ApiResponse } from '../types/api';
+import { DatabaseService } from '../services/database';
+import { CredentialVaultService } from '../services/credential-vault';
+import { META_RECONNECT_WINDOW_MS, MetaAdAccount, MetaOAuthService, MetaPage } from '../services/meta-oauth';
+import { authMiddleware } from '../middleware/auth';
+import { generateToken, hashToken } from '../utils/crypto';
+
+// Validation schemas
+const selectAccountSchema = z.object({
+  adAccountId: z.string().regex(/^act_\d+$/, 'Ad account ID must look like act_123456789'),
+  pageId: z.string().min(1)
+});
+
+const OAUTH_STATE_TTL_SECONDS = 600;
+
+// Binds the state to the browser that started the login, so a callback
+// carrying someone else's state is refused
+const OAUTH_STATE_COOKIE = 'meta_oauth_state';
+const OAUTH_COOKIE_PATH = '/api/meta/oauth';
+
+export interface MetaConnection {
+  connected: boolean;
+  connectedVia?: 'oauth' | 'manual';
+  adAccountId?: string;
+  pageId?: string;
+  expiresAt?: number;
+  status?: 'unverified' | 'valid' | 'invalid';
+  error?: string;
+  needsReconnect: boolean;
+}
+
+export const metaRoutes = new Hono<{ Bindings: Env }>();
+
+function callbackUrl(env: Env, requestUrl: string): string {
+  const base = env.WEBHOOK_BASE_URL || new URL(requestUrl).origin;
+  return `${base}/api/meta/oauth/callback`;
+}
+
+// GET /api/meta/oauth/start - Facebook Login URL for the current user
+metaRoutes.get('/oauth/start', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const oauth = new MetaOAuthService(c.env);
+
+    if (!oauth.isConfigured()) {
+      return c.json({
+        success: false,
+        error: 'Facebook Login is not configured'
+      }, 503);
+    }
+
+    const state = generateToken(32);
+    await c.env.KV.put(`meta_oauth:${state}`, user.id, { expirationTtl: OAUTH_STATE_TTL_SECONDS });
+    setCookie(c, OAUTH_STATE_COOKIE, await hashToken(state), {
+      httpOnly: true,
+      secure: true,
+      sameSite: 'Lax', // Sent on the top-level redirect back from Facebook
+      path: OAUTH_COOKIE_PATH,
+      maxAge: OAUTH_STATE_TTL_SECONDS
+    });
+
+    const response: ApiResponse<{ url: string }> = {
+      success: true,
+      data: { url: oauth.getAuthorizationUrl(state, callbackUrl(c.env, c.req.url)) }
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Meta OAuth start error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to start Facebook Login'
+    }, 500);
+  }
+});
+
+// GET /api/meta/oauth/callback - Facebook redirects here after login
+metaRoutes.get('/oauth/callback', async (c) => {
+  const state = c.req.query('state');
+  const code = c.req.query('code');
+
+  const stateCookie = getCookie(c, OAUTH_STATE_COOKIE);
+  deleteCookie(c, OAUTH_STATE_COOKIE, { path: OAUTH_COOKIE_PATH, secure: true });
+  if (!state || !stateCookie || stateCookie !== await hashToken(state)) {
+    return c.redirect('/settings?meta=error&reason=state');
+  }
+
+  const userId = await c.env.KV.get(`meta_oauth:${state}`);
+  if (!userId) {
+    return c.redirect('/settings?meta=error&reason=expired');
+  }
+  await c.env.KV.delete(`meta_oauth:${state}`);
+
+  if (!code) {
+    // User cancelled or denied permissions
+    return c.redirect('/settings?meta=error&reason=denied');
+  }
+
+  try {
+    const oauth = new MetaOAuthService(c.env);
+    const shortLived = await oauth.exchangeCode(code, callbackUrl(c.env, c.req.url));
+    const token = await oauth.exchangeForLongLivedToken(shortLived.accessToken);
+
+    // Keep an earlier selection so reconnecting doesn't require picking again
+    const vault = new CredentialVaultService(new DatabaseService(c.env.DB), c.env.ENCRYPTION_KEY);
+    const existing = await vault.get(userId, 'meta');
+    const previous = existing?.connectedVia === 'oauth' ? existing : undefined;
+
+    await vault.save(userId, 'meta', {
+      accessToken: token.accessToken,
+      expiresAt: token.expiresAt,
+      connectedVia: 'oauth',
+      adAccountId: previous?.adAccountId,
+      pageId: previous?.pageId,
+      pageAccessToken: previous?.pageAccessToken
+    });
+    await vault.recordVerification(userId, 'meta');
+
+    return c.redirect('/settings?meta=connected');
+  } catch (error) {
+    console.error('Meta OAuth callback error:', error);
+    return c.redirect('/settings?meta=error&reason=exchange');
+  }
+});
+
+// GET /api/meta/connection - Current Meta connection and whether it needs reconnecting
+metaRoutes.get('/connection', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const db = new DatabaseService(c.env.DB);
+    const vault = new CredentialVaultService(db, c.env.ENCRYPTION_KEY);
+
+    const credential = await db.getUserCredential(user.id, 'meta');
+    const credentials = credential ? await vault.get(user.id, 'meta') : null;
+
+    let connection: MetaConnection = { connected: false, needsReconnect: false };
+    if (credential && credentials) {
+      const expiring = !!credential.expires_at && credential.expires_at - Date.now() < META_RECONNECT_WINDOW_MS;
+      connection = {
+        connected: true,
+        connectedVia: credentials.connectedVia || 'manual',
+        adAccountId: credentials.adAccountId,
+        pageId: credentials.pageId,
+        expiresAt: credential.expires_at,
+        status: credential.status,
+        error: credential.verification_error,
+        needsReconnect: credential.status === 'invalid' || expiring
+      };
+    }
+
+    const response: ApiResponse<MetaConnection> = {
+      success: true,
+      data: connection
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get Meta connection error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve Meta connection'
+    }, 500);
+  }
+});
+
+// GET /api/meta/accounts - Ad accounts and pages available to the connected user
+metaRoutes.get('/accounts', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const vault = new CredentialVaultService(new DatabaseService(c.env.DB), c.env.ENCRYPTION_KEY);
+    const credentials = await vault.get(user.id, 'meta');
+
+    if (!credentials) {
+      return c.json({
+        success: false,
+        error: 'Meta is not connected'
+      }, 404);
+    }
+
+    const oauth = new MetaOAuthService(c.env);
+    const [adAccounts, pages] = await Promise.all([
+      oauth.getAdAccounts(credentials.accessToken),
+      oauth.getPages(credentials.accessToken)
+    ]);
+
+    const response: ApiResponse<{ adAccounts: MetaAdAccount[]; pages: Omit<MetaPage, 'accessToken'>[] }> = {
+      success: true,
+      data: {
+        adAccounts,
+        pages: pages.map(({ id, name, tasks }) => ({ id, name, tasks }))
+      }
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get Meta accounts error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve Meta ad accounts and pages'
+    }, 502);
+  }
+});
+
+// POST /api/meta/connection - Select the ad account and page to use, and subscribe the page to lead forms
+metaRoutes.post('/connection', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const { adAccountId, pageId } = selectAccountSchema.parse(body);
+
+    const db = new DatabaseService(c.env.DB);
+    const vault = new CredentialVaultService(db, c.env.ENCRYPTION_KEY);
+    const credentials = await vault.get(user.id, 'meta');
+
+    if (!credentials) {
+      return c.json({
+        success: false,
+        error: 'Meta is not connected'
+      }, 404);
+    }
+
+    const oauth = new MetaOAuthService(c.env);
+    const [adAccounts, pages] = await Promise.all([
+      oauth.getAdAccounts(credentials.accessToken),
+      oauth.getPages(credentials.accessToken)
+    ]);
+
+    const page = pages.find(p => p.id === pageId);
+    if (!adAccounts.some(account => account.id === adAccountId) || !page) {
+      return c.json({
+        success: false,
+        error: 'Ad account or page is not available to this Meta user'
+      }, 403);
+    }
+
+    await oauth.subscribePageToLeadgen(page.id, page.accessToken);
+
+    await vault.save(user.id, 'meta', {
+      ...credentials,
+      adAccountId,
+      pageId,
+      pageAccessToken: page.accessToken
+    });
+    await vault.recordVerification(user.id, 'meta');
+
+    await db.updateUser(user.id, { meta_ad_account_id: adAccountId });
+
+    return c.json({
+      success: true,
+      message: 'Meta ad account and page connected'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, 400);
+    }
+
+    console.error('Select Meta account error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to connect Meta ad account and page'
+    }, 500);
+  }
+});
@@ -0,0 +1,151 @@
+// Suppression list routes - view and manage addresses that must never be messaged
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { Env } from '../types/env';
+import { ApiResponse } from '../types/api';
+import { Suppression } from '../types/database';
+import { DatabaseService } from '../services/database';
+import { SuppressionService } from '../services/suppression';
+import { authMiddleware } from '../middleware/auth';
+
+// Validation schemas
+const createSuppressionSchema = z.object({
+  channel: z.enum(['sms', 'email']),
+  address: z.string().min(1, 'Address is required').max(254),
+  reason: z.string().max(500).optional()
+}).superRefine((data, ctx) => {
+  const valid = data.channel === 'email'
+    ? z.string().email().safeParse(data.address.trim()).success
+    : data.address.replace(/\D/g, '').length >= 10;
+
+  if (!valid) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['address'],
+      message: data.channel === 'email' ? 'Invalid email address' : 'Invalid phone number'
+    });
+  }
+});
+
+export const suppressionRoutes = new Hono<{ Bindings: Env }>();
+
+// All suppression routes require authentication
+suppressionRoutes.use('*', authMiddleware);
+
+// GET /api/suppressions - List the user's suppressed addresses
+suppressionRoutes.get('/', async (c) => {
+  try {
+    const user = c.get('user');
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 100);
+    const offset = (page - 1) * limit;
+    const channel = c.req.query('channel');
+
+    if (channel !== undefined && channel !== 'sms' && channel !== 'email') {
+      return c.json({
+        success: false,
+        error: 'Invalid channel'
+      }, 400);
+    }
+
+    const db = new DatabaseService(c.env.DB);
+    const { suppressions, total } = await db.getSuppressionsByUser(user.id, limit, offset, channel);
+
+    const response: ApiResponse<Suppression[]> = {
+      success: true,
+      data: suppressions,
+      meta: {
+        page,
+        limit,
+        total
+      }
+    };
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Get suppressions error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to retrieve suppressions'
+    }, 500);
+  }
+});
+
+// POST /api/suppressions - Manually suppress a phone number or email address
+suppressionRoutes.post('/', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const validated = createSuppressionSchema.parse(body);
+
+    const db = new DatabaseService(c.env.DB);
+    const suppression = await new SuppressionService(db).suppress(
+      user.id,
+      validated.channel,
+      validated.address,
+      'manual',
+      validated.reason
+    );
+
+    const response: ApiResponse<Suppression> = {
+      success: true,
+      data: suppression
+    };
+
+    return c.json(response, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, 400);
+    }
+
+    console.error('Create suppression error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to create suppression'
+    }, 500);
+  }
+});
+
+// DELETE /api/suppressions/:id - Remove an address from the suppression list
+suppressionRoutes.delete('/:id', async (c) => {
+  try {
+    const user = c.get('user');
+    const suppressionId = c.req.param('id');
+
+    const db = new DatabaseService(c.env.DB);
+    const suppression = await db.getSuppressionById(suppressionId);
+
+    if (!suppression) {
+      return c.json({
+        success: false,
+        error: 'Suppression not found'
+      }, 404);
+    }
+
+    // Verify ownership
+    if (suppression.user_id !== user.id) {
+      return c.json({
+        success: false,
+        error: 'Access denied'
+      }, 403);
+    }
+
+    await db.deleteSuppression(suppressionId);
+
+    return c.json({
+      success: true,
+      message: 'Suppression removed'
+    });
+  } catch (error) {
+    console.error('Delete suppression error:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to remove suppression'
+    }, 500);
+  }
+});
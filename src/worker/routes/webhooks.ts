@@ -2,8 +2,15 @@
 
 import { Hono } from 'hono';
 import { Env } from '../types/env';
-import { Lead, LeadJourney } from '../types/database';
+import { Campaign, Lead, MetaAdMapping } from '../types/database';
 import { DatabaseService } from '../services/database';
+import { MetaAPIService } from '../services/meta-api';
+import { JourneySchedulerService } from '../services/journey-scheduler';
+import { TwilioService } from '../services/twilio';
+import { InboundSMSService } from '../services/inbound-sms';
+import { SendGridService, SendGridWebhookEvent } from '../services/sendgrid';
+import { CredentialVaultService } from '../services/credential-vault';
+import { MessageProcessor } from '../jobs/message-processor';
 import { generateId } from '../utils/crypto';
 
 export const webhookRoutes = new Hono<{ Bindings: Env }>();
@@ -76,7 +83,8 @@ webhookRoutes.post('/meta', async (c) => {
     const payload = JSON.parse(rawBody);
     console.log('Meta webhook received:', JSON.stringify(payload, null, 2));
     
-    // Process each entry in the webhook
+    // Process each entry in the webhook; one failed lead doesn't hold up the rest
+    let failed = 0;
     if (payload.entry && Array.isArray(payload.entry)) {
       const db = new DatabaseService(c.env.DB);
       
@@ -84,13 +92,24 @@ webhookRoutes.post('/meta', async (c) => {
         if (entry.changes && Array.isArray(entry.changes)) {
           for (const change of entry.changes) {
             if (change.field === 'leadgen') {
-              await processLeadGenChange(change.value, db, c.env);
+              try {
+                await processLeadGenChange(change.value, db, c.env);
+              } catch (error) {
+                console.error(`Failed to process lead ${change.value?.leadgen_id}:`, error);
+                failed++;
+              }
             }
           }
         }
       }
     }
     
+    // Meta redelivers the whole batch on an error response; leads stored this
+    // time are skipped as duplicates then
+    if (failed > 0) {
+      return c.text('Lead processing failed', 500);
+    }
+    
     // Meta requires a 200 response
     return c.text('OK');
     
@@ -114,43 +133,78 @@ async function processLeadGenChange(changeValue: any, db: DatabaseService, env:
       
       console.log(`Processing lead: ${leadgenId} from ad: ${adId}`);
       
-      // In a real implementation, you would:
-      // 1. Fetch lead details from Meta API using leadgen_id
-      // 2. Map the lead to a campaign in your database
-      // 3. Store the lead data
-      // 4. Trigger any follow-up actions (email, SMS, etc.)
+      // Check for duplicate leads before spending a Graph API call
+      const existingLead = await db.getLeadByMetaId(leadgenId);
+      if (existingLead) {
+        console.log(`Lead ${leadgenId} already exists, skipping`);
+        return;
+      }
+      
+      // The webhook's IDs usually identify the campaign, and so whose Meta
+      // token can read the lead; otherwise use the platform credentials
+      const ownerCampaign = await resolveLeadCampaign(db, {
+        adId,
+        adsetId: changeValue.adgroup_id,
+        formId,
+        metaCampaignId: changeValue.campaign_id
+      });
+      const ownerEnv = ownerCampaign
+        ? await new CredentialVaultService(db, env.ENCRYPTION_KEY).envForUser(env, ownerCampaign.user_id)
+        : env;
+      
+      const metaAPI = new MetaAPIService(
+        ownerEnv.META_ACCESS_TOKEN || '',
+        ownerEnv.META_AD_ACCOUNT_ID || '',
+        ownerEnv.META_APP_SECRET || ''
+      );
+      
+      if (!metaAPI.isConfigured()) {
+        throw new Error('Meta API credentials not configured');
+      }
+      
+      // Fetch the actual form submission from the Graph API
+      const metaLead = await metaAPI.getLead(leadgenId);
+      const fields = metaAPI.mapLeadFields(metaLead.field_data);
+      
+      // Resolve the ad, ad set or form back to our campaign
+      const metaCampaignId = metaLead.campaign_id || changeValue.campaign_id;
+      const campaign = ownerCampaign || await resolveLeadCampaign(db, {
+        adId: metaLead.ad_id || adId,
+        adsetId: metaLead.adset_id || changeValue.adgroup_id,
+        formId: metaLead.form_id || formId,
+        metaCampaignId
+      });
+      if (!campaign) {
+        console.error(`No campaign found for lead ${leadgenId} (ad: ${adId}, form: ${formId}, meta campaign: ${metaCampaignId})`);
+        return;
+      }
       
-      // For now, create a mock lead entry
       const leadId = await generateId();
       const lead: Lead = {
         id: leadId,
-        campaign_id: 'unknown', // Would need to map from ad_id to campaign
+        campaign_id: campaign.id,
         meta_lead_id: leadgenId,
-        first_name: 'Unknown',
-        last_name: 'Lead',
-        email: 'lead@example.com',
-        phone: undefined,
-        company: undefined,
+        first_name: fields.first_name,
+        last_name: fields.last_name,
+        email: fields.email,
+        phone: fields.phone,
+        company: fields.company,
         custom_fields: JSON.stringify({
-          ad_id: adId,
-          form_id: formId,
+          ...fields.custom_fields,
+          ad_id: metaLead.ad_id || adId,
+          adset_id: metaLead.adset_id,
+          form_id: metaLead.form_id || formId,
           page_id: pageId
         }),
-        captured_at: Date.now(),
+        captured_at: metaLead.created_time ? new Date(metaLead.created_time).getTime() : Date.now(),
         status: 'active'
       };
       
-      // Check for duplicate leads
-      const existingLead = await db.getLeadByMetaId(leadgenId);
-      if (!existingLead) {
-        await db.createLead(lead);
-        console.log(`Lead ${leadgenId} stored successfully`);
-        
-        // Trigger drip campaign sequence
-        await triggerDripCampaign(lead, db, env);
-      } else {
-        console.log(`Lead ${leadgenId} already exists, skipping`);
-      }
+      await db.createLead(lead);
+      console.log(`Lead ${leadgenId} stored successfully for campaign ${campaign.id}`);
+      
+      // Trigger drip campaign sequence for the campaign owner
+      await triggerDripCampaign(lead, campaign.user_id, db, env);
     }
   } catch (error) {
     console.error('Lead processing error:', error);
@@ -158,6 +212,33 @@ async function processLeadGenChange(changeValue: any, db: DatabaseService, env:
   }
 }
 
+/**
+ * Resolve a lead's Meta identifiers to one of our campaigns, most specific first
+ */
+export async function resolveLeadCampaign(
+  db: DatabaseService,
+  ids: { adId?: string; adsetId?: string; formId?: string; metaCampaignId?: string }
+): Promise<Campaign | null> {
+  const candidates: Array<[MetaAdMapping['meta_object_type'], string | undefined]> = [
+    ['ad', ids.adId],
+    ['adset', ids.adsetId],
+    ['campaign', ids.metaCampaignId],
+    ['form', ids.formId]
+  ];
+
+  for (const [objectType, metaObjectId] of candidates) {
+    if (!metaObjectId) continue;
+
+    const mapping = await db.getMetaAdMapping(objectType, metaObjectId);
+    if (mapping) {
+      return await db.getCampaignById(mapping.campaign_id);
+    }
+  }
+
+  // Campaigns launched before mappings existed only carry meta_campaign_id
+  return ids.metaCampaignId ? await db.getCampaignByMetaId(ids.metaCampaignId) : null;
+}
+
 // POST /api/webhooks/test - Test webhook endpoint (development only)
 webhookRoutes.post('/test', async (c) => {
   if (c.env.ENVIRONMENT !== 'development') {
@@ -223,23 +304,76 @@ webhookRoutes.get('/health', (c) => {
   });
 });
 
-// POST /api/webhooks/twilio - Twilio SMS status webhook (Phase 3)
+/**
+ * Verify X-Twilio-Signature. Twilio signs the URL it was configured with, which
+ * is built from WEBHOOK_BASE_URL when set, using the auth token of the account
+ * in the AccountSid parameter - a tenant's own account or the platform's.
+ */
+async function verifyTwilioRequest(
+  env: Env,
+  url: string,
+  params: Record<string, string>,
+  signature?: string
+): Promise<boolean> {
+  const requestUrl = new URL(url);
+  const callbackUrl = env.WEBHOOK_BASE_URL
+    ? `${env.WEBHOOK_BASE_URL}${requestUrl.pathname}${requestUrl.search}`
+    : url;
+
+  const accountEnv = params.AccountSid
+    ? await new CredentialVaultService(new DatabaseService(env.DB), env.ENCRYPTION_KEY)
+      .envForAccount(env, 'twilio', params.AccountSid)
+    : env;
+
+  return new TwilioService(accountEnv).validateWebhookSignature(callbackUrl, params, signature || '');
+}
+
+// POST /api/webhooks/twilio - Twilio SMS status callback
 webhookRoutes.post('/twilio', async (c) => {
   try {
     const body = await c.req.text();
-    console.log('Twilio webhook received:', body);
-    
-    // Parse Twilio webhook data
-    const params = new URLSearchParams(body);
-    const messageSid = params.get('MessageSid');
-    const messageStatus = params.get('MessageStatus');
-    const to = params.get('To');
-    const from = params.get('From');
-    
-    console.log('Twilio status update:', { messageSid, messageStatus, to, from });
-    
-    // TODO: Update lead interaction status in database
-    // This would be implemented in Phase 3
+    const params = Object.fromEntries(new URLSearchParams(body));
+
+    // Verify the request came from Twilio
+    const isValid = await verifyTwilioRequest(c.env, c.req.url, params, c.req.header('x-twilio-signature'));
+    if (!isValid) {
+      console.error('Invalid Twilio webhook signature');
+      return c.text('Forbidden', 403);
+    }
+
+    const messageSid = params.MessageSid;
+    const messageStatus = params.MessageStatus?.toLowerCase();
+    if (!messageSid || !messageStatus) {
+      return c.text('Bad Request', 400);
+    }
+
+    // Store the raw event for audit before acting on it
+    const db = new DatabaseService(c.env.DB);
+    const eventId = await generateId();
+    await db.createWebhookEvent({
+      id: eventId,
+      source: 'twilio',
+      event_type: `sms_${messageStatus}`,
+      payload: JSON.stringify(params),
+      processed: false,
+      received_at: Date.now()
+    });
+
+    try {
+      const processor = new MessageProcessor(c.env);
+      await processor.processWebhookEvent({
+        type: 'twilio',
+        messageId: messageSid,
+        status: messageStatus,
+        timestamp: Date.now(),
+        errorCode: params.ErrorCode,
+        error: params.ErrorMessage
+      });
+      await db.markWebhookEventProcessed(eventId);
+    } catch (error) {
+      console.error(`Twilio status processing error for ${messageSid}:`, error);
+      await db.markWebhookEventProcessed(eventId, error instanceof Error ? error.message : 'Unknown error');
+    }
     
     return c.text('OK');
   } catch (error) {
@@ -248,18 +382,166 @@ webhookRoutes.post('/twilio', async (c) => {
   }
 });
 
-// POST /api/webhooks/sendgrid - SendGrid email event webhook (Phase 3)
+// POST /api/webhooks/twilio/inbound - Incoming SMS from leads
+webhookRoutes.post('/twilio/inbound', async (c) => {
+  const emptyResponse = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+  try {
+    const body = await c.req.text();
+    const params = Object.fromEntries(new URLSearchParams(body));
+
+    const isValid = await verifyTwilioRequest(c.env, c.req.url, params, c.req.header('x-twilio-signature'));
+    if (!isValid) {
+      console.error('Invalid Twilio inbound signature');
+      return c.text('Forbidden', 403);
+    }
+
+    if (!params.From || !params.To) {
+      return c.text('Bad Request', 400);
+    }
+
+    const db = new DatabaseService(c.env.DB);
+    const eventId = await generateId();
+    await db.createWebhookEvent({
+      id: eventId,
+      source: 'twilio',
+      event_type: 'sms_inbound',
+      payload: JSON.stringify(params),
+      processed: false,
+      received_at: Date.now()
+    });
+
+    try {
+      const result = await new InboundSMSService(db).handle({
+        sid: params.MessageSid,
+        accountSid: params.AccountSid,
+        from: params.From,
+        to: params.To,
+        body: params.Body || ''
+      });
+      await db.markWebhookEventProcessed(eventId);
+
+      if (result.reply) {
+        return c.body(
+          `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(result.reply)}</Message></Response>`,
+          200,
+          { 'Content-Type': 'text/xml' }
+        );
+      }
+    } catch (error) {
+      console.error(`Inbound SMS processing error for ${params.MessageSid}:`, error);
+      await db.markWebhookEventProcessed(eventId, error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    return c.body(emptyResponse, 200, { 'Content-Type': 'text/xml' });
+  } catch (error) {
+    console.error('Twilio inbound webhook error:', error);
+    return c.body(emptyResponse, 200, { 'Content-Type': 'text/xml' });
+  }
+});
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Verify the signed event webhook. Each SendGrid account signs with its own
+ * key, so the events are checked against the public key of the tenant owning
+ * the lead in their lead_id custom arg - or the platform key when no tenant
+ * matches, or the tenant sends through the platform account.
+ */
+async function verifySendGridRequest(
+  env: Env,
+  rawBody: string,
+  signature: string,
+  timestamp: string
+): Promise<boolean> {
+  const db = new DatabaseService(env.DB);
+  const userId = await sendGridEventOwner(db, rawBody);
+
+  const accountEnv = userId
+    ? await new CredentialVaultService(db, env.ENCRYPTION_KEY).envForUser(env, userId)
+    : env;
+
+  return new SendGridService(accountEnv).verifyWebhookSignature(rawBody, signature, timestamp);
+}
+
+// The user whose lead the first event is about; a batch comes from a single SendGrid account
+async function sendGridEventOwner(db: DatabaseService, rawBody: string): Promise<string | undefined> {
+  let events: unknown;
+  try {
+    events = JSON.parse(rawBody);
+  } catch {
+    return undefined;
+  }
+
+  const leadId = Array.isArray(events)
+    ? events.find((event: SendGridWebhookEvent) => typeof event?.lead_id === 'string')?.lead_id
+    : undefined;
+  const lead = leadId ? await db.getLeadById(leadId) : null;
+  const campaign = lead ? await db.getCampaignById(lead.campaign_id) : null;
+
+  return campaign?.user_id;
+}
+
+// POST /api/webhooks/sendgrid - SendGrid signed event webhook
 webhookRoutes.post('/sendgrid', async (c) => {
   try {
-    const events = await c.req.json();
-    console.log('SendGrid webhook received:', JSON.stringify(events, null, 2));
-    
-    // Process email events (delivered, opened, clicked, etc.)
-    if (Array.isArray(events)) {
-      for (const event of events) {
-        // TODO: Update lead interaction status based on email events
-        // This would be implemented in Phase 3
-        console.log(`Email event: ${event.event} for ${event.email}`);
+    const rawBody = await c.req.text();
+
+    const isValid = await verifySendGridRequest(
+      c.env,
+      rawBody,
+      c.req.header('x-twilio-email-event-webhook-signature') || '',
+      c.req.header('x-twilio-email-event-webhook-timestamp') || ''
+    );
+    if (!isValid) {
+      console.error('Invalid SendGrid webhook signature');
+      return c.text('Forbidden', 403);
+    }
+
+    const events: SendGridWebhookEvent[] = JSON.parse(rawBody);
+    if (!Array.isArray(events)) {
+      return c.text('Bad Request', 400);
+    }
+
+    const db = new DatabaseService(c.env.DB);
+    const processor = new MessageProcessor(c.env);
+
+    for (const event of events) {
+      // Store the raw event for audit before acting on it
+      const eventId = await generateId();
+      await db.createWebhookEvent({
+        id: eventId,
+        source: 'sendgrid',
+        event_type: `email_${event.event}`,
+        payload: JSON.stringify(event),
+        processed: false,
+        received_at: Date.now()
+      });
+
+      try {
+        // custom_args are flattened onto each event
+        await processor.processWebhookEvent({
+          type: 'sendgrid',
+          messageId: event.sg_message_id || '',
+          status: event.event,
+          timestamp: event.timestamp * 1000,
+          url: event.url,
+          error: event.reason || event.response,
+          bounceType: event.type,
+          leadId: event.lead_id,
+          dripStepId: event.drip_step_id,
+          journeyId: event.journey_id
+        });
+        await db.markWebhookEventProcessed(eventId);
+      } catch (error) {
+        console.error(`SendGrid event processing error for ${event.sg_event_id}:`, error);
+        await db.markWebhookEventProcessed(eventId, error instanceof Error ? error.message : 'Unknown error');
       }
     }
     
@@ -273,16 +555,16 @@ webhookRoutes.post('/sendgrid', async (c) => {
 /**
  * Trigger drip campaign for a new lead
  */
-async function triggerDripCampaign(lead: Lead, db: DatabaseService, env: Env): Promise<void> {
+async function triggerDripCampaign(lead: Lead, userId: string, db: DatabaseService, env: Env): Promise<void> {
   try {
-    // Find active drip campaigns that should trigger for Meta leads
-    const campaigns = await db.getDripCampaignsByUser('system'); // TODO: Map to actual user ID
+    // Find the owner's active drip campaigns that should trigger for Meta leads
+    const campaigns = await db.getDripCampaignsByUser(userId);
     const metaLeadCampaigns = campaigns.filter(c => 
       c.trigger_type === 'meta_lead' && c.active
     );
 
     if (metaLeadCampaigns.length === 0) {
-      console.log('No active Meta lead drip campaigns found');
+      console.log(`No active Meta lead drip campaigns found for user ${userId}`);
       return;
     }
 
@@ -292,125 +574,15 @@ async function triggerDripCampaign(lead: Lead, db: DatabaseService, env: Env): P
     
     console.log(`Starting drip campaign ${campaign.id} for lead ${lead.id}`);
 
-    // Check if journey already exists
-    const existingJourney = await db.getJourneyByLeadAndCampaign(lead.id, campaign.id);
-    if (existingJourney) {
+    const journey = await new JourneySchedulerService(db, env).enroll(lead.id, campaign.id);
+    if (!journey) {
       console.log(`Journey already exists for lead ${lead.id} and campaign ${campaign.id}`);
       return;
     }
-
-    // Create new journey
-    const journeyId = await generateId();
-    const now = Date.now();
-
-    const journey: LeadJourney = {
-      id: journeyId,
-      lead_id: lead.id,
-      campaign_id: campaign.id,
-      current_step: 0,
-      status: 'active',
-      started_at: now,
-      last_interaction_at: now,
-      total_sms_sent: 0,
-      total_emails_sent: 0,
-      total_opens: 0,
-      total_clicks: 0,
-      created_at: now,
-      updated_at: now
-    };
-
-    await db.createLeadJourney(journey);
-    console.log(`Journey ${journeyId} created for lead ${lead.id}`);
-
-    // Queue first step using the same function from drip-campaigns.ts
-    await queueNextStepInJourney(journey, env, db);
+    console.log(`Journey ${journey.id} created for lead ${lead.id}`);
     
   } catch (error) {
     console.error('Error triggering drip campaign:', error);
     // Don't throw to avoid breaking webhook processing
   }
-}
-
-/**
- * Queue next step in a lead journey (adapted from drip-campaigns.ts)
- */
-async function queueNextStepInJourney(journey: LeadJourney, env: Env, db: DatabaseService): Promise<void> {
-  const nextStepNumber = journey.current_step + 1;
-
-  // Get next step
-  const step = await db.getDripStepByNumber(journey.campaign_id, nextStepNumber);
-  if (!step || !step.active) {
-    // Journey complete
-    await db.updateLeadJourney(journey.id, {
-      status: 'completed',
-      completed_at: Date.now(),
-      updated_at: Date.now()
-    });
-    return;
-  }
-
-  // Get lead information
-  const lead = await db.getLeadById(journey.lead_id);
-  if (!lead) {
-    throw new Error('Lead not found');
-  }
-
-  // Calculate send time
-  const scheduledAt = Date.now() + (step.delay_minutes * 60 * 1000);
-  const messageId = await generateId();
-
-  if (step.channel === 'sms') {
-    // Queue SMS
-    if (!lead.phone) {
-      console.log(`Skipping SMS step for lead ${lead.id} - no phone number`);
-      return;
-    }
-
-    const smsMessage = {
-      id: messageId,
-      lead_id: lead.id,
-      drip_step_id: step.id,
-      to_number: lead.phone,
-      from_number: env.TWILIO_PHONE_NUMBER || '',
-      content: step.content_template || 'Thank you for your interest!',
-      status: 'pending' as const,
-      scheduled_at: scheduledAt,
-      created_at: Date.now(),
-      updated_at: Date.now()
-    };
-
-    await db.createSMSMessage(smsMessage);
-  } else if (step.channel === 'email') {
-    // Queue Email
-    if (!lead.email) {
-      console.log(`Skipping email step for lead ${lead.id} - no email address`);
-      return;
-    }
-
-    const emailMessage = {
-      id: messageId,
-      lead_id: lead.id,
-      drip_step_id: step.id,
-      to_email: lead.email,
-      subject: step.subject_template || 'Thank you for your interest!',
-      template_id: step.sendgrid_template_id,
-      dynamic_data: JSON.stringify({
-        first_name: lead.first_name,
-        last_name: lead.last_name,
-        company: lead.company
-      }),
-      status: 'pending' as const,
-      scheduled_at: scheduledAt,
-      created_at: Date.now(),
-      updated_at: Date.now()
-    };
-
-    await db.createEmailMessage(emailMessage);
-  }
-
-  // Update journey current step
-  await db.updateLeadJourney(journey.id, {
-    current_step: nextStepNumber,
-    updated_at: Date.now()
-  });
 }
\ No newline at end of file
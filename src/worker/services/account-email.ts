@@ -0,0 +1,60 @@
+// Account email - password reset and email verification messages sent from the platform SendGrid account
+
+import { Env } from '../types/env';
+import { User } from '../types/database';
+import { SendGridService } from './sendgrid';
+
+export class AccountEmailService {
+  private sendgrid: SendGridService;
+
+  /**
+   * `appUrl` is the origin the React app is served from; links point at its pages
+   */
+  constructor(env: Env, private appUrl: string) {
+    this.sendgrid = new SendGridService(env);
+  }
+
+  async sendPasswordReset(user: User, token: string): Promise<void> {
+    const link = `${this.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.send(user, 'Reset your LeadFuego password', `
+      <p>Hi ${escapeHtml(user.first_name || 'there')},</p>
+      <p>We received a request to reset the password for your LeadFuego account.</p>
+      <p><a href="${link}">Choose a new password</a></p>
+      <p>This link expires in 1 hour and can only be used once. If you didn't ask for a reset, you can ignore this email.</p>
+    `);
+  }
+
+  async sendEmailVerification(user: User, token: string): Promise<void> {
+    const link = `${this.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send(user, 'Confirm your LeadFuego email address', `
+      <p>Hi ${escapeHtml(user.first_name || 'there')},</p>
+      <p>Confirm that ${escapeHtml(user.email)} is your email address to finish setting up your LeadFuego account.</p>
+      <p><a href="${link}">Verify email address</a></p>
+      <p>This link expires in 7 days.</p>
+    `);
+  }
+
+  private async send(user: User, subject: string, content: string): Promise<void> {
+    const result = await this.sendgrid.sendEmail({
+      to: user.email,
+      name: [user.first_name, user.last_name].filter(Boolean).join(' ') || undefined,
+      subject,
+      content,
+      transactional: true
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send account email');
+    }
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
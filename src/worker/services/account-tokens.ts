@@ -0,0 +1,47 @@
+// Account tokens - single-use, expiring tokens for password reset and email verification
+
+import { generateToken, hashToken } from '../utils/crypto';
+
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+// Seconds each kind of link stays valid
+export const ACCOUNT_TOKEN_TTL: Record<AccountTokenPurpose, number> = {
+  password_reset: 60 * 60,
+  email_verification: 7 * 24 * 60 * 60
+};
+
+export class AccountTokenService {
+  constructor(private kv: KVNamespace) {}
+
+  /**
+   * Create a token for a user. Only its hash is stored, so a leaked KV
+   * listing can't be turned into working links.
+   */
+  async issue(purpose: AccountTokenPurpose, userId: string): Promise<string> {
+    const token = generateToken(32);
+    await this.kv.put(await this.key(purpose, token), userId, {
+      expirationTtl: ACCOUNT_TOKEN_TTL[purpose]
+    });
+    return token;
+  }
+
+  /**
+   * The user a token was issued to, or null if it is unknown, expired or
+   * already used. The token is deleted so it can't be used twice.
+   */
+  async consume(purpose: AccountTokenPurpose, token: string): Promise<string | null> {
+    const key = await this.key(purpose, token);
+    const userId = await this.kv.get(key);
+
+    if (!userId) {
+      return null;
+    }
+
+    await this.kv.delete(key);
+    return userId;
+  }
+
+  private async key(purpose: AccountTokenPurpose, token: string): Promise<string> {
+    return `account_token:${purpose}:${await hashToken(token)}`;
+  }
+}
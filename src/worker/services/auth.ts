@@ -1,14 +1,22 @@
 // Authentication service with JWT handling
 
 import { SignJWT, jwtVerify } from 'jose';
-import { User } from '../types/database';
+import { Session, User } from '../types/database';
 import { JwtPayload } from '../types/api';
-import { hashPassword, verifyPassword, generateId } from '../utils/crypto';
+import { hashPassword, verifyPassword, needsRehash, generateId, generateToken, hashToken } from '../utils/crypto';
 import { DatabaseService } from './database';
 
+// Refresh tokens (and so sessions) last this long without use
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SessionTokens {
+  session: Session;
+  refreshToken: string;
+}
+
 export class AuthService {
   private readonly JWT_ALGORITHM = 'HS256';
-  private readonly JWT_EXPIRATION = '7d';
+  private readonly JWT_EXPIRATION = '15m'; // Access tokens; renewed with the refresh token
   
   constructor(
     private db: DatabaseService,
@@ -41,6 +49,7 @@ export class AuthService {
       company,
       subscription_tier: 'free',
       onboarding_completed: false,
+      email_verified: false,
       is_active: true,
       created_at: Date.now(),
       updated_at: Date.now()
@@ -62,15 +71,103 @@ export class AuthService {
       throw new Error('Invalid credentials');
     }
 
+    // Upgrade legacy or weaker hashes now that we have the plaintext
+    if (needsRehash(user.password_hash)) {
+      try {
+        const passwordHash = await hashPassword(password);
+        await this.db.updateUser(user.id, { password_hash: passwordHash });
+        user.password_hash = passwordHash;
+      } catch (error) {
+        console.error('Password rehash failed:', error);
+      }
+    }
+
     return user;
   }
 
-  async generateJWT(user: User): Promise<string> {
+  /**
+   * Start a session for a device and return its first refresh token
+   */
+  async createSession(user: User, device: { userAgent?: string; ipAddress?: string } = {}): Promise<SessionTokens> {
+    const refreshToken = generateToken(32);
+    const now = Date.now();
+    const session: Session = {
+      id: await generateId(),
+      user_id: user.id,
+      refresh_token_hash: await hashToken(refreshToken),
+      user_agent: device.userAgent?.slice(0, 255),
+      ip_address: device.ipAddress,
+      created_at: now,
+      last_used_at: now,
+      expires_at: now + REFRESH_TOKEN_TTL_MS
+    };
+
+    await this.db.createSession(session);
+    return { session, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one on the same session. Presenting a
+   * token that was already rotated out means it was copied, so the session
+   * is revoked for both holders.
+   */
+  async refreshSession(refreshToken: string): Promise<SessionTokens & { user: User }> {
+    const tokenHash = await hashToken(refreshToken);
+    const session = await this.db.getSessionByRefreshToken(tokenHash);
+
+    if (!session) {
+      const replayed = await this.db.getSessionByPreviousToken(tokenHash);
+      if (replayed) {
+        await this.db.revokeSession(replayed.id);
+      }
+      throw new Error('Invalid refresh token');
+    }
+
+    if (session.revoked_at || session.expires_at <= Date.now()) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const user = await this.db.getUserById(session.user_id);
+    if (!user || !user.is_active) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const nextToken = generateToken(32);
+    const nextHash = await hashToken(nextToken);
+    const expiresAt = Date.now() + REFRESH_TOKEN_TTL_MS;
+
+    const rotated = await this.db.rotateSessionToken(session.id, tokenHash, nextHash, expiresAt);
+    if (!rotated) {
+      throw new Error('Invalid refresh token');
+    }
+
+    return {
+      user,
+      refreshToken: nextToken,
+      session: {
+        ...session,
+        refresh_token_hash: nextHash,
+        previous_token_hash: tokenHash,
+        last_used_at: Date.now(),
+        expires_at: expiresAt
+      }
+    };
+  }
+
+  async revokeSessionByRefreshToken(refreshToken: string): Promise<void> {
+    const session = await this.db.getSessionByRefreshToken(await hashToken(refreshToken));
+    if (session) {
+      await this.db.revokeSession(session.id);
+    }
+  }
+
+  async generateJWT(user: User, sessionId: string): Promise<string> {
     const secret = new TextEncoder().encode(this.jwtSecret);
     
     const jwt = await new SignJWT({
       userId: user.id,
-      email: user.email
+      email: user.email,
+      sid: sessionId
     })
       .setProtectedHeader({ alg: this.JWT_ALGORITHM })
       .setIssuedAt()
@@ -87,6 +184,7 @@ export class AuthService {
       return {
         userId: payload.userId as string,
         email: payload.email as string,
+        sessionId: payload.sid as string,
         iat: payload.iat as number,
         exp: payload.exp as number
       };
@@ -95,10 +193,28 @@ export class AuthService {
     }
   }
 
+  /**
+   * The user an access token belongs to, or null if the token is invalid or
+   * its session has been revoked (logged out)
+   */
   async getUserFromToken(token: string): Promise<User | null> {
+    const session = await this.getSessionFromToken(token);
+    return session ? await this.db.getUserById(session.user_id) : null;
+  }
+
+  async getSessionFromToken(token: string): Promise<Session | null> {
     try {
       const payload = await this.verifyJWT(token);
-      return await this.db.getUserById(payload.userId);
+      if (!payload.sessionId) {
+        return null; // Issued before sessions existed
+      }
+
+      const session = await this.db.getSessionById(payload.sessionId);
+      if (!session || session.revoked_at || session.user_id !== payload.userId) {
+        return null;
+      }
+
+      return session;
     } catch {
       return null;
     }
@@ -0,0 +1,250 @@
+// Campaign launch pipeline - pushes a campaign and its approved creatives to Meta
+
+import { AdCreative, Campaign, MetaAdMapping } from '../types/database';
+import { DatabaseService } from './database';
+import { MetaAPIService } from './meta-api';
+import { generateId } from '../utils/crypto';
+
+export interface LaunchOptions {
+  pageId: string;
+  leadFormId?: string;
+  link?: string;
+}
+
+export interface LaunchResult {
+  metaCampaignId: string;
+  metaAdSetId: string;
+  ads: Array<{
+    creativeId: string;
+    metaCreativeId: string;
+    metaAdId: string;
+  }>;
+}
+
+interface CreatedMetaObject {
+  type: 'campaign' | 'adset' | 'image' | 'creative' | 'ad';
+  id: string;
+}
+
+/**
+ * The campaign is already on Meta, or another request is launching it
+ */
+export class CampaignLaunchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CampaignLaunchError';
+  }
+}
+
+export class CampaignLaunchService {
+  constructor(
+    private db: DatabaseService,
+    private metaAPI: MetaAPIService
+  ) {}
+
+  /**
+   * Create the Meta campaign, ad set, images, creatives and ads for every
+   * approved creative, then record the Meta IDs and activate the campaign.
+   * The campaign is marked launching first, so it is only pushed to Meta
+   * once; any failure deletes whatever was already created on Meta and puts
+   * the campaign back to its status.
+   */
+  async launch(campaign: Campaign, creatives: AdCreative[], options: LaunchOptions): Promise<LaunchResult> {
+    if (creatives.length === 0) {
+      throw new Error('No approved creatives to launch');
+    }
+
+    if (campaign.meta_campaign_id) {
+      throw new CampaignLaunchError('Campaign has already been launched on Meta');
+    }
+    if (!(await this.db.claimCampaignLaunch(campaign.id, campaign.status))) {
+      throw new CampaignLaunchError('Campaign is already being launched');
+    }
+
+    const created: CreatedMetaObject[] = [];
+    const mappings: MetaAdMapping[] = [];
+    let recorded = false;
+
+    try {
+      // 1. Campaign (paused until everything underneath exists)
+      const metaCampaign = await this.metaAPI.createCampaign({
+        name: campaign.name,
+        objective: this.metaAPI.mapObjective(campaign.objective),
+        daily_budget: campaign.daily_budget,
+        targeting: undefined,
+        status: 'PAUSED'
+      });
+      created.push({ type: 'campaign', id: metaCampaign.id });
+
+      // 2. Ad set with the stored audience
+      const targeting = this.metaAPI.buildTargeting(JSON.parse(campaign.target_audience));
+      const adSet = await this.metaAPI.createAdSet(
+        metaCampaign.id,
+        `${campaign.name} - Ad Set`,
+        campaign.daily_budget,
+        targeting,
+        options.pageId,
+        'ACTIVE'
+      );
+      created.push({ type: 'adset', id: adSet.id });
+
+      const ads: LaunchResult['ads'] = [];
+      const launchedCreatives: Array<{ id: string; meta_creative_id: string; image_hash?: string }> = [];
+
+      for (const [index, creative] of creatives.entries()) {
+        // 3. Image
+        let imageHash: string | undefined;
+        if (creative.image_url) {
+          const image = await this.metaAPI.uploadImage(creative.image_url);
+          imageHash = image.hash;
+          created.push({ type: 'image', id: image.hash });
+        }
+
+        // 4. Creative
+        const metaCreative = await this.metaAPI.createCreative({
+          name: `${campaign.name} - Creative ${index + 1}`,
+          object_story_spec: this.metaAPI.buildLinkData(creative, {
+            link: options.link,
+            imageHash,
+            leadFormId: options.leadFormId
+          })
+        }, options.pageId);
+        created.push({ type: 'creative', id: metaCreative.id });
+
+        // 5. Ad
+        const ad = await this.metaAPI.createAd({
+          name: `${campaign.name} - Ad ${index + 1}`,
+          adset_id: adSet.id,
+          creative: { creative_id: metaCreative.id },
+          status: 'ACTIVE'
+        });
+        created.push({ type: 'ad', id: ad.id });
+
+        ads.push({ creativeId: creative.id, metaCreativeId: metaCreative.id, metaAdId: ad.id });
+        launchedCreatives.push({ id: creative.id, meta_creative_id: metaCreative.id, image_hash: imageHash });
+      }
+
+      // 6. Record every Meta ID before going live
+      const now = Date.now();
+      mappings.push(
+        await this.buildMapping(campaign, 'campaign', metaCampaign.id, now),
+        await this.buildMapping(campaign, 'adset', adSet.id, now)
+      );
+      for (const ad of ads) {
+        mappings.push(await this.buildMapping(campaign, 'ad', ad.metaAdId, now, ad.creativeId));
+      }
+      if (options.leadFormId) {
+        mappings.push(await this.buildMapping(campaign, 'form', options.leadFormId, now));
+      }
+
+      await this.db.saveCampaignLaunch({
+        campaignId: campaign.id,
+        metaCampaignId: metaCampaign.id,
+        launchedAt: now,
+        creatives: launchedCreatives,
+        mappings
+      });
+      recorded = true;
+
+      // 7. Flip the campaign live
+      const activated = await this.metaAPI.updateCampaignStatus(metaCampaign.id, 'ACTIVE');
+      if (!activated) {
+        throw new Error('Meta campaign activation failed');
+      }
+
+      for (const creative of launchedCreatives) {
+        await this.db.updateCreative(creative.id, { status: 'active' });
+      }
+
+      return { metaCampaignId: metaCampaign.id, metaAdSetId: adSet.id, ads };
+    } catch (error) {
+      console.error(`Launch failed for campaign ${campaign.id}, rolling back ${created.length} Meta objects:`, error);
+      await this.rollback(created);
+      if (recorded) {
+        await this.revertLaunchRecord(campaign, creatives, mappings);
+      } else {
+        await this.releaseClaim(campaign);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete created Meta objects, children first
+   */
+  private async rollback(created: CreatedMetaObject[]): Promise<void> {
+    for (const object of [...created].reverse()) {
+      try {
+        const deleted = object.type === 'image'
+          ? await this.metaAPI.deleteImage(object.id)
+          : object.type === 'campaign'
+            ? await this.metaAPI.deleteCampaign(object.id)
+            : await this.metaAPI.deleteObject(object.id);
+
+        if (!deleted) {
+          console.error(`Rollback could not delete Meta ${object.type} ${object.id}`);
+        }
+      } catch (error) {
+        console.error(`Rollback error for Meta ${object.type} ${object.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Put a campaign that failed to launch back to the status it was claimed from
+   */
+  private async releaseClaim(campaign: Campaign): Promise<void> {
+    try {
+      await this.db.updateCampaign(campaign.id, { status: campaign.status });
+    } catch (error) {
+      console.error(`Failed to release launch of campaign ${campaign.id}:`, error);
+    }
+  }
+
+  /**
+   * Undo the launch record if it was written before a later step failed
+   */
+  private async revertLaunchRecord(
+    campaign: Campaign,
+    creatives: AdCreative[],
+    mappings: MetaAdMapping[]
+  ): Promise<void> {
+    try {
+      await this.db.updateCampaign(campaign.id, {
+        meta_campaign_id: campaign.meta_campaign_id,
+        status: campaign.status,
+        launch_date: campaign.launch_date
+      });
+
+      for (const creative of creatives) {
+        await this.db.updateCreative(creative.id, {
+          meta_creative_id: creative.meta_creative_id,
+          image_hash: creative.image_hash,
+          status: creative.status
+        });
+      }
+
+      await this.db.deleteMetaAdMappings(mappings.map(mapping => mapping.id));
+    } catch (error) {
+      console.error(`Failed to revert launch record for campaign ${campaign.id}:`, error);
+    }
+  }
+
+  private async buildMapping(
+    campaign: Campaign,
+    objectType: MetaAdMapping['meta_object_type'],
+    metaObjectId: string,
+    createdAt: number,
+    adCreativeId?: string
+  ): Promise<MetaAdMapping> {
+    return {
+      id: await generateId(),
+      campaign_id: campaign.id,
+      user_id: campaign.user_id,
+      meta_object_type: objectType,
+      meta_object_id: metaObjectId,
+      ad_creative_id: adCreativeId,
+      created_at: createdAt
+    };
+  }
+}
@@ -0,0 +1,51 @@
+// Creative approval workflow - status transitions for generated ad creatives
+
+import { AdCreative } from '../types/database';
+import { DatabaseService } from './database';
+
+type CreativeStatus = AdCreative['status'];
+
+// generated → approved/rejected → uploaded → active/paused
+const CREATIVE_TRANSITIONS: Record<CreativeStatus, CreativeStatus[]> = {
+  generated: ['approved', 'rejected'],
+  approved: ['rejected', 'uploaded'],
+  rejected: ['approved'],
+  uploaded: ['active', 'paused'],
+  active: ['paused'],
+  paused: ['active']
+};
+
+export function canTransitionCreative(from: CreativeStatus, to: CreativeStatus): boolean {
+  return CREATIVE_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export class CreativeApprovalService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Approve or reject a creative on behalf of a reviewer
+   */
+  async review(
+    creative: AdCreative,
+    reviewerId: string,
+    approved: boolean,
+    rejectionReason?: string
+  ): Promise<AdCreative> {
+    const status: CreativeStatus = approved ? 'approved' : 'rejected';
+
+    if (!canTransitionCreative(creative.status, status)) {
+      throw new Error(`Invalid creative transition: ${creative.status} → ${status}`);
+    }
+
+    const updates: Partial<AdCreative> = {
+      status,
+      reviewed_by: reviewerId,
+      reviewed_at: Date.now(),
+      rejection_reason: approved ? undefined : (rejectionReason || 'Rejected by reviewer')
+    };
+
+    await this.db.updateCreative(creative.id, updates);
+
+    return { ...creative, ...updates };
+  }
+}
@@ -0,0 +1,232 @@
+// Credential vault - per-user provider credentials encrypted under ENCRYPTION_KEY
+
+import { Env } from '../types/env';
+import { UserCredential } from '../types/database';
+import { DatabaseService } from './database';
+import { decryptSecret, encryptSecret, generateId } from '../utils/crypto';
+
+export interface ProviderCredentials {
+  meta: {
+    accessToken: string;
+    adAccountId?: string; // Unset between Facebook Login and account selection
+    appSecret?: string; // OAuth tokens belong to the platform app and use its secret
+    appId?: string;
+    pageId?: string;
+    pageAccessToken?: string;
+    expiresAt?: number;
+    connectedVia?: 'oauth' | 'manual';
+  };
+  twilio: {
+    accountSid: string;
+    authToken: string;
+    phoneNumber: string;
+  };
+  sendgrid: {
+    apiKey: string;
+    fromEmail: string;
+    fromName?: string;
+    unsubscribeGroupId?: string;
+    webhookPublicKey?: string; // Verifies the signed event webhook of the user's SendGrid account
+  };
+  openai: {
+    apiKey: string;
+  };
+}
+
+export type CredentialProvider = keyof ProviderCredentials;
+
+export const CREDENTIAL_PROVIDERS: CredentialProvider[] = ['meta', 'twilio', 'sendgrid', 'openai'];
+
+// What the API exposes about stored credentials - never the secrets
+export type CredentialSummary = Omit<UserCredential, 'encrypted_data' | 'iv'>;
+
+export class CredentialVaultService {
+  constructor(
+    private db: DatabaseService,
+    private encryptionKey: string
+  ) {}
+
+  /**
+   * Encrypt and store a user's credentials for a provider, replacing any
+   * existing ones. Saved credentials start unverified.
+   */
+  async save<P extends CredentialProvider>(
+    userId: string,
+    provider: P,
+    credentials: ProviderCredentials[P]
+  ): Promise<CredentialSummary> {
+    const { ciphertext, iv } = await encryptSecret(
+      JSON.stringify(credentials),
+      this.encryptionKey,
+      encryptionContext(userId, provider)
+    );
+    const now = Date.now();
+
+    await this.db.upsertUserCredential({
+      id: await generateId(),
+      user_id: userId,
+      provider,
+      account_id: accountIdFor(provider, credentials),
+      encrypted_data: ciphertext,
+      iv,
+      status: 'unverified',
+      expires_at: provider === 'meta' ? (credentials as ProviderCredentials['meta']).expiresAt : undefined,
+      created_at: now,
+      updated_at: now
+    });
+
+    return summarize((await this.db.getUserCredential(userId, provider))!);
+  }
+
+  /**
+   * Decrypted credentials for a provider, or null if the user has none
+   */
+  async get<P extends CredentialProvider>(userId: string, provider: P): Promise<ProviderCredentials[P] | null> {
+    const credential = await this.db.getUserCredential(userId, provider);
+    return credential ? await this.decrypt<P>(credential) : null;
+  }
+
+  async list(userId: string): Promise<CredentialSummary[]> {
+    const credentials = await this.db.getUserCredentialsByUser(userId);
+    return credentials.map(summarize);
+  }
+
+  async remove(userId: string, provider: CredentialProvider): Promise<boolean> {
+    return await this.db.deleteUserCredential(userId, provider);
+  }
+
+  /**
+   * Record the outcome of a connection test
+   */
+  async recordVerification(userId: string, provider: CredentialProvider, error?: string): Promise<void> {
+    const credential = await this.db.getUserCredential(userId, provider);
+    if (!credential) {
+      return;
+    }
+
+    await this.db.updateUserCredential(credential.id, {
+      status: error ? 'invalid' : 'valid',
+      verified_at: Date.now(),
+      verification_error: error, // Cleared to NULL on success
+      updated_at: Date.now()
+    });
+  }
+
+  /**
+   * The worker env with the user's stored credentials in place of the
+   * platform ones, for constructing services that act on the user's behalf.
+   * Providers the user hasn't connected keep the platform credentials.
+   */
+  async envForUser(env: Env, userId: string): Promise<Env> {
+    const credentials = await this.db.getUserCredentialsByUser(userId);
+    let userEnv = env;
+
+    for (const credential of credentials) {
+      try {
+        userEnv = applyCredentials(userEnv, credential.provider, await this.decrypt(credential));
+      } catch (error) {
+        console.error(`Could not decrypt ${credential.provider} credentials for user ${userId}:`, error);
+      }
+    }
+
+    return userEnv;
+  }
+
+  /**
+   * The worker env for the tenant owning a provider account, e.g. the Twilio
+   * AccountSid on a webhook. Falls back to the platform env.
+   */
+  async envForAccount(env: Env, provider: CredentialProvider, accountId: string): Promise<Env> {
+    const credential = await this.db.getUserCredentialByAccount(provider, accountId);
+    return credential ? await this.envForUser(env, credential.user_id) : env;
+  }
+
+  private async decrypt<P extends CredentialProvider>(credential: UserCredential): Promise<ProviderCredentials[P]> {
+    const plaintext = await decryptSecret(
+      credential.encrypted_data,
+      credential.iv,
+      this.encryptionKey,
+      encryptionContext(credential.user_id, credential.provider)
+    );
+    return JSON.parse(plaintext);
+  }
+}
+
+/**
+ * Overlay a provider's credentials onto the env variables its service reads
+ */
+export function applyCredentials<P extends CredentialProvider>(
+  env: Env,
+  provider: P,
+  credentials: ProviderCredentials[P]
+): Env {
+  switch (provider) {
+    case 'meta': {
+      const meta = credentials as ProviderCredentials['meta'];
+      return {
+        ...env,
+        META_ACCESS_TOKEN: meta.accessToken,
+        META_AD_ACCOUNT_ID: meta.adAccountId || '',
+        META_APP_SECRET: meta.appSecret || env.META_APP_SECRET,
+        META_APP_ID: meta.appId ?? env.META_APP_ID,
+        META_PAGE_ID: meta.pageId ?? env.META_PAGE_ID
+      };
+    }
+    case 'twilio': {
+      const twilio = credentials as ProviderCredentials['twilio'];
+      return {
+        ...env,
+        TWILIO_ACCOUNT_SID: twilio.accountSid,
+        TWILIO_AUTH_TOKEN: twilio.authToken,
+        TWILIO_PHONE_NUMBER: twilio.phoneNumber
+      };
+    }
+    case 'sendgrid': {
+      const sendgrid = credentials as ProviderCredentials['sendgrid'];
+      return {
+        ...env,
+        SENDGRID_API_KEY: sendgrid.apiKey,
+        SENDGRID_FROM_EMAIL: sendgrid.fromEmail,
+        SENDGRID_FROM_NAME: sendgrid.fromName,
+        SENDGRID_UNSUBSCRIBE_GROUP_ID: sendgrid.unsubscribeGroupId,
+        SENDGRID_WEBHOOK_PUBLIC_KEY: sendgrid.webhookPublicKey
+      };
+    }
+    default: {
+      const openai = credentials as ProviderCredentials['openai'];
+      return { ...env, OPENAI_API_KEY: openai.apiKey };
+    }
+  }
+}
+
+function accountIdFor<P extends CredentialProvider>(provider: P, credentials: ProviderCredentials[P]): string | undefined {
+  switch (provider) {
+    case 'meta':
+      return (credentials as ProviderCredentials['meta']).adAccountId;
+    case 'twilio':
+      return (credentials as ProviderCredentials['twilio']).accountSid;
+    case 'sendgrid':
+      return (credentials as ProviderCredentials['sendgrid']).fromEmail;
+    default:
+      return undefined;
+  }
+}
+
+function encryptionContext(userId: string, provider: string): string {
+  return `${userId}:${provider}`;
+}
+
+function summarize(credential: UserCredential): CredentialSummary {
+  return {
+    id: credential.id,
+    user_id: credential.user_id,
+    provider: credential.provider,
+    account_id: credential.account_id,
+    status: credential.status,
+    verified_at: credential.verified_at,
+    verification_error: credential.verification_error,
+    expires_at: credential.expires_at,
+    created_at: credential.created_at,
+    updated_at: credential.updated_at
+  };
+}
@@ -6,12 +6,29 @@ import {
   Campaign, 
   AdCreative, 
   Lead, 
+  MetaAdMapping,
   DripCampaign, 
   DripStep, 
   LeadJourney, 
   SMSMessage, 
-  EmailMessage 
+  EmailMessage,
+  LeadListItem,
+  LeadListQuery,
+  LeadListFilters,
+  LeadExport,
+  LeadExportRow,
+  JobRun,
+  WebhookEvent,
+  InboundMessage,
+  Suppression,
+  UserCredential,
+  Session,
+  LeadStatusChange,
+  LeadImport,
+  LeadImportError
 } from '../types/database';
+import { generateId } from '../utils/crypto';
+import { emailKey, phoneKey } from '../utils/lead-identity';
 
 export class DatabaseService {
   constructor(private db: D1Database) {}
@@ -21,8 +38,8 @@ export class DatabaseService {
     await this.db.prepare(`
       INSERT INTO users (
         id, email, password_hash, first_name, last_name, company,
-        subscription_tier, onboarding_completed, is_active, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        subscription_tier, onboarding_completed, email_verified, is_active, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       user.id,
       user.email,
@@ -32,6 +49,7 @@ export class DatabaseService {
       user.company || null,
       user.subscription_tier,
       user.onboarding_completed ? 1 : 0,
+      user.email_verified ? 1 : 0,
       user.is_active ? 1 : 0,
       user.created_at,
       user.updated_at
@@ -106,6 +124,14 @@ export class DatabaseService {
     return result ? this.mapCampaignFromDb(result) : null;
   }
 
+  async getCampaignByMetaId(metaCampaignId: string): Promise<Campaign | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM campaigns WHERE meta_campaign_id = ?'
+    ).bind(metaCampaignId).first<Campaign>();
+    
+    return result ? this.mapCampaignFromDb(result) : null;
+  }
+
   async getCampaignsByUserId(userId: string, limit = 20, offset = 0): Promise<Campaign[]> {
     const results = await this.db.prepare(`
       SELECT * FROM campaigns 
@@ -125,7 +151,7 @@ export class DatabaseService {
     
     const values = Object.keys(updates)
       .filter(key => key !== 'id')
-      .map(key => updates[key as keyof Campaign]);
+      .map(key => updates[key as keyof Campaign] ?? null);
     
     values.push(Date.now()); // updated_at
     values.push(id); // WHERE id = ?
@@ -172,25 +198,120 @@ export class DatabaseService {
     return results.results;
   }
 
+  // Meta ad mapping operations
+  async getMetaAdMapping(
+    objectType: MetaAdMapping['meta_object_type'],
+    metaObjectId: string
+  ): Promise<MetaAdMapping | null> {
+    return await this.db.prepare(`
+      SELECT * FROM meta_ad_mappings 
+      WHERE meta_object_type = ? AND meta_object_id = ? 
+      ORDER BY created_at DESC 
+      LIMIT 1
+    `).bind(objectType, metaObjectId).first<MetaAdMapping>();
+  }
+
+  /**
+   * Persist the Meta IDs produced by a campaign launch in a single batch so a
+   * failed write never leaves the campaign half-recorded
+   */
+  /**
+   * Mark a campaign as launching. False if it has been launched, or its
+   * status has changed, since it was read - e.g. by a concurrent launch.
+   */
+  async claimCampaignLaunch(id: string, status: Campaign['status']): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE campaigns 
+      SET status = 'launching', updated_at = ?
+      WHERE id = ? AND status = ? AND meta_campaign_id IS NULL
+    `).bind(Date.now(), id, status).run();
+
+    return result.meta.changes > 0;
+  }
+
+  async saveCampaignLaunch(launch: {
+    campaignId: string;
+    metaCampaignId: string;
+    launchedAt: number;
+    creatives: Array<{ id: string; meta_creative_id: string; image_hash?: string }>;
+    mappings: MetaAdMapping[];
+  }): Promise<void> {
+    const statements: D1PreparedStatement[] = [
+      this.db.prepare(`
+        UPDATE campaigns 
+        SET meta_campaign_id = ?, status = 'active', launch_date = ?, updated_at = ? 
+        WHERE id = ?
+      `).bind(launch.metaCampaignId, launch.launchedAt, launch.launchedAt, launch.campaignId)
+    ];
+
+    for (const creative of launch.creatives) {
+      statements.push(this.db.prepare(`
+        UPDATE ad_creatives 
+        SET meta_creative_id = ?, image_hash = ?, status = 'uploaded' 
+        WHERE id = ?
+      `).bind(creative.meta_creative_id, creative.image_hash || null, creative.id));
+    }
+
+    for (const mapping of launch.mappings) {
+      statements.push(this.metaAdMappingStatement(mapping));
+    }
+
+    await this.db.batch(statements);
+  }
+
+  private metaAdMappingStatement(mapping: MetaAdMapping): D1PreparedStatement {
+    return this.db.prepare(`
+      INSERT OR IGNORE INTO meta_ad_mappings (
+        id, campaign_id, user_id, meta_object_type, meta_object_id, ad_creative_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      mapping.id,
+      mapping.campaign_id,
+      mapping.user_id,
+      mapping.meta_object_type,
+      mapping.meta_object_id,
+      mapping.ad_creative_id || null,
+      mapping.created_at
+    );
+  }
+
+  async deleteMetaAdMappings(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.db.prepare(
+      `DELETE FROM meta_ad_mappings WHERE id IN (${ids.map(() => '?').join(', ')})`
+    ).bind(...ids).run();
+  }
+
+  async getMetaAdMappingsByCampaign(campaignId: string): Promise<MetaAdMapping[]> {
+    const results = await this.db.prepare(
+      'SELECT * FROM meta_ad_mappings WHERE campaign_id = ? ORDER BY created_at ASC'
+    ).bind(campaignId).all<MetaAdMapping>();
+    
+    return results.results;
+  }
+
   // Lead operations
   async createLead(lead: Lead): Promise<void> {
     await this.db.prepare(`
       INSERT INTO leads (
         id, campaign_id, meta_lead_id, first_name, last_name, email,
-        phone, company, custom_fields, captured_at, status
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        phone, company, custom_fields, captured_at, status, email_key, phone_key
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       lead.id,
       lead.campaign_id,
-      lead.meta_lead_id,
-      lead.first_name,
-      lead.last_name,
-      lead.email,
-      lead.phone,
-      lead.company,
-      lead.custom_fields,
+      lead.meta_lead_id || null,
+      lead.first_name || null,
+      lead.last_name || null,
+      lead.email || null,
+      lead.phone || null,
+      lead.company || null,
+      lead.custom_fields || null,
       lead.captured_at,
-      lead.status
+      lead.status,
+      emailKey(lead.email) || null,
+      phoneKey(lead.phone) || null
     ).run();
   }
 
@@ -211,12 +332,159 @@ export class DatabaseService {
     ).bind(metaLeadId).first<Lead>();
   }
 
+  async updateLeadStatus(id: string, status: Lead['status'], reason?: string): Promise<void> {
+    await this.db.batch([
+      await this.statusChangeStatement('leads', 'status', id, status, reason),
+      this.db.prepare(
+        'UPDATE leads SET status = ? WHERE id = ?'
+      ).bind(status, id)
+    ]);
+  }
+
+  async getLeadsByPhoneKey(userId: string, phoneKey?: string): Promise<Lead[]> {
+    if (!phoneKey) return [];
+
+    const results = await this.db.prepare(`
+      SELECT l.* FROM leads l
+      JOIN campaigns c ON l.campaign_id = c.id
+      WHERE c.user_id = ? AND l.phone_key = ? AND l.merged_into IS NULL
+      ORDER BY l.captured_at DESC
+    `).bind(userId, phoneKey).all<Lead>();
+
+    return results.results;
+  }
+
+  async updateLeadSmsConsent(
+    ids: string[],
+    consent: 'granted' | 'revoked',
+    updatedAt: number,
+    reason?: string
+  ): Promise<void> {
+    if (ids.length === 0) return;
+
+    const history = await Promise.all(
+      ids.map(id => this.statusChangeStatement('leads', 'sms_consent', id, consent, reason, updatedAt))
+    );
+
+    const placeholders = ids.map(() => '?').join(', ');
+    await this.db.batch([
+      ...history,
+      this.db.prepare(
+        `UPDATE leads SET sms_consent = ?, sms_consent_updated_at = ? WHERE id IN (${placeholders})`
+      ).bind(consent, updatedAt, ...ids)
+    ]);
+  }
+
   async getLeadById(id: string): Promise<Lead | null> {
     return await this.db.prepare(
       'SELECT * FROM leads WHERE id = ?'
     ).bind(id).first<Lead>();
   }
 
+  /**
+   * A page of the user's leads across their campaigns. Pages are keyed on the
+   * sort value and id of the previous page's last lead, so they stay stable
+   * while new leads arrive. `next` is set when there are more leads.
+   */
+  async getLeadsByUser(userId: string, query: LeadListQuery): Promise<{
+    leads: LeadListItem[];
+    total: number;
+    next?: { value: string | number; id: string };
+  }> {
+    const total = await this.countLeadsByUser(userId, query);
+    const { leads, next } = await this.getLeadPage<LeadListItem>(userId, query);
+    return { leads, total, next };
+  }
+
+  async countLeadsByUser(userId: string, query: LeadListFilters): Promise<number> {
+    const { where, params } = leadListConditions(userId, query);
+    const count = await this.db.prepare(`
+      SELECT COUNT(*) AS total FROM leads l
+      JOIN campaigns c ON l.campaign_id = c.id
+      WHERE ${where}
+    `).bind(...params).first<{ total: number }>();
+
+    return count?.total || 0;
+  }
+
+  /**
+   * A page of leads for an export: the list's filters and order, with the
+   * drip campaign and status of each lead's latest journey
+   */
+  async getLeadExportPage(userId: string, query: LeadListQuery): Promise<{
+    leads: LeadExportRow[];
+    next?: { value: string | number; id: string };
+  }> {
+    return this.getLeadPage<LeadExportRow>(userId, query, {
+      columns: `dc.name AS journey_campaign_name, lj.status AS journey_status, lj.current_step AS journey_step`,
+      joins: `
+        LEFT JOIN lead_journeys lj ON lj.id = (
+          SELECT id FROM lead_journeys WHERE lead_id = l.id ORDER BY started_at DESC, id DESC LIMIT 1
+        )
+        LEFT JOIN drip_campaigns dc ON lj.campaign_id = dc.id
+      `
+    });
+  }
+
+  /**
+   * Every custom field name used by the leads matching the filters, for the
+   * columns of a CSV export
+   */
+  async getLeadCustomFieldKeys(userId: string, query: LeadListFilters): Promise<string[]> {
+    const { where, params } = leadListConditions(userId, query);
+    const results = await this.db.prepare(`
+      SELECT DISTINCT f.key AS key
+      FROM leads l
+      JOIN campaigns c ON l.campaign_id = c.id,
+      json_each(CASE WHEN json_valid(l.custom_fields) AND json_type(l.custom_fields) = 'object' THEN l.custom_fields ELSE '{}' END) f
+      WHERE ${where}
+      ORDER BY f.key
+    `).bind(...params).all<{ key: string }>();
+
+    return results.results.map(row => row.key);
+  }
+
+  private async getLeadPage<T extends LeadListItem>(
+    userId: string,
+    query: LeadListQuery,
+    extra: { columns: string; joins: string } = { columns: '', joins: '' }
+  ): Promise<{ leads: T[]; next?: { value: string | number; id: string } }> {
+    const sortExpression = LEAD_SORT_EXPRESSIONS[query.sort];
+    const { where, params } = leadListConditions(userId, query);
+    const conditions = [where];
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+    if (query.after) {
+      const comparison = query.order === 'asc' ? '>' : '<';
+      conditions.push(`(${sortExpression} ${comparison} ? OR (${sortExpression} = ? AND l.id ${comparison} ?))`);
+      params.push(query.after.value, query.after.value, query.after.id);
+    }
+
+    const results = await this.db.prepare(`
+      SELECT l.*, c.name AS campaign_name, ${sortExpression} AS sort_value${extra.columns ? `, ${extra.columns}` : ''}
+      FROM leads l
+      JOIN campaigns c ON l.campaign_id = c.id
+      ${extra.joins}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${sortExpression} ${direction}, l.id ${direction}
+      LIMIT ?
+    `).bind(...params, query.limit + 1).all<T & { sort_value: string | number }>();
+
+    const rows = results.results;
+    const hasMore = rows.length > query.limit;
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    const next = hasMore && last ? { value: last.sort_value, id: last.id } : undefined;
+
+    return {
+      leads: page.map(row => {
+        const lead: T & { sort_value?: string | number } = row;
+        delete lead.sort_value;
+        return lead;
+      }),
+      next
+    };
+  }
+
   // Ad Creative operations
   async getCreativeById(id: string): Promise<AdCreative | null> {
     return await this.db.prepare(
@@ -234,7 +502,7 @@ export class DatabaseService {
     
     const values = Object.keys(updates)
       .filter(key => key !== 'id')
-      .map(key => (updates as any)[key]);
+      .map(key => updates[key as keyof AdCreative] ?? null);
     
     await this.db.prepare(`
       UPDATE ad_creatives 
@@ -248,6 +516,7 @@ export class DatabaseService {
     return {
       ...user,
       onboarding_completed: user.onboarding_completed === 1,
+      email_verified: user.email_verified === 1,
       is_active: user.is_active === 1
     };
   }
@@ -263,8 +532,10 @@ export class DatabaseService {
   async createDripCampaign(campaign: DripCampaign): Promise<void> {
     await this.db.prepare(`
       INSERT INTO drip_campaigns (
-        id, name, description, trigger_type, total_steps, active, created_by, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        id, name, description, trigger_type, total_steps, active, pause_on_reply,
+        send_window_start, send_window_end, send_window_days, send_window_timezone,
+        created_by, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       campaign.id,
       campaign.name,
@@ -272,6 +543,11 @@ export class DatabaseService {
       campaign.trigger_type,
       campaign.total_steps,
       campaign.active ? 1 : 0,
+      campaign.pause_on_reply ? 1 : 0,
+      campaign.send_window_start ?? null,
+      campaign.send_window_end ?? null,
+      campaign.send_window_days || null,
+      campaign.send_window_timezone || null,
       campaign.created_by,
       campaign.created_at,
       campaign.updated_at
@@ -306,7 +582,7 @@ export class DatabaseService {
       .filter(key => key !== 'id')
       .map(key => {
         const value = (updates as any)[key];
-        if (key === 'active' && typeof value === 'boolean') {
+        if (typeof value === 'boolean') {
           return value ? 1 : 0;
         }
         return value;
@@ -328,8 +604,8 @@ export class DatabaseService {
     await this.db.prepare(`
       INSERT INTO drip_steps (
         id, campaign_id, step_number, channel, delay_minutes, content_template,
-        subject_template, sendgrid_template_id, active, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        subject_template, sendgrid_template_id, fallback_action, active, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       step.id,
       step.campaign_id,
@@ -339,6 +615,7 @@ export class DatabaseService {
       step.content_template || null,
       step.subject_template || null,
       step.sendgrid_template_id || null,
+      step.fallback_action || 'skip',
       step.active ? 1 : 0,
       step.created_at
     ).run();
@@ -352,6 +629,14 @@ export class DatabaseService {
     return results.results.map(step => this.mapDripStepFromDb(step));
   }
 
+  async getDripStepById(id: string): Promise<DripStep | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM drip_steps WHERE id = ?'
+    ).bind(id).first<DripStep>();
+    
+    return result ? this.mapDripStepFromDb(result) : null;
+  }
+
   async getDripStepByNumber(campaignId: string, stepNumber: number): Promise<DripStep | null> {
     const result = await this.db.prepare(
       'SELECT * FROM drip_steps WHERE campaign_id = ? AND step_number = ?'
@@ -384,6 +669,14 @@ export class DatabaseService {
     ).run();
   }
 
+  async getLeadJourneyById(id: string): Promise<LeadJourney | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM lead_journeys WHERE id = ?'
+    ).bind(id).first<LeadJourney>();
+    
+    return result || null;
+  }
+
   async getJourneyByLeadAndCampaign(leadId: string, campaignId: string): Promise<LeadJourney | null> {
     const result = await this.db.prepare(
       'SELECT * FROM lead_journeys WHERE lead_id = ? AND campaign_id = ?'
@@ -412,6 +705,14 @@ export class DatabaseService {
     return results.results;
   }
 
+  async getActiveJourneysByLead(leadId: string): Promise<LeadJourney[]> {
+    const results = await this.db.prepare(
+      "SELECT * FROM lead_journeys WHERE lead_id = ? AND status = 'active'"
+    ).bind(leadId).all<LeadJourney>();
+    
+    return results.results;
+  }
+
   async getActiveJourneysByCampaign(campaignId: string): Promise<LeadJourney[]> {
     const results = await this.db.prepare(
       'SELECT * FROM lead_journeys WHERE campaign_id = ? AND status = "active"'
@@ -420,6 +721,18 @@ export class DatabaseService {
     return results.results;
   }
 
+  async incrementJourneyCounter(
+    id: string,
+    counter: 'total_sms_delivered' | 'total_opens' | 'total_clicks',
+    interactionAt: number
+  ): Promise<void> {
+    await this.db.prepare(`
+      UPDATE lead_journeys 
+      SET ${counter} = COALESCE(${counter}, 0) + 1, last_interaction_at = ?, updated_at = ?
+      WHERE id = ?
+    `).bind(interactionAt, Date.now(), id).run();
+  }
+
   async updateLeadJourney(id: string, updates: Partial<LeadJourney>): Promise<void> {
     const fields = Object.keys(updates)
       .filter(key => key !== 'id')
@@ -430,13 +743,71 @@ export class DatabaseService {
     
     const values = Object.keys(updates)
       .filter(key => key !== 'id')
-      .map(key => (updates as any)[key]);
+      .map(key => updates[key as keyof LeadJourney] ?? null);
     
-    await this.db.prepare(`
+    const update = this.db.prepare(`
       UPDATE lead_journeys 
       SET ${fields}
       WHERE id = ?
-    `).bind(...values, id).run();
+    `).bind(...values, id);
+
+    if (!updates.status) {
+      await update.run();
+      return;
+    }
+
+    await this.db.batch([
+      await this.statusChangeStatement(
+        'lead_journeys', 'journey_status', id, updates.status, updates.status_reason, updates.updated_at
+      ),
+      update
+    ]);
+  }
+
+  async getJourneysByLead(leadId: string): Promise<(LeadJourney & { drip_campaign_name: string })[]> {
+    const results = await this.db.prepare(`
+      SELECT lj.*, dc.name AS drip_campaign_name
+      FROM lead_journeys lj
+      JOIN drip_campaigns dc ON lj.campaign_id = dc.id
+      WHERE lj.lead_id = ?
+      ORDER BY lj.started_at ASC
+    `).bind(leadId).all<LeadJourney & { drip_campaign_name: string }>();
+
+    return results.results;
+  }
+
+  async getLeadStatusChanges(leadId: string): Promise<LeadStatusChange[]> {
+    const results = await this.db.prepare(
+      'SELECT * FROM lead_status_changes WHERE lead_id = ? ORDER BY changed_at ASC'
+    ).bind(leadId).all<LeadStatusChange>();
+
+    return results.results;
+  }
+
+  /**
+   * History row for a status change, written in the same batch as the update.
+   * Nothing is recorded when the row already has that value.
+   */
+  private async statusChangeStatement(
+    table: 'leads' | 'lead_journeys',
+    field: LeadStatusChange['field'],
+    id: string,
+    value: string,
+    reason?: string,
+    changedAt = Date.now()
+  ): Promise<D1PreparedStatement> {
+    const column = field === 'sms_consent' ? 'sms_consent' : 'status';
+    const leadId = table === 'leads' ? 'id' : 'lead_id';
+    const journeyId = table === 'leads' ? 'NULL' : 'id';
+
+    return this.db.prepare(`
+      INSERT INTO lead_status_changes (
+        id, lead_id, journey_id, field, from_value, to_value, reason, changed_at
+      )
+      SELECT ?, ${leadId}, ${journeyId}, ?, ${column}, ?, ?, ?
+      FROM ${table}
+      WHERE id = ? AND ${column} IS NOT ?
+    `).bind(await generateId(), field, value, reason || null, changedAt, id, value);
   }
 
   // SMS Message operations
@@ -444,8 +815,8 @@ export class DatabaseService {
     await this.db.prepare(`
       INSERT INTO sms_messages (
         id, lead_id, drip_step_id, to_number, from_number, content, status,
-        scheduled_at, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        scheduled_at, error_message, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       message.id,
       message.lead_id,
@@ -455,6 +826,7 @@ export class DatabaseService {
       message.content,
       message.status,
       message.scheduled_at,
+      message.error_message || null,
       message.created_at,
       message.updated_at
     ).run();
@@ -463,8 +835,8 @@ export class DatabaseService {
   async getPendingSMSMessages(limit = 100): Promise<SMSMessage[]> {
     const results = await this.db.prepare(`
       SELECT * FROM sms_messages 
-      WHERE status = 'pending' AND scheduled_at <= ?
-      ORDER BY scheduled_at ASC
+      WHERE status = 'pending' AND COALESCE(next_attempt_at, scheduled_at) <= ?
+      ORDER BY COALESCE(next_attempt_at, scheduled_at) ASC
       LIMIT ?
     `).bind(Date.now(), limit).all<SMSMessage>();
     
@@ -481,7 +853,7 @@ export class DatabaseService {
     
     const values = Object.keys(updates)
       .filter(key => key !== 'id')
-      .map(key => (updates as any)[key]);
+      .map(key => updates[key as keyof SMSMessage] ?? null);
     
     await this.db.prepare(`
       UPDATE sms_messages 
@@ -490,23 +862,38 @@ export class DatabaseService {
     `).bind(...values, id).run();
   }
 
+  async getSMSMessagesByLead(leadId: string): Promise<(SMSMessage & { step_number?: number })[]> {
+    const results = await this.db.prepare(`
+      SELECT m.*, ds.step_number
+      FROM sms_messages m
+      LEFT JOIN drip_steps ds ON m.drip_step_id = ds.id
+      WHERE m.lead_id = ?
+      ORDER BY m.scheduled_at ASC
+    `).bind(leadId).all<SMSMessage & { step_number?: number }>();
+
+    return results.results;
+  }
+
   // Email Message operations
   async createEmailMessage(message: EmailMessage): Promise<void> {
     await this.db.prepare(`
       INSERT INTO email_messages (
-        id, lead_id, drip_step_id, to_email, subject, template_id, dynamic_data,
-        status, scheduled_at, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        id, lead_id, drip_step_id, journey_id, to_email, subject, content, template_id, dynamic_data,
+        status, scheduled_at, error_message, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       message.id,
       message.lead_id,
       message.drip_step_id || null,
+      message.journey_id || null,
       message.to_email,
       message.subject,
+      message.content || null,
       message.template_id || null,
       message.dynamic_data || null,
       message.status,
       message.scheduled_at,
+      message.error_message || null,
       message.created_at,
       message.updated_at
     ).run();
@@ -515,8 +902,8 @@ export class DatabaseService {
   async getPendingEmailMessages(limit = 100): Promise<EmailMessage[]> {
     const results = await this.db.prepare(`
       SELECT * FROM email_messages 
-      WHERE status = 'pending' AND scheduled_at <= ?
-      ORDER BY scheduled_at ASC
+      WHERE status = 'pending' AND COALESCE(next_attempt_at, scheduled_at) <= ?
+      ORDER BY COALESCE(next_attempt_at, scheduled_at) ASC
       LIMIT ?
     `).bind(Date.now(), limit).all<EmailMessage>();
     
@@ -533,7 +920,7 @@ export class DatabaseService {
     
     const values = Object.keys(updates)
       .filter(key => key !== 'id')
-      .map(key => (updates as any)[key]);
+      .map(key => updates[key as keyof EmailMessage] ?? null);
     
     await this.db.prepare(`
       UPDATE email_messages 
@@ -542,6 +929,18 @@ export class DatabaseService {
     `).bind(...values, id).run();
   }
 
+  async getEmailMessagesByLead(leadId: string): Promise<(EmailMessage & { step_number?: number })[]> {
+    const results = await this.db.prepare(`
+      SELECT m.*, ds.step_number
+      FROM email_messages m
+      LEFT JOIN drip_steps ds ON m.drip_step_id = ds.id
+      WHERE m.lead_id = ?
+      ORDER BY m.scheduled_at ASC
+    `).bind(leadId).all<EmailMessage & { step_number?: number }>();
+
+    return results.results;
+  }
+
   // Analytics
   async getDripCampaignAnalytics(campaignId: string): Promise<any> {
     const results = await this.db.prepare(`
@@ -581,6 +980,49 @@ export class DatabaseService {
     ).bind(sendgridMessageId).first<EmailMessage>();
   }
 
+  async getLatestSMSMessageBetween(fromNumber: string, toNumber: string): Promise<SMSMessage | null> {
+    return await this.db.prepare(`
+      SELECT * FROM sms_messages 
+      WHERE from_number = ? AND to_number = ? AND sent_at IS NOT NULL
+      ORDER BY sent_at DESC
+      LIMIT 1
+    `).bind(fromNumber, toNumber).first<SMSMessage>();
+  }
+
+  async createInboundMessage(message: InboundMessage): Promise<void> {
+    await this.db.prepare(`
+      INSERT OR IGNORE INTO inbound_messages (
+        id, lead_id, twilio_sid, from_number, to_number, body, keyword, received_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      message.id,
+      message.lead_id || null,
+      message.twilio_sid || null,
+      message.from_number,
+      message.to_number,
+      message.body,
+      message.keyword || null,
+      message.received_at
+    ).run();
+  }
+
+  async getInboundMessagesByLead(leadId: string): Promise<InboundMessage[]> {
+    const results = await this.db.prepare(
+      'SELECT * FROM inbound_messages WHERE lead_id = ? ORDER BY received_at ASC'
+    ).bind(leadId).all<InboundMessage>();
+
+    return results.results;
+  }
+
+  async getLatestEmailMessageForStep(leadId: string, dripStepId: string): Promise<EmailMessage | null> {
+    return await this.db.prepare(`
+      SELECT * FROM email_messages 
+      WHERE lead_id = ? AND drip_step_id = ? AND sent_at IS NOT NULL
+      ORDER BY sent_at DESC
+      LIMIT 1
+    `).bind(leadId, dripStepId).first<EmailMessage>();
+  }
+
   // Drip Analytics operations
   async createDripAnalytics(analytics: any): Promise<void> {
     await this.db.prepare(`
@@ -645,11 +1087,719 @@ export class DatabaseService {
     `).bind(...values, id).run();
   }
 
+  // Webhook event audit log
+  async createWebhookEvent(event: WebhookEvent): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO webhook_events (
+        id, source, event_type, payload, processed, received_at
+      ) VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(
+      event.id,
+      event.source,
+      event.event_type,
+      event.payload,
+      event.processed ? 1 : 0,
+      event.received_at
+    ).run();
+  }
+
+  async markWebhookEventProcessed(id: string, errorMessage?: string): Promise<void> {
+    await this.db.prepare(`
+      UPDATE webhook_events 
+      SET processed = ?, processed_at = ?, error_message = ?
+      WHERE id = ?
+    `).bind(errorMessage ? 0 : 1, Date.now(), errorMessage || null, id).run();
+  }
+
+  // Suppression list operations
+  async createSuppression(suppression: Suppression): Promise<void> {
+    await this.db.prepare(`
+      INSERT OR IGNORE INTO suppressions (
+        id, user_id, channel, address, reason, source, lead_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      suppression.id,
+      suppression.user_id,
+      suppression.channel,
+      suppression.address,
+      suppression.reason || null,
+      suppression.source,
+      suppression.lead_id || null,
+      suppression.created_at
+    ).run();
+  }
+
+  async getSuppression(userId: string, channel: Suppression['channel'], address: string): Promise<Suppression | null> {
+    return await this.db.prepare(
+      'SELECT * FROM suppressions WHERE user_id = ? AND channel = ? AND address = ?'
+    ).bind(userId, channel, address).first<Suppression>();
+  }
+
+  async getSuppressionById(id: string): Promise<Suppression | null> {
+    return await this.db.prepare(
+      'SELECT * FROM suppressions WHERE id = ?'
+    ).bind(id).first<Suppression>();
+  }
+
+  async getSuppressionsByUser(
+    userId: string,
+    limit = 50,
+    offset = 0,
+    channel?: Suppression['channel']
+  ): Promise<{ suppressions: Suppression[]; total: number }> {
+    const filter = channel ? 'AND channel = ?' : '';
+    const params: unknown[] = channel ? [userId, channel] : [userId];
+
+    const results = await this.db.prepare(`
+      SELECT * FROM suppressions 
+      WHERE user_id = ? ${filter}
+      ORDER BY created_at DESC 
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<Suppression>();
+
+    const count = await this.db.prepare(
+      `SELECT COUNT(*) AS total FROM suppressions WHERE user_id = ? ${filter}`
+    ).bind(...params).first<{ total: number }>();
+
+    return { suppressions: results.results, total: count?.total || 0 };
+  }
+
+  async deleteSuppression(id: string): Promise<void> {
+    await this.db.prepare('DELETE FROM suppressions WHERE id = ?').bind(id).run();
+  }
+
+  async deleteSuppressionsByAddress(
+    userId: string,
+    channel: Suppression['channel'],
+    address: string,
+    source: Suppression['source']
+  ): Promise<void> {
+    await this.db.prepare(
+      'DELETE FROM suppressions WHERE user_id = ? AND channel = ? AND address = ? AND source = ?'
+    ).bind(userId, channel, address, source).run();
+  }
+
+  // User credential operations
+  async upsertUserCredential(credential: UserCredential): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO user_credentials (
+        id, user_id, provider, account_id, encrypted_data, iv, status,
+        verified_at, verification_error, expires_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(user_id, provider) DO UPDATE SET
+        account_id = excluded.account_id,
+        encrypted_data = excluded.encrypted_data,
+        iv = excluded.iv,
+        status = excluded.status,
+        verified_at = excluded.verified_at,
+        verification_error = excluded.verification_error,
+        expires_at = excluded.expires_at,
+        updated_at = excluded.updated_at
+    `).bind(
+      credential.id,
+      credential.user_id,
+      credential.provider,
+      credential.account_id || null,
+      credential.encrypted_data,
+      credential.iv,
+      credential.status,
+      credential.verified_at || null,
+      credential.verification_error || null,
+      credential.expires_at || null,
+      credential.created_at,
+      credential.updated_at
+    ).run();
+  }
+
+  async getUserCredential(userId: string, provider: UserCredential['provider']): Promise<UserCredential | null> {
+    return await this.db.prepare(
+      'SELECT * FROM user_credentials WHERE user_id = ? AND provider = ?'
+    ).bind(userId, provider).first<UserCredential>();
+  }
+
+  async getUserCredentialsByUser(userId: string): Promise<UserCredential[]> {
+    const results = await this.db.prepare(
+      'SELECT * FROM user_credentials WHERE user_id = ? ORDER BY provider'
+    ).bind(userId).all<UserCredential>();
+
+    return results.results;
+  }
+
+  async getUserCredentialByAccount(
+    provider: UserCredential['provider'],
+    accountId: string
+  ): Promise<UserCredential | null> {
+    return await this.db.prepare(
+      'SELECT * FROM user_credentials WHERE provider = ? AND account_id = ? ORDER BY updated_at DESC LIMIT 1'
+    ).bind(provider, accountId).first<UserCredential>();
+  }
+
+  async getUserCredentialsExpiringBefore(
+    provider: UserCredential['provider'],
+    before: number
+  ): Promise<UserCredential[]> {
+    const results = await this.db.prepare(`
+      SELECT * FROM user_credentials 
+      WHERE provider = ? AND expires_at IS NOT NULL AND expires_at < ?
+      ORDER BY expires_at ASC
+    `).bind(provider, before).all<UserCredential>();
+
+    return results.results;
+  }
+
+  async updateUserCredential(id: string, updates: Partial<UserCredential>): Promise<void> {
+    const fields = Object.keys(updates)
+      .filter(key => key !== 'id')
+      .map(key => `${key} = ?`)
+      .join(', ');
+    
+    if (fields.length === 0) return;
+    
+    const values = Object.keys(updates)
+      .filter(key => key !== 'id')
+      .map(key => updates[key as keyof UserCredential] ?? null);
+    
+    await this.db.prepare(`
+      UPDATE user_credentials 
+      SET ${fields}
+      WHERE id = ?
+    `).bind(...values, id).run();
+  }
+
+  async deleteUserCredential(userId: string, provider: UserCredential['provider']): Promise<boolean> {
+    const result = await this.db.prepare(
+      'DELETE FROM user_credentials WHERE user_id = ? AND provider = ?'
+    ).bind(userId, provider).run();
+
+    return result.meta.changes > 0;
+  }
+
+  // Session operations
+  async createSession(session: Session): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO sessions (
+        id, user_id, refresh_token_hash, user_agent, ip_address,
+        created_at, last_used_at, expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      session.id,
+      session.user_id,
+      session.refresh_token_hash,
+      session.user_agent || null,
+      session.ip_address || null,
+      session.created_at,
+      session.last_used_at,
+      session.expires_at
+    ).run();
+  }
+
+  async getSessionById(id: string): Promise<Session | null> {
+    return await this.db.prepare(
+      'SELECT * FROM sessions WHERE id = ?'
+    ).bind(id).first<Session>();
+  }
+
+  async getSessionByRefreshToken(tokenHash: string): Promise<Session | null> {
+    return await this.db.prepare(
+      'SELECT * FROM sessions WHERE refresh_token_hash = ?'
+    ).bind(tokenHash).first<Session>();
+  }
+
+  async getSessionByPreviousToken(tokenHash: string): Promise<Session | null> {
+    return await this.db.prepare(
+      'SELECT * FROM sessions WHERE previous_token_hash = ?'
+    ).bind(tokenHash).first<Session>();
+  }
+
+  async getActiveSessionsByUser(userId: string): Promise<Session[]> {
+    const results = await this.db.prepare(`
+      SELECT * FROM sessions 
+      WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+      ORDER BY last_used_at DESC
+    `).bind(userId, Date.now()).all<Session>();
+
+    return results.results;
+  }
+
+  /**
+   * Swap in a new refresh token, but only if the old one is still current -
+   * two concurrent refreshes with the same token can't both succeed
+   */
+  async rotateSessionToken(id: string, currentHash: string, nextHash: string, expiresAt: number): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE sessions 
+      SET refresh_token_hash = ?, previous_token_hash = ?, last_used_at = ?, expires_at = ?
+      WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL
+    `).bind(nextHash, currentHash, Date.now(), expiresAt, id, currentHash).run();
+
+    return result.meta.changes > 0;
+  }
+
+  async revokeSession(id: string): Promise<void> {
+    await this.db.prepare(
+      'UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL'
+    ).bind(Date.now(), id).run();
+  }
+
+  async revokeSessionsByUser(userId: string): Promise<number> {
+    const result = await this.db.prepare(
+      'UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL'
+    ).bind(Date.now(), userId).run();
+
+    return result.meta.changes;
+  }
+
+  // Lead import operations
+  async createLeadImport(leadImport: LeadImport): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO lead_imports (
+        id, user_id, campaign_id, file_name, r2_key, file_size, columns,
+        status, byte_offset, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      leadImport.id,
+      leadImport.user_id,
+      leadImport.campaign_id,
+      leadImport.file_name,
+      leadImport.r2_key,
+      leadImport.file_size,
+      leadImport.columns,
+      leadImport.status,
+      leadImport.byte_offset,
+      leadImport.created_at,
+      leadImport.updated_at
+    ).run();
+  }
+
+  async getLeadImportById(id: string): Promise<LeadImport | null> {
+    return await this.db.prepare(
+      'SELECT * FROM lead_imports WHERE id = ?'
+    ).bind(id).first<LeadImport>();
+  }
+
+  async getLeadImportsByUser(userId: string, limit = 20): Promise<LeadImport[]> {
+    const results = await this.db.prepare(
+      'SELECT * FROM lead_imports WHERE user_id = ? ORDER BY created_at DESC LIMIT ?'
+    ).bind(userId, limit).all<LeadImport>();
+
+    return results.results;
+  }
+
+  /**
+   * Imports still being processed whose lease has run out, i.e. no
+   * invocation is working on them
+   */
+  async getStalledLeadImports(now: number, limit = 10): Promise<LeadImport[]> {
+    const results = await this.db.prepare(`
+      SELECT * FROM lead_imports 
+      WHERE status = 'processing' AND (locked_until IS NULL OR locked_until < ?)
+      ORDER BY updated_at ASC
+      LIMIT ?
+    `).bind(now, limit).all<LeadImport>();
+
+    return results.results;
+  }
+
+  async updateLeadImport(id: string, updates: Partial<LeadImport>): Promise<void> {
+    const fields = Object.keys(updates)
+      .filter(key => key !== 'id')
+      .map(key => `${key} = ?`)
+      .join(', ');
+    
+    if (fields.length === 0) return;
+    
+    const values = Object.keys(updates)
+      .filter(key => key !== 'id')
+      .map(key => updates[key as keyof LeadImport] ?? null);
+    
+    await this.db.prepare(`
+      UPDATE lead_imports 
+      SET ${fields}
+      WHERE id = ?
+    `).bind(...values, id).run();
+  }
+
+  /**
+   * Take the processing lease on an import. False if another invocation
+   * holds it or the import is no longer processing.
+   */
+  async claimLeadImport(id: string, now: number, lockedUntil: number): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE lead_imports 
+      SET locked_until = ?
+      WHERE id = ? AND status = 'processing' AND (locked_until IS NULL OR locked_until < ?)
+    `).bind(lockedUntil, id, now).run();
+
+    return result.meta.changes > 0;
+  }
+
+  async createLeadImportErrors(errors: LeadImportError[]): Promise<void> {
+    if (errors.length === 0) return;
+
+    await this.db.batch(errors.map(error => this.db.prepare(`
+      INSERT INTO lead_import_errors (id, import_id, row_number, type, message, row_data)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(
+      error.id,
+      error.import_id,
+      error.row_number,
+      error.type,
+      error.message,
+      error.row_data || null
+    )));
+  }
+
+  async getLeadImportErrors(importId: string, limit = 1000, afterRow = 0): Promise<LeadImportError[]> {
+    const results = await this.db.prepare(
+      'SELECT * FROM lead_import_errors WHERE import_id = ? AND row_number > ? ORDER BY row_number ASC LIMIT ?'
+    ).bind(importId, afterRow, limit).all<LeadImportError>();
+
+    return results.results;
+  }
+
+  /**
+   * The user's leads, merged or not, with any of the given email or phone
+   * keys. Lookups are split so no statement exceeds D1's limit on bound
+   * parameters.
+   */
+  async getLeadsByUserContacts(userId: string, emailKeys: string[], phoneKeys: string[]): Promise<Lead[]> {
+    const leads: Lead[] = [];
+    const lookups: [string, string[]][] = [['l.email_key', emailKeys], ['l.phone_key', phoneKeys]];
+
+    for (const [column, values] of lookups) {
+      for (let i = 0; i < values.length; i += CONTACT_LOOKUP_BATCH) {
+        const batch = values.slice(i, i + CONTACT_LOOKUP_BATCH);
+        const results = await this.db.prepare(`
+          SELECT l.* FROM leads l
+          JOIN campaigns c ON l.campaign_id = c.id
+          WHERE c.user_id = ? AND ${column} IN (${batch.map(() => '?').join(', ')})
+        `).bind(userId, ...batch).all<Lead>();
+        leads.push(...results.results);
+      }
+    }
+
+    return leads;
+  }
+
+  // Lead export operations
+  async createLeadExport(leadExport: LeadExport): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO lead_exports (
+        id, user_id, format, filters, status, r2_key, row_count, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      leadExport.id,
+      leadExport.user_id,
+      leadExport.format,
+      leadExport.filters,
+      leadExport.status,
+      leadExport.r2_key,
+      leadExport.row_count,
+      leadExport.created_at,
+      leadExport.updated_at
+    ).run();
+  }
+
+  async getLeadExportById(id: string): Promise<LeadExport | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM lead_exports WHERE id = ?'
+    ).bind(id).first<LeadExport>();
+
+    return result || null;
+  }
+
+  async updateLeadExport(id: string, updates: Partial<LeadExport>): Promise<void> {
+    const fields = Object.keys(updates)
+      .filter(key => key !== 'id')
+      .map(key => `${key} = ?`)
+      .join(', ');
+    
+    if (fields.length === 0) return;
+    
+    const values = Object.keys(updates)
+      .filter(key => key !== 'id')
+      .map(key => updates[key as keyof LeadExport] ?? null);
+    
+    await this.db.prepare(`
+      UPDATE lead_exports 
+      SET ${fields}
+      WHERE id = ?
+    `).bind(...values, id).run();
+  }
+
+  /**
+   * Take the writing lease on an export. False if another invocation holds
+   * it or the export is no longer processing.
+   */
+  async claimLeadExport(id: string, now: number, lockedUntil: number): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE lead_exports
+      SET locked_until = ?
+      WHERE id = ? AND status = 'processing' AND (locked_until IS NULL OR locked_until < ?)
+    `).bind(lockedUntil, id, now).run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Exports still being written whose lease has run out, i.e. no invocation
+   * is working on them
+   */
+  async getStalledLeadExports(now: number, limit = 10): Promise<LeadExport[]> {
+    const results = await this.db.prepare(`
+      SELECT * FROM lead_exports
+      WHERE status = 'processing' AND (locked_until IS NULL OR locked_until < ?)
+      ORDER BY updated_at ASC
+      LIMIT ?
+    `).bind(now, limit).all<LeadExport>();
+
+    return results.results;
+  }
+
+  /**
+   * Mark exports that have made no progress since `updatedBefore` as failed.
+   * Returns how many were marked.
+   */
+  async failStalledLeadExports(updatedBefore: number, now: number): Promise<number> {
+    const result = await this.db.prepare(`
+      UPDATE lead_exports
+      SET status = 'failed', error_message = 'Export timed out', updated_at = ?
+      WHERE status = 'processing' AND updated_at < ?
+    `).bind(now, updatedBefore).run();
+
+    return result.meta.changes;
+  }
+
+  async getExpiredLeadExports(now: number, limit = 50): Promise<LeadExport[]> {
+    const results = await this.db.prepare(`
+      SELECT * FROM lead_exports
+      WHERE status = 'completed' AND expires_at < ?
+      ORDER BY expires_at ASC
+      LIMIT ?
+    `).bind(now, limit).all<LeadExport>();
+
+    return results.results;
+  }
+
+  // Lead identity operations
+  /**
+   * A journey in the drip campaign for another of the owner's leads with the
+   * same email or phone, so one person isn't sent the same sequence twice
+   */
+  async getIdentityJourney(leadId: string, dripCampaignId: string): Promise<LeadJourney | null> {
+    const result = await this.db.prepare(`
+      SELECT lj.* FROM leads l
+      JOIN campaigns c ON l.campaign_id = c.id
+      JOIN campaigns oc ON oc.user_id = c.user_id
+      JOIN leads o ON o.campaign_id = oc.id
+      JOIN lead_journeys lj ON lj.lead_id = o.id
+      WHERE l.id = ? AND lj.campaign_id = ? AND o.id <> l.id
+        AND (o.email_key = l.email_key OR o.phone_key = l.phone_key)
+      LIMIT 1
+    `).bind(leadId, dripCampaignId).first<LeadJourney>();
+
+    return result || null;
+  }
+
+  /**
+   * Emails and phones shared by more than one of the user's (unmerged) leads,
+   * most recently captured first
+   */
+  async getDuplicateIdentityKeys(userId: string, limit = 200): Promise<{ kind: 'email' | 'phone'; value: string }[]> {
+    const results = await this.db.prepare(`
+      SELECT 'email' AS kind, l.email_key AS value, MAX(l.captured_at) AS latest
+      FROM leads l
+      JOIN campaigns c ON l.campaign_id = c.id
+      WHERE c.user_id = ? AND l.merged_into IS NULL AND l.email_key IS NOT NULL
+      GROUP BY l.email_key
+      HAVING COUNT(*) > 1
+      UNION ALL
+      SELECT 'phone' AS kind, l.phone_key AS value, MAX(l.captured_at) AS latest
+      FROM leads l
+      JOIN campaigns c ON l.campaign_id = c.id
+      WHERE c.user_id = ? AND l.merged_into IS NULL AND l.phone_key IS NOT NULL
+      GROUP BY l.phone_key
+      HAVING COUNT(*) > 1
+      ORDER BY latest DESC
+      LIMIT ?
+    `).bind(userId, userId, limit).all<{ kind: 'email' | 'phone'; value: string }>();
+
+    return results.results.map(row => ({ kind: row.kind, value: row.value }));
+  }
+
+  /**
+   * The user's unmerged leads with any of the given email or phone keys
+   */
+  async getLeadsByIdentityKeys(userId: string, emailKeys: string[], phoneKeys: string[]): Promise<LeadListItem[]> {
+    const leads = new Map<string, LeadListItem>();
+    const lookups: [string, string[]][] = [['l.email_key', emailKeys], ['l.phone_key', phoneKeys]];
+
+    for (const [column, values] of lookups) {
+      for (let i = 0; i < values.length; i += CONTACT_LOOKUP_BATCH) {
+        const batch = values.slice(i, i + CONTACT_LOOKUP_BATCH);
+        const results = await this.db.prepare(`
+          SELECT l.*, c.name AS campaign_name FROM leads l
+          JOIN campaigns c ON l.campaign_id = c.id
+          WHERE c.user_id = ? AND l.merged_into IS NULL AND ${column} IN (${batch.map(() => '?').join(', ')})
+        `).bind(userId, ...batch).all<LeadListItem>();
+
+        for (const lead of results.results) {
+          leads.set(lead.id, lead);
+        }
+      }
+    }
+
+    return [...leads.values()];
+  }
+
+  async getLeadDuplicateDismissals(userId: string): Promise<string[]> {
+    const results = await this.db.prepare(
+      'SELECT lead_ids FROM lead_duplicate_dismissals WHERE user_id = ?'
+    ).bind(userId).all<{ lead_ids: string }>();
+
+    return results.results.map(row => row.lead_ids);
+  }
+
+  async createLeadDuplicateDismissal(userId: string, leadIds: string): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO lead_duplicate_dismissals (id, user_id, lead_ids, created_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT (user_id, lead_ids) DO NOTHING
+    `).bind(await generateId(), userId, leadIds, Date.now()).run();
+  }
+
+  /**
+   * Merge duplicates into a surviving lead in one batch: journeys move over
+   * (or stop, when the survivor already has that drip campaign, cancelling
+   * their pending messages), messages and history are re-parented, and the
+   * duplicates are marked merged
+   */
+  async mergeLeads(merge: {
+    survivorId: string;
+    survivorUpdates: Partial<Lead>;
+    duplicateIds: string[];
+    moveJourneyIds: string[];
+    stopJourneys: LeadJourney[];
+    reason: string;
+    mergedAt: number;
+  }): Promise<void> {
+    const { survivorId, survivorUpdates, duplicateIds, reason, mergedAt } = merge;
+    const statements: D1PreparedStatement[] = [];
+
+    for (const journey of merge.stopJourneys) {
+      statements.push(
+        await this.statusChangeStatement('lead_journeys', 'journey_status', journey.id, 'failed', reason, mergedAt),
+        this.db.prepare(
+          'UPDATE lead_journeys SET status = ?, status_reason = ?, updated_at = ? WHERE id = ?'
+        ).bind('failed', reason, mergedAt, journey.id)
+      );
+
+      for (const table of ['sms_messages', 'email_messages']) {
+        statements.push(this.db.prepare(`
+          UPDATE ${table} SET status = 'suppressed', error_message = ?, updated_at = ?
+          WHERE lead_id = ? AND status = 'pending'
+            AND drip_step_id IN (SELECT id FROM drip_steps WHERE campaign_id = ?)
+        `).bind(reason, mergedAt, journey.lead_id, journey.campaign_id));
+      }
+    }
+
+    for (const journeyId of merge.moveJourneyIds) {
+      statements.push(this.db.prepare(
+        'UPDATE lead_journeys SET lead_id = ?, updated_at = ? WHERE id = ?'
+      ).bind(survivorId, mergedAt, journeyId));
+    }
+
+    if (survivorUpdates.status) {
+      statements.push(await this.statusChangeStatement('leads', 'status', survivorId, survivorUpdates.status, reason, mergedAt));
+    }
+    if (survivorUpdates.sms_consent) {
+      statements.push(await this.statusChangeStatement('leads', 'sms_consent', survivorId, survivorUpdates.sms_consent, reason, mergedAt));
+    }
+
+    const fields = Object.keys(survivorUpdates).filter(key => key !== 'id');
+    if (fields.length > 0) {
+      statements.push(this.db.prepare(`
+        UPDATE leads SET ${fields.map(key => `${key} = ?`).join(', ')} WHERE id = ?
+      `).bind(...fields.map(key => survivorUpdates[key as keyof Lead] ?? null), survivorId));
+    }
+
+    const placeholders = duplicateIds.map(() => '?').join(', ');
+    for (const table of ['sms_messages', 'email_messages', 'inbound_messages', 'suppressions']) {
+      statements.push(this.db.prepare(
+        `UPDATE ${table} SET lead_id = ? WHERE lead_id IN (${placeholders})`
+      ).bind(survivorId, ...duplicateIds));
+    }
+    // History of the stopped journeys stays with the duplicate that still holds them
+    statements.push(this.db.prepare(`
+      UPDATE lead_status_changes SET lead_id = ?
+      WHERE lead_id IN (${placeholders})
+        AND (journey_id IS NULL OR journey_id IN (SELECT id FROM lead_journeys WHERE lead_id = ?))
+    `).bind(survivorId, ...duplicateIds, survivorId));
+
+    statements.push(this.db.prepare(
+      `UPDATE leads SET merged_into = ?, merged_at = ? WHERE id IN (${placeholders})`
+    ).bind(survivorId, mergedAt, ...duplicateIds));
+
+    await this.db.batch(statements);
+  }
+
+  // Job run operations
+  async createJobRun(run: JobRun): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO job_runs (
+        id, job_name, cron, status, started_at, sms_processed,
+        emails_processed, error_count, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      run.id,
+      run.job_name,
+      run.cron || null,
+      run.status,
+      run.started_at,
+      run.sms_processed ?? null,
+      run.emails_processed ?? null,
+      run.error_count,
+      run.created_at
+    ).run();
+  }
+
+  async updateJobRun(id: string, updates: Partial<JobRun>): Promise<void> {
+    const fields = Object.keys(updates)
+      .filter(key => key !== 'id')
+      .map(key => `${key} = ?`)
+      .join(', ');
+    
+    if (fields.length === 0) return;
+    
+    const values = Object.keys(updates)
+      .filter(key => key !== 'id')
+      .map(key => updates[key as keyof JobRun] ?? null);
+    
+    await this.db.prepare(`
+      UPDATE job_runs 
+      SET ${fields}
+      WHERE id = ?
+    `).bind(...values, id).run();
+  }
+
+  async getRecentJobRuns(limit = 20, jobName?: string): Promise<JobRun[]> {
+    const results = jobName
+      ? await this.db.prepare(
+          'SELECT * FROM job_runs WHERE job_name = ? ORDER BY started_at DESC LIMIT ?'
+        ).bind(jobName, limit).all<JobRun>()
+      : await this.db.prepare(
+          'SELECT * FROM job_runs ORDER BY started_at DESC LIMIT ?'
+        ).bind(limit).all<JobRun>();
+
+    return results.results;
+  }
+
   // Helper methods for boolean mapping
   private mapDripCampaignFromDb(campaign: any): DripCampaign {
     return {
       ...campaign,
-      active: campaign.active === 1
+      active: campaign.active === 1,
+      pause_on_reply: campaign.pause_on_reply === 1
     };
   }
 
@@ -666,4 +1816,68 @@ export class DatabaseService {
     // allows us to add it later when available
     return fn(this.db);
   }
+}
+
+// Sortable columns for getLeadsByUser; names and emails sort case-insensitively
+const LEAD_SORT_EXPRESSIONS: Record<LeadListQuery['sort'], string> = {
+  captured_at: 'l.captured_at',
+  name: "LOWER(COALESCE(l.first_name, '') || ' ' || COALESCE(l.last_name, ''))",
+  email: "LOWER(COALESCE(l.email, ''))"
+};
+
+// D1 allows 100 bound parameters per statement; one is the user id
+const CONTACT_LOOKUP_BATCH = 90;
+
+/**
+ * WHERE clause for the leads list filters, over leads l joined to campaigns c.
+ * Leads merged into another are left out.
+ */
+function leadListConditions(userId: string, query: LeadListFilters): { where: string; params: unknown[] } {
+  const conditions = ['c.user_id = ?', 'l.merged_into IS NULL'];
+  const params: unknown[] = [userId];
+
+  if (query.search) {
+    const pattern = `%${escapeLike(query.search.trim())}%`;
+    const searchColumns = [
+      'l.first_name',
+      'l.last_name',
+      "(COALESCE(l.first_name, '') || ' ' || COALESCE(l.last_name, ''))",
+      'l.email',
+      'l.company',
+      'l.phone'
+    ];
+    const searchConditions = searchColumns.map(column => `${column} LIKE ? ESCAPE '\\'`);
+    params.push(...searchColumns.map(() => pattern));
+
+    // Phones are stored in E.164, so also match on the digits of "(512) 555-..."
+    const digits = query.search.replace(/\D/g, '');
+    if (digits.length >= 3) {
+      searchConditions.push('l.phone LIKE ?');
+      params.push(`%${digits}%`);
+    }
+
+    conditions.push(`(${searchConditions.join(' OR ')})`);
+  }
+  if (query.status) {
+    conditions.push('l.status = ?');
+    params.push(query.status);
+  }
+  if (query.campaignId) {
+    conditions.push('l.campaign_id = ?');
+    params.push(query.campaignId);
+  }
+  if (query.capturedFrom !== undefined) {
+    conditions.push('l.captured_at >= ?');
+    params.push(query.capturedFrom);
+  }
+  if (query.capturedTo !== undefined) {
+    conditions.push('l.captured_at <= ?');
+    params.push(query.capturedTo);
+  }
+
+  return { where: conditions.join(' AND '), params };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
 }
\ No newline at end of file
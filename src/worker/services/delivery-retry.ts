@@ -0,0 +1,98 @@
+// Delivery retry policy - classifies Twilio/SendGrid send failures and
+// schedules retries with exponential backoff
+
+export class SendError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+    public readonly statusCode?: number,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'SendError';
+  }
+}
+
+// Twilio error codes that will never succeed on retry
+// https://www.twilio.com/docs/api/errors
+const PERMANENT_TWILIO_CODES = new Set([
+  21211, // Invalid 'To' phone number
+  21212, // Invalid 'From' phone number
+  21408, // Permission to send to region not enabled
+  21610, // Recipient replied STOP
+  21612, // 'To' number not reachable via this channel
+  21614, // 'To' number is not a valid mobile number
+  30003, // Unreachable destination handset
+  30005, // Unknown destination handset
+  30006  // Landline or unreachable carrier
+]);
+
+/**
+ * 429 and 5xx are worth retrying; any other 4xx is a problem with the request
+ */
+export function isRetryableStatus(statusCode: number): boolean {
+  return statusCode === 429 || statusCode >= 500;
+}
+
+export function classifyTwilioError(statusCode: number, code?: number): boolean {
+  if (code !== undefined && PERMANENT_TWILIO_CODES.has(code)) {
+    return false;
+  }
+  return isRetryableStatus(statusCode);
+}
+
+/**
+ * Work out whether an error thrown while sending can be retried. Errors that
+ * aren't SendErrors are network failures (fetch rejected) and are retryable.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof SendError) {
+    return error.retryable;
+  }
+  return true;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 60 * 60 * 1000
+};
+
+/**
+ * Delay before the next attempt after `attempt` failed attempts: base * 2^(attempt-1),
+ * capped, with up to 20% jitter so retried batches don't land together
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  const exponential = policy.baseDelayMs * Math.pow(2, Math.max(attempt - 1, 0));
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  return Math.round(capped * (1 + Math.random() * 0.2));
+}
+
+export type RetryDecision =
+  | { action: 'retry'; nextAttemptAt: number }
+  | { action: 'fail' }
+  | { action: 'dead_letter' };
+
+/**
+ * Decide what happens to a message whose `attempt`-th send just failed
+ */
+export function decideRetry(
+  attempt: number,
+  retryable: boolean,
+  now = Date.now(),
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): RetryDecision {
+  if (!retryable) {
+    return { action: 'fail' };
+  }
+  if (attempt >= policy.maxAttempts) {
+    return { action: 'dead_letter' };
+  }
+  return { action: 'retry', nextAttemptAt: now + backoffDelay(attempt, policy) };
+}
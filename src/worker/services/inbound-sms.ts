@@ -0,0 +1,164 @@
+// Inbound SMS handling - lead replies and STOP/START/HELP compliance keywords
+
+import { InboundMessage, Lead } from '../types/database';
+import { DatabaseService } from './database';
+import { SuppressionService } from './suppression';
+import { generateId } from '../utils/crypto';
+import { phoneKey } from '../utils/lead-identity';
+
+type Keyword = NonNullable<InboundMessage['keyword']>;
+
+// Carrier-standard opt-out/opt-in keywords (matched on the whole message)
+const KEYWORDS: Record<string, Keyword> = {
+  STOP: 'stop',
+  STOPALL: 'stop',
+  UNSUBSCRIBE: 'stop',
+  CANCEL: 'stop',
+  END: 'stop',
+  QUIT: 'stop',
+  START: 'start',
+  YES: 'start',
+  UNSTOP: 'start',
+  HELP: 'help',
+  INFO: 'help'
+};
+
+const HELP_REPLY = 'Reply STOP to unsubscribe or START to resubscribe. Msg & data rates may apply.';
+
+export interface InboundSMS {
+  sid?: string;
+  accountSid?: string;
+  from: string;
+  to: string;
+  body: string;
+}
+
+export interface InboundSMSResult {
+  leadId?: string;
+  keyword?: Keyword;
+  reply?: string; // Sent back to the lead as TwiML
+}
+
+export function parseKeyword(body: string): Keyword | undefined {
+  const normalized = body.trim().replace(/[.!]+$/, '').toUpperCase();
+  return KEYWORDS[normalized];
+}
+
+export class InboundSMSService {
+  private suppressions: SuppressionService;
+
+  constructor(private db: DatabaseService) {
+    this.suppressions = new SuppressionService(db);
+  }
+
+  /**
+   * Record an inbound SMS against the lead it came from and act on it
+   */
+  async handle(sms: InboundSMS): Promise<InboundSMSResult> {
+    const receivedAt = Date.now();
+    const keyword = parseKeyword(sms.body);
+    const lastMessage = await this.db.getLatestSMSMessageBetween(sms.to, sms.from);
+    const userId = await this.findTenant(sms, lastMessage?.lead_id);
+    const leads = userId ? await this.findLeads(sms, userId, lastMessage?.lead_id) : [];
+    const lead = leads[0];
+
+    await this.db.createInboundMessage({
+      id: await generateId(),
+      lead_id: lead?.id,
+      twilio_sid: sms.sid,
+      from_number: sms.from,
+      to_number: sms.to,
+      body: sms.body,
+      keyword,
+      received_at: receivedAt
+    });
+
+    if (!lead) {
+      console.warn(`Inbound SMS from unknown number ${sms.from}`);
+    }
+
+    // Consent belongs to the phone number, so it applies to every one of the
+    // tenant's leads using it, and to the number itself even if no lead matched
+    if (keyword === 'stop' || keyword === 'start') {
+      const consent = keyword === 'stop' ? 'revoked' : 'granted';
+      const reason = `Replied "${sms.body.trim()}"`;
+      await this.db.updateLeadSmsConsent(leads.map(l => l.id), consent, receivedAt, reason);
+      if (userId && keyword === 'stop') {
+        await this.suppressions.suppress(userId, 'sms', sms.from, 'stop_reply', reason, lead?.id);
+      } else if (userId) {
+        await this.suppressions.unsuppress(userId, 'sms', sms.from, 'stop_reply');
+      }
+      console.log(`SMS consent ${consent} for ${leads.length} lead(s) on ${sms.from}`);
+      return { leadId: lead?.id, keyword };
+    }
+
+    if (keyword === 'help') {
+      return { leadId: lead?.id, keyword, reply: HELP_REPLY };
+    }
+
+    if (lead) {
+      await this.recordReply(lead, receivedAt);
+    }
+
+    return { leadId: lead?.id };
+  }
+
+  /**
+   * Match the sender to the leads of the tenant they are replying to: the
+   * lead we last texted from that number first, then any other of the
+   * tenant's leads with the same phone. Leads of other tenants sharing the
+   * phone are never touched.
+   */
+  private async findLeads(sms: InboundSMS, userId: string, lastTextedLeadId?: string): Promise<Lead[]> {
+    const leads = await this.db.getLeadsByPhoneKey(userId, phoneKey(sms.from));
+    const texted = leads.find(lead => lead.id === lastTextedLeadId);
+
+    return texted ? [texted, ...leads.filter(lead => lead !== texted)] : leads;
+  }
+
+  /**
+   * The tenant owning the Twilio account the SMS came in on, or - on the
+   * platform account, which tenants share - the one whose lead we last
+   * texted at the sender's number
+   */
+  private async findTenant(sms: InboundSMS, lastTextedLeadId?: string): Promise<string | undefined> {
+    const credential = sms.accountSid
+      ? await this.db.getUserCredentialByAccount('twilio', sms.accountSid)
+      : null;
+    if (credential) {
+      return credential.user_id;
+    }
+
+    const lead = lastTextedLeadId ? await this.db.getLeadById(lastTextedLeadId) : null;
+    const campaign = lead ? await this.db.getCampaignById(lead.campaign_id) : null;
+    return campaign?.user_id;
+  }
+
+  /**
+   * Mark the reply on the lead's active journeys, pausing those whose drip
+   * campaign hands replies to a human
+   */
+  private async recordReply(lead: Lead, receivedAt: number): Promise<void> {
+    const journeys = await this.db.getActiveJourneysByLead(lead.id);
+
+    for (const journey of journeys) {
+      const campaign = await this.db.getDripCampaignById(journey.campaign_id);
+      const pause = !!campaign?.pause_on_reply;
+
+      await this.db.updateLeadJourney(journey.id, {
+        response_at: receivedAt,
+        last_interaction_at: receivedAt,
+        ...(pause && {
+          status: 'paused' as const,
+          status_reason: 'Lead replied by SMS - waiting for a human to follow up'
+        }),
+        updated_at: Date.now()
+      });
+
+      if (pause) {
+        console.log(`Paused journey ${journey.id} after reply from lead ${lead.id}`);
+      }
+    }
+  }
+}
+
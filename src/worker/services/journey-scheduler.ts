@@ -0,0 +1,358 @@
+// Journey scheduler - moves leads through drip campaign steps
+
+import { Env } from '../types/env';
+import { DripStep, EmailMessage, Lead, LeadJourney, SkippedStep, SMSMessage } from '../types/database';
+import { DatabaseService } from './database';
+import { SuppressionService } from './suppression';
+import { CredentialVaultService } from './credential-vault';
+import { generateId } from '../utils/crypto';
+import { buildTemplateContext, renderTemplate, TemplateContext } from '../utils/template';
+import { getSendWindow, nextSendTime, SendWindow } from '../utils/send-window';
+import { phoneKey } from '../utils/lead-identity';
+
+type Channel = DripStep['channel'];
+
+interface Unreachable {
+  reason: string;
+  suppressed: boolean; // Blocked by the suppression list rather than a missing address
+}
+
+export class JourneySchedulerService {
+  private suppressions: SuppressionService;
+  private vault: CredentialVaultService;
+
+  constructor(
+    private db: DatabaseService,
+    private env: Env
+  ) {
+    this.suppressions = new SuppressionService(db);
+    this.vault = new CredentialVaultService(db, env.ENCRYPTION_KEY);
+  }
+
+  /**
+   * Start a lead on a drip campaign and queue its first step. Returns null
+   * if the lead, or another of the owner's leads with the same email or
+   * phone, already has a journey on that campaign.
+   */
+  async enroll(leadId: string, dripCampaignId: string): Promise<LeadJourney | null> {
+    const existing = await this.db.getJourneyByLeadAndCampaign(leadId, dripCampaignId)
+      || await this.db.getIdentityJourney(leadId, dripCampaignId);
+    if (existing) {
+      return null;
+    }
+
+    const now = Date.now();
+    const journey: LeadJourney = {
+      id: await generateId(),
+      lead_id: leadId,
+      campaign_id: dripCampaignId,
+      current_step: 0,
+      status: 'active',
+      started_at: now,
+      last_interaction_at: now,
+      total_sms_sent: 0,
+      total_emails_sent: 0,
+      total_opens: 0,
+      total_clicks: 0,
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.db.createLeadJourney(journey);
+    await this.queueNextStep(journey);
+
+    return journey;
+  }
+
+  /**
+   * Queue the step after the journey's current step, scheduled relative to
+   * `fromTime`. Steps the lead can't be reached on are handled by the step's
+   * fallback action; a suppressed step is also recorded as a `suppressed`
+   * message. SMS is pushed into the drip campaign's send window in the
+   * lead's timezone. Marks the journey completed once no active steps remain.
+   */
+  async queueNextStep(journey: LeadJourney, fromTime = Date.now()): Promise<void> {
+    const lead = await this.db.getLeadById(journey.lead_id);
+    if (!lead) {
+      throw new Error('Lead not found');
+    }
+
+    const campaign = await this.db.getCampaignById(lead.campaign_id);
+    const templateContext = buildTemplateContext(lead, campaign);
+    // SMS goes out from the campaign owner's Twilio number
+    const ownerEnv = campaign ? await this.vault.envForUser(this.env, campaign.user_id) : this.env;
+    const fromNumber = ownerEnv.TWILIO_PHONE_NUMBER || '';
+    const dripCampaign = await this.db.getDripCampaignById(journey.campaign_id);
+    const sendWindow = dripCampaign ? getSendWindow(dripCampaign, lead) : null;
+
+    const skipped: SkippedStep[] = journey.skipped_steps ? JSON.parse(journey.skipped_steps) : [];
+    const skippedCount = skipped.length;
+    let stepNumber = journey.current_step;
+
+    for (;;) {
+      stepNumber++;
+
+      const step = await this.db.getDripStepByNumber(journey.campaign_id, stepNumber);
+      if (!step || !step.active) {
+        await this.db.updateLeadJourney(journey.id, {
+          current_step: stepNumber - 1,
+          status: 'completed',
+          completed_at: Date.now(),
+          ...this.skippedUpdate(skipped, skippedCount),
+          updated_at: Date.now()
+        });
+        return;
+      }
+
+      const scheduledAt = fromTime + step.delay_minutes * 60 * 1000;
+
+      const unreachable = await this.checkReachable(lead, step.channel);
+      if (!unreachable) {
+        const sendAt = this.windowed(step.channel, scheduledAt, sendWindow);
+        await this.queueStep(journey, step, step.channel, lead, fromNumber, templateContext, sendAt);
+        await this.db.updateLeadJourney(journey.id, {
+          current_step: stepNumber,
+          ...this.skippedUpdate(skipped, skippedCount),
+          updated_at: Date.now()
+        });
+        return;
+      }
+
+      const { reason } = unreachable;
+      const otherChannel: Channel = step.channel === 'sms' ? 'email' : 'sms';
+
+      if (unreachable.suppressed) {
+        await this.queueStep(journey, step, step.channel, lead, fromNumber, templateContext, scheduledAt, reason);
+      }
+
+      if (step.fallback_action === 'pause') {
+        // Stay on the previous step so resuming retries this one
+        await this.db.updateLeadJourney(journey.id, {
+          current_step: stepNumber - 1,
+          status: 'paused',
+          status_reason: `Step ${step.step_number} (${step.channel}): ${reason}`,
+          ...this.skippedUpdate(skipped, skippedCount),
+          updated_at: Date.now()
+        });
+        console.log(`Paused journey ${journey.id} at step ${step.step_number} - ${reason}`);
+        return;
+      }
+
+      if (step.fallback_action === 'substitute' && !(await this.checkReachable(lead, otherChannel))) {
+        const sendAt = this.windowed(otherChannel, scheduledAt, sendWindow);
+        await this.queueStep(journey, step, otherChannel, lead, fromNumber, templateContext, sendAt);
+        skipped.push({ step_number: step.step_number, channel: step.channel, action: 'substituted', reason, at: Date.now() });
+        await this.db.updateLeadJourney(journey.id, {
+          current_step: stepNumber,
+          ...this.skippedUpdate(skipped, skippedCount),
+          updated_at: Date.now()
+        });
+        console.log(`Substituted ${otherChannel} for ${step.channel} step ${step.step_number} for lead ${lead.id}`);
+        return;
+      }
+
+      // Skip and continue with the next step
+      skipped.push({ step_number: step.step_number, channel: step.channel, action: 'skipped', reason, at: Date.now() });
+      console.log(`Skipping ${step.channel} step ${step.step_number} for lead ${lead.id} - ${reason}`);
+    }
+  }
+
+  /**
+   * Advance a lead's journey once the message for a drip step has been sent,
+   * or has been given up on (`sent` false), so the journey never stalls
+   */
+  async advanceAfterStep(
+    leadId: string,
+    dripStepId: string,
+    channel: Channel,
+    completedAt: number,
+    sent: boolean
+  ): Promise<void> {
+    const step = await this.db.getDripStepById(dripStepId);
+    if (!step) {
+      console.warn(`Drip step ${dripStepId} not found, journey not advanced`);
+      return;
+    }
+
+    const journey = await this.db.getJourneyByLeadAndCampaign(leadId, step.campaign_id);
+    if (!journey || journey.status !== 'active') {
+      return;
+    }
+
+    // Only the message for the step the journey is waiting on moves it forward
+    if (journey.current_step !== step.step_number) {
+      console.warn(`Journey ${journey.id} is on step ${journey.current_step}, ignoring step ${step.step_number}`);
+      return;
+    }
+
+    if (sent) {
+      await this.db.updateLeadJourney(journey.id, {
+        total_sms_sent: journey.total_sms_sent + (channel === 'sms' ? 1 : 0),
+        total_emails_sent: journey.total_emails_sent + (channel === 'email' ? 1 : 0),
+        last_interaction_at: completedAt,
+        updated_at: Date.now()
+      });
+    }
+
+    await this.queueNextStep(journey, completedAt);
+  }
+
+  /**
+   * Count a delivery/open/click from a status webhook against the journey the
+   * message belongs to
+   */
+  async recordEngagement(
+    leadId: string,
+    dripStepId: string,
+    counter: 'total_sms_delivered' | 'total_opens' | 'total_clicks',
+    at: number
+  ): Promise<void> {
+    const step = await this.db.getDripStepById(dripStepId);
+    if (!step) {
+      return;
+    }
+
+    const journey = await this.db.getJourneyByLeadAndCampaign(leadId, step.campaign_id);
+    if (journey) {
+      await this.db.incrementJourneyCounter(journey.id, counter, at);
+    }
+  }
+
+  /**
+   * Count engagement against a journey identified directly (SendGrid journey_id)
+   */
+  async recordEngagementForJourney(
+    journeyId: string,
+    leadId: string,
+    counter: 'total_opens' | 'total_clicks',
+    at: number
+  ): Promise<void> {
+    const journey = await this.db.getLeadJourneyById(journeyId);
+    if (journey && journey.lead_id === leadId) {
+      await this.db.incrementJourneyCounter(journey.id, counter, at);
+    }
+  }
+
+  /**
+   * Resume a paused journey, retrying the step it paused on
+   */
+  async resume(journey: LeadJourney): Promise<void> {
+    if (journey.status !== 'paused') {
+      throw new Error(`Journey is ${journey.status}, only paused journeys can be resumed`);
+    }
+
+    const resumed: LeadJourney = { ...journey, status: 'active', status_reason: undefined };
+    await this.db.updateLeadJourney(journey.id, {
+      status: 'active',
+      status_reason: undefined, // Cleared to NULL
+      updated_at: Date.now()
+    });
+
+    await this.queueNextStep(resumed);
+  }
+
+  /**
+   * When an SMS may go out under its drip campaign's send window: `at` while
+   * the window is open, otherwise when it next opens. Messages outside a drip
+   * campaign aren't restricted.
+   */
+  async getSMSSendTime(message: SMSMessage, at = Date.now()): Promise<number> {
+    if (!message.drip_step_id) {
+      return at;
+    }
+
+    const step = await this.db.getDripStepById(message.drip_step_id);
+    const dripCampaign = step ? await this.db.getDripCampaignById(step.campaign_id) : null;
+    const lead = await this.db.getLeadById(message.lead_id);
+    const sendWindow = dripCampaign && lead ? getSendWindow(dripCampaign, lead) : null;
+
+    return sendWindow ? nextSendTime(at, sendWindow) : at;
+  }
+
+  /**
+   * Quiet hours only apply to SMS
+   */
+  private windowed(channel: Channel, scheduledAt: number, sendWindow: SendWindow | null): number {
+    return channel === 'sms' && sendWindow ? nextSendTime(scheduledAt, sendWindow) : scheduledAt;
+  }
+
+  /**
+   * Why the lead can't be messaged on a channel, or null if it can
+   */
+  private async checkReachable(lead: Lead, channel: Channel): Promise<Unreachable | null> {
+    if (channel === 'sms' ? !lead.phone : !lead.email) {
+      return { reason: channel === 'sms' ? 'Lead has no phone number' : 'Lead has no email address', suppressed: false };
+    }
+
+    const suppressedReason = await this.suppressions.getSuppressionReason(lead, channel);
+    return suppressedReason ? { reason: suppressedReason, suppressed: true } : null;
+  }
+
+  private skippedUpdate(skipped: SkippedStep[], previousCount: number): Partial<LeadJourney> {
+    return skipped.length > previousCount ? { skipped_steps: JSON.stringify(skipped) } : {};
+  }
+
+  /**
+   * Create the pending message for a step on the given channel, which differs
+   * from the step's own channel when substituting. Merge fields are rendered
+   * here so the queued message holds the final text. With `suppressedReason`
+   * the message is recorded as suppressed and never sent.
+   */
+  private async queueStep(
+    journey: LeadJourney,
+    step: DripStep,
+    channel: Channel,
+    lead: Lead,
+    fromNumber: string,
+    templateContext: TemplateContext,
+    scheduledAt: number,
+    suppressedReason?: string
+  ): Promise<void> {
+    const now = Date.now();
+    const content = step.content_template ? renderTemplate(step.content_template, templateContext) : undefined;
+    const subject = step.subject_template ? renderTemplate(step.subject_template, templateContext) : undefined;
+
+    if (channel === 'sms') {
+      const smsMessage: SMSMessage = {
+        id: await generateId(),
+        lead_id: lead.id,
+        drip_step_id: step.id,
+        to_number: phoneKey(lead.phone) || lead.phone!, // E.164, the form replies come from
+        from_number: fromNumber,
+        content: content || subject || 'Thank you for your interest!',
+        status: suppressedReason ? 'suppressed' : 'pending',
+        scheduled_at: scheduledAt,
+        error_message: suppressedReason,
+        created_at: now,
+        updated_at: now
+      };
+
+      await this.db.createSMSMessage(smsMessage);
+      return;
+    }
+
+    const emailMessage: EmailMessage = {
+      id: await generateId(),
+      lead_id: lead.id,
+      drip_step_id: step.id,
+      journey_id: journey.id,
+      to_email: lead.email!,
+      subject: subject || 'Thank you for your interest!',
+      content,
+      // An SMS step substituted to email has no SendGrid template of its own
+      template_id: step.channel === 'email' ? step.sendgrid_template_id : undefined,
+      dynamic_data: JSON.stringify({
+        first_name: lead.first_name,
+        last_name: lead.last_name,
+        company: lead.company
+      }),
+      status: suppressedReason ? 'suppressed' : 'pending',
+      scheduled_at: scheduledAt,
+      error_message: suppressedReason,
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.db.createEmailMessage(emailMessage);
+  }
+}
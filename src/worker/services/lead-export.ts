@@ -0,0 +1,355 @@
+// Lead export - the leads list, with its filters and sort, written out as CSV or NDJSON
+
+import { Env } from '../types/env';
+import { LeadExport, LeadExportRow, LeadListQuery } from '../types/database';
+import { DatabaseService } from './database';
+import { generateId, generateToken, hashToken } from '../utils/crypto';
+import { toSpreadsheetCsvValue } from '../utils/csv';
+
+export const EXPORT_STREAM_MAX_ROWS = 5000; // Larger exports are written to R2 in the background
+export const EXPORT_LINK_TTL_SECONDS = 15 * 60;
+export const EXPORT_RETENTION_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 500;
+const PART_SIZE = 5 * 1024 * 1024; // R2 wants every multipart part but the last to be this size
+const LEASE_MS = 60 * 1000;
+
+const BASE_COLUMNS = [
+  'id',
+  'first_name',
+  'last_name',
+  'email',
+  'phone',
+  'company',
+  'campaign_id',
+  'campaign_name',
+  'source',
+  'status',
+  'sms_consent',
+  'captured_at',
+  'journey_campaign',
+  'journey_status',
+  'journey_step'
+];
+
+export type LeadExportFormat = LeadExport['format'];
+export type LeadExportQuery = Omit<LeadListQuery, 'limit' | 'after'>;
+
+type ExportRecord = Record<string, string | number | null>;
+
+export const EXPORT_CONTENT_TYPES: Record<LeadExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+};
+
+export function exportFileName(format: LeadExportFormat, at: number): string {
+  return `leads-${new Date(at).toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * One lead as an export record. Custom fields are flattened into
+ * `custom.<name>` keys; nested values are kept as JSON text.
+ */
+export function toExportRecord(lead: LeadExportRow): ExportRecord {
+  const record: ExportRecord = {
+    id: lead.id,
+    first_name: lead.first_name || null,
+    last_name: lead.last_name || null,
+    email: lead.email || null,
+    phone: lead.phone || null,
+    company: lead.company || null,
+    campaign_id: lead.campaign_id,
+    campaign_name: lead.campaign_name,
+    source: lead.meta_lead_id ? 'meta' : 'manual',
+    status: lead.status,
+    sms_consent: lead.sms_consent || null,
+    captured_at: new Date(lead.captured_at).toISOString(),
+    journey_campaign: lead.journey_campaign_name || null,
+    journey_status: lead.journey_status || null,
+    journey_step: lead.journey_step ?? null
+  };
+
+  let customFields: Record<string, unknown> = {};
+  try {
+    const parsed = lead.custom_fields ? JSON.parse(lead.custom_fields) : {};
+    customFields = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    customFields = {};
+  }
+
+  for (const [key, value] of Object.entries(customFields)) {
+    record[`custom.${key}`] = value === null || value === undefined
+      ? null
+      : typeof value === 'object' ? JSON.stringify(value) : value as string | number;
+  }
+
+  return record;
+}
+
+function formatLine(record: ExportRecord, format: LeadExportFormat, columns: string[]): string {
+  return format === 'csv'
+    ? columns.map(column => toSpreadsheetCsvValue(record[column])).join(',') + '\r\n'
+    : JSON.stringify(record) + '\n';
+}
+
+export class LeadExportService {
+  private db: DatabaseService;
+
+  constructor(private env: Env) {
+    this.db = new DatabaseService(env.DB);
+  }
+
+  /**
+   * The export file as a stream, reading leads a page at a time as it is consumed
+   */
+  stream(userId: string, query: LeadExportQuery, format: LeadExportFormat): ReadableStream<Uint8Array> {
+    const lines = this.lines(userId, query, format);
+    const encoder = new TextEncoder();
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { value, done } = await lines.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      },
+      async cancel() {
+        await lines.return(undefined);
+      }
+    });
+  }
+
+  /**
+   * Record an export to be written to R2 by `process`
+   */
+  async start(userId: string, query: LeadExportQuery, format: LeadExportFormat): Promise<LeadExport> {
+    const now = Date.now();
+    const id = await generateId();
+    const leadExport: LeadExport = {
+      id,
+      user_id: userId,
+      format,
+      filters: JSON.stringify(query),
+      status: 'processing',
+      r2_key: `lead-exports/${userId}/${id}.${format}`,
+      row_count: 0,
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.db.createLeadExport(leadExport);
+    return leadExport;
+  }
+
+  /**
+   * Write an export's file to R2 as a multipart upload until it is finished
+   * or `until` passes; a later call picks up where this one stopped. Returns
+   * null when another invocation is already writing it.
+   */
+  async process(exportId: string, until = Date.now() + 20 * 1000): Promise<LeadExport | null> {
+    if (!(await this.db.claimLeadExport(exportId, Date.now(), Date.now() + LEASE_MS))) {
+      return null;
+    }
+
+    let leadExport = await this.db.getLeadExportById(exportId);
+    if (!leadExport) return null;
+
+    try {
+      leadExport = await this.writeParts(leadExport, until);
+    } catch (error) {
+      console.error(`Lead export ${exportId} failed:`, error);
+      if (leadExport.upload_id) {
+        await this.env.R2.resumeMultipartUpload(leadExport.r2_key, leadExport.upload_id).abort().catch(() => undefined);
+      }
+      if (leadExport.tail_key) {
+        await this.env.R2.delete(leadExport.tail_key).catch(() => undefined);
+      }
+
+      const failed: Partial<LeadExport> = {
+        status: 'failed',
+        error_message: 'Export stopped unexpectedly',
+        updated_at: Date.now()
+      };
+      await this.db.updateLeadExport(exportId, failed);
+      leadExport = { ...leadExport, ...failed };
+    }
+
+    await this.db.updateLeadExport(exportId, { locked_until: undefined });
+    return leadExport;
+  }
+
+  /**
+   * Append pages of leads to the upload. Full parts are uploaded as they
+   * fill; if time runs out first, the rest of the buffer is saved to R2 with
+   * the position reached.
+   */
+  private async writeParts(leadExport: LeadExport, until: number): Promise<LeadExport> {
+    const upload = leadExport.upload_id
+      ? this.env.R2.resumeMultipartUpload(leadExport.r2_key, leadExport.upload_id)
+      : await this.env.R2.createMultipartUpload(leadExport.r2_key, {
+        httpMetadata: { contentType: EXPORT_CONTENT_TYPES[leadExport.format] }
+      });
+    const parts: R2UploadedPart[] = leadExport.parts ? JSON.parse(leadExport.parts) : [];
+    const query: LeadExportQuery = JSON.parse(leadExport.filters);
+    const encoder = new TextEncoder();
+    let buffer = new Uint8Array(PART_SIZE);
+    let buffered = 0;
+    let fileSize = leadExport.file_size || 0;
+    let rowCount = leadExport.row_count;
+    let columns: string[] = leadExport.columns ? JSON.parse(leadExport.columns) : [];
+    let after: LeadListQuery['after'] = leadExport.cursor ? JSON.parse(leadExport.cursor) : undefined;
+
+    const flush = async () => {
+      parts.push(await upload.uploadPart(parts.length + 1, buffer.slice(0, buffered)));
+      buffer = new Uint8Array(PART_SIZE);
+      buffered = 0;
+    };
+
+    const write = async (line: string) => {
+      let bytes = encoder.encode(line);
+      fileSize += bytes.length;
+
+      while (bytes.length > 0) {
+        const taken = Math.min(bytes.length, PART_SIZE - buffered);
+        buffer.set(bytes.subarray(0, taken), buffered);
+        buffered += taken;
+        bytes = bytes.subarray(taken);
+        if (buffered === PART_SIZE) await flush();
+      }
+    };
+
+    if (leadExport.tail_key) {
+      const tail = await this.env.R2.get(leadExport.tail_key);
+      if (!tail) {
+        throw new Error(`Export progress ${leadExport.tail_key} is missing`);
+      }
+      const bytes = new Uint8Array(await tail.arrayBuffer());
+      buffer.set(bytes);
+      buffered = bytes.length;
+    } else if (leadExport.format === 'csv') {
+      columns = await this.csvColumns(leadExport.user_id, query);
+      await write(columns.map(toSpreadsheetCsvValue).join(',') + '\r\n');
+    }
+
+    do {
+      const { leads, next } = await this.db.getLeadExportPage(leadExport.user_id, { ...query, limit: PAGE_SIZE, after });
+      for (const lead of leads) {
+        await write(formatLine(toExportRecord(lead), leadExport.format, columns));
+      }
+      rowCount += leads.length;
+      after = next;
+    } while (after && Date.now() < until);
+
+    const now = Date.now();
+
+    if (after) {
+      // Part numbers and row counts only grow, so the key is new for each save
+      const tailKey = `${leadExport.r2_key}.tail-${parts.length + 1}-${rowCount}`;
+      await this.env.R2.put(tailKey, buffer.slice(0, buffered));
+
+      const progress: Partial<LeadExport> = {
+        upload_id: upload.uploadId,
+        parts: JSON.stringify(parts),
+        columns: JSON.stringify(columns),
+        cursor: JSON.stringify(after),
+        tail_key: tailKey,
+        row_count: rowCount,
+        file_size: fileSize,
+        updated_at: now
+      };
+      await this.db.updateLeadExport(leadExport.id, progress);
+      if (leadExport.tail_key) await this.env.R2.delete(leadExport.tail_key);
+
+      return { ...leadExport, ...progress };
+    }
+
+    if (buffered > 0 || parts.length === 0) await flush();
+    await upload.complete(parts);
+    if (leadExport.tail_key) await this.env.R2.delete(leadExport.tail_key);
+
+    const completed: Partial<LeadExport> = {
+      status: 'completed',
+      row_count: rowCount,
+      file_size: fileSize,
+      completed_at: now,
+      expires_at: now + EXPORT_RETENTION_MS,
+      upload_id: undefined,
+      parts: undefined,
+      columns: undefined,
+      cursor: undefined,
+      tail_key: undefined,
+      updated_at: now
+    };
+    await this.db.updateLeadExport(leadExport.id, completed);
+
+    return { ...leadExport, ...completed };
+  }
+
+  /**
+   * A download link for a finished export that works without signing in,
+   * valid for EXPORT_LINK_TTL_SECONDS
+   */
+  async createDownloadLink(leadExport: LeadExport): Promise<{ url: string; expiresAt: number }> {
+    const token = generateToken();
+    await this.env.KV.put(`lead_export_link:${await hashToken(token)}`, leadExport.id, {
+      expirationTtl: EXPORT_LINK_TTL_SECONDS
+    });
+
+    return {
+      url: `/api/leads/exports/download/${token}`,
+      expiresAt: Date.now() + EXPORT_LINK_TTL_SECONDS * 1000
+    };
+  }
+
+  /**
+   * The export a download link points to, if the link is still valid and the
+   * file has not been deleted
+   */
+  async resolveDownloadLink(token: string): Promise<LeadExport | null> {
+    const exportId = await this.env.KV.get(`lead_export_link:${await hashToken(token)}`);
+    if (!exportId) return null;
+
+    const leadExport = await this.db.getLeadExportById(exportId);
+    return leadExport?.status === 'completed' ? leadExport : null;
+  }
+
+  /**
+   * Delete the files of exports past their retention
+   */
+  async deleteExpired(now = Date.now()): Promise<number> {
+    const expired = await this.db.getExpiredLeadExports(now);
+
+    for (const leadExport of expired) {
+      await this.env.R2.delete(leadExport.r2_key);
+      await this.db.updateLeadExport(leadExport.id, { status: 'expired', updated_at: now });
+    }
+
+    return expired.length;
+  }
+
+  // The file's lines in order: a CSV header and rows, or one JSON object per lead
+  private async *lines(userId: string, query: LeadExportQuery, format: LeadExportFormat): AsyncGenerator<string> {
+    let columns: string[] = [];
+    if (format === 'csv') {
+      columns = await this.csvColumns(userId, query);
+      yield columns.map(toSpreadsheetCsvValue).join(',') + '\r\n';
+    }
+
+    let after: LeadListQuery['after'];
+    do {
+      const { leads, next } = await this.db.getLeadExportPage(userId, { ...query, limit: PAGE_SIZE, after });
+
+      for (const lead of leads) {
+        yield formatLine(toExportRecord(lead), format, columns);
+      }
+
+      after = next;
+    } while (after);
+  }
+
+  private async csvColumns(userId: string, query: LeadExportQuery): Promise<string[]> {
+    const customKeys = await this.db.getLeadCustomFieldKeys(userId, query);
+    return [...BASE_COLUMNS, ...customKeys.map(key => `custom.${key}`)];
+  }
+}
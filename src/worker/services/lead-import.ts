@@ -0,0 +1,387 @@
+// Lead import - CSV files uploaded to R2 and turned into leads a chunk of rows at a time
+
+import { Env } from '../types/env';
+import { Lead, LeadImport, LeadImportError, LeadImportTarget } from '../types/database';
+import { DatabaseService } from './database';
+import { SendGridService } from './sendgrid';
+import { JourneySchedulerService } from './journey-scheduler';
+import { generateId } from '../utils/crypto';
+import { isBlankRecord, parseCsvRecords } from '../utils/csv';
+import { emailKey, phoneKey } from '../utils/lead-identity';
+
+export const IMPORT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+const PREVIEW_BYTES = 64 * 1024;
+const PREVIEW_ROWS = 5;
+const CHUNK_BYTES = 256 * 1024; // Must hold at least one row
+const CHUNK_ROWS = 50;
+const LEASE_MS = 60 * 1000;
+
+// Header names (lowercase, letters and digits only) recognised when suggesting a mapping
+const HEADER_TARGETS: Record<string, LeadImportTarget> = {
+  firstname: 'first_name',
+  first: 'first_name',
+  fname: 'first_name',
+  givenname: 'first_name',
+  lastname: 'last_name',
+  last: 'last_name',
+  lname: 'last_name',
+  surname: 'last_name',
+  familyname: 'last_name',
+  email: 'email',
+  emailaddress: 'email',
+  phone: 'phone',
+  phonenumber: 'phone',
+  mobile: 'phone',
+  mobilephone: 'phone',
+  cell: 'phone',
+  telephone: 'phone',
+  company: 'company',
+  companyname: 'company',
+  organization: 'company',
+  business: 'company'
+};
+
+/**
+ * A file or mapping that can't be imported; the message is shown to the user
+ */
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+export interface ImportPreview {
+  leadImport: LeadImport;
+  columns: string[];
+  rows: string[][]; // First few data rows
+  suggestedMapping: LeadImportTarget[];
+}
+
+interface ParsedRow {
+  lead?: Omit<Lead, 'id' | 'campaign_id' | 'captured_at' | 'status'>;
+  message?: string; // Why the row can't be imported
+}
+
+interface RowResult {
+  lead?: Lead;
+  error?: Omit<LeadImportError, 'id' | 'import_id'>;
+}
+
+export function suggestMapping(columns: string[]): LeadImportTarget[] {
+  const used = new Set<LeadImportTarget>();
+
+  return columns.map(column => {
+    const target = HEADER_TARGETS[column.toLowerCase().replace(/[^a-z0-9]/g, '')];
+    if (!target || used.has(target)) {
+      return 'custom';
+    }
+    used.add(target);
+    return target;
+  });
+}
+
+export class LeadImportService {
+  private db: DatabaseService;
+  private sendgrid: SendGridService;
+  private journeys: JourneySchedulerService;
+
+  constructor(private env: Env) {
+    this.db = new DatabaseService(env.DB);
+    this.sendgrid = new SendGridService(env);
+    this.journeys = new JourneySchedulerService(this.db, env);
+  }
+
+  /**
+   * Store an uploaded CSV in R2 and read its header and first rows so the
+   * user can map columns before anything is imported
+   */
+  async upload(userId: string, campaignId: string, file: File): Promise<ImportPreview> {
+    if (file.size === 0) {
+      throw new ImportFileError('The file is empty');
+    }
+    if (file.size > IMPORT_MAX_FILE_SIZE) {
+      throw new ImportFileError(`Files can be at most ${IMPORT_MAX_FILE_SIZE / 1024 / 1024} MB`);
+    }
+
+    const head = decode(await file.slice(0, PREVIEW_BYTES).arrayBuffer());
+    const records = parseCsvRecords(head, file.size <= PREVIEW_BYTES, PREVIEW_ROWS + 1);
+    const columns = records[0]?.values.map((value, index) => (index === 0 ? value.replace(/^\uFEFF/, '') : value).trim());
+
+    if (!columns || isBlankRecord(columns)) {
+      throw new ImportFileError('The first row must hold the column names');
+    }
+
+    const now = Date.now();
+    const id = await generateId();
+    const leadImport: LeadImport = {
+      id,
+      user_id: userId,
+      campaign_id: campaignId,
+      file_name: file.name || 'leads.csv',
+      r2_key: `lead-imports/${userId}/${id}.csv`,
+      file_size: file.size,
+      columns: JSON.stringify(columns),
+      status: 'uploaded',
+      byte_offset: byteLength(head.slice(0, records[0].end)),
+      rows_processed: 0,
+      rows_imported: 0,
+      rows_duplicate: 0,
+      rows_failed: 0,
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.env.R2.put(leadImport.r2_key, await file.arrayBuffer(), {
+      httpMetadata: { contentType: 'text/csv' }
+    });
+    await this.db.createLeadImport(leadImport);
+
+    return {
+      leadImport,
+      columns,
+      rows: records.slice(1).map(record => record.values),
+      suggestedMapping: suggestMapping(columns)
+    };
+  }
+
+  /**
+   * Save the column mapping and queue the import for processing
+   */
+  async start(leadImport: LeadImport, mapping: LeadImportTarget[], dripCampaignId?: string): Promise<LeadImport> {
+    const columns: string[] = JSON.parse(leadImport.columns);
+
+    if (mapping.length !== columns.length) {
+      throw new ImportFileError(`Expected a mapping for each of the ${columns.length} columns`);
+    }
+    for (const target of ['first_name', 'last_name', 'email', 'phone', 'company'] as const) {
+      if (mapping.filter(value => value === target).length > 1) {
+        throw new ImportFileError(`Only one column can be imported as ${target.replace('_', ' ')}`);
+      }
+    }
+    if (!mapping.includes('email') && !mapping.includes('phone')) {
+      throw new ImportFileError('Map a column to email or phone so leads can be contacted');
+    }
+
+    const updates: Partial<LeadImport> = {
+      mapping: JSON.stringify(mapping),
+      drip_campaign_id: dripCampaignId,
+      status: 'processing',
+      updated_at: Date.now()
+    };
+    await this.db.updateLeadImport(leadImport.id, updates);
+
+    return { ...leadImport, ...updates };
+  }
+
+  /**
+   * Work through an import's rows until it is finished or `until` passes.
+   * Returns null when another invocation is already processing it.
+   */
+  async process(importId: string, until = Date.now() + 20 * 1000): Promise<LeadImport | null> {
+    if (!(await this.db.claimLeadImport(importId, Date.now(), Date.now() + LEASE_MS))) {
+      return null;
+    }
+
+    let leadImport = await this.db.getLeadImportById(importId);
+
+    try {
+      while (leadImport && leadImport.status === 'processing' && Date.now() < until) {
+        leadImport = await this.processChunk(leadImport);
+      }
+    } catch (error) {
+      console.error(`Lead import ${importId} failed:`, error);
+      const failed: Partial<LeadImport> = {
+        status: 'failed',
+        error_message: error instanceof ImportFileError ? error.message : 'Import stopped unexpectedly',
+        updated_at: Date.now()
+      };
+      await this.db.updateLeadImport(importId, failed);
+      leadImport = leadImport && { ...leadImport, ...failed };
+    }
+
+    await this.db.updateLeadImport(importId, { locked_until: undefined });
+    return leadImport;
+  }
+
+  private async processChunk(leadImport: LeadImport): Promise<LeadImport> {
+    const object = await this.env.R2.get(leadImport.r2_key, {
+      range: { offset: leadImport.byte_offset, length: CHUNK_BYTES }
+    });
+    if (!object) {
+      throw new ImportFileError('The uploaded file is no longer available');
+    }
+
+    const text = decode(await object.arrayBuffer());
+    const final = leadImport.byte_offset + CHUNK_BYTES >= leadImport.file_size;
+    const records = parseCsvRecords(text, final, CHUNK_ROWS);
+
+    if (records.length === 0 && !final) {
+      throw new ImportFileError(`Row ${leadImport.rows_processed + 2} is too long to import`);
+    }
+
+    const columns: string[] = JSON.parse(leadImport.columns);
+    const mapping: LeadImportTarget[] = JSON.parse(leadImport.mapping || '[]');
+    const results = await this.importRows(
+      leadImport,
+      records.map((record, index) => ({
+        values: record.values,
+        rowNumber: leadImport.rows_processed + index + 2
+      })),
+      columns,
+      mapping
+    );
+
+    const errors: LeadImportError[] = [];
+    for (const result of results) {
+      if (result.error) {
+        errors.push({ id: await generateId(), import_id: leadImport.id, ...result.error });
+      }
+    }
+    await this.db.createLeadImportErrors(errors);
+
+    const consumed = records.length > 0 ? records[records.length - 1].end : 0;
+    const done = final && consumed >= text.length;
+    const now = Date.now();
+    const updates: Partial<LeadImport> = {
+      byte_offset: leadImport.byte_offset + byteLength(text.slice(0, consumed)),
+      rows_processed: leadImport.rows_processed + records.length,
+      rows_imported: leadImport.rows_imported + results.filter(result => result.lead).length,
+      rows_duplicate: leadImport.rows_duplicate + errors.filter(error => error.type === 'duplicate').length,
+      rows_failed: leadImport.rows_failed + errors.filter(error => error.type === 'invalid').length,
+      locked_until: now + LEASE_MS,
+      updated_at: now,
+      ...(done && { status: 'completed' as const, completed_at: now })
+    };
+    await this.db.updateLeadImport(leadImport.id, updates);
+
+    return { ...leadImport, ...updates };
+  }
+
+  /**
+   * Validate, dedupe and save one chunk of rows. Duplicates are checked
+   * against the user's existing leads and earlier rows of the file.
+   */
+  private async importRows(
+    leadImport: LeadImport,
+    rows: { values: string[]; rowNumber: number }[],
+    columns: string[],
+    mapping: LeadImportTarget[]
+  ): Promise<RowResult[]> {
+    const parsed = rows
+      .filter(row => !isBlankRecord(row.values))
+      .map(row => ({ ...row, ...this.parseRow(row.values, columns, mapping) }));
+
+    const emails = parsed.flatMap(row => (row.lead?.email ? [row.lead.email] : []));
+    const phones = parsed.flatMap(row => (row.lead?.phone ? [row.lead.phone] : []));
+    const existing = await this.db.getLeadsByUserContacts(leadImport.user_id, emails, phones);
+
+    const knownEmails = new Set(existing.flatMap(lead => (lead.email_key ? [lead.email_key] : [])));
+    const knownPhones = new Set(existing.flatMap(lead => (lead.phone_key ? [lead.phone_key] : [])));
+    const results: RowResult[] = [];
+
+    for (const row of parsed) {
+      const rowData = JSON.stringify(row.values);
+
+      if (!row.lead) {
+        results.push({ error: { row_number: row.rowNumber, type: 'invalid', message: row.message || 'Invalid row', row_data: rowData } });
+        continue;
+      }
+
+      const { email, phone } = row.lead;
+      const duplicateOf = email && knownEmails.has(email) ? `Email ${email}` : phone && knownPhones.has(phone) ? `Phone ${phone}` : null;
+      if (duplicateOf) {
+        results.push({
+          error: { row_number: row.rowNumber, type: 'duplicate', message: `${duplicateOf} already belongs to a lead`, row_data: rowData }
+        });
+        continue;
+      }
+
+      const lead: Lead = {
+        ...row.lead,
+        id: await generateId(),
+        campaign_id: leadImport.campaign_id,
+        captured_at: Date.now(),
+        status: 'active'
+      };
+      await this.db.createLead(lead);
+      if (email) knownEmails.add(email);
+      if (phone) knownPhones.add(phone);
+
+      if (leadImport.drip_campaign_id) {
+        try {
+          await this.journeys.enroll(lead.id, leadImport.drip_campaign_id);
+        } catch (error) {
+          console.error(`Failed to enroll imported lead ${lead.id}:`, error);
+        }
+      }
+
+      results.push({ lead });
+    }
+
+    return results;
+  }
+
+  /**
+   * Map a row's values onto lead fields, normalizing the phone number and
+   * checking the email address
+   */
+  private parseRow(
+    values: string[],
+    columns: string[],
+    mapping: LeadImportTarget[]
+  ): ParsedRow {
+    const fields: Partial<Record<LeadImportTarget, string>> = {};
+    const custom: Record<string, string> = {};
+
+    mapping.forEach((target, index) => {
+      const value = (values[index] || '').trim();
+      if (!value || target === 'ignore') return;
+
+      if (target === 'custom') {
+        custom[columns[index]] = value;
+      } else {
+        fields[target] = value;
+      }
+    });
+
+    const problems: string[] = [];
+    const email = emailKey(fields.email);
+    if (email && !this.sendgrid.validateEmail(email)) {
+      problems.push(`Invalid email address "${fields.email}"`);
+    }
+
+    const phone = phoneKey(fields.phone);
+    if (phone && !/^\+\d{10,15}$/.test(phone)) {
+      problems.push(`Invalid phone number "${fields.phone}"`);
+    }
+
+    if (!email && !phone) {
+      problems.push('No email address or phone number');
+    }
+
+    if (problems.length > 0) {
+      return { message: problems.join('; ') };
+    }
+
+    return {
+      lead: {
+        first_name: fields.first_name,
+        last_name: fields.last_name,
+        email,
+        phone,
+        company: fields.company,
+        custom_fields: Object.keys(custom).length > 0 ? JSON.stringify(custom) : undefined
+      }
+    };
+  }
+}
+
+// Keep a byte order mark as a character so string lengths map back to byte offsets
+function decode(buffer: ArrayBuffer): string {
+  return new TextDecoder('utf-8', { fatal: false, ignoreBOM: true }).decode(buffer);
+}
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
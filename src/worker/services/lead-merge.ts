@@ -0,0 +1,245 @@
+// Lead merge - finds leads that are the same person by email or phone, and merges them into one
+
+import { Lead, LeadJourney, LeadListItem } from '../types/database';
+import { DatabaseService } from './database';
+import { emailKey, phoneKey } from '../utils/lead-identity';
+
+// Leads that share an email or phone, oldest first; key is their sorted ids
+export interface LeadDuplicateGroup {
+  key: string;
+  matched_on: ('email' | 'phone')[];
+  leads: LeadListItem[];
+}
+
+// At most this many leads are merged into a survivor at once
+export const MERGE_MAX_DUPLICATES = 20;
+
+const CONTACT_FIELDS = ['first_name', 'last_name', 'email', 'phone', 'company'] as const;
+
+const STATUS_RANK: Record<Lead['status'], number> = {
+  active: 0,
+  converted: 1,
+  unsubscribed: 2
+};
+
+/**
+ * A merge or dismissal that can't be done; the message is shown to the user
+ */
+export class LeadMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeadMergeError';
+  }
+}
+
+export function duplicateGroupKey(leadIds: string[]): string {
+  return [...leadIds].sort().join(',');
+}
+
+/**
+ * Group leads connected by a shared email or phone key, directly or through
+ * another lead. Groups the user has dismissed are left out; the newest
+ * capture comes first.
+ */
+export function groupDuplicates(leads: LeadListItem[], dismissed: Set<string>): LeadDuplicateGroup[] {
+  const parent = new Map(leads.map(lead => [lead.id, lead.id]));
+  const find = (id: string): string => {
+    const root = parent.get(id)!;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+
+  const owners = new Map<string, string>();
+  for (const lead of leads) {
+    for (const key of [lead.email_key && `email:${lead.email_key}`, lead.phone_key && `phone:${lead.phone_key}`]) {
+      if (!key) continue;
+      const owner = owners.get(key);
+      if (owner) {
+        parent.set(find(lead.id), find(owner));
+      } else {
+        owners.set(key, lead.id);
+      }
+    }
+  }
+
+  const members = new Map<string, LeadListItem[]>();
+  for (const lead of leads) {
+    const root = find(lead.id);
+    members.set(root, [...(members.get(root) || []), lead]);
+  }
+
+  const groups: LeadDuplicateGroup[] = [];
+  for (const group of members.values()) {
+    const key = duplicateGroupKey(group.map(lead => lead.id));
+    if (group.length < 2 || dismissed.has(key)) continue;
+
+    const shared = (field: 'email_key' | 'phone_key') => {
+      const values = group.map(lead => lead[field]).filter(Boolean);
+      return new Set(values).size < values.length;
+    };
+
+    groups.push({
+      key,
+      matched_on: (['email', 'phone'] as const).filter(kind => shared(`${kind}_key`)),
+      leads: group.sort((a, b) => a.captured_at - b.captured_at)
+    });
+  }
+
+  const latest = (group: LeadDuplicateGroup) => group.leads[group.leads.length - 1].captured_at;
+  return groups.sort((a, b) => latest(b) - latest(a));
+}
+
+function customFields(lead: Lead): Record<string, unknown> {
+  try {
+    const fields = JSON.parse(lead.custom_fields || '{}');
+    return fields && typeof fields === 'object' && !Array.isArray(fields) ? fields : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Changes to the survivor once the duplicates are folded in: empty contact
+ * fields and missing custom fields are filled from the duplicates, the most
+ * final status wins, and SMS consent revoked on any of them stays revoked
+ */
+export function mergeLeadFields(survivor: Lead, duplicates: Lead[]): Partial<Lead> {
+  const updates: Partial<Lead> = {};
+
+  for (const field of CONTACT_FIELDS) {
+    if (survivor[field]) continue;
+    const value = duplicates.find(lead => lead[field])?.[field];
+    if (value) updates[field] = value;
+  }
+
+  const fields = Object.assign({}, ...[...duplicates].reverse().map(customFields), customFields(survivor));
+  if (Object.keys(fields).length > Object.keys(customFields(survivor)).length) {
+    updates.custom_fields = JSON.stringify(fields);
+  }
+
+  const status = duplicates.reduce(
+    (current, lead) => (STATUS_RANK[lead.status] > STATUS_RANK[current] ? lead.status : current),
+    survivor.status
+  );
+  if (status !== survivor.status) updates.status = status;
+
+  if (survivor.sms_consent !== 'revoked') {
+    const consent = duplicates.some(lead => lead.sms_consent === 'revoked')
+      ? 'revoked'
+      : survivor.sms_consent || duplicates.find(lead => lead.sms_consent)?.sms_consent;
+    if (consent && consent !== survivor.sms_consent) updates.sms_consent = consent;
+  }
+
+  if (updates.email) updates.email_key = emailKey(updates.email);
+  if (updates.phone) updates.phone_key = phoneKey(updates.phone);
+
+  return updates;
+}
+
+export class LeadMergeService {
+  constructor(private db: DatabaseService) {}
+
+  async findDuplicates(userId: string): Promise<LeadDuplicateGroup[]> {
+    const keys = await this.db.getDuplicateIdentityKeys(userId);
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const [leads, dismissed] = await Promise.all([
+      this.db.getLeadsByIdentityKeys(
+        userId,
+        keys.filter(key => key.kind === 'email').map(key => key.value),
+        keys.filter(key => key.kind === 'phone').map(key => key.value)
+      ),
+      this.db.getLeadDuplicateDismissals(userId)
+    ]);
+
+    return groupDuplicates(leads, new Set(dismissed));
+  }
+
+  /**
+   * Keep a group apart; it is shown again if another lead joins it
+   */
+  async dismiss(userId: string, leadIds: string[]): Promise<void> {
+    await this.getOwnedLeads(userId, leadIds);
+    await this.db.createLeadDuplicateDismissal(userId, duplicateGroupKey(leadIds));
+  }
+
+  /**
+   * Merge the duplicates into the survivor. Their journeys move over, except
+   * on drip campaigns the survivor is already on, where they are stopped so
+   * the person isn't sent the sequence twice.
+   */
+  async merge(userId: string, survivorId: string, duplicateIds: string[]): Promise<Lead> {
+    if (duplicateIds.includes(survivorId)) {
+      throw new LeadMergeError('A lead cannot be merged into itself');
+    }
+
+    const [survivor, ...duplicates] = await this.getOwnedLeads(userId, [survivorId, ...duplicateIds]);
+    duplicates.sort((a, b) => a.captured_at - b.captured_at);
+
+    const mergedAt = Date.now();
+    const onCampaign = new Set((await this.db.getJourneysByLead(survivor.id)).map(journey => journey.campaign_id));
+    const moveJourneyIds: string[] = [];
+    const stopJourneys: LeadJourney[] = [];
+
+    for (const duplicate of duplicates) {
+      for (const journey of await this.db.getJourneysByLead(duplicate.id)) {
+        if (!onCampaign.has(journey.campaign_id)) {
+          onCampaign.add(journey.campaign_id);
+          moveJourneyIds.push(journey.id);
+        } else if (journey.status === 'active' || journey.status === 'paused') {
+          stopJourneys.push(journey);
+        }
+      }
+    }
+
+    const survivorUpdates = mergeLeadFields(survivor, duplicates);
+    if (survivorUpdates.sms_consent) {
+      survivorUpdates.sms_consent_updated_at = mergedAt;
+    }
+
+    await this.db.mergeLeads({
+      survivorId: survivor.id,
+      survivorUpdates,
+      duplicateIds: duplicates.map(lead => lead.id),
+      moveJourneyIds,
+      stopJourneys,
+      reason: 'Merged with a duplicate lead',
+      mergedAt
+    });
+
+    return { ...survivor, ...survivorUpdates };
+  }
+
+  // The leads in the order asked for, all owned by the user and not yet merged
+  private async getOwnedLeads(userId: string, leadIds: string[]): Promise<Lead[]> {
+    if (new Set(leadIds).size !== leadIds.length) {
+      throw new LeadMergeError('Each lead can only be listed once');
+    }
+    if (leadIds.length < 2) {
+      throw new LeadMergeError('Choose at least two leads');
+    }
+
+    const owners = new Map<string, string | undefined>();
+    const leads: Lead[] = [];
+
+    for (const id of leadIds) {
+      const lead = await this.db.getLeadById(id);
+      if (lead && !owners.has(lead.campaign_id)) {
+        owners.set(lead.campaign_id, (await this.db.getCampaignById(lead.campaign_id))?.user_id);
+      }
+      if (!lead || owners.get(lead.campaign_id) !== userId) {
+        throw new LeadMergeError('Lead not found');
+      }
+      if (lead.merged_into) {
+        throw new LeadMergeError('One of these leads has already been merged');
+      }
+      leads.push(lead);
+    }
+
+    return leads;
+  }
+}
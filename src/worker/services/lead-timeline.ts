@@ -0,0 +1,242 @@
+// Lead timeline - capture, messages, replies, journeys and status changes for one lead, oldest first
+
+import {
+  EmailMessage,
+  InboundMessage,
+  Lead,
+  LeadJourney,
+  LeadStatusChange,
+  SkippedStep,
+  SMSMessage
+} from '../types/database';
+import { LeadTimelineEvent } from '../types/api';
+import { DatabaseService } from './database';
+
+type Transition = NonNullable<LeadTimelineEvent['transitions']>[number];
+type JourneyRow = LeadJourney & { drip_campaign_name: string };
+
+const JOURNEY_STATUS_VERBS: Record<LeadJourney['status'], string> = {
+  active: 'resumed',
+  paused: 'paused',
+  completed: 'completed',
+  failed: 'failed'
+};
+
+export class LeadTimelineService {
+  constructor(private db: DatabaseService) {}
+
+  async build(lead: Lead, campaignName: string): Promise<LeadTimelineEvent[]> {
+    const [sms, emails, replies, journeys, changes] = await Promise.all([
+      this.db.getSMSMessagesByLead(lead.id),
+      this.db.getEmailMessagesByLead(lead.id),
+      this.db.getInboundMessagesByLead(lead.id),
+      this.db.getJourneysByLead(lead.id),
+      this.db.getLeadStatusChanges(lead.id)
+    ]);
+
+    const events = [
+      capturedEvent(lead, campaignName),
+      ...sms.map(smsEvent),
+      ...emails.map(emailEvent),
+      ...replies.map(replyEvent),
+      ...journeys.flatMap(journey => journeyEvents(journey, changes)),
+      ...statusChangeEvents(lead, changes, journeys)
+    ];
+
+    // Array.prototype.sort is stable, so same-time events keep the order above
+    return events.sort((a, b) => a.at - b.at);
+  }
+}
+
+function capturedEvent(lead: Lead, campaignName: string): LeadTimelineEvent {
+  return {
+    id: `captured:${lead.id}`,
+    type: 'captured',
+    at: lead.captured_at,
+    title: `Captured from ${campaignName}`,
+    detail: lead.meta_lead_id ? 'Meta lead form' : 'Added manually',
+    fields: parseAnswers(lead)
+  };
+}
+
+// Form answers as display strings; unreadable JSON is left out
+function parseAnswers(lead: Lead): Record<string, string> | undefined {
+  if (!lead.custom_fields) {
+    return undefined;
+  }
+
+  try {
+    const answers: Record<string, unknown> = JSON.parse(lead.custom_fields);
+    const fields: Record<string, string> = {};
+    for (const [name, value] of Object.entries(answers)) {
+      if (value !== null && value !== undefined && value !== '') {
+        fields[name] = typeof value === 'string' ? value : JSON.stringify(value);
+      }
+    }
+    return Object.keys(fields).length > 0 ? fields : undefined;
+  } catch {
+    console.warn(`Lead ${lead.id} has invalid custom_fields JSON`);
+    return undefined;
+  }
+}
+
+function smsEvent(message: SMSMessage & { step_number?: number }): LeadTimelineEvent {
+  const transitions: Transition[] = [
+    { status: 'scheduled', at: message.scheduled_at },
+    ...(message.sent_at ? [{ status: 'sent', at: message.sent_at }] : []),
+    ...(message.delivered_at ? [{ status: 'delivered', at: message.delivered_at }] : [])
+  ];
+
+  if (message.status === 'failed' || message.status === 'dead_letter' || message.status === 'suppressed') {
+    const error = message.error_code ? `${message.error_message || 'Error'} (${message.error_code})` : message.error_message;
+    transitions.push({ status: message.status, at: message.updated_at, detail: error });
+  }
+
+  return {
+    id: `sms:${message.id}`,
+    type: 'sms',
+    at: message.sent_at || message.scheduled_at,
+    title: message.step_number ? `Step ${message.step_number} SMS` : 'SMS',
+    detail: message.content,
+    status: message.status,
+    transitions: byTime(transitions)
+  };
+}
+
+function emailEvent(message: EmailMessage & { step_number?: number }): LeadTimelineEvent {
+  const transitions: Transition[] = [{ status: 'scheduled', at: message.scheduled_at }];
+  const reached: [string, number | undefined][] = [
+    ['sent', message.sent_at],
+    ['delivered', message.delivered_at],
+    ['opened', message.opened_at],
+    ['clicked', message.clicked_at]
+  ];
+  for (const [status, at] of reached) {
+    if (at) {
+      transitions.push({ status, at });
+    }
+  }
+
+  if (['bounced', 'failed', 'dead_letter', 'suppressed'].includes(message.status)) {
+    transitions.push({ status: message.status, at: message.updated_at, detail: message.error_message });
+  }
+
+  return {
+    id: `email:${message.id}`,
+    type: 'email',
+    at: message.sent_at || message.scheduled_at,
+    title: `${message.step_number ? `Step ${message.step_number} email` : 'Email'}: ${message.subject}`,
+    detail: `To ${message.to_email}`,
+    status: message.status,
+    transitions: byTime(transitions)
+  };
+}
+
+function replyEvent(message: InboundMessage): LeadTimelineEvent {
+  return {
+    id: `reply:${message.id}`,
+    type: 'reply',
+    at: message.received_at,
+    title: message.keyword ? `Replied ${message.keyword.toUpperCase()}` : 'Replied by SMS',
+    detail: message.body
+  };
+}
+
+function journeyEvents(journey: JourneyRow, changes: LeadStatusChange[]): LeadTimelineEvent[] {
+  const name = `"${journey.drip_campaign_name}"`;
+  const events: LeadTimelineEvent[] = [{
+    id: `journey:${journey.id}:started`,
+    type: 'journey',
+    at: journey.started_at,
+    title: `Started drip campaign ${name}`,
+    detail: `Currently on step ${journey.current_step}`,
+    status: journey.status
+  }];
+
+  let skipped: SkippedStep[] = [];
+  try {
+    skipped = journey.skipped_steps ? JSON.parse(journey.skipped_steps) : [];
+  } catch {
+    console.warn(`Journey ${journey.id} has invalid skipped_steps JSON`);
+  }
+  for (const step of skipped) {
+    events.push({
+      id: `journey:${journey.id}:step:${step.step_number}:${step.at}`,
+      type: 'journey',
+      at: step.at,
+      title: `Step ${step.step_number} ${step.channel} ${step.action}`,
+      detail: step.reason
+    });
+  }
+
+  // Journeys that finished before status history was kept
+  const recorded = changes.some(change => change.journey_id === journey.id && change.to_value === 'completed');
+  if (journey.completed_at && !recorded) {
+    events.push({
+      id: `journey:${journey.id}:completed`,
+      type: 'journey',
+      at: journey.completed_at,
+      title: `Drip campaign ${name} completed`
+    });
+  }
+
+  if (journey.converted_at) {
+    events.push({
+      id: `journey:${journey.id}:converted`,
+      type: 'journey',
+      at: journey.converted_at,
+      title: `Converted in drip campaign ${name}`,
+      detail: journey.conversion_event
+    });
+  }
+
+  return events;
+}
+
+function statusChangeEvents(lead: Lead, changes: LeadStatusChange[], journeys: JourneyRow[]): LeadTimelineEvent[] {
+  const events = changes.map((change): LeadTimelineEvent => {
+    const base = { id: `change:${change.id}`, at: change.changed_at, detail: change.reason };
+
+    if (change.field === 'journey_status') {
+      const journey = journeys.find(j => j.id === change.journey_id);
+      const verb = JOURNEY_STATUS_VERBS[change.to_value as LeadJourney['status']] || change.to_value;
+      return {
+        ...base,
+        type: 'journey',
+        title: `Drip campaign "${journey?.drip_campaign_name || 'Unknown'}" ${verb}`,
+        status: change.to_value
+      };
+    }
+
+    if (change.field === 'sms_consent') {
+      return { ...base, type: 'status_change', title: `SMS consent ${change.to_value}`, status: change.to_value };
+    }
+
+    return {
+      ...base,
+      type: 'status_change',
+      title: change.from_value
+        ? `Status changed from ${change.from_value} to ${change.to_value}`
+        : `Status changed to ${change.to_value}`,
+      status: change.to_value
+    };
+  });
+
+  // Consent changed before status history was kept
+  const consentRecorded = changes.some(change => change.field === 'sms_consent');
+  if (lead.sms_consent_updated_at && lead.sms_consent && !consentRecorded) {
+    events.push({
+      id: `consent:${lead.id}`,
+      type: 'status_change',
+      at: lead.sms_consent_updated_at,
+      title: `SMS consent ${lead.sms_consent}`,
+      status: lead.sms_consent
+    });
+  }
+
+  return events;
+}
+
+function byTime(transitions: Transition[]): Transition[] {
+  return transitions.sort((a, b) => a.at - b.at);
+}
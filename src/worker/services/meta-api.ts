@@ -1,5 +1,17 @@
 // Meta Marketing API service for campaign and creative management
 
+import { AdCreative } from '../types/database';
+
+// Placements we render previews for
+export const PREVIEW_FORMATS = [
+  'DESKTOP_FEED_STANDARD',
+  'MOBILE_FEED_STANDARD',
+  'INSTAGRAM_STANDARD',
+  'INSTAGRAM_STORY'
+] as const;
+
+export type PreviewFormat = typeof PREVIEW_FORMATS[number];
+
 export interface MetaCampaignData {
   name: string;
   objective: string;
@@ -23,6 +35,30 @@ export interface MetaAdData {
   status: 'PAUSED' | 'ACTIVE';
 }
 
+export interface MetaLeadFieldData {
+  name: string;
+  values: string[];
+}
+
+export interface MetaLeadData {
+  id: string;
+  created_time: string;
+  ad_id?: string;
+  adset_id?: string;
+  campaign_id?: string;
+  form_id?: string;
+  field_data: MetaLeadFieldData[];
+}
+
+export interface MappedLeadFields {
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  custom_fields: Record<string, string>;
+}
+
 export interface MetaPreview {
   body: string;
   link_url?: string;
@@ -71,11 +107,13 @@ export class MetaAPIService {
     campaignId: string,
     name: string,
     dailyBudget: number,
-    targeting: any
+    targeting: any,
+    pageId?: string,
+    status: 'PAUSED' | 'ACTIVE' = 'PAUSED'
   ): Promise<{ id: string; name: string }> {
     const endpoint = `${this.BASE_URL}/${this.adAccountId}/adsets`;
     
-    const body = {
+    const body: Record<string, string | number> = {
       name,
       campaign_id: campaignId,
       daily_budget: dailyBudget,
@@ -83,10 +121,15 @@ export class MetaAPIService {
       optimization_goal: 'LEAD_GENERATION',
       bid_strategy: 'LOWEST_COST_WITHOUT_CAP',
       targeting: JSON.stringify(targeting),
-      status: 'PAUSED',
+      status,
       access_token: this.accessToken
     };
 
+    // Lead generation ad sets must promote the page that owns the lead form
+    if (pageId) {
+      body.promoted_object = JSON.stringify({ page_id: pageId });
+    }
+
     const response = await this.makeRequest(endpoint, 'POST', body);
     
     if (!response.ok) {
@@ -204,6 +247,55 @@ export class MetaAPIService {
     return result.data || [];
   }
 
+  /**
+   * Generate ad previews for a creative spec that hasn't been uploaded yet
+   */
+  async generatePreviewsFromSpec(
+    objectStorySpec: Record<string, unknown>,
+    adFormat: string = 'DESKTOP_FEED_STANDARD'
+  ): Promise<MetaPreview[]> {
+    const endpoint = `${this.BASE_URL}/${this.adAccountId}/generatepreviews`;
+    
+    const params = new URLSearchParams({
+      creative: JSON.stringify({ object_story_spec: objectStorySpec }),
+      ad_format: adFormat,
+      access_token: this.accessToken
+    });
+
+    const response = await this.makeRequest(`${endpoint}?${params}`, 'GET');
+    
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Meta Preview generation failed: ${error}`);
+    }
+    
+    const result = await response.json() as { data?: MetaPreview[] };
+    return result.data || [];
+  }
+
+  /**
+   * Build the link_data part of an object story spec from a stored creative
+   */
+  buildLinkData(
+    creative: Pick<AdCreative, 'primary_text' | 'headline' | 'description' | 'image_url' | 'call_to_action'>,
+    options: { link?: string; imageHash?: string; leadFormId?: string } = {}
+  ): Record<string, unknown> {
+    return {
+      message: creative.primary_text,
+      name: creative.headline,
+      description: creative.description,
+      link: options.link || 'http://fb.me/',
+      // Uploaded creatives reference the hash; previews can use the raw URL
+      ...(options.imageHash
+        ? { image_hash: options.imageHash }
+        : creative.image_url && { picture: creative.image_url }),
+      call_to_action: {
+        type: creative.call_to_action,
+        ...(options.leadFormId && { value: { lead_gen_form_id: options.leadFormId } })
+      }
+    };
+  }
+
   /**
    * Get campaign performance
    */
@@ -259,6 +351,116 @@ export class MetaAPIService {
     return response.ok;
   }
 
+  /**
+   * Fetch a lead gen submission by its leadgen ID
+   */
+  async getLead(leadgenId: string): Promise<MetaLeadData> {
+    const endpoint = `${this.BASE_URL}/${leadgenId}`;
+    
+    const params = new URLSearchParams({
+      fields: 'id,created_time,ad_id,adset_id,campaign_id,form_id,field_data',
+      access_token: this.accessToken
+    });
+
+    const response = await this.makeRequest(`${endpoint}?${params}`, 'GET');
+    
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Meta Lead fetch failed: ${error}`);
+    }
+    
+    const result = await response.json() as MetaLeadData;
+    return { ...result, field_data: result.field_data || [] };
+  }
+
+  /**
+   * Map lead form field_data onto our lead columns; anything that
+   * isn't a standard contact field is kept as a custom answer
+   */
+  mapLeadFields(fieldData: MetaLeadFieldData[]): MappedLeadFields {
+    const mapped: MappedLeadFields = { custom_fields: {} };
+
+    for (const field of fieldData) {
+      const value = (field.values || []).join(', ').trim();
+      if (!value) continue;
+
+      switch (field.name.toLowerCase()) {
+        case 'full_name': {
+          const [first, ...rest] = value.split(/\s+/);
+          mapped.first_name = mapped.first_name || first;
+          mapped.last_name = mapped.last_name || (rest.length > 0 ? rest.join(' ') : undefined);
+          break;
+        }
+        case 'first_name':
+          mapped.first_name = value;
+          break;
+        case 'last_name':
+          mapped.last_name = value;
+          break;
+        case 'email':
+        case 'work_email':
+          mapped.email = mapped.email || value.toLowerCase();
+          break;
+        case 'phone_number':
+        case 'phone':
+        case 'work_phone_number':
+          mapped.phone = mapped.phone || value;
+          break;
+        case 'company_name':
+        case 'company':
+          mapped.company = value;
+          break;
+        default:
+          mapped.custom_fields[field.name] = value;
+      }
+    }
+
+    return mapped;
+  }
+
+  /**
+   * Delete a Meta object (ad, ad set or creative) by ID
+   */
+  async deleteObject(objectId: string): Promise<boolean> {
+    const endpoint = `${this.BASE_URL}/${objectId}`;
+    
+    const params = new URLSearchParams({
+      access_token: this.accessToken
+    });
+
+    const response = await this.makeRequest(`${endpoint}?${params}`, 'DELETE');
+    return response.ok;
+  }
+
+  /**
+   * Delete an uploaded image from the ad account's image library
+   */
+  async deleteImage(imageHash: string): Promise<boolean> {
+    const endpoint = `${this.BASE_URL}/${this.adAccountId}/adimages`;
+    
+    const params = new URLSearchParams({
+      hash: imageHash,
+      access_token: this.accessToken
+    });
+
+    const response = await this.makeRequest(`${endpoint}?${params}`, 'DELETE');
+    return response.ok;
+  }
+
+  /**
+   * Map our campaign objectives onto Meta's outcome-based objectives
+   */
+  mapObjective(objective: string): string {
+    const objectives: Record<string, string> = {
+      'LEAD_GENERATION': 'OUTCOME_LEADS',
+      'CONVERSIONS': 'OUTCOME_SALES',
+      'TRAFFIC': 'OUTCOME_TRAFFIC',
+      'AWARENESS': 'OUTCOME_AWARENESS'
+    };
+
+    return objectives[objective] || objective;
+  }
+
   /**
    * Build Meta targeting object
    */
@@ -0,0 +1,194 @@
+// Meta OAuth - Facebook Login for connecting a user's ad accounts and pages
+
+import { Env } from '../types/env';
+
+// Permissions needed to run ads and receive lead form submissions
+export const META_OAUTH_SCOPES = [
+  'ads_management',
+  'ads_read',
+  'business_management',
+  'leads_retrieval',
+  'pages_show_list',
+  'pages_read_engagement',
+  'pages_manage_metadata',
+  'pages_manage_ads'
+];
+
+// Tokens this close to expiring are refreshed, and the user asked to reconnect
+export const META_RECONNECT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface MetaToken {
+  accessToken: string;
+  expiresAt?: number; // ms; unset for tokens that don't expire
+}
+
+export interface MetaTokenInfo {
+  valid: boolean;
+  expiresAt?: number;
+  scopes: string[];
+}
+
+export interface MetaAdAccount {
+  id: string; // act_...
+  name: string;
+  accountStatus: number; // 1 = active
+  currency?: string;
+}
+
+export interface MetaPage {
+  id: string;
+  name: string;
+  accessToken: string;
+  tasks: string[];
+}
+
+export class MetaOAuthService {
+  private readonly BASE_URL = 'https://graph.facebook.com/v20.0';
+  private readonly DIALOG_URL = 'https://www.facebook.com/v20.0/dialog/oauth';
+
+  constructor(private env: Env) {}
+
+  /**
+   * Facebook Login dialog URL; `state` comes back on the callback
+   */
+  getAuthorizationUrl(state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      client_id: this.env.META_APP_ID || '',
+      redirect_uri: redirectUri,
+      state,
+      response_type: 'code',
+      scope: META_OAUTH_SCOPES.join(',')
+    });
+
+    return `${this.DIALOG_URL}?${params}`;
+  }
+
+  /**
+   * Exchange the callback code for a short-lived user token
+   */
+  async exchangeCode(code: string, redirectUri: string): Promise<MetaToken> {
+    return this.requestToken({
+      client_id: this.env.META_APP_ID || '',
+      client_secret: this.env.META_APP_SECRET || '',
+      redirect_uri: redirectUri,
+      code
+    });
+  }
+
+  /**
+   * Exchange a user token for a long-lived (~60 day) one. Exchanging a
+   * long-lived token that is still valid extends it.
+   */
+  async exchangeForLongLivedToken(accessToken: string): Promise<MetaToken> {
+    return this.requestToken({
+      grant_type: 'fb_exchange_token',
+      client_id: this.env.META_APP_ID || '',
+      client_secret: this.env.META_APP_SECRET || '',
+      fb_exchange_token: accessToken
+    });
+  }
+
+  /**
+   * Validity, expiry and granted scopes of a user token
+   */
+  async inspectToken(accessToken: string): Promise<MetaTokenInfo> {
+    const result = await this.graphGet<{
+      data: { is_valid: boolean; expires_at?: number; scopes?: string[] };
+    }>('debug_token', {
+      input_token: accessToken,
+      access_token: `${this.env.META_APP_ID}|${this.env.META_APP_SECRET}`
+    });
+
+    return {
+      valid: result.data.is_valid,
+      expiresAt: result.data.expires_at ? result.data.expires_at * 1000 : undefined,
+      scopes: result.data.scopes || []
+    };
+  }
+
+  async getAdAccounts(accessToken: string): Promise<MetaAdAccount[]> {
+    const result = await this.graphGet<{
+      data: Array<{ id: string; name: string; account_status: number; currency?: string }>;
+    }>('me/adaccounts', {
+      fields: 'id,name,account_status,currency',
+      limit: '100',
+      access_token: accessToken
+    });
+
+    return result.data.map(account => ({
+      id: account.id,
+      name: account.name,
+      accountStatus: account.account_status,
+      currency: account.currency
+    }));
+  }
+
+  /**
+   * Pages the user manages, each with its own page access token
+   */
+  async getPages(accessToken: string): Promise<MetaPage[]> {
+    const result = await this.graphGet<{
+      data: Array<{ id: string; name: string; access_token: string; tasks?: string[] }>;
+    }>('me/accounts', {
+      fields: 'id,name,access_token,tasks',
+      limit: '100',
+      access_token: accessToken
+    });
+
+    return result.data.map(page => ({
+      id: page.id,
+      name: page.name,
+      accessToken: page.access_token,
+      tasks: page.tasks || []
+    }));
+  }
+
+  /**
+   * Subscribe our app to the page's leadgen webhook so new lead form
+   * submissions reach /api/webhooks/meta
+   */
+  async subscribePageToLeadgen(pageId: string, pageAccessToken: string): Promise<void> {
+    const params = new URLSearchParams({
+      subscribed_fields: 'leadgen',
+      access_token: pageAccessToken
+    });
+
+    const response = await fetch(`${this.BASE_URL}/${pageId}/subscribed_apps`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: params.toString()
+    });
+
+    const result = await response.json() as { success?: boolean; error?: { message: string } };
+    if (!response.ok || !result.success) {
+      throw new Error(`Meta page subscription failed: ${result.error?.message || response.status}`);
+    }
+  }
+
+  /**
+   * Check if the platform Meta app is configured for OAuth
+   */
+  isConfigured(): boolean {
+    return !!(this.env.META_APP_ID && this.env.META_APP_SECRET);
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<MetaToken> {
+    const result = await this.graphGet<{ access_token: string; expires_in?: number }>('oauth/access_token', params);
+
+    return {
+      accessToken: result.access_token,
+      expiresAt: result.expires_in ? Date.now() + result.expires_in * 1000 : undefined
+    };
+  }
+
+  private async graphGet<T>(path: string, params: Record<string, string>): Promise<T> {
+    const response = await fetch(`${this.BASE_URL}/${path}?${new URLSearchParams(params)}`);
+    const result = await response.json() as T & { error?: { message: string } };
+
+    if (!response.ok || result.error) {
+      throw new Error(`Meta API error: ${result.error?.message || response.status}`);
+    }
+
+    return result;
+  }
+}
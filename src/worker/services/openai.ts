@@ -231,6 +231,34 @@ export class OpenAIService {
     return costs[quality] * count;
   }
 
+  /**
+   * Validate the API key by listing models
+   */
+  async validateCredentials(): Promise<{ valid: boolean; error?: string }> {
+    if (!this.isConfigured()) {
+      return { valid: false, error: 'OpenAI API key not configured' };
+    }
+
+    try {
+      const response = await fetch(`${this.BASE_URL}/models`, {
+        headers: {
+          'Authorization': `Bearer ${this.env.OPENAI_API_KEY}`
+        }
+      });
+
+      if (!response.ok) {
+        return { valid: false, error: `OpenAI API error: ${response.status}` };
+      }
+
+      return { valid: true };
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Check if OpenAI API key is configured
    */
@@ -1,6 +1,7 @@
 // SendGrid Email service for drip campaign automation
 
 import { Env } from '../types/env';
+import { SendError } from './delivery-retry';
 
 export interface SendGridEmailData {
   to: string;
@@ -12,6 +13,7 @@ export interface SendGridEmailData {
   leadId?: string;
   dripStepId?: string;
   journeyId?: string;
+  transactional?: boolean; // Account email: no tracking or unsubscribe group
   from?: {
     email: string;
     name?: string;
@@ -43,6 +45,10 @@ export interface SendGridWebhookEvent {
   response?: string;
   attempt?: string;
   type?: string;
+  // custom_args set on send (see buildEmailPayload)
+  lead_id?: string;
+  drip_step_id?: string;
+  journey_id?: string;
 }
 
 export class SendGridService {
@@ -60,7 +66,7 @@ export class SendGridService {
 
     // Validate email address
     if (!this.validateEmail(emailData.to)) {
-      throw new Error(`Invalid email address: ${emailData.to}`);
+      throw new SendError(`Invalid email address: ${emailData.to}`, false);
     }
 
     const payload = this.buildEmailPayload(emailData);
@@ -159,11 +165,17 @@ export class SendGridService {
           name: emailData.name || emailData.to 
         }]
       }],
-      tracking_settings: {
-        click_tracking: { enable: true, enable_text: false },
-        open_tracking: { enable: true, substitution_tag: '%open_track%' },
-        subscription_tracking: { enable: true }
-      }
+      tracking_settings: emailData.transactional
+        ? {
+          click_tracking: { enable: false, enable_text: false },
+          open_tracking: { enable: false },
+          subscription_tracking: { enable: false }
+        }
+        : {
+          click_tracking: { enable: true, enable_text: false },
+          open_tracking: { enable: true, substitution_tag: '%open_track%' },
+          subscription_tracking: { enable: true }
+        }
     };
 
     // Add custom arguments for tracking
@@ -192,7 +204,7 @@ export class SendGridService {
     }
 
     // Add unsubscribe group if configured
-    if (this.env.SENDGRID_UNSUBSCRIBE_GROUP_ID) {
+    if (this.env.SENDGRID_UNSUBSCRIBE_GROUP_ID && !emailData.transactional) {
       payload.asm = {
         group_id: parseInt(this.env.SENDGRID_UNSUBSCRIBE_GROUP_ID)
       };
@@ -224,6 +236,37 @@ export class SendGridService {
     }));
   }
 
+  /**
+   * Verify a signed event webhook request. SendGrid signs timestamp + raw body
+   * with ECDSA P-256/SHA-256; the signature header is base64 DER and the
+   * verification key is the base64 SPKI public key from the webhook settings.
+   */
+  async verifyWebhookSignature(rawBody: string, signature: string, timestamp: string): Promise<boolean> {
+    if (!this.env.SENDGRID_WEBHOOK_PUBLIC_KEY || !signature || !timestamp) {
+      return false;
+    }
+
+    try {
+      const publicKey = await crypto.subtle.importKey(
+        'spki',
+        base64ToBytes(this.env.SENDGRID_WEBHOOK_PUBLIC_KEY),
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['verify']
+      );
+
+      return await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        publicKey,
+        derToRawSignature(base64ToBytes(signature)),
+        new TextEncoder().encode(timestamp + rawBody)
+      );
+    } catch (error) {
+      console.error('SendGrid signature verification error:', error);
+      return false;
+    }
+  }
+
   /**
    * Validate email address format
    */
@@ -433,4 +476,33 @@ export class SendGridService {
       isFullyConfigured: this.isConfigured()
     };
   }
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  return Uint8Array.from(atob(value.trim()), char => char.charCodeAt(0));
+}
+
+/**
+ * WebCrypto expects ECDSA signatures as raw r||s; SendGrid sends ASN.1 DER
+ * SEQUENCE { INTEGER r, INTEGER s }
+ */
+function derToRawSignature(der: Uint8Array): Uint8Array {
+  const raw = new Uint8Array(64);
+  let offset = 2; // SEQUENCE tag + length (signatures are always < 128 bytes)
+
+  for (const position of [0, 32]) {
+    if (der[offset] !== 0x02) {
+      throw new Error('Invalid DER signature');
+    }
+    const length = der[offset + 1];
+    let integer = der.subarray(offset + 2, offset + 2 + length);
+    // Drop the sign-padding zero, left-pad short integers
+    while (integer.length > 32 && integer[0] === 0) {
+      integer = integer.subarray(1);
+    }
+    raw.set(integer, position + 32 - integer.length);
+    offset += 2 + length;
+  }
+
+  return raw;
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+// Suppression list - phone numbers and email addresses a user must never message
+
+import { Lead, Suppression } from '../types/database';
+import { DatabaseService } from './database';
+import { generateId } from '../utils/crypto';
+import { emailKey, phoneKey } from '../utils/lead-identity';
+
+type Channel = Suppression['channel'];
+type Source = Suppression['source'];
+
+/**
+ * Canonical form an address is stored and looked up in: the lead's
+ * email_key or phone_key
+ */
+export function normalizeAddress(channel: Channel, address: string): string {
+  return (channel === 'email' ? emailKey(address) : phoneKey(address)) ?? '';
+}
+
+export class SuppressionService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * Add an address to a user's suppression list. An address that is already
+   * listed keeps its original reason and source.
+   */
+  async suppress(
+    userId: string,
+    channel: Channel,
+    address: string,
+    source: Source,
+    reason?: string,
+    leadId?: string
+  ): Promise<Suppression> {
+    const normalized = normalizeAddress(channel, address);
+
+    await this.db.createSuppression({
+      id: await generateId(),
+      user_id: userId,
+      channel,
+      address: normalized,
+      reason,
+      source,
+      lead_id: leadId,
+      created_at: Date.now()
+    });
+
+    return (await this.db.getSuppression(userId, channel, normalized))!;
+  }
+
+  /**
+   * Lift a user's suppression of an address that came from the given source,
+   * leaving entries added for other reasons (e.g. manual) in place
+   */
+  async unsuppress(userId: string, channel: Channel, address: string, source: Source): Promise<void> {
+    await this.db.deleteSuppressionsByAddress(userId, channel, normalizeAddress(channel, address), source);
+  }
+
+  /**
+   * Suppress a lead's address, or the address a message went to, for the
+   * user who owns the lead's campaign
+   */
+  async suppressLead(
+    lead: Lead,
+    channel: Channel,
+    source: Source,
+    reason?: string,
+    address = channel === 'sms' ? lead.phone : lead.email
+  ): Promise<void> {
+    const userId = await this.getOwnerId(lead);
+    if (!address || !userId) {
+      return;
+    }
+
+    await this.suppress(userId, channel, address, source, reason, lead.id);
+  }
+
+  /**
+   * Lift a suppression of the lead's address that came from the given source
+   */
+  async unsuppressLead(lead: Lead, channel: Channel, source: Source): Promise<void> {
+    const address = channel === 'sms' ? lead.phone : lead.email;
+    const userId = await this.getOwnerId(lead);
+    if (!address || !userId) {
+      return;
+    }
+
+    await this.unsuppress(userId, channel, address, source);
+  }
+
+  /**
+   * Why a lead must not be messaged on a channel, or null if it may be.
+   * `address` defaults to the lead's own phone/email; pass the message's
+   * recipient when checking an already queued message.
+   */
+  async getSuppressionReason(lead: Lead, channel: Channel, address?: string): Promise<string | null> {
+    if (lead.status === 'unsubscribed') {
+      return 'Lead unsubscribed';
+    }
+
+    if (channel === 'sms' && lead.sms_consent === 'revoked') {
+      return 'Lead opted out of SMS';
+    }
+
+    const recipient = address ?? (channel === 'sms' ? lead.phone : lead.email);
+    const userId = await this.getOwnerId(lead);
+    if (!recipient || !userId) {
+      return null;
+    }
+
+    const suppression = await this.db.getSuppression(userId, channel, normalizeAddress(channel, recipient));
+    if (!suppression) {
+      return null;
+    }
+
+    return `${suppression.address} is on the suppression list (${suppression.source})`;
+  }
+
+  private async getOwnerId(lead: Lead): Promise<string | undefined> {
+    const campaign = await this.db.getCampaignById(lead.campaign_id);
+    return campaign?.user_id;
+  }
+}
@@ -1,6 +1,7 @@
 // Twilio SMS service for drip campaign automation
 
 import { Env } from '../types/env';
+import { SendError, classifyTwilioError } from './delivery-retry';
 
 export interface TwilioSMSData {
   to: string;
@@ -59,12 +60,12 @@ export class TwilioService {
 
     // Validate phone number format
     if (!this.validatePhoneNumber(smsData.to)) {
-      throw new Error(`Invalid phone number format: ${smsData.to}`);
+      throw new SendError(`Invalid phone number format: ${smsData.to}`, false);
     }
 
     // Validate message length (1600 character limit)
     if (smsData.body.length > 1600) {
-      throw new Error(`SMS body too long: ${smsData.body.length} characters (max 1600)`);
+      throw new SendError(`SMS body too long: ${smsData.body.length} characters (max 1600)`, false);
     }
 
     const endpoint = `${this.BASE_URL}/Accounts/${this.env.TWILIO_ACCOUNT_SID}/Messages.json`;
@@ -99,7 +100,19 @@ export class TwilioService {
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Twilio API error: ${response.status} - ${error}`);
+      let code: number | undefined;
+      try {
+        code = (JSON.parse(error) as { code?: number }).code;
+      } catch {
+        // Non-JSON error body (e.g. gateway errors)
+      }
+
+      throw new SendError(
+        `Twilio API error: ${response.status} - ${error}`,
+        classifyTwilioError(response.status, code),
+        response.status,
+        code?.toString()
+      );
     }
 
     const result = await response.json() as TwilioResponse;
@@ -168,6 +181,42 @@ export class TwilioService {
     };
   }
 
+  /**
+   * Verify the X-Twilio-Signature header: base64 HMAC-SHA1 of the full callback
+   * URL followed by each POST parameter name and value, sorted by name
+   */
+  async validateWebhookSignature(url: string, params: Record<string, string>, signature: string): Promise<boolean> {
+    if (!this.env.TWILIO_AUTH_TOKEN || !signature) {
+      return false;
+    }
+
+    const data = url + Object.keys(params)
+      .sort()
+      .map(key => key + params[key])
+      .join('');
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(this.env.TWILIO_AUTH_TOKEN),
+      { name: 'HMAC', hash: 'SHA-1' },
+      false,
+      ['sign']
+    );
+    const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+    const expected = btoa(String.fromCharCode(...new Uint8Array(digest)));
+
+    // Constant-time comparison
+    if (expected.length !== signature.length) {
+      return false;
+    }
+    let mismatch = 0;
+    for (let i = 0; i < expected.length; i++) {
+      mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+    }
+    return mismatch === 0;
+  }
+
   /**
    * Validate phone number in E.164 format
    */
@@ -22,6 +22,7 @@ export interface AuthResponse {
     company?: string;
     subscriptionTier: string;
     onboardingCompleted: boolean;
+    emailVerified: boolean;
   };
   error?: string;
 }
@@ -40,11 +41,23 @@ export interface ApiResponse<T = unknown> {
     page?: number;
     limit?: number;
     total?: number;
+    nextCursor?: string; // Cursor-paginated lists; absent on the last page
     workersAICost?: number;
     openAICost?: number;
   };
 }
 
+export interface LeadTimelineEvent {
+  id: string; // Unique within the timeline, e.g. sms:<message id>
+  type: 'captured' | 'sms' | 'email' | 'reply' | 'journey' | 'status_change';
+  at: number;
+  title: string;
+  detail?: string;
+  status?: string; // Current status of a message or journey
+  transitions?: { status: string; at: number; detail?: string }[]; // Message delivery history, oldest first
+  fields?: Record<string, string>; // Form answers on the captured event
+}
+
 export interface CreateCampaignRequest {
   name: string;
   objective: string;
@@ -71,9 +84,17 @@ export interface GenerateCreativeRequest {
   regenerate?: boolean;
 }
 
+export interface CreativePreview {
+  format: string;
+  previewUrl?: string; // src of Meta's preview iframe
+  body: string; // raw iframe HTML from Meta
+  cachedAt: number;
+}
+
 export interface JwtPayload {
   userId: string;
   email: string;
+  sessionId?: string;
   iat: number;
   exp: number;
 }
\ No newline at end of file
@@ -10,6 +10,7 @@ export interface User {
   subscription_tier: 'free' | 'pro' | 'enterprise';
   meta_ad_account_id?: string;
   onboarding_completed: boolean;
+  email_verified: boolean;
   is_active: boolean;
   created_at: number;
   updated_at: number;
@@ -24,7 +25,7 @@ export interface Campaign {
   daily_budget: number; // in cents
   target_audience: string; // JSON string
   creative_guidance?: string; // JSON string
-  status: 'draft' | 'review' | 'active' | 'paused' | 'completed' | 'deleted';
+  status: 'draft' | 'review' | 'launching' | 'active' | 'paused' | 'completed' | 'deleted';
   launch_date?: number;
   end_date?: number;
   is_active: boolean;
@@ -46,7 +47,20 @@ export interface AdCreative {
   generation_prompt?: string;
   ai_model_used?: string;
   performance_score?: number;
-  status: 'generated' | 'uploaded' | 'active' | 'paused';
+  status: 'generated' | 'approved' | 'rejected' | 'uploaded' | 'active' | 'paused';
+  reviewed_by?: string; // user_id
+  reviewed_at?: number;
+  rejection_reason?: string;
+  created_at: number;
+}
+
+export interface MetaAdMapping {
+  id: string;
+  campaign_id: string;
+  user_id: string;
+  meta_object_type: 'campaign' | 'adset' | 'ad' | 'form';
+  meta_object_id: string;
+  ad_creative_id?: string;
   created_at: number;
 }
 
@@ -62,6 +76,61 @@ export interface Lead {
   custom_fields?: string; // JSON string
   captured_at: number;
   status: 'active' | 'converted' | 'unsubscribed';
+  sms_consent?: 'granted' | 'revoked';
+  sms_consent_updated_at?: number;
+  email_key?: string; // Normalized email and phone, set by DatabaseService.createLead
+  phone_key?: string;
+  merged_into?: string; // Lead this one was merged into
+  merged_at?: number;
+}
+
+// Lead row joined with its campaign, as listed by /api/leads
+export interface LeadListItem extends Lead {
+  campaign_name: string;
+}
+
+export interface LeadListFilters {
+  search?: string; // Matches name, email, phone or company
+  status?: Lead['status'];
+  campaignId?: string;
+  capturedFrom?: number;
+  capturedTo?: number;
+}
+
+export interface LeadListQuery extends LeadListFilters {
+  sort: 'captured_at' | 'name' | 'email';
+  order: 'asc' | 'desc';
+  limit: number;
+  after?: { value: string | number; id: string }; // Sort value and id of the last lead on the previous page
+}
+
+// Lead row with its latest drip journey, as written by lead exports
+export interface LeadExportRow extends LeadListItem {
+  journey_campaign_name?: string;
+  journey_status?: LeadJourney['status'];
+  journey_step?: number;
+}
+
+export interface LeadExport {
+  id: string;
+  user_id: string;
+  format: 'csv' | 'ndjson';
+  filters: string; // JSON LeadListQuery, without limit or cursor
+  status: 'processing' | 'completed' | 'failed' | 'expired';
+  r2_key: string;
+  row_count: number;
+  file_size?: number;
+  error_message?: string;
+  created_at: number;
+  updated_at: number;
+  completed_at?: number;
+  expires_at?: number; // When the file is deleted
+  upload_id?: string; // Progress of an export still being written
+  parts?: string; // JSON R2UploadedPart[]
+  columns?: string; // JSON string[]
+  cursor?: string; // JSON LeadListQuery['after']
+  tail_key?: string;
+  locked_until?: number;
 }
 
 export interface DripCampaign {
@@ -71,6 +140,11 @@ export interface DripCampaign {
   trigger_type: 'meta_lead' | 'manual' | 'api';
   total_steps: number;
   active: boolean;
+  pause_on_reply?: boolean; // Hand the journey to a human when the lead replies
+  send_window_start?: number; // SMS quiet hours: minutes after local midnight
+  send_window_end?: number;
+  send_window_days?: string; // JSON array of weekdays, 0 = Sunday
+  send_window_timezone?: string; // Used when the lead's timezone is unknown
   created_by: string; // user_id
   created_at: number;
   updated_at: number;
@@ -85,6 +159,7 @@ export interface DripStep {
   content_template?: string;
   subject_template?: string;
   sendgrid_template_id?: string;
+  fallback_action: 'skip' | 'substitute' | 'pause'; // When the lead has no address for this channel
   active: boolean;
   created_at: number;
 }
@@ -97,10 +172,13 @@ export interface SMSMessage {
   to_number: string;
   from_number: string;
   content: string;
-  status: 'pending' | 'queued' | 'sent' | 'delivered' | 'failed';
+  status: 'pending' | 'queued' | 'sent' | 'delivered' | 'failed' | 'dead_letter' | 'suppressed';
   scheduled_at: number;
+  attempt_count?: number;
+  next_attempt_at?: number;
   sent_at?: number;
   delivered_at?: number;
+  error_code?: string;
   error_message?: string;
   created_at: number;
   updated_at: number;
@@ -110,13 +188,17 @@ export interface EmailMessage {
   id: string;
   lead_id: string;
   drip_step_id?: string;
+  journey_id?: string;
   sendgrid_message_id?: string;
   to_email: string;
   subject: string;
+  content?: string;
   template_id?: string;
   dynamic_data?: string; // JSON
-  status: 'pending' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced';
+  status: 'pending' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'failed' | 'dead_letter' | 'suppressed';
   scheduled_at: number;
+  attempt_count?: number;
+  next_attempt_at?: number;
   sent_at?: number;
   delivered_at?: number;
   opened_at?: number;
@@ -132,10 +214,14 @@ export interface LeadJourney {
   campaign_id: string;
   current_step: number;
   status: 'active' | 'completed' | 'paused' | 'failed';
+  status_reason?: string;
+  skipped_steps?: string; // JSON array of SkippedStep
   started_at: number;
   completed_at?: number;
   last_interaction_at?: number;
+  response_at?: number;
   total_sms_sent: number;
+  total_sms_delivered?: number;
   total_emails_sent: number;
   total_opens: number;
   total_clicks: number;
@@ -145,6 +231,136 @@ export interface LeadJourney {
   updated_at: number;
 }
 
+export interface InboundMessage {
+  id: string;
+  lead_id?: string;
+  twilio_sid?: string;
+  from_number: string;
+  to_number: string;
+  body: string;
+  keyword?: 'stop' | 'start' | 'help';
+  received_at: number;
+}
+
+// Lead field a CSV column is imported into
+export type LeadImportTarget = 'first_name' | 'last_name' | 'email' | 'phone' | 'company' | 'custom' | 'ignore';
+
+export interface LeadImport {
+  id: string;
+  user_id: string;
+  campaign_id: string;
+  drip_campaign_id?: string;
+  file_name: string;
+  r2_key: string;
+  file_size: number;
+  columns: string; // JSON array of header names
+  mapping?: string; // JSON array of LeadImportTarget, one per column
+  status: 'uploaded' | 'processing' | 'completed' | 'failed';
+  byte_offset: number;
+  rows_processed: number;
+  rows_imported: number;
+  rows_duplicate: number;
+  rows_failed: number;
+  error_message?: string;
+  locked_until?: number;
+  created_at: number;
+  updated_at: number;
+  completed_at?: number;
+}
+
+export interface LeadImportError {
+  id: string;
+  import_id: string;
+  row_number: number;
+  type: 'invalid' | 'duplicate';
+  message: string;
+  row_data?: string; // JSON array of the row's values
+}
+
+export interface LeadStatusChange {
+  id: string;
+  lead_id: string;
+  journey_id?: string;
+  field: 'status' | 'sms_consent' | 'journey_status';
+  from_value?: string;
+  to_value: string;
+  reason?: string;
+  changed_at: number;
+}
+
+export interface Suppression {
+  id: string;
+  user_id: string;
+  channel: 'sms' | 'email';
+  address: string; // E.164 phone number or lowercased email
+  reason?: string;
+  source: 'stop_reply' | 'sendgrid_unsubscribe' | 'hard_bounce' | 'spam_report' | 'manual';
+  lead_id?: string;
+  created_at: number;
+}
+
+export interface UserCredential {
+  id: string;
+  user_id: string;
+  provider: 'meta' | 'twilio' | 'sendgrid' | 'openai';
+  account_id?: string; // Provider's public account identifier, for webhook routing
+  encrypted_data: string; // base64 AES-GCM ciphertext of the JSON credentials
+  iv: string;
+  status: 'unverified' | 'valid' | 'invalid';
+  verified_at?: number;
+  verification_error?: string;
+  expires_at?: number; // Token expiry for providers whose tokens expire (Meta)
+  created_at: number;
+  updated_at: number;
+}
+
+export interface Session {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string; // SHA-256 of the current refresh token
+  previous_token_hash?: string; // The token it replaced, to detect replays
+  user_agent?: string;
+  ip_address?: string;
+  created_at: number;
+  last_used_at: number;
+  expires_at: number;
+  revoked_at?: number;
+}
+
+export interface WebhookEvent {
+  id: string;
+  source: 'meta' | 'twilio' | 'sendgrid';
+  event_type: string;
+  payload: string; // JSON
+  processed: boolean;
+  processed_at?: number;
+  error_message?: string;
+  received_at: number;
+}
+
+export interface JobRun {
+  id: string;
+  job_name: string;
+  cron?: string;
+  status: 'running' | 'succeeded' | 'failed';
+  started_at: number;
+  finished_at?: number;
+  duration_ms?: number;
+  sms_processed?: number; // Only set by jobs that send messages
+  emails_processed?: number;
+  error_count: number;
+  errors?: string; // JSON array
+  created_at: number;
+}
+
+export interface SkippedStep {
+  step_number: number;
+  channel: 'sms' | 'email';
+  action: 'skipped' | 'substituted';
+  reason: string;
+  at: number;
+}
+
 export interface DripAnalytics {
   id: string;
   campaign_id: string;
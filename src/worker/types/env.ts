@@ -11,16 +11,17 @@ export interface Env {
   ENVIRONMENT: string;
   JWT_SECRET: string;
   WEBHOOK_SECRET: string;
-  ENCRYPTION_KEY: string;
+  ENCRYPTION_KEY: string; // AES-GCM key material for user_credentials
+  ADMIN_EMAILS?: string; // Comma-separated emails allowed to use /api/admin
   
-  // Meta API Credentials (will be stored encrypted per user)
+  // Meta API Credentials (platform defaults; users connect their own via /api/credentials)
   META_ACCESS_TOKEN?: string;
   META_AD_ACCOUNT_ID?: string;
   META_APP_ID?: string;
   META_APP_SECRET?: string;
   META_PAGE_ID?: string;
   
-  // OpenAI Credentials (will be stored encrypted per user)
+  // OpenAI Credentials (platform default)
   OPENAI_API_KEY?: string;
   
   // Twilio Credentials (Phase 3)
@@ -33,6 +34,7 @@ export interface Env {
   SENDGRID_FROM_EMAIL?: string;
   SENDGRID_FROM_NAME?: string;
   SENDGRID_UNSUBSCRIBE_GROUP_ID?: string;
+  SENDGRID_WEBHOOK_PUBLIC_KEY?: string; // Signed event webhook verification key
   
   // Webhook Base URL for callbacks
   WEBHOOK_BASE_URL?: string;
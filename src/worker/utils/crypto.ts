@@ -1,15 +1,77 @@
 // Cryptography utilities for passwords and JWT
 
-export async function hashPassword(password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  const hash = await crypto.subtle.digest('SHA-256', data);
-  return btoa(String.fromCharCode(...new Uint8Array(hash)));
+// Stored as pbkdf2$sha256$<iterations>$<salt>$<hash>; Workers caps PBKDF2 at 100k iterations
+const PASSWORD_HASH_PREFIX = 'pbkdf2$sha256$';
+export const PBKDF2_ITERATIONS = 100000;
+
+/**
+ * Hash a password with PBKDF2-SHA256 and a random per-user salt. The salt and
+ * iteration count are encoded in the result so they can change over time.
+ */
+export async function hashPassword(password: string, iterations: number = PBKDF2_ITERATIONS): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePasswordHash(password, salt, iterations);
+  return `${PASSWORD_HASH_PREFIX}${iterations}$${bytesToBase64(salt)}$${bytesToBase64(hash)}`;
+}
+
+/**
+ * Check a password against a stored hash. Accepts both PBKDF2 hashes and the
+ * legacy unsalted SHA-256 ones (see needsRehash).
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  if (!storedHash.startsWith(PASSWORD_HASH_PREFIX)) {
+    const legacy = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+    return timingSafeEqual(new Uint8Array(legacy), base64ToBytes(storedHash));
+  }
+
+  const [iterations, salt, hash] = storedHash.slice(PASSWORD_HASH_PREFIX.length).split('$');
+  const expected = base64ToBytes(hash);
+  const actual = await derivePasswordHash(password, base64ToBytes(salt), parseInt(iterations, 10), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Whether a stored hash predates the current scheme and should be replaced
+ * after the next successful login
+ */
+export function needsRehash(storedHash: string): boolean {
+  if (!storedHash.startsWith(PASSWORD_HASH_PREFIX)) {
+    return true;
+  }
+  const iterations = parseInt(storedHash.slice(PASSWORD_HASH_PREFIX.length).split('$')[0], 10);
+  return iterations < PBKDF2_ITERATIONS;
 }
 
-export async function verifyPassword(password: string, hash: string): Promise<boolean> {
-  const passwordHash = await hashPassword(password);
-  return passwordHash === hash;
+async function derivePasswordHash(
+  password: string,
+  salt: Uint8Array,
+  iterations: number,
+  length: number = 32
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a[i] ^ b[i];
+  }
+  return mismatch === 0;
 }
 
 export async function generateId(): Promise<string> {
@@ -25,4 +87,71 @@ export function generateToken(length: number = 32): string {
     .replace(/\+/g, '-')
     .replace(/\//g, '_')
     .replace(/=/g, '');
+}
+
+/**
+ * SHA-256 hex digest of a random token, for storing tokens that are looked
+ * up by value without keeping the token itself
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Encrypt a secret with AES-256-GCM under a key derived from `keyMaterial`
+ * (ENCRYPTION_KEY). `context` is bound as additional data, so a ciphertext
+ * only decrypts for the record it was written for.
+ */
+export async function encryptSecret(
+  plaintext: string,
+  keyMaterial: string,
+  context: string
+): Promise<{ ciphertext: string; iv: string }> {
+  const key = await importEncryptionKey(keyMaterial);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encoder = new TextEncoder();
+
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+    key,
+    encoder.encode(plaintext)
+  );
+
+  return { ciphertext: bytesToBase64(new Uint8Array(encrypted)), iv: bytesToBase64(iv) };
+}
+
+export async function decryptSecret(
+  ciphertext: string,
+  iv: string,
+  keyMaterial: string,
+  context: string
+): Promise<string> {
+  const key = await importEncryptionKey(keyMaterial);
+
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(iv), additionalData: new TextEncoder().encode(context) },
+    key,
+    base64ToBytes(ciphertext)
+  );
+
+  return new TextDecoder().decode(decrypted);
+}
+
+async function importEncryptionKey(keyMaterial: string): Promise<CryptoKey> {
+  if (!keyMaterial) {
+    throw new Error('ENCRYPTION_KEY is not configured');
+  }
+
+  // Hashing accepts a key of any length or encoding
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(keyMaterial));
+  return crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
 }
\ No newline at end of file
@@ -0,0 +1,92 @@
+// CSV parsing for lead imports: quoted fields, "" escapes, and CRLF, LF or CR line breaks
+
+export interface CsvRecord {
+  values: string[];
+  end: number; // Index in the text just past the record's line break
+}
+
+/**
+ * Parse up to `limit` records from `text`. Unless `final` is set the text is
+ * taken to be cut off at its end, so a record without a line break after it
+ * is left unparsed; the caller continues from the last record's `end`.
+ */
+export function parseCsvRecords(text: string, final: boolean, limit = Infinity): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < text.length && records.length < limit) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char !== '"') {
+        field += char;
+        i++;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+      } else if (i + 1 === text.length && !final) {
+        // Can't tell a closing quote from the first half of "" yet
+        return records;
+      } else {
+        inQuotes = false;
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+      i++;
+    } else if (char === ',') {
+      values.push(field);
+      field = '';
+      i++;
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && i + 1 === text.length && !final) {
+        return records; // Might be the first half of \r\n
+      }
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+      values.push(field);
+      records.push({ values, end: i });
+      values = [];
+      field = '';
+    } else {
+      field += char;
+      i++;
+    }
+  }
+
+  // The last record may not end in a line break
+  if (final && i === text.length && records.length < limit && (field !== '' || values.length > 0 || inQuotes)) {
+    values.push(field);
+    records.push({ values, end: text.length });
+  }
+
+  return records;
+}
+
+export function isBlankRecord(values: string[]): boolean {
+  return values.every(value => value.trim() === '');
+}
+
+/**
+ * Quote a value for a CSV file when it contains a separator, quote or line break
+ */
+export function toCsvValue(value: string | number | undefined | null): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * toCsvValue for files opened in a spreadsheet: text starting with a
+ * character that makes it a formula gets a leading apostrophe, so values
+ * from public forms and uploads are shown rather than run. Numbers and
+ * phone numbers such as +15125551234 are left as they are.
+ */
+export function toSpreadsheetCsvValue(value: string | number | undefined | null): string {
+  const formula = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) && !/^[+-]?[\d\s().-]+$/.test(value);
+  return toCsvValue(formula ? `'${value}` : value);
+}
@@ -0,0 +1,19 @@
+// Normalized email and phone a person is matched on across a user's leads,
+// their inbound texts and their suppression list entries.
+// migrations/0021_lead_identity.sql backfills existing leads the same way.
+
+export function emailKey(email?: string | null): string | undefined {
+  const key = email?.trim().toLowerCase();
+  return key || undefined;
+}
+
+/**
+ * The phone's digits with a leading +; bare 10-digit numbers are taken to be
+ * NANP and get the 1 country code
+ */
+export function phoneKey(phone?: string | null): string | undefined {
+  const digits = phone?.replace(/\D/g, '') || '';
+  if (!digits) return undefined;
+
+  return `+${digits.length === 10 ? `1${digits}` : digits}`;
+}
@@ -0,0 +1,136 @@
+// Send windows (quiet hours) for drip messages, evaluated in the lead's timezone
+
+import { DripCampaign, Lead } from '../types/database';
+import { AREA_CODE_TIMEZONES } from './area-code-timezones';
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+export interface SendWindow {
+  start: number; // Minutes after local midnight, inclusive
+  end: number; // Minutes after local midnight, exclusive
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  timeZone: string;
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// Form fields a lead's timezone may have been captured in
+const TIMEZONE_FIELDS = ['timezone', 'time_zone'];
+
+/**
+ * Parse "HH:MM" into minutes after midnight
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : null;
+}
+
+export function formatTimeOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Timezone for a US/Canada (NANP) phone number's area code
+ */
+export function timeZoneForPhone(phone: string): string | undefined {
+  const digits = phone.replace(/\D/g, '');
+  const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  return national.length === 10 ? AREA_CODE_TIMEZONES.get(national.slice(0, 3)) : undefined;
+}
+
+/**
+ * The lead's timezone: a timezone form field, then the phone's area code,
+ * then `fallback`
+ */
+export function resolveLeadTimeZone(lead: Lead, fallback = DEFAULT_TIMEZONE): string {
+  if (lead.custom_fields) {
+    try {
+      const customFields: Record<string, unknown> = JSON.parse(lead.custom_fields);
+      for (const field of TIMEZONE_FIELDS) {
+        const value = customFields[field];
+        if (typeof value === 'string' && isValidTimeZone(value)) {
+          return value;
+        }
+      }
+    } catch {
+      // Invalid JSON is reported by the template engine; fall through
+    }
+  }
+
+  return (lead.phone && timeZoneForPhone(lead.phone)) || fallback;
+}
+
+/**
+ * The drip campaign's send window placed in the lead's timezone, or null
+ * when the campaign doesn't restrict send times
+ */
+export function getSendWindow(campaign: DripCampaign, lead: Lead): SendWindow | null {
+  if (campaign.send_window_start === undefined || campaign.send_window_start === null ||
+      campaign.send_window_end === undefined || campaign.send_window_end === null) {
+    return null;
+  }
+
+  return {
+    start: campaign.send_window_start,
+    end: campaign.send_window_end,
+    days: campaign.send_window_days ? JSON.parse(campaign.send_window_days) : [0, 1, 2, 3, 4, 5, 6],
+    timeZone: resolveLeadTimeZone(lead, campaign.send_window_timezone || DEFAULT_TIMEZONE)
+  };
+}
+
+/**
+ * The earliest time at or after `at` that falls inside the window
+ */
+export function nextSendTime(at: number, window: SendWindow): number {
+  let time = at;
+
+  // Eight days covers any combination of allowed weekdays; the extra passes
+  // absorb DST shifts that land a jump an hour early
+  for (let i = 0; i < 16; i++) {
+    const { weekday, minutes } = localTime(time, window.timeZone);
+
+    if (window.days.includes(weekday)) {
+      if (minutes >= window.start && minutes < window.end) {
+        return time;
+      }
+      if (minutes < window.start) {
+        time = startOfMinute(time) + (window.start - minutes) * 60_000;
+        continue;
+      }
+    }
+
+    // Jump to local midnight and check the next day
+    time = startOfMinute(time) + (24 * 60 - minutes) * 60_000;
+  }
+
+  throw new Error('Send window has no allowed time');
+}
+
+function localTime(at: number, timeZone: string): { weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(at));
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return {
+    weekday: WEEKDAYS[part('weekday')],
+    minutes: parseInt(part('hour')) * 60 + parseInt(part('minute'))
+  };
+}
+
+function startOfMinute(at: number): number {
+  return at - (at % 60_000);
+}
@@ -0,0 +1,92 @@
+// Merge-field templates for drip step content and subjects
+//
+// Syntax: {{first_name}}, {{campaign.name}}, {{custom.budget}} with an optional
+// default after a pipe: {{first_name|there}}
+
+import { Campaign, Lead } from '../types/database';
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}|]*?)\s*(?:\|([^{}]*))?\}\}/g;
+
+export const TEMPLATE_VARIABLES = [
+  'first_name',
+  'last_name',
+  'full_name',
+  'email',
+  'phone',
+  'company',
+  'campaign.name'
+] as const;
+
+// Form answers stored in leads.custom_fields are addressed as custom.<field>
+const CUSTOM_PREFIX = 'custom.';
+
+export type TemplateContext = Record<string, string | undefined>;
+
+/**
+ * Build the variable values for a lead and the ad campaign it came from
+ */
+export function buildTemplateContext(lead: Lead, campaign?: Pick<Campaign, 'name'> | null): TemplateContext {
+  const context: TemplateContext = {
+    first_name: lead.first_name,
+    last_name: lead.last_name,
+    full_name: [lead.first_name, lead.last_name].filter(Boolean).join(' ') || undefined,
+    email: lead.email,
+    phone: lead.phone,
+    company: lead.company,
+    'campaign.name': campaign?.name
+  };
+
+  if (lead.custom_fields) {
+    try {
+      const customFields: Record<string, unknown> = JSON.parse(lead.custom_fields);
+      for (const [key, value] of Object.entries(customFields)) {
+        if (value !== null && value !== undefined && typeof value !== 'object') {
+          context[`${CUSTOM_PREFIX}${key}`] = String(value);
+        }
+      }
+    } catch {
+      console.warn(`Lead ${lead.id} has invalid custom_fields JSON`);
+    }
+  }
+
+  return context;
+}
+
+/**
+ * Replace merge fields with context values. Missing values fall back to the
+ * field's default, or an empty string.
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return template.replace(VARIABLE_PATTERN, (_match, name: string, fallback?: string) => {
+    const value = context[name];
+    return value !== undefined && value !== '' ? value : (fallback ?? '');
+  });
+}
+
+/**
+ * List problems with a template: unknown variables and unbalanced braces
+ */
+export function validateTemplate(template: string): string[] {
+  const errors: string[] = [];
+
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    const name = match[1];
+    if (!isKnownVariable(name)) {
+      errors.push(`Unknown variable {{${name}}}`);
+    }
+  }
+
+  const leftover = template.replace(VARIABLE_PATTERN, '');
+  if (leftover.includes('{{') || leftover.includes('}}')) {
+    errors.push('Unclosed or malformed {{ }} tag');
+  }
+
+  return errors;
+}
+
+function isKnownVariable(name: string): boolean {
+  if (name.startsWith(CUSTOM_PREFIX)) {
+    return /^[\w-]+$/.test(name.slice(CUSTOM_PREFIX.length));
+  }
+  return (TEMPLATE_VARIABLES as readonly string[]).includes(name);
+}
@@ -0,0 +1,69 @@
+// Account Token Tests
+
+import { ACCOUNT_TOKEN_TTL, AccountTokenService } from '../../src/worker/services/account-tokens';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+// In-memory stand-in for the KV methods the service uses
+function createKV() {
+  const store = new Map<string, { value: string; ttl?: number }>();
+  const kv = {
+    get: async (key: string) => store.get(key)?.value ?? null,
+    put: async (key: string, value: string, options?: { expirationTtl?: number }) => {
+      store.set(key, { value, ttl: options?.expirationTtl });
+    },
+    delete: async (key: string) => {
+      store.delete(key);
+    }
+  } as unknown as KVNamespace;
+  return { kv, store };
+}
+
+async function runAccountTokenTests() {
+  console.log('🧪 Account Token Tests\n');
+
+  await test('stores only a hash of the token, with an expiry', async () => {
+    const { kv, store } = createKV();
+    const token = await new AccountTokenService(kv).issue('password_reset', 'user-1');
+
+    const [key, entry] = [...store.entries()][0];
+    assert(!key.includes(token), 'raw token should not appear in the key');
+    assert(key.startsWith('account_token:password_reset:'), key);
+    assert(entry.ttl === ACCOUNT_TOKEN_TTL.password_reset, 'should expire');
+  });
+
+  await test('tokens are single-use', async () => {
+    const { kv } = createKV();
+    const tokens = new AccountTokenService(kv);
+    const token = await tokens.issue('email_verification', 'user-1');
+
+    assert(await tokens.consume('email_verification', token) === 'user-1', 'first use');
+    assert(await tokens.consume('email_verification', token) === null, 'second use');
+  });
+
+  await test('tokens only work for their purpose', async () => {
+    const { kv } = createKV();
+    const tokens = new AccountTokenService(kv);
+    const token = await tokens.issue('email_verification', 'user-1');
+
+    assert(await tokens.consume('password_reset', token) === null, 'verification token should not reset passwords');
+    assert(await tokens.consume('password_reset', 'made-up') === null, 'unknown token');
+  });
+}
+
+runAccountTokenTests();
@@ -0,0 +1,75 @@
+// Admin Gating Tests
+
+import { Hono } from 'hono';
+import { adminMiddleware } from '../../src/worker/middleware/auth';
+import { Env } from '../../src/worker/types/env';
+import { User } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+function user(email: string): User {
+  return {
+    id: 'user-1',
+    email,
+    password_hash: '',
+    subscription_tier: 'free',
+    onboarding_completed: true,
+    email_verified: true,
+    is_active: true,
+    created_at: 0,
+    updated_at: 0
+  };
+}
+
+// A route behind adminMiddleware, with the signed-in user standing in for authMiddleware
+function request(signedIn: User | null, adminEmails?: string) {
+  const app = new Hono<{ Bindings: Env }>();
+  app.use('*', async (c, next) => {
+    if (signedIn) c.set('user', signedIn);
+    await next();
+  });
+  app.get('/admin/jobs', adminMiddleware, (c) => c.json({ success: true }));
+
+  return app.request('/admin/jobs', {}, { ADMIN_EMAILS: adminEmails } as Env);
+}
+
+async function runAdminGatingTests() {
+  console.log('🧪 Admin Gating Tests\n');
+
+  await test('Lets listed admins through, ignoring case and spacing', async () => {
+    const response = await request(user('Ops@Example.com'), 'owner@example.com, ops@example.com ');
+    assert(response.status === 200, `status ${response.status}`);
+  });
+
+  await test('Refuses users who are not listed', async () => {
+    const response = await request(user('someone@example.com'), 'ops@example.com');
+    assert(response.status === 403, `status ${response.status}`);
+    assert((await response.json() as { error: string }).error === 'Admin access required', 'error message');
+  });
+
+  await test('Refuses everyone when no admins are configured', async () => {
+    assert((await request(user('ops@example.com'))).status === 403, 'unset');
+    assert((await request(user('ops@example.com'), ' , ')).status === 403, 'only separators');
+  });
+
+  await test('Refuses a request without a signed-in user', async () => {
+    assert((await request(null, 'ops@example.com')).status === 403, 'no user');
+  });
+}
+
+runAdminGatingTests();
@@ -0,0 +1,171 @@
+// Campaign Launch Tests
+
+import { CampaignLaunchService } from '../../src/worker/services/campaign-launcher';
+import { DatabaseService } from '../../src/worker/services/database';
+import { MetaAPIService } from '../../src/worker/services/meta-api';
+import { AdCreative, Campaign, MetaAdMapping } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+async function rejects(promise: Promise<unknown>): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+const campaign: Campaign = {
+  id: 'campaign-1',
+  user_id: 'user-1',
+  name: 'Spring Promo',
+  objective: 'lead_generation',
+  daily_budget: 2000,
+  target_audience: JSON.stringify({ age_min: 25 }),
+  status: 'draft',
+  is_active: true,
+  created_at: 0,
+  updated_at: 0
+};
+
+function creative(id: string): AdCreative {
+  return {
+    id,
+    campaign_id: campaign.id,
+    type: 'image',
+    primary_text: 'Spring savings',
+    image_url: `https://example.com/${id}.png`,
+    call_to_action: 'LEARN_MORE',
+    status: 'approved',
+    created_at: 0
+  };
+}
+
+// Meta API stand-in that numbers the objects it creates, can be told to fail
+// at a given call, and records what was deleted
+function createLauncher(failAt?: string) {
+  const deleted: string[] = [];
+  const campaignUpdates: Partial<Campaign>[] = [];
+  const creativeUpdates: Array<[string, Partial<AdCreative>]> = [];
+  const saved: { mappings: MetaAdMapping[] }[] = [];
+  const deletedMappings: string[][] = [];
+  let claimed = false;
+  let next = 0;
+
+  const create = (type: string) => async () => {
+    if (failAt === type) throw new Error(`${type} failed`);
+    const id = `${type}-${++next}`;
+    return { id, hash: id, name: type };
+  };
+
+  const metaAPI = {
+    mapObjective: () => 'OUTCOME_LEADS',
+    buildTargeting: () => ({}),
+    buildLinkData: () => ({}),
+    createCampaign: create('campaign'),
+    createAdSet: create('adset'),
+    uploadImage: create('image'),
+    createCreative: create('creative'),
+    createAd: create('ad'),
+    updateCampaignStatus: async () => failAt !== 'activate',
+    deleteImage: async (id: string) => { deleted.push(id); return true; },
+    deleteCampaign: async (id: string) => { deleted.push(id); return true; },
+    deleteObject: async (id: string) => { deleted.push(id); return true; }
+  } as unknown as MetaAPIService;
+
+  const db = {
+    claimCampaignLaunch: async () => !claimed && (claimed = true),
+    saveCampaignLaunch: async (launch: { mappings: MetaAdMapping[] }) => { saved.push(launch); },
+    updateCampaign: async (_id: string, updates: Partial<Campaign>) => { campaignUpdates.push(updates); },
+    updateCreative: async (id: string, updates: Partial<AdCreative>) => { creativeUpdates.push([id, updates]); },
+    deleteMetaAdMappings: async (ids: string[]) => { deletedMappings.push(ids); }
+  } as unknown as DatabaseService;
+
+  return {
+    launcher: new CampaignLaunchService(db, metaAPI),
+    deleted,
+    campaignUpdates,
+    creativeUpdates,
+    saved,
+    deletedMappings
+  };
+}
+
+async function runCampaignLaunchTests() {
+  console.log('🧪 Campaign Launch Tests\n');
+
+  await test('Launches every creative and records the Meta IDs', async () => {
+    const { launcher, saved, creativeUpdates, deleted } = createLauncher();
+    const result = await launcher.launch(campaign, [creative('creative-a'), creative('creative-b')], {
+      pageId: 'page-1',
+      leadFormId: 'form-1'
+    });
+
+    assert(result.ads.length === 2, 'one ad per creative');
+    assert(saved.length === 1, 'launch recorded once');
+    const types = saved[0].mappings.map(mapping => mapping.meta_object_type).join();
+    assert(types === 'campaign,adset,ad,ad,form', types);
+    assert(saved[0].mappings.every(mapping => mapping.user_id === campaign.user_id), 'mappings carry the owner');
+    assert(creativeUpdates.filter(([, updates]) => updates.status === 'active').length === 2, 'creatives activated');
+    assert(deleted.length === 0, 'nothing rolled back');
+  });
+
+  await test('Rejects a launch without approved creatives', async () => {
+    const { launcher } = createLauncher();
+    assert(await rejects(launcher.launch(campaign, [], { pageId: 'page-1' })), 'empty creatives');
+  });
+
+  await test('Launches a campaign only once', async () => {
+    const { launcher, saved } = createLauncher();
+    const launches = await Promise.allSettled([
+      launcher.launch(campaign, [creative('creative-a')], { pageId: 'page-1' }),
+      launcher.launch(campaign, [creative('creative-a')], { pageId: 'page-1' })
+    ]);
+
+    assert(launches.map(launch => launch.status).join() === 'fulfilled,rejected', 'second launch refused');
+    assert(saved.length === 1, 'pushed to Meta once');
+    assert(await rejects(launcher.launch({ ...campaign, status: 'paused', meta_campaign_id: 'mc-1' }, [creative('creative-a')], {
+      pageId: 'page-1'
+    })), 'campaign already on Meta');
+  });
+
+  await test('Deletes what was created, children first, when a step fails', async () => {
+    const { launcher, deleted, saved, campaignUpdates } = createLauncher('ad');
+
+    assert(await rejects(launcher.launch(campaign, [creative('creative-a')], { pageId: 'page-1' })), 'launch fails');
+    assert(deleted.join() === 'creative-4,image-3,adset-2,campaign-1', deleted.join());
+    assert(saved.length === 0, 'nothing recorded');
+    assert(campaignUpdates.length === 1 && campaignUpdates[0].status === 'draft', 'campaign released');
+  });
+
+  await test('Reverts the launch record when activation fails', async () => {
+    const { launcher, deleted, campaignUpdates, creativeUpdates, saved, deletedMappings } = createLauncher('activate');
+
+    assert(await rejects(launcher.launch(campaign, [creative('creative-a')], { pageId: 'page-1' })), 'launch fails');
+    assert(deleted.length === 5, 'campaign, ad set, image, creative and ad deleted');
+    assert(campaignUpdates.length === 1 && campaignUpdates[0].status === 'draft', 'campaign back to its status');
+    assert(
+      creativeUpdates.length === 1 && creativeUpdates[0][1].status === 'approved' && !creativeUpdates[0][1].meta_creative_id,
+      'creative back to approved without a Meta ID'
+    );
+    assert(deletedMappings[0].join() === saved[0].mappings.map(mapping => mapping.id).join(), 'mappings removed');
+  });
+}
+
+runCampaignLaunchTests();
@@ -0,0 +1,109 @@
+// Creative Approval Tests
+
+import { CreativeApprovalService, canTransitionCreative } from '../../src/worker/services/creative-approval';
+import { DatabaseService } from '../../src/worker/services/database';
+import { AdCreative } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+async function rejects(promise: Promise<unknown>): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+function creative(status: AdCreative['status'], fields: Partial<AdCreative> = {}): AdCreative {
+  return {
+    id: 'creative-1',
+    campaign_id: 'campaign-1',
+    type: 'image',
+    primary_text: 'Spring savings',
+    call_to_action: 'LEARN_MORE',
+    status,
+    created_at: 0,
+    ...fields
+  };
+}
+
+function createApprovalService() {
+  const updates: Array<[string, Partial<AdCreative>]> = [];
+  const db = {
+    updateCreative: async (id: string, fields: Partial<AdCreative>) => { updates.push([id, fields]); }
+  } as unknown as DatabaseService;
+
+  return { approval: new CreativeApprovalService(db), updates };
+}
+
+async function runCreativeApprovalTests() {
+  console.log('🧪 Creative Approval Tests\n');
+
+  await test('Allows only the transitions of the approval workflow', async () => {
+    const allowed: Array<[AdCreative['status'], AdCreative['status']]> = [
+      ['generated', 'approved'],
+      ['generated', 'rejected'],
+      ['approved', 'rejected'],
+      ['approved', 'uploaded'],
+      ['rejected', 'approved'],
+      ['uploaded', 'active'],
+      ['uploaded', 'paused'],
+      ['active', 'paused'],
+      ['paused', 'active']
+    ];
+    const statuses: AdCreative['status'][] = ['generated', 'approved', 'rejected', 'uploaded', 'active', 'paused'];
+
+    for (const from of statuses) {
+      for (const to of statuses) {
+        const expected = allowed.some(([a, b]) => a === from && b === to);
+        assert(canTransitionCreative(from, to) === expected, `${from} → ${to} should be ${expected ? 'allowed' : 'refused'}`);
+      }
+    }
+  });
+
+  await test('Records the reviewer when approving', async () => {
+    const { approval, updates } = createApprovalService();
+    const reviewed = await approval.review(creative('generated'), 'reviewer-1', true, 'ignored');
+
+    assert(reviewed.status === 'approved' && reviewed.reviewed_by === 'reviewer-1', 'approved by the reviewer');
+    assert(typeof reviewed.reviewed_at === 'number', 'review time');
+    assert(reviewed.rejection_reason === undefined, 'no rejection reason');
+    assert(updates.length === 1 && updates[0][0] === 'creative-1', 'saved');
+  });
+
+  await test('Keeps a rejection reason, with a default', async () => {
+    const { approval } = createApprovalService();
+
+    const withReason = await approval.review(creative('approved'), 'reviewer-1', false, 'Off brand');
+    assert(withReason.status === 'rejected' && withReason.rejection_reason === 'Off brand', 'given reason');
+
+    const withoutReason = await approval.review(creative('generated'), 'reviewer-1', false);
+    assert(withoutReason.rejection_reason === 'Rejected by reviewer', 'default reason');
+  });
+
+  await test('Refuses to review a creative that is already live', async () => {
+    const { approval, updates } = createApprovalService();
+
+    assert(await rejects(approval.review(creative('active'), 'reviewer-1', true)), 'active → approved');
+    assert(await rejects(approval.review(creative('uploaded'), 'reviewer-1', false)), 'uploaded → rejected');
+    assert(updates.length === 0, 'nothing saved');
+  });
+}
+
+runCreativeApprovalTests();
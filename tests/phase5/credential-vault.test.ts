@@ -0,0 +1,149 @@
+// Credential Encryption Tests
+
+import { decryptSecret, encryptSecret } from '../../src/worker/utils/crypto';
+import { applyCredentials, CredentialVaultService } from '../../src/worker/services/credential-vault';
+import { DatabaseService } from '../../src/worker/services/database';
+import { Env } from '../../src/worker/types/env';
+import { UserCredential } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+async function rejects(promise: Promise<unknown>): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+const KEY = 'test-encryption-key';
+const secret = JSON.stringify({ accountSid: 'AC123', authToken: 'token' });
+
+// In-memory user_credentials table, one row per user and provider
+function createVault() {
+  const rows: UserCredential[] = [];
+  const find = (userId: string, provider: string) => rows.find(r => r.user_id === userId && r.provider === provider) || null;
+
+  const db = {
+    upsertUserCredential: async (row: UserCredential) => {
+      const existing = find(row.user_id, row.provider);
+      if (existing) Object.assign(existing, row); else rows.push({ ...row });
+    },
+    getUserCredential: async (userId: string, provider: string) => find(userId, provider),
+    getUserCredentialsByUser: async (userId: string) => rows.filter(r => r.user_id === userId),
+    getUserCredentialByAccount: async (provider: string, accountId: string) =>
+      rows.find(r => r.provider === provider && r.account_id === accountId) || null,
+    updateUserCredential: async (id: string, updates: Partial<UserCredential>) => {
+      Object.assign(rows.find(r => r.id === id)!, updates);
+    }
+  } as unknown as DatabaseService;
+
+  return { vault: new CredentialVaultService(db, KEY), rows };
+}
+
+const twilio = { accountSid: 'ACuser', authToken: 'user-token', phoneNumber: '+15125550100' };
+
+async function runCredentialVaultTests() {
+  console.log('🧪 Credential Vault Tests\n');
+
+  await test('round-trips a secret', async () => {
+    const { ciphertext, iv } = await encryptSecret(secret, KEY, 'user-1:twilio');
+    assert(!ciphertext.includes('token'), 'ciphertext should not contain the plaintext');
+    assert(await decryptSecret(ciphertext, iv, KEY, 'user-1:twilio') === secret, 'decrypted value should match');
+  });
+
+  await test('uses a fresh IV per encryption', async () => {
+    const first = await encryptSecret(secret, KEY, 'user-1:twilio');
+    const second = await encryptSecret(secret, KEY, 'user-1:twilio');
+    assert(first.iv !== second.iv && first.ciphertext !== second.ciphertext, 'ciphertexts should differ');
+  });
+
+  await test('rejects the wrong key', async () => {
+    const { ciphertext, iv } = await encryptSecret(secret, KEY, 'user-1:twilio');
+    assert(await rejects(decryptSecret(ciphertext, iv, 'other-key', 'user-1:twilio')), 'should not decrypt');
+  });
+
+  await test('rejects ciphertext moved to another user', async () => {
+    const { ciphertext, iv } = await encryptSecret(secret, KEY, 'user-1:twilio');
+    assert(await rejects(decryptSecret(ciphertext, iv, KEY, 'user-2:twilio')), 'should not decrypt');
+  });
+
+  await test('rejects a missing ENCRYPTION_KEY', async () => {
+    assert(await rejects(encryptSecret(secret, '', 'user-1:twilio')), 'should require a key');
+  });
+
+  await test('overlays user credentials on the platform env', async () => {
+    const env = { TWILIO_ACCOUNT_SID: 'ACplatform', SENDGRID_API_KEY: 'SG.platform' } as Env;
+    const userEnv = applyCredentials(env, 'twilio', {
+      accountSid: 'ACuser',
+      authToken: 'user-token',
+      phoneNumber: '+15125550100'
+    });
+
+    assert(userEnv.TWILIO_ACCOUNT_SID === 'ACuser', 'Twilio SID should be the user\'s');
+    assert(userEnv.TWILIO_PHONE_NUMBER === '+15125550100', 'Twilio number should be the user\'s');
+    assert(userEnv.SENDGRID_API_KEY === 'SG.platform', 'other providers keep platform credentials');
+    assert(env.TWILIO_ACCOUNT_SID === 'ACplatform', 'platform env should not be modified');
+  });
+
+  await test('stores credentials encrypted and summarizes them without secrets', async () => {
+    const { vault, rows } = createVault();
+    const summary = await vault.save('user-1', 'twilio', twilio);
+
+    assert(rows.length === 1 && !rows[0].encrypted_data.includes('user-token'), 'encrypted at rest');
+    assert(summary.account_id === 'ACuser' && summary.status === 'unverified', 'account id, unverified');
+    assert(!('encrypted_data' in summary) && !('iv' in summary), 'no ciphertext in the summary');
+    assert((await vault.get('user-1', 'twilio'))?.authToken === 'user-token', 'decrypted for the owner');
+    assert((await vault.get('user-2', 'twilio')) === null, 'other users have none');
+  });
+
+  await test('replacing credentials starts them unverified again', async () => {
+    const { vault, rows } = createVault();
+    await vault.save('user-1', 'twilio', twilio);
+    await vault.recordVerification('user-1', 'twilio');
+    assert(rows[0].status === 'valid' && typeof rows[0].verified_at === 'number', 'verified');
+
+    await vault.save('user-1', 'twilio', { ...twilio, authToken: 'new-token' });
+    assert(rows.length === 1 && rows[0].status === 'unverified', 'one row, unverified');
+
+    await vault.recordVerification('user-1', 'twilio', 'Authentication failed');
+    const [summary] = await vault.list('user-1');
+    assert(summary.status === 'invalid' && summary.verification_error === 'Authentication failed', 'failure recorded');
+  });
+
+  await test('builds the env of the tenant owning a provider account', async () => {
+    const { vault } = createVault();
+    await vault.save('user-1', 'twilio', twilio);
+    const env = { ENCRYPTION_KEY: KEY, TWILIO_AUTH_TOKEN: 'platform-token' } as Env;
+
+    assert((await vault.envForAccount(env, 'twilio', 'ACuser')).TWILIO_AUTH_TOKEN === 'user-token', 'tenant account');
+    assert((await vault.envForAccount(env, 'twilio', 'ACother')).TWILIO_AUTH_TOKEN === 'platform-token', 'platform fallback');
+  });
+
+  await test('keeps platform credentials for a provider that cannot be decrypted', async () => {
+    const { vault, rows } = createVault();
+    await vault.save('user-1', 'twilio', twilio);
+    rows[0].encrypted_data = rows[0].encrypted_data.slice(4);
+
+    const env = { TWILIO_AUTH_TOKEN: 'platform-token' } as Env;
+    assert((await vault.envForUser(env, 'user-1')).TWILIO_AUTH_TOKEN === 'platform-token', 'platform token');
+  });
+}
+
+runCredentialVaultTests();
@@ -0,0 +1,74 @@
+// Delivery Retry Policy Tests
+
+import {
+  SendError,
+  backoffDelay,
+  classifyTwilioError,
+  decideRetry,
+  isRetryableError,
+  isRetryableStatus
+} from '../../src/worker/services/delivery-retry';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function test(name: string, testFn: () => void) {
+  try {
+    testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+const policy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 3000 };
+
+console.log('🧪 Delivery Retry Tests\n');
+
+test('429 and 5xx are retryable, other 4xx are not', () => {
+  assert(isRetryableStatus(429), '429');
+  assert(isRetryableStatus(503), '503');
+  assert(!isRetryableStatus(400), '400');
+  assert(!isRetryableStatus(401), '401');
+});
+
+test('permanent Twilio codes are never retried', () => {
+  assert(!classifyTwilioError(400, 21211), 'invalid number');
+  assert(!classifyTwilioError(400, 21610), 'unsubscribed');
+  assert(classifyTwilioError(429, 20429), 'rate limited');
+  assert(classifyTwilioError(500), 'server error without code');
+});
+
+test('network errors are retryable', () => {
+  assert(isRetryableError(new TypeError('fetch failed')), 'TypeError');
+  assert(!isRetryableError(new SendError('bad address', false)), 'permanent SendError');
+  assert(isRetryableError(new SendError('throttled', true, 429)), 'retryable SendError');
+});
+
+test('backoff doubles per attempt and is capped', () => {
+  const first = backoffDelay(1, policy);
+  const second = backoffDelay(2, policy);
+  const tenth = backoffDelay(10, policy);
+  assert(first >= 1000 && first <= 1200, `first ${first}`);
+  assert(second >= 2000 && second <= 2400, `second ${second}`);
+  assert(tenth >= 3000 && tenth <= 3600, `capped ${tenth}`);
+});
+
+test('retryable failure schedules the next attempt', () => {
+  const decision = decideRetry(1, true, 10_000, policy);
+  assert(decision.action === 'retry', decision.action);
+  assert(decision.action === 'retry' && decision.nextAttemptAt >= 11_000, 'next attempt in the future');
+});
+
+test('permanent failure is not retried', () => {
+  assert(decideRetry(1, false, 0, policy).action === 'fail', 'fail');
+});
+
+test('dead-letters after max attempts', () => {
+  assert(decideRetry(3, true, 0, policy).action === 'dead_letter', 'dead_letter');
+});
@@ -0,0 +1,155 @@
+// Inbound SMS Tests
+
+import { InboundSMSService, parseKeyword } from '../../src/worker/services/inbound-sms';
+import { DatabaseService } from '../../src/worker/services/database';
+import {
+  Campaign,
+  DripCampaign,
+  InboundMessage,
+  Lead,
+  LeadJourney,
+  SMSMessage,
+  Suppression,
+  UserCredential
+} from '../../src/worker/types/database';
+import { phoneKey } from '../../src/worker/utils/lead-identity';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+const PLATFORM_NUMBER = '+15550000000';
+const SENDER = '+15551234567';
+
+function lead(id: string, campaignId: string, fields: Partial<Lead> = {}): Lead {
+  const phone = fields.phone ?? '(555) 123-4567';
+  return { id, campaign_id: campaignId, captured_at: 0, status: 'active', ...fields, phone, phone_key: phoneKey(phone) };
+}
+
+// Two tenants on the platform Twilio number, both with a lead on the sender's
+// phone; tenant B also has its own Twilio account
+function createInbox(texted?: { leadId: string; from: string }) {
+  const campaigns = [
+    { id: 'campaign-a', user_id: 'user-a' },
+    { id: 'campaign-b', user_id: 'user-b' }
+  ] as Campaign[];
+  const leads = [lead('lead-a', 'campaign-a'), lead('lead-a2', 'campaign-a'), lead('lead-b', 'campaign-b')];
+  const journeys = [
+    { id: 'journey-a', lead_id: 'lead-a', campaign_id: 'drip-1', status: 'active' } as LeadJourney
+  ];
+  const inbound: InboundMessage[] = [];
+  const suppressions: Suppression[] = [];
+  const consent = new Map<string, string>();
+
+  const db = {
+    getLatestSMSMessageBetween: async (from: string, to: string) =>
+      texted && texted.from === from && to === SENDER ? ({ lead_id: texted.leadId }) as SMSMessage : null,
+    getUserCredentialByAccount: async (provider: string, accountId: string) =>
+      provider === 'twilio' && accountId === 'AC-b' ? ({ user_id: 'user-b' }) as UserCredential : null,
+    getLeadById: async (id: string) => leads.find(l => l.id === id) || null,
+    getCampaignById: async (id: string) => campaigns.find(c => c.id === id) || null,
+    getLeadsByPhoneKey: async (userId: string, key?: string) => leads.filter(l =>
+      campaigns.find(c => c.id === l.campaign_id)?.user_id === userId && !!key && l.phone_key === key
+    ),
+    createInboundMessage: async (message: InboundMessage) => { inbound.push(message); },
+    updateLeadSmsConsent: async (ids: string[], value: string) => { ids.forEach(id => consent.set(id, value)); },
+    createSuppression: async (suppression: Suppression) => { suppressions.push(suppression); },
+    getSuppression: async (userId: string, channel: string, address: string) =>
+      suppressions.find(s => s.user_id === userId && s.channel === channel && s.address === address) || null,
+    deleteSuppressionsByAddress: async (userId: string, channel: string, address: string) => {
+      suppressions.splice(0, suppressions.length, ...suppressions.filter(s =>
+        !(s.user_id === userId && s.channel === channel && s.address === address)
+      ));
+    },
+    getActiveJourneysByLead: async (leadId: string) => journeys.filter(j => j.lead_id === leadId),
+    getDripCampaignById: async () => ({ id: 'drip-1', pause_on_reply: true }) as DripCampaign,
+    updateLeadJourney: async (id: string, updates: Partial<LeadJourney>) => {
+      Object.assign(journeys.find(j => j.id === id)!, updates);
+    }
+  } as unknown as DatabaseService;
+
+  return { inbox: new InboundSMSService(db), inbound, suppressions, consent, journeys };
+}
+
+async function runInboundSMSTests() {
+  console.log('🧪 Inbound SMS Tests\n');
+
+  await test('Recognizes compliance keywords on the whole message only', async () => {
+    assert(parseKeyword('STOP') === 'stop' && parseKeyword(' stop. ') === 'stop', 'stop');
+    assert(parseKeyword('Unsubscribe!') === 'stop' && parseKeyword('quit') === 'stop', 'stop synonyms');
+    assert(parseKeyword('start') === 'start' && parseKeyword('YES') === 'start', 'start');
+    assert(parseKeyword('help') === 'help' && parseKeyword('Info') === 'help', 'help');
+    assert(parseKeyword('please stop texting me') === undefined, 'keyword inside a sentence');
+    assert(parseKeyword('') === undefined, 'empty');
+  });
+
+  await test('STOP revokes consent only for the leads of the tenant that texted', async () => {
+    const { inbox, consent, suppressions } = createInbox({ leadId: 'lead-a', from: PLATFORM_NUMBER });
+    const result = await inbox.handle({ from: SENDER, to: PLATFORM_NUMBER, body: 'STOP' });
+
+    assert(result.leadId === 'lead-a' && result.keyword === 'stop', 'matched the texted lead');
+    assert(consent.get('lead-a') === 'revoked' && consent.get('lead-a2') === 'revoked', "tenant A's leads revoked");
+    assert(!consent.has('lead-b'), "tenant B's lead untouched");
+    assert(suppressions.length > 0 && suppressions.every(s => s.user_id === 'user-a'), 'suppressed for tenant A only');
+  });
+
+  await test('START lifts the STOP suppression', async () => {
+    const { inbox, consent, suppressions } = createInbox({ leadId: 'lead-a', from: PLATFORM_NUMBER });
+    await inbox.handle({ from: SENDER, to: PLATFORM_NUMBER, body: 'STOP' });
+    await inbox.handle({ from: SENDER, to: PLATFORM_NUMBER, body: 'Start' });
+
+    assert(consent.get('lead-a') === 'granted', 'consent granted');
+    assert(suppressions.length === 0, 'suppression lifted');
+  });
+
+  await test('Matches against the tenant owning the Twilio account', async () => {
+    const { inbox, consent } = createInbox();
+    const result = await inbox.handle({ accountSid: 'AC-b', from: SENDER, to: '+15559999999', body: 'stop' });
+
+    assert(result.leadId === 'lead-b', "tenant B's lead");
+    assert(consent.get('lead-b') === 'revoked' && !consent.has('lead-a'), 'only tenant B');
+  });
+
+  await test('STOP suppresses the number for the tenant even when no lead matches', async () => {
+    const { inbox, consent, suppressions } = createInbox();
+    const result = await inbox.handle({ accountSid: 'AC-b', from: '+15557654321', to: '+15559999999', body: 'STOP' });
+
+    assert(result.leadId === undefined && consent.size === 0, 'no lead changed');
+    assert(suppressions.length === 1 && suppressions[0].user_id === 'user-b', 'suppressed for tenant B');
+    assert(suppressions[0].address === '+15557654321' && !suppressions[0].lead_id, 'the number itself');
+  });
+
+  await test('Records a message from an unknown sender without touching any lead', async () => {
+    const { inbox, inbound, consent } = createInbox();
+    const result = await inbox.handle({ sid: 'SM1', from: SENDER, to: PLATFORM_NUMBER, body: 'STOP' });
+
+    assert(result.leadId === undefined && consent.size === 0, 'no lead changed');
+    assert(inbound.length === 1 && inbound[0].keyword === 'stop' && !inbound[0].lead_id, 'still recorded');
+  });
+
+  await test('Answers HELP and pauses journeys on a reply', async () => {
+    const { inbox, journeys } = createInbox({ leadId: 'lead-a', from: PLATFORM_NUMBER });
+
+    const help = await inbox.handle({ from: SENDER, to: PLATFORM_NUMBER, body: 'HELP' });
+    assert(help.reply?.startsWith('Reply STOP to unsubscribe') === true, 'help reply');
+    assert(journeys[0].status === 'active', 'HELP is not a reply');
+
+    await inbox.handle({ from: SENDER, to: PLATFORM_NUMBER, body: 'Call me tomorrow' });
+    assert(journeys[0].status === 'paused' && typeof journeys[0].response_at === 'number', 'paused for a human');
+  });
+}
+
+runInboundSMSTests();
@@ -0,0 +1,90 @@
+// Job Run Tests
+
+import { runRecordedJob } from '../../src/worker/jobs/job-runs';
+import { handleLeadImports } from '../../src/worker/jobs/lead-import';
+import { handleLeadExports } from '../../src/worker/jobs/lead-export';
+import { DatabaseService } from '../../src/worker/services/database';
+import { JobRun } from '../../src/worker/types/database';
+import { Env } from '../../src/worker/types/env';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+// job_runs kept in memory by swapping the DatabaseService methods the helper calls
+function recordRuns() {
+  const runs = new Map<string, JobRun>();
+  Object.assign(DatabaseService.prototype, {
+    createJobRun: async (run: JobRun) => { runs.set(run.id, { ...run }); },
+    updateJobRun: async (id: string, updates: Partial<JobRun>) => { Object.assign(runs.get(id)!, updates); }
+  });
+  return runs;
+}
+
+async function runJobRunTests() {
+  console.log('🧪 Job Run Tests\n');
+
+  const env = {} as Env;
+
+  await test('Records a run as running, then with its counts and errors', async () => {
+    const runs = recordRuns();
+    let during: JobRun | undefined;
+
+    const run = await runRecordedJob(env, 'test-job', '*/5 * * * *', async () => {
+      during = { ...[...runs.values()][0] };
+      return { smsProcessed: 3, emailsProcessed: 2, errors: ['Lead lead-1: no phone'] };
+    });
+
+    assert(during?.status === 'running' && during.job_name === 'test-job', 'recorded before the work');
+    assert(runs.get(run.id)?.status === 'succeeded', 'stored as succeeded');
+    assert(run.sms_processed === 3 && run.emails_processed === 2, 'message counts');
+    assert(run.error_count === 1 && JSON.parse(run.errors!)[0] === 'Lead lead-1: no phone', 'errors');
+    assert(run.cron === '*/5 * * * *' && typeof run.duration_ms === 'number', 'cron and duration');
+  });
+
+  await test('Records a run whose work throws as failed instead of rethrowing', async () => {
+    const runs = recordRuns();
+
+    const run = await runRecordedJob(env, 'test-job', undefined, async () => {
+      throw new Error('D1 unavailable');
+    });
+
+    assert(runs.get(run.id)?.status === 'failed', 'stored as failed');
+    assert(run.error_count === 1 && run.errors === JSON.stringify(['D1 unavailable']), 'the error');
+  });
+
+  await test('Leaves the message counts empty for jobs that send no messages', async () => {
+    recordRuns();
+    const run = await runRecordedJob(env, 'test-job', undefined, async () => ({ errors: [] }));
+
+    assert(run.sms_processed === undefined && run.emails_processed === undefined, 'no counts');
+  });
+
+  await test('Records no run for lead imports and exports when nothing is pending', async () => {
+    const runs = recordRuns();
+    Object.assign(DatabaseService.prototype, {
+      getStalledLeadImports: async () => [],
+      getStalledLeadExports: async () => [],
+      getExpiredLeadExports: async () => []
+    });
+
+    assert(await handleLeadImports(env, '*/5 * * * *') === null, 'no import run');
+    assert(await handleLeadExports(env, '*/5 * * * *') === null, 'no export run');
+    assert(runs.size === 0, 'nothing recorded');
+  });
+}
+
+runJobRunTests();
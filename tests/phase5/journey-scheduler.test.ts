@@ -0,0 +1,259 @@
+// Journey Scheduler Tests
+
+import { JourneySchedulerService } from '../../src/worker/services/journey-scheduler';
+import { DatabaseService } from '../../src/worker/services/database';
+import { Env } from '../../src/worker/types/env';
+import {
+  Campaign,
+  DripCampaign,
+  DripStep,
+  EmailMessage,
+  Lead,
+  LeadJourney,
+  SMSMessage,
+  Suppression
+} from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+const MINUTE = 60 * 1000;
+
+const campaign = { id: 'campaign-1', user_id: 'user-1', name: 'Spring Promo' } as Campaign;
+
+const dripCampaign = {
+  id: 'drip-1',
+  name: 'Welcome',
+  trigger_type: 'meta_lead',
+  total_steps: 3,
+  active: true,
+  created_by: 'user-1',
+  created_at: 0,
+  updated_at: 0
+} as DripCampaign;
+
+function step(stepNumber: number, channel: DripStep['channel'], fields: Partial<DripStep> = {}): DripStep {
+  return {
+    id: `step-${stepNumber}`,
+    campaign_id: dripCampaign.id,
+    step_number: stepNumber,
+    channel,
+    delay_minutes: stepNumber * 10,
+    content_template: `Hi {{first_name}}, step ${stepNumber}`,
+    subject_template: `Step ${stepNumber}`,
+    fallback_action: 'skip',
+    active: true,
+    created_at: 0,
+    ...fields
+  };
+}
+
+function lead(fields: Partial<Lead> = {}): Lead {
+  return {
+    id: 'lead-1',
+    campaign_id: campaign.id,
+    first_name: 'Jo',
+    email: 'jo@example.com',
+    phone: '+15551234567',
+    captured_at: 0,
+    status: 'active',
+    ...fields
+  };
+}
+
+// In-memory stand-in for the tables the scheduler reads and writes
+function createScheduler(steps: DripStep[], leadFields: Partial<Lead> = {}, suppressions: Suppression[] = []) {
+  const leads = [lead(leadFields)];
+  const journeys = new Map<string, LeadJourney>();
+  const sms: SMSMessage[] = [];
+  const emails: EmailMessage[] = [];
+
+  const db = {
+    getLeadById: async (id: string) => leads.find(l => l.id === id) || null,
+    getCampaignById: async (id: string) => (id === campaign.id ? campaign : null),
+    getUserCredentialsByUser: async () => [],
+    getDripCampaignById: async (id: string) => (id === dripCampaign.id ? dripCampaign : null),
+    getDripStepById: async (id: string) => steps.find(s => s.id === id) || null,
+    getDripStepByNumber: async (campaignId: string, n: number) =>
+      steps.find(s => s.campaign_id === campaignId && s.step_number === n) || null,
+    getJourneyByLeadAndCampaign: async (leadId: string, campaignId: string) =>
+      [...journeys.values()].find(j => j.lead_id === leadId && j.campaign_id === campaignId) || null,
+    getIdentityJourney: async () => null,
+    createLeadJourney: async (journey: LeadJourney) => { journeys.set(journey.id, { ...journey }); },
+    updateLeadJourney: async (id: string, updates: Partial<LeadJourney>) => {
+      Object.assign(journeys.get(id)!, updates);
+    },
+    createSMSMessage: async (message: SMSMessage) => { sms.push(message); },
+    createEmailMessage: async (message: EmailMessage) => { emails.push(message); },
+    getSuppression: async (userId: string, channel: Suppression['channel'], address: string) =>
+      suppressions.find(s => s.user_id === userId && s.channel === channel && s.address === address) || null
+  } as unknown as DatabaseService;
+
+  const env = { ENCRYPTION_KEY: 'test-key', TWILIO_PHONE_NUMBER: '+15550000000' } as Env;
+  const scheduler = new JourneySchedulerService(db, env);
+  const journey = () => [...journeys.values()][0];
+
+  return { scheduler, journey, sms, emails };
+}
+
+async function runJourneySchedulerTests() {
+  console.log('🧪 Journey Scheduler Tests\n');
+
+  await test('Enrolling queues the first step and waits on it', async () => {
+    const { scheduler, journey, sms } = createScheduler([step(1, 'sms'), step(2, 'email')]);
+    const before = Date.now();
+
+    await scheduler.enroll('lead-1', dripCampaign.id);
+
+    assert(journey().current_step === 1 && journey().status === 'active', 'on step 1');
+    assert(sms.length === 1 && sms[0].drip_step_id === 'step-1', 'step 1 queued');
+    assert(sms[0].content === 'Hi Jo, step 1', 'merge fields rendered');
+    assert(sms[0].from_number === '+15550000000', 'sent from the owner number');
+    assert(sms[0].scheduled_at >= before + 10 * MINUTE, 'after the step delay');
+  });
+
+  await test('Enrolling twice on the same campaign is refused', async () => {
+    const { scheduler } = createScheduler([step(1, 'sms')]);
+    await scheduler.enroll('lead-1', dripCampaign.id);
+    assert((await scheduler.enroll('lead-1', dripCampaign.id)) === null, 'second enrollment');
+  });
+
+  await test('A sent step counts the send and queues the next step from the send time', async () => {
+    const { scheduler, journey, emails } = createScheduler([step(1, 'sms'), step(2, 'email')]);
+    await scheduler.enroll('lead-1', dripCampaign.id);
+
+    const sentAt = Date.now() + 60 * MINUTE;
+    await scheduler.advanceAfterStep('lead-1', 'step-1', 'sms', sentAt, true);
+
+    assert(journey().total_sms_sent === 1 && journey().total_emails_sent === 0, 'SMS counted');
+    assert(journey().last_interaction_at === sentAt, 'interaction time');
+    assert(journey().current_step === 2, 'on step 2');
+    assert(emails.length === 1 && emails[0].scheduled_at === sentAt + 20 * MINUTE, 'step 2 scheduled from the send');
+    assert(emails[0].journey_id === journey().id, 'email carries the journey');
+  });
+
+  await test('A step given up on still moves the journey on without counting a send', async () => {
+    const { scheduler, journey } = createScheduler([step(1, 'sms'), step(2, 'email')]);
+    await scheduler.enroll('lead-1', dripCampaign.id);
+
+    await scheduler.advanceAfterStep('lead-1', 'step-1', 'sms', Date.now(), false);
+
+    assert(journey().total_sms_sent === 0, 'nothing counted');
+    assert(journey().current_step === 2, 'on step 2');
+  });
+
+  await test('Completes after the last step', async () => {
+    const { scheduler, journey } = createScheduler([step(1, 'sms')]);
+    await scheduler.enroll('lead-1', dripCampaign.id);
+
+    await scheduler.advanceAfterStep('lead-1', 'step-1', 'sms', Date.now(), true);
+
+    assert(journey().status === 'completed' && typeof journey().completed_at === 'number', 'completed');
+    assert(journey().current_step === 1, 'last step kept');
+  });
+
+  await test('Ignores a message for a step the journey is not waiting on', async () => {
+    const { scheduler, journey, emails } = createScheduler([step(1, 'sms'), step(2, 'email'), step(3, 'sms')]);
+    await scheduler.enroll('lead-1', dripCampaign.id);
+    await scheduler.advanceAfterStep('lead-1', 'step-1', 'sms', Date.now(), true);
+
+    // A late retry of step 1 arriving after the journey moved on
+    await scheduler.advanceAfterStep('lead-1', 'step-1', 'sms', Date.now(), true);
+
+    assert(journey().current_step === 2 && journey().total_sms_sent === 1, 'unchanged');
+    assert(emails.length === 1, 'nothing queued twice');
+  });
+
+  await test('Skips steps the lead has no address for and records them', async () => {
+    const { scheduler, journey, emails } = createScheduler([step(1, 'sms'), step(2, 'email')], { phone: undefined });
+    await scheduler.enroll('lead-1', dripCampaign.id);
+
+    assert(journey().current_step === 2, 'on step 2');
+    assert(emails.length === 1 && emails[0].drip_step_id === 'step-2', 'step 2 queued');
+
+    const skipped = JSON.parse(journey().skipped_steps!);
+    assert(skipped.length === 1 && skipped[0].step_number === 1 && skipped[0].action === 'skipped', 'skip recorded');
+    assert(skipped[0].reason === 'Lead has no phone number', skipped[0].reason);
+  });
+
+  await test('Completes when every remaining step is skipped', async () => {
+    const { scheduler, journey, sms } = createScheduler([step(1, 'sms'), step(2, 'sms')], { phone: undefined });
+    await scheduler.enroll('lead-1', dripCampaign.id);
+
+    assert(journey().status === 'completed' && journey().current_step === 2, 'completed past the skipped steps');
+    assert(sms.length === 0, 'nothing queued');
+    assert(JSON.parse(journey().skipped_steps!).length === 2, 'both recorded');
+  });
+
+  await test('Substitutes the other channel with the same content', async () => {
+    const { scheduler, journey, sms, emails } = createScheduler(
+      [step(1, 'email', { fallback_action: 'substitute', sendgrid_template_id: 'template-1' })],
+      { email: undefined }
+    );
+    await scheduler.enroll('lead-1', dripCampaign.id);
+
+    assert(emails.length === 0 && sms.length === 1, 'sent by SMS instead');
+    assert(sms[0].content === 'Hi Jo, step 1', 'step content');
+    assert(journey().current_step === 1 && journey().status === 'active', 'waiting on the substituted step');
+    assert(JSON.parse(journey().skipped_steps!)[0].action === 'substituted', 'substitution recorded');
+  });
+
+  await test('Falls back to skipping when the other channel is unreachable too', async () => {
+    const { scheduler, journey } = createScheduler(
+      [step(1, 'email', { fallback_action: 'substitute' })],
+      { email: undefined, phone: undefined }
+    );
+    await scheduler.enroll('lead-1', dripCampaign.id);
+
+    assert(journey().status === 'completed', 'nothing left to send');
+    assert(JSON.parse(journey().skipped_steps!)[0].action === 'skipped', 'skipped');
+  });
+
+  await test('Pauses on the step and retries it on resume', async () => {
+    const { scheduler, journey, sms } = createScheduler(
+      [step(1, 'sms', { fallback_action: 'pause' }), step(2, 'email')],
+      { phone: undefined }
+    );
+    await scheduler.enroll('lead-1', dripCampaign.id);
+
+    assert(journey().status === 'paused' && journey().current_step === 0, 'paused before step 1');
+    assert(journey().status_reason === 'Step 1 (sms): Lead has no phone number', journey().status_reason!);
+
+    await scheduler.resume({ ...journey(), status: 'paused' });
+    assert(journey().status === 'paused' && sms.length === 0, 'still unreachable, paused again');
+  });
+
+  await test('Records a suppressed step as a suppressed message', async () => {
+    const suppression = {
+      id: 'suppression-1',
+      user_id: 'user-1',
+      channel: 'sms',
+      address: '+15551234567',
+      source: 'stop_reply',
+      created_at: 0
+    } as Suppression;
+    const { scheduler, journey, sms, emails } = createScheduler([step(1, 'sms'), step(2, 'email')], {}, [suppression]);
+    await scheduler.enroll('lead-1', dripCampaign.id);
+
+    assert(sms.length === 1 && sms[0].status === 'suppressed', 'suppressed message recorded');
+    assert(sms[0].error_message === '+15551234567 is on the suppression list (stop_reply)', sms[0].error_message!);
+    assert(emails.length === 1 && emails[0].status === 'pending', 'next step queued');
+    assert(journey().current_step === 2, 'moved on');
+  });
+}
+
+runJourneySchedulerTests();
@@ -0,0 +1,90 @@
+// Lead Export Tests
+
+import { exportFileName, toExportRecord } from '../../src/worker/services/lead-export';
+import { LeadExportRow } from '../../src/worker/types/database';
+import { toSpreadsheetCsvValue } from '../../src/worker/utils/csv';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+const lead: LeadExportRow = {
+  id: 'lead-1',
+  campaign_id: 'campaign-1',
+  campaign_name: 'Spring Promo',
+  meta_lead_id: 'meta-1',
+  first_name: 'Jo',
+  email: 'jo@example.com',
+  phone: '+15551234567',
+  custom_fields: JSON.stringify({ budget: '10k', team_size: 4, tags: ['a', 'b'], notes: null }),
+  captured_at: Date.UTC(2026, 2, 1, 12),
+  status: 'active',
+  sms_consent: 'granted',
+  journey_campaign_name: 'Nurture',
+  journey_status: 'paused',
+  journey_step: 2
+};
+
+async function runLeadExportTests() {
+  console.log('🧪 Running Lead Export Tests...\n');
+
+  await test('Flattens custom fields into custom.<name> keys', async () => {
+    const record = toExportRecord(lead);
+
+    assert(record['custom.budget'] === '10k', 'string field');
+    assert(record['custom.team_size'] === 4, 'number field kept as a number');
+    assert(record['custom.tags'] === '["a","b"]', 'nested value as JSON text');
+    assert(record['custom.notes'] === null, 'null field');
+    assert(!('custom_fields' in record), 'raw JSON column left out');
+  });
+
+  await test('Includes the campaign and latest journey', async () => {
+    const record = toExportRecord(lead);
+
+    assert(record.campaign_name === 'Spring Promo', 'campaign name');
+    assert(record.source === 'meta', 'source from the Meta lead id');
+    assert(record.captured_at === '2026-03-01T12:00:00.000Z', 'ISO capture time');
+    assert(record.journey_campaign === 'Nurture' && record.journey_status === 'paused', 'journey');
+    assert(record.journey_step === 2, 'journey step');
+    assert(record.last_name === null && record.company === null, 'missing fields are null');
+  });
+
+  await test('Ignores custom fields that are not a JSON object', async () => {
+    for (const custom_fields of ['not json', '[1,2]', 'null', undefined]) {
+      const record = toExportRecord({ ...lead, custom_fields, journey_status: undefined, journey_step: undefined });
+      assert(!Object.keys(record).some(key => key.startsWith('custom.')), `no custom keys for ${custom_fields}`);
+      assert(record.journey_status === null && record.journey_step === null, 'no journey');
+    }
+  });
+
+  await test('Neutralizes values a spreadsheet would run as formulas', async () => {
+    assert(toSpreadsheetCsvValue('=HYPERLINK("http://x","y")') === '"\'=HYPERLINK(""http://x"",""y"")"', 'formula quoted and prefixed');
+    for (const value of ['+A1', '-2+3', '@SUM(A1)', '\tx', '\rx']) {
+      assert(toSpreadsheetCsvValue(value).replace(/^"/, '').startsWith("'"), `prefixed ${JSON.stringify(value)}`);
+    }
+    assert(toSpreadsheetCsvValue('Jo') === 'Jo' && toSpreadsheetCsvValue('a=b') === 'a=b', 'other text unchanged');
+    assert(toSpreadsheetCsvValue('+15551234567') === '+15551234567', 'phone number unchanged');
+    assert(toSpreadsheetCsvValue('+1 (555) 123-4567') === '+1 (555) 123-4567' && toSpreadsheetCsvValue('-12.5') === '-12.5', 'numeric text unchanged');
+    assert(toSpreadsheetCsvValue(-5) === '-5' && toSpreadsheetCsvValue(null) === '', 'numbers and empty values unchanged');
+  });
+
+  await test('Names export files by format and date', async () => {
+    assert(exportFileName('csv', Date.UTC(2026, 9, 19)) === 'leads-2026-10-19.csv', 'csv');
+    assert(exportFileName('ndjson', Date.UTC(2026, 0, 2)) === 'leads-2026-01-02.ndjson', 'ndjson');
+  });
+}
+
+runLeadExportTests();
@@ -0,0 +1,106 @@
+// Lead Import Tests
+
+import { parseCsvRecords, toCsvValue } from '../../src/worker/utils/csv';
+import { LeadImportService, suggestMapping } from '../../src/worker/services/lead-import';
+import { DatabaseService } from '../../src/worker/services/database';
+import { Lead, LeadImport } from '../../src/worker/types/database';
+import { Env } from '../../src/worker/types/env';
+import { emailKey, phoneKey } from '../../src/worker/utils/lead-identity';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+async function runLeadImportTests() {
+  console.log('🧪 Running Lead Import Tests...\n');
+
+  await test('Parses quoted fields, escaped quotes and mixed line breaks', async () => {
+    const text = 'name,notes\r\n"Smith, Jo","said ""hi""\nthen left"\nAna,\rBo,x';
+    const records = parseCsvRecords(text, true);
+
+    assert(records.length === 4, `expected 4 records, got ${records.length}`);
+    assert(records[1].values[0] === 'Smith, Jo', 'comma inside quotes');
+    assert(records[1].values[1] === 'said "hi"\nthen left', 'escaped quote and quoted newline');
+    assert(records[2].values.length === 2 && records[2].values[1] === '', 'empty last field');
+    assert(records[3].values.join('|') === 'Bo|x', 'final record without a line break');
+    assert(records[3].end === text.length, 'final record ends at the text end');
+  });
+
+  await test('Leaves a cut-off record for the next chunk', async () => {
+    const text = 'a,b\n"c\nd",e\r\nf,"g';
+    const first = parseCsvRecords(text.slice(0, 12), false);
+
+    assert(first.length === 1, 'only the complete header record');
+    assert(first[0].end === 4, 'resume offset after the header');
+
+    const rest = parseCsvRecords(text.slice(first[0].end), false);
+    assert(rest.length === 1 && rest[0].values[0] === 'c\nd', 'quoted newline kept across the break');
+
+    // A lone \r at the end may be half of \r\n
+    assert(parseCsvRecords('x,y\r', false).length === 0, 'trailing \\r waits for more text');
+    assert(parseCsvRecords('x,y\r', true).length === 1, 'trailing \\r ends the final record');
+  });
+
+  await test('Stops at the record limit', async () => {
+    const records = parseCsvRecords('1\n2\n3\n4\n', false, 2);
+    assert(records.length === 2, 'limited to 2 records');
+    assert(records[1].end === 4, 'resume after the second record');
+  });
+
+  await test('Suggests a mapping from header names', async () => {
+    const mapping = suggestMapping(['First Name', 'surname', 'E-mail', 'Mobile Phone', 'Company', 'Phone', 'Budget']);
+    assert(mapping.join(',') === 'first_name,last_name,email,phone,company,custom,custom', mapping.join(','));
+  });
+
+  await test('Quotes CSV values only when needed', async () => {
+    assert(toCsvValue('plain') === 'plain', 'plain value');
+    assert(toCsvValue('a,b') === '"a,b"', 'comma');
+    assert(toCsvValue('say "hi"') === '"say ""hi"""', 'quotes');
+    assert(toCsvValue(undefined) === '' && toCsvValue(3) === '3', 'empty and numbers');
+  });
+
+  await test('Skips rows matching a lead stored with a formatted phone or mixed-case email', async () => {
+    const existing = [
+      { id: 'lead-1', phone: '(512) 555-1234', phone_key: phoneKey('(512) 555-1234') },
+      { id: 'lead-2', email: 'Jo@Example.com', email_key: emailKey('Jo@Example.com') }
+    ] as Lead[];
+    const created: Lead[] = [];
+    const db = {
+      getLeadsByUserContacts: async (_userId: string, emailKeys: string[], phoneKeys: string[]) => existing.filter(lead =>
+        emailKeys.includes(lead.email_key!) || phoneKeys.includes(lead.phone_key!)
+      ),
+      createLead: async (lead: Lead) => { created.push(lead); }
+    } as unknown as DatabaseService;
+    const service = Object.assign(new LeadImportService({} as Env), { db });
+
+    const results = await service['importRows'](
+      { id: 'import-1', user_id: 'user-1', campaign_id: 'campaign-1' } as LeadImport,
+      [
+        { values: ['+1 512.555.1234', ''], rowNumber: 2 },
+        { values: ['', ' JO@example.com '], rowNumber: 3 },
+        { values: ['512-555-9999', 'sam@example.com'], rowNumber: 4 },
+        { values: ['(512) 555 9999', ''], rowNumber: 5 }
+      ],
+      ['phone', 'email'],
+      ['phone', 'email']
+    );
+
+    assert(results.map(result => result.error?.type || 'created').join() === 'duplicate,duplicate,created,duplicate', 'duplicates found');
+    assert(created.length === 1 && created[0].phone === '+15125559999' && created[0].email === 'sam@example.com', 'stored normalized');
+  });
+}
+
+runLeadImportTests();
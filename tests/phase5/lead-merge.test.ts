@@ -0,0 +1,124 @@
+// Lead Merge Tests
+
+import { groupDuplicates, mergeLeadFields } from '../../src/worker/services/lead-merge';
+import { emailKey, phoneKey } from '../../src/worker/utils/lead-identity';
+import { Lead, LeadListItem } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+function lead(id: string, fields: Partial<LeadListItem> = {}): LeadListItem {
+  return {
+    id,
+    campaign_id: 'campaign-1',
+    campaign_name: 'Spring Promo',
+    captured_at: Number(id.replace(/\D/g, '')) * 1000,
+    status: 'active',
+    ...fields,
+    email_key: emailKey(fields.email),
+    phone_key: phoneKey(fields.phone)
+  };
+}
+
+async function runLeadMergeTests() {
+  console.log('🧪 Running Lead Merge Tests...\n');
+
+  await test('Normalizes emails and phones into identity keys', async () => {
+    assert(emailKey('  Jo@Example.COM ') === 'jo@example.com', 'email lowercased and trimmed');
+    assert(emailKey('   ') === undefined && emailKey(undefined) === undefined, 'blank email');
+    assert(phoneKey('(555) 123-4567') === '+15551234567', '10-digit number gets the country code');
+    assert(phoneKey('+1 555.123.4567') === '+15551234567', 'formatted international number');
+    assert(phoneKey('+44 20 7946 0958') === '+442079460958', 'non-NANP number');
+    assert(phoneKey('n/a') === undefined, 'no digits');
+  });
+
+  await test('Groups leads sharing an email or phone, including through another lead', async () => {
+    const leads = [
+      lead('lead-1', { email: 'jo@example.com' }),
+      lead('lead-2', { email: 'JO@example.com', phone: '555-123-4567' }),
+      lead('lead-3', { phone: '+1 (555) 123-4567' }),
+      lead('lead-4', { email: 'sam@example.com' })
+    ];
+    const groups = groupDuplicates(leads, new Set());
+
+    assert(groups.length === 1, 'one group');
+    assert(groups[0].leads.map(l => l.id).join() === 'lead-1,lead-2,lead-3', 'connected leads, oldest first');
+    assert(groups[0].matched_on.join() === 'email,phone', 'matched on both');
+    assert(groups[0].key === 'lead-1,lead-2,lead-3', 'key is the sorted ids');
+  });
+
+  await test('Leaves out dismissed groups until another lead joins them', async () => {
+    const pair = [lead('lead-1', { email: 'jo@example.com' }), lead('lead-2', { email: 'jo@example.com' })];
+    const dismissed = new Set(['lead-1,lead-2']);
+
+    assert(groupDuplicates(pair, dismissed).length === 0, 'dismissed pair hidden');
+    const grown = groupDuplicates([...pair, lead('lead-3', { email: 'jo@example.com' })], dismissed);
+    assert(grown.length === 1 && grown[0].leads.length === 3, 'group shown again with a new lead');
+  });
+
+  await test('Lists the most recently captured group first', async () => {
+    const groups = groupDuplicates([
+      lead('lead-1', { email: 'a@example.com' }),
+      lead('lead-5', { email: 'a@example.com' }),
+      lead('lead-2', { phone: '5551112222' }),
+      lead('lead-9', { phone: '5551112222' })
+    ], new Set());
+
+    assert(groups.map(group => group.matched_on[0]).join() === 'phone,email', 'newest first');
+  });
+
+  await test('Fills empty survivor fields from the duplicates', async () => {
+    const survivor: Lead = lead('lead-1', {
+      email: 'jo@example.com',
+      first_name: 'Jo',
+      custom_fields: JSON.stringify({ budget: '10k' })
+    });
+    const duplicates: Lead[] = [
+      lead('lead-2', {
+        first_name: 'Joanna',
+        phone: '555 123 4567',
+        company: 'Acme',
+        custom_fields: JSON.stringify({ budget: '5k', team_size: 4 })
+      })
+    ];
+    const updates = mergeLeadFields(survivor, duplicates);
+
+    assert(updates.first_name === undefined, 'survivor name kept');
+    assert(updates.phone === '555 123 4567' && updates.phone_key === '+15551234567', 'phone and its key');
+    assert(updates.company === 'Acme', 'company');
+    assert(updates.email === undefined && updates.email_key === undefined, 'email unchanged');
+
+    const fields = JSON.parse(updates.custom_fields!);
+    assert(fields.budget === '10k' && fields.team_size === 4, 'custom fields merged, survivor wins');
+  });
+
+  await test('Keeps the most final status and revoked SMS consent', async () => {
+    const survivor: Lead = lead('lead-1', { email: 'jo@example.com', sms_consent: 'granted' });
+    const updates = mergeLeadFields(survivor, [
+      lead('lead-2', { status: 'unsubscribed', sms_consent: 'revoked' }),
+      lead('lead-3', { status: 'converted', sms_consent: 'granted' })
+    ]);
+
+    assert(updates.status === 'unsubscribed', 'unsubscribed wins');
+    assert(updates.sms_consent === 'revoked', 'consent revoked');
+
+    const unchanged = mergeLeadFields({ ...survivor, status: 'converted' }, [lead('lead-2', { email: 'jo@example.com' })]);
+    assert(Object.keys(unchanged).length === 0, 'nothing to change');
+  });
+}
+
+runLeadMergeTests();
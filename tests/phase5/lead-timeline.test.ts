@@ -0,0 +1,163 @@
+// Lead Timeline Tests
+
+import { LeadTimelineService } from '../../src/worker/services/lead-timeline';
+import { DatabaseService } from '../../src/worker/services/database';
+import { EmailMessage, InboundMessage, Lead, LeadJourney, LeadStatusChange, SMSMessage } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+const lead: Lead = {
+  id: 'lead-1',
+  campaign_id: 'campaign-1',
+  meta_lead_id: 'meta-1',
+  email: 'jo@example.com',
+  phone: '+15551234567',
+  custom_fields: JSON.stringify({ budget: '10k', team_size: 4, notes: '' }),
+  captured_at: 1000,
+  status: 'unsubscribed',
+  sms_consent: 'revoked',
+  sms_consent_updated_at: 1600
+};
+
+const journey: LeadJourney & { drip_campaign_name: string } = {
+  id: 'journey-1',
+  lead_id: 'lead-1',
+  campaign_id: 'drip-1',
+  drip_campaign_name: 'Nurture',
+  current_step: 2,
+  status: 'completed',
+  skipped_steps: JSON.stringify([{ step_number: 2, channel: 'email', action: 'skipped', reason: 'Suppressed', at: 1500 }]),
+  started_at: 1100,
+  completed_at: 1700,
+  total_sms_sent: 1,
+  total_emails_sent: 0,
+  total_opens: 0,
+  total_clicks: 0,
+  created_at: 1100,
+  updated_at: 1700
+};
+
+const sms: SMSMessage & { step_number?: number } = {
+  id: 'sms-1',
+  lead_id: 'lead-1',
+  drip_step_id: 'step-1',
+  step_number: 1,
+  to_number: '+15551234567',
+  from_number: '+15550000000',
+  content: 'Thanks for signing up!',
+  status: 'delivered',
+  scheduled_at: 1200,
+  sent_at: 1210,
+  delivered_at: 1220,
+  created_at: 1200,
+  updated_at: 1220
+};
+
+const email: EmailMessage & { step_number?: number } = {
+  id: 'email-1',
+  lead_id: 'lead-1',
+  to_email: 'jo@example.com',
+  subject: 'Welcome',
+  status: 'bounced',
+  scheduled_at: 1300,
+  sent_at: 1310,
+  error_message: 'Mailbox does not exist',
+  created_at: 1300,
+  updated_at: 1350
+};
+
+const reply: InboundMessage = {
+  id: 'reply-1',
+  lead_id: 'lead-1',
+  from_number: '+15551234567',
+  to_number: '+15550000000',
+  body: 'stop',
+  keyword: 'stop',
+  received_at: 1600
+};
+
+function createDb(changes: LeadStatusChange[]) {
+  return {
+    getSMSMessagesByLead: async () => [sms],
+    getEmailMessagesByLead: async () => [email],
+    getInboundMessagesByLead: async () => [reply],
+    getJourneysByLead: async () => [journey],
+    getLeadStatusChanges: async () => changes
+  } as unknown as DatabaseService;
+}
+
+async function runLeadTimelineTests() {
+  console.log('🧪 Lead Timeline Tests\n');
+
+  await test('merges every source into one chronological timeline', async () => {
+    const events = await new LeadTimelineService(createDb([])).build(lead, 'Spring Promo');
+
+    const ids = events.map(event => event.id);
+    assert(ids[0] === 'captured:lead-1', `capture first, got ${ids[0]}`);
+    for (const id of ['sms:sms-1', 'email:email-1', 'reply:reply-1', 'journey:journey-1:started']) {
+      assert(ids.includes(id), `missing ${id}`);
+    }
+    for (let i = 1; i < events.length; i++) {
+      assert(events[i - 1].at <= events[i].at, 'events should be oldest first');
+    }
+  });
+
+  await test('includes form answers on the capture event', async () => {
+    const [captured] = await new LeadTimelineService(createDb([])).build(lead, 'Spring Promo');
+
+    assert(captured.title === 'Captured from Spring Promo', captured.title);
+    assert(captured.fields?.budget === '10k', 'string answer');
+    assert(captured.fields?.team_size === '4', 'non-string answers are stringified');
+    assert(!('notes' in (captured.fields || {})), 'empty answers are left out');
+  });
+
+  await test('lists message status transitions in order', async () => {
+    const events = await new LeadTimelineService(createDb([])).build(lead, 'Spring Promo');
+
+    const smsEvent = events.find(event => event.id === 'sms:sms-1');
+    assert(smsEvent?.title === 'Step 1 SMS', `title ${smsEvent?.title}`);
+    assert(smsEvent?.transitions?.map(t => t.status).join() === 'scheduled,sent,delivered', 'sms transitions');
+
+    const emailEvent = events.find(event => event.id === 'email:email-1');
+    const bounce = emailEvent?.transitions?.[emailEvent.transitions.length - 1];
+    assert(bounce?.status === 'bounced' && bounce.detail === 'Mailbox does not exist', 'bounce with its error');
+  });
+
+  await test('uses recorded status changes and falls back to the current state for older leads', async () => {
+    const legacy = await new LeadTimelineService(createDb([])).build(lead, 'Spring Promo');
+    assert(legacy.some(event => event.title === 'SMS consent revoked'), 'consent from the lead row');
+    assert(legacy.some(event => event.id === 'journey:journey-1:completed'), 'completion from the journey row');
+
+    const changes: LeadStatusChange[] = [
+      { id: 'c1', lead_id: 'lead-1', field: 'sms_consent', from_value: 'granted', to_value: 'revoked', reason: 'Replied "stop"', changed_at: 1600 },
+      { id: 'c2', lead_id: 'lead-1', journey_id: 'journey-1', field: 'journey_status', from_value: 'active', to_value: 'completed', changed_at: 1700 },
+      { id: 'c3', lead_id: 'lead-1', field: 'status', from_value: 'active', to_value: 'unsubscribed', reason: 'SendGrid unsubscribe', changed_at: 1800 }
+    ];
+    const events = await new LeadTimelineService(createDb(changes)).build(lead, 'Spring Promo');
+
+    assert(events.filter(event => event.title === 'SMS consent revoked').length === 1, 'consent change not duplicated');
+    assert(!events.some(event => event.id === 'journey:journey-1:completed'), 'completion not duplicated');
+    assert(events.some(event => event.title === 'Drip campaign "Nurture" completed'), 'journey status change');
+
+    const last = events[events.length - 1];
+    assert(last.title === 'Status changed from active to unsubscribed', last.title);
+    assert(last.detail === 'SendGrid unsubscribe', 'change reason');
+  });
+}
+
+runLeadTimelineTests();
@@ -0,0 +1,73 @@
+// Leads API Query Tests
+
+import { decodeCursor, encodeCursor, leadFiltersSchema, toLeadQuery } from '../../src/worker/routes/leads';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+async function runLeadsQueryTests() {
+  console.log('🧪 Leads API Query Tests\n');
+
+  await test('Sorts newest first by date and alphabetically otherwise', async () => {
+    assert(toLeadQuery(leadFiltersSchema.parse({})).sort === 'captured_at', 'date by default');
+    assert(toLeadQuery(leadFiltersSchema.parse({})).order === 'desc', 'newest first');
+    assert(toLeadQuery(leadFiltersSchema.parse({ sort: 'name' })).order === 'asc', 'names A-Z');
+    assert(toLeadQuery(leadFiltersSchema.parse({ sort: 'email', order: 'desc' })).order === 'desc', 'explicit order');
+  });
+
+  await test('Trims the search and covers the whole end day', async () => {
+    const query = toLeadQuery(leadFiltersSchema.parse({
+      search: '  jo  ',
+      from: '2024-03-01',
+      to: '2024-03-31',
+      status: 'active',
+      campaignId: 'campaign-1'
+    }));
+
+    assert(query.search === 'jo', 'trimmed search');
+    assert(query.capturedFrom === Date.parse('2024-03-01'), 'start of the first day');
+    assert(query.capturedTo === Date.parse('2024-04-01') - 1, 'end of the last day');
+    assert(query.status === 'active' && query.campaignId === 'campaign-1', 'filters');
+
+    const exact = toLeadQuery(leadFiltersSchema.parse({ to: '2024-03-31T12:00:00Z', search: '   ' }));
+    assert(exact.capturedTo === Date.parse('2024-03-31T12:00:00Z'), 'a time is used as given');
+    assert(exact.search === undefined, 'blank search ignored');
+  });
+
+  await test('Rejects invalid filters', async () => {
+    assert(!leadFiltersSchema.safeParse({ from: 'yesterday' }).success, 'bad date');
+    assert(!leadFiltersSchema.safeParse({ status: 'deleted' }).success, 'unknown status');
+    assert(!leadFiltersSchema.safeParse({ sort: 'phone' }).success, 'unknown sort');
+  });
+
+  await test('Round-trips a URL-safe cursor', async () => {
+    const cursor = { sort: 'name' as const, order: 'asc' as const, value: 'Zoë ?>>', id: 'lead-1' };
+    const encoded = encodeCursor(cursor);
+
+    assert(/^[A-Za-z0-9_-]+$/.test(encoded), encoded);
+    assert(JSON.stringify(decodeCursor(encoded)) === JSON.stringify(cursor), 'decoded');
+    assert(decodeCursor(encodeCursor({ sort: 'captured_at', order: 'desc', value: 1700000000000, id: 'lead-2' }))?.value === 1700000000000, 'numeric value');
+  });
+
+  await test('Rejects a tampered cursor', async () => {
+    assert(decodeCursor('not a cursor') === null, 'garbage');
+    assert(decodeCursor(btoa(JSON.stringify({ value: 'x' }))) === null, 'missing id');
+    assert(decodeCursor(btoa(JSON.stringify({ id: 'lead-1', value: { $gt: '' } }))) === null, 'object value');
+  });
+}
+
+runLeadsQueryTests();
@@ -0,0 +1,124 @@
+// Meta Leadgen Webhook Tests
+
+import { MetaAPIService } from '../../src/worker/services/meta-api';
+import { DatabaseService } from '../../src/worker/services/database';
+import { resolveLeadCampaign } from '../../src/worker/routes/webhooks';
+import { Campaign, MetaAdMapping } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+function campaign(id: string, fields: Partial<Campaign> = {}): Campaign {
+  return {
+    id,
+    user_id: `owner-of-${id}`,
+    name: id,
+    objective: 'OUTCOME_LEADS',
+    daily_budget: 1000,
+    target_audience: '{}',
+    status: 'active',
+    is_active: true,
+    created_at: 0,
+    updated_at: 0,
+    ...fields
+  };
+}
+
+// In-memory stand-in for the lookups resolveLeadCampaign makes
+function createDatabase(mappings: Array<[MetaAdMapping['meta_object_type'], string, string]>, campaigns: Campaign[]) {
+  return {
+    getMetaAdMapping: async (type: MetaAdMapping['meta_object_type'], metaObjectId: string) => {
+      const mapping = mappings.find(([t, id]) => t === type && id === metaObjectId);
+      return mapping ? { campaign_id: mapping[2] } as MetaAdMapping : null;
+    },
+    getCampaignById: async (id: string) => campaigns.find(c => c.id === id) || null,
+    getCampaignByMetaId: async (metaId: string) => campaigns.find(c => c.meta_campaign_id === metaId) || null
+  } as unknown as DatabaseService;
+}
+
+async function runMetaLeadgenTests() {
+  console.log('🧪 Meta Leadgen Webhook Tests\n');
+
+  const meta = new MetaAPIService('token', 'act_1', 'secret');
+
+  await test('Maps form answers onto lead fields, keeping the rest as custom answers', async () => {
+    const fields = meta.mapLeadFields([
+      { name: 'full_name', values: ['Jo  Ann Smith'] },
+      { name: 'EMAIL', values: ['Jo@Example.com'] },
+      { name: 'phone_number', values: ['+15551234567'] },
+      { name: 'work_phone_number', values: ['+15557654321'] },
+      { name: 'company_name', values: ['Acme'] },
+      { name: 'budget', values: ['10k', '20k'] },
+      { name: 'notes', values: ['  '] }
+    ]);
+
+    assert(fields.first_name === 'Jo' && fields.last_name === 'Ann Smith', 'full name split');
+    assert(fields.email === 'jo@example.com', 'email lowercased');
+    assert(fields.phone === '+15551234567', 'first phone kept');
+    assert(fields.company === 'Acme', 'company');
+    assert(fields.custom_fields.budget === '10k, 20k', 'multiple values joined');
+    assert(!('notes' in fields.custom_fields), 'blank answers dropped');
+  });
+
+  await test('Prefers explicit first and last names over the full name', async () => {
+    const fields = meta.mapLeadFields([
+      { name: 'first_name', values: ['Joanna'] },
+      { name: 'full_name', values: ['Jo Smith'] }
+    ]);
+    assert(fields.first_name === 'Joanna', 'first name kept');
+    assert(fields.last_name === 'Smith', 'last name filled from the full name');
+  });
+
+  await test('Fetches the lead from the Graph API with empty field data when none is returned', async () => {
+    const originalFetch = globalThis.fetch;
+    let requested = '';
+    globalThis.fetch = (async (url: string) => {
+      requested = url;
+      return new Response(JSON.stringify({ id: 'lead-1', ad_id: 'ad-1', created_time: '2024-05-01T10:00:00+0000' }));
+    }) as typeof fetch;
+
+    try {
+      const lead = await meta.getLead('lead-1');
+      assert(requested.includes('/lead-1?') && requested.includes('field_data'), 'requests the lead fields');
+      assert(lead.ad_id === 'ad-1' && lead.field_data.length === 0, 'field data defaults to empty');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  await test('Attributes a lead to the most specific mapped Meta object', async () => {
+    const db = createDatabase(
+      [['ad', 'ad-1', 'by-ad'], ['adset', 'adset-1', 'by-adset'], ['campaign', 'mc-1', 'by-campaign'], ['form', 'form-1', 'by-form']],
+      [campaign('by-ad'), campaign('by-adset'), campaign('by-campaign'), campaign('by-form')]
+    );
+    const ids = { adId: 'ad-1', adsetId: 'adset-1', metaCampaignId: 'mc-1', formId: 'form-1' };
+
+    assert((await resolveLeadCampaign(db, ids))?.id === 'by-ad', 'ad first');
+    assert((await resolveLeadCampaign(db, { ...ids, adId: 'ad-2' }))?.id === 'by-adset', 'then the ad set');
+    assert((await resolveLeadCampaign(db, { ...ids, adId: undefined, adsetId: undefined }))?.id === 'by-campaign', 'then the campaign');
+    assert((await resolveLeadCampaign(db, { formId: 'form-1' }))?.id === 'by-form', 'then the form');
+  });
+
+  await test('Falls back to the campaign launched before mappings existed', async () => {
+    const db = createDatabase([], [campaign('legacy', { meta_campaign_id: 'mc-legacy' })]);
+
+    assert((await resolveLeadCampaign(db, { adId: 'ad-1', metaCampaignId: 'mc-legacy' }))?.id === 'legacy', 'meta_campaign_id');
+    assert((await resolveLeadCampaign(db, { adId: 'ad-1', formId: 'form-1' })) === null, 'unknown lead');
+  });
+}
+
+runMetaLeadgenTests();
@@ -0,0 +1,116 @@
+// Meta OAuth Tests
+
+import { MetaOAuthService, META_OAUTH_SCOPES } from '../../src/worker/services/meta-oauth';
+import { metaRoutes } from '../../src/worker/routes/meta';
+import { hashToken } from '../../src/worker/utils/crypto';
+import { Env } from '../../src/worker/types/env';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+// Answer Graph API requests with a fixed JSON body
+async function withGraphResponse(body: unknown, run: () => Promise<void>) {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => new Response(JSON.stringify(body))) as typeof fetch;
+
+  try {
+    await run();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+// KV holding the pending login states, recording deletions
+function createKV(states: Record<string, string>) {
+  const deleted: string[] = [];
+  const kv = {
+    get: async (key: string) => states[key] ?? null,
+    delete: async (key: string) => { deleted.push(key); }
+  } as unknown as Env['KV'];
+
+  return { kv, deleted };
+}
+
+async function callback(query: string, kv: Env['KV'], cookie?: string) {
+  const response = await metaRoutes.request(`/oauth/callback?${query}`, {
+    headers: cookie ? { Cookie: cookie } : {}
+  }, { KV: kv } as Env);
+
+  return { location: response.headers.get('Location'), setCookie: response.headers.get('Set-Cookie') || '' };
+}
+
+async function runMetaOAuthTests() {
+  console.log('🧪 Meta OAuth Tests\n');
+
+  const oauth = new MetaOAuthService({ META_APP_ID: 'app-1', META_APP_SECRET: 'secret' } as Env);
+
+  await test('Builds the Facebook Login URL with the state and scopes', async () => {
+    const url = new URL(oauth.getAuthorizationUrl('state-1', 'https://app.example.com/api/meta/oauth/callback'));
+
+    assert(url.searchParams.get('client_id') === 'app-1', 'app id');
+    assert(url.searchParams.get('state') === 'state-1', 'state');
+    assert(url.searchParams.get('redirect_uri') === 'https://app.example.com/api/meta/oauth/callback', 'redirect');
+    assert(url.searchParams.get('scope') === META_OAUTH_SCOPES.join(','), 'scopes');
+  });
+
+  await test('Turns the token lifetime into an expiry time', async () => {
+    await withGraphResponse({ access_token: 'long-lived', expires_in: 60 }, async () => {
+      const before = Date.now();
+      const token = await oauth.exchangeForLongLivedToken('short-lived');
+      assert(token.accessToken === 'long-lived', 'token');
+      assert(token.expiresAt! >= before + 60000 && token.expiresAt! <= Date.now() + 60000, 'expiry');
+    });
+
+    await withGraphResponse({ access_token: 'forever' }, async () => {
+      assert((await oauth.exchangeForLongLivedToken('short-lived')).expiresAt === undefined, 'no expiry');
+    });
+  });
+
+  await test('Reads validity and expiry from debug_token', async () => {
+    await withGraphResponse({ data: { is_valid: true, expires_at: 1700000000, scopes: ['ads_read'] } }, async () => {
+      const info = await oauth.inspectToken('token');
+      assert(info.valid && info.expiresAt === 1700000000000 && info.scopes.join() === 'ads_read', 'token info');
+    });
+  });
+
+  await test('Refuses a callback from a browser that did not start the login', async () => {
+    const { kv, deleted } = createKV({ 'meta_oauth:state-1': 'user-1' });
+
+    const withoutCookie = await callback('state=state-1&code=abc', kv);
+    assert(withoutCookie.location === '/settings?meta=error&reason=state', withoutCookie.location!);
+
+    const otherCookie = await callback('state=state-1&code=abc', kv, `meta_oauth_state=${await hashToken('state-2')}`);
+    assert(otherCookie.location === '/settings?meta=error&reason=state', otherCookie.location!);
+    assert(deleted.length === 0, "the real login's state is kept");
+  });
+
+  await test('Accepts the browser holding the state, once', async () => {
+    const { kv, deleted } = createKV({ 'meta_oauth:state-1': 'user-1' });
+    const cookie = `meta_oauth_state=${await hashToken('state-1')}`;
+
+    // Without a code the user cancelled, which is reported before any exchange
+    const cancelled = await callback('state=state-1', kv, cookie);
+    assert(cancelled.location === '/settings?meta=error&reason=denied', cancelled.location!);
+    assert(deleted.join() === 'meta_oauth:state-1', 'state used up');
+    assert(cancelled.setCookie.startsWith('meta_oauth_state=;'), 'cookie cleared');
+
+    const expired = await callback('state=state-3&code=abc', kv, `meta_oauth_state=${await hashToken('state-3')}`);
+    assert(expired.location === '/settings?meta=error&reason=expired', expired.location!);
+  });
+}
+
+runMetaOAuthTests();
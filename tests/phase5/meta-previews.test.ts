@@ -0,0 +1,100 @@
+// Meta Ad Preview Tests
+
+import { MetaAPIService } from '../../src/worker/services/meta-api';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+async function rejects(promise: Promise<unknown>): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+// Answer Graph API requests with a fixed response, remembering the URL asked for
+async function withFetch(response: Response, run: (requested: () => URL) => Promise<void>) {
+  const originalFetch = globalThis.fetch;
+  let url = '';
+  globalThis.fetch = (async (input: string) => {
+    url = input;
+    return response;
+  }) as typeof fetch;
+
+  try {
+    await run(() => new URL(url));
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+async function runMetaPreviewTests() {
+  console.log('🧪 Meta Ad Preview Tests\n');
+
+  const meta = new MetaAPIService('token', 'act_1', 'secret');
+  const creative = {
+    primary_text: 'Spring savings',
+    headline: 'Save 20%',
+    description: 'This week only',
+    image_url: 'https://example.com/spring.png',
+    call_to_action: 'SIGN_UP'
+  };
+
+  await test('Previews an unlaunched creative from its image URL', async () => {
+    const linkData = meta.buildLinkData(creative);
+
+    assert(linkData.message === 'Spring savings' && linkData.name === 'Save 20%', 'text');
+    assert(linkData.picture === 'https://example.com/spring.png' && !('image_hash' in linkData), 'raw image URL');
+    assert(linkData.link === 'http://fb.me/', 'default link');
+    assert(JSON.stringify(linkData.call_to_action) === '{"type":"SIGN_UP"}', 'call to action without a form');
+  });
+
+  await test('References the uploaded image and lead form when launching', async () => {
+    const linkData = meta.buildLinkData(creative, { imageHash: 'abc123', leadFormId: 'form-1', link: 'https://example.com' });
+
+    assert(linkData.image_hash === 'abc123' && !('picture' in linkData), 'image hash instead of the URL');
+    assert(linkData.link === 'https://example.com', 'given link');
+    assert(
+      JSON.stringify(linkData.call_to_action) === '{"type":"SIGN_UP","value":{"lead_gen_form_id":"form-1"}}',
+      'lead form on the call to action'
+    );
+  });
+
+  await test('Requests previews for a story spec in the given format', async () => {
+    const body = '<iframe src="https://www.facebook.com/ads/api/preview_iframe.php?d=1&amp;t=2"></iframe>';
+
+    await withFetch(new Response(JSON.stringify({ data: [{ body }] })), async (requested) => {
+      const spec = { page_id: 'page-1', link_data: meta.buildLinkData(creative) };
+      const previews = await meta.generatePreviewsFromSpec(spec, 'INSTAGRAM_STORY');
+
+      assert(requested().pathname.endsWith('/act_1/generatepreviews'), 'ad account endpoint');
+      assert(requested().searchParams.get('ad_format') === 'INSTAGRAM_STORY', 'format');
+      assert(JSON.parse(requested().searchParams.get('creative')!).object_story_spec.page_id === 'page-1', 'spec sent');
+      assert(previews.length === 1 && previews[0].body === body, 'preview returned');
+    });
+  });
+
+  await test('Surfaces a Graph API error', async () => {
+    await withFetch(new Response('{"error":{"message":"Invalid page"}}', { status: 400 }), async () => {
+      assert(await rejects(meta.generatePreviewsFromSpec({ page_id: 'page-1' })), 'error thrown');
+    });
+  });
+}
+
+runMetaPreviewTests();
@@ -0,0 +1,92 @@
+// Password Hashing Tests
+
+import { hashPassword, needsRehash, PBKDF2_ITERATIONS, verifyPassword } from '../../src/worker/utils/crypto';
+import { AuthService } from '../../src/worker/services/auth';
+import { DatabaseService } from '../../src/worker/services/database';
+import { User } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+// SHA-256 of 'admin123', as seeded by migrations/0003_admin_user.sql
+const LEGACY_HASH = 'JAvlGPq9JyTdtvBO6x2llnRI1+gxwIyPqCKAn3THIKk=';
+
+async function runPasswordHashingTests() {
+  console.log('🧪 Password Hashing Tests\n');
+
+  await test('hashes with PBKDF2 and a per-user salt', async () => {
+    const first = await hashPassword('correct horse');
+    const second = await hashPassword('correct horse');
+    assert(first.startsWith(`pbkdf2$sha256$${PBKDF2_ITERATIONS}$`), first);
+    assert(first !== second, 'same password should hash differently');
+  });
+
+  await test('verifies PBKDF2 hashes', async () => {
+    const hash = await hashPassword('correct horse');
+    assert(await verifyPassword('correct horse', hash), 'right password');
+    assert(!(await verifyPassword('correct horse!', hash)), 'wrong password');
+  });
+
+  await test('verifies with the iteration count stored in the hash', async () => {
+    const hash = await hashPassword('correct horse', 1000);
+    assert(await verifyPassword('correct horse', hash), 'right password');
+    assert(needsRehash(hash), 'fewer iterations than current should rehash');
+  });
+
+  await test('accepts legacy SHA-256 hashes and flags them for rehash', async () => {
+    assert(await verifyPassword('admin123', LEGACY_HASH), 'right password');
+    assert(!(await verifyPassword('admin1234', LEGACY_HASH)), 'wrong password');
+    assert(needsRehash(LEGACY_HASH), 'legacy hash should rehash');
+    assert(!needsRehash(await hashPassword('admin123')), 'current hash should not rehash');
+  });
+
+  await test('upgrades a legacy hash on successful login', async () => {
+    const user: User = {
+      id: 'admin-001',
+      email: 'admin',
+      password_hash: LEGACY_HASH,
+      subscription_tier: 'enterprise',
+      onboarding_completed: true,
+      email_verified: true,
+      is_active: true,
+      created_at: 0,
+      updated_at: 0
+    };
+    const updates: Partial<User>[] = [];
+    const db = {
+      getUserByEmail: async () => ({ ...user }),
+      updateUser: async (_id: string, update: Partial<User>) => { updates.push(update); }
+    } as unknown as DatabaseService;
+
+    const auth = new AuthService(db, 'secret');
+    await auth.authenticateUser('admin', 'admin123');
+
+    assert(updates.length === 1, 'should store a new hash');
+    assert(await verifyPassword('admin123', updates[0].password_hash!), 'new hash should verify');
+    assert(!needsRehash(updates[0].password_hash!), 'new hash should be current');
+
+    let rejected = false;
+    try {
+      await auth.authenticateUser('admin', 'wrong');
+    } catch {
+      rejected = true;
+    }
+    assert(rejected && updates.length === 1, 'failed login should not rehash');
+  });
+}
+
+runPasswordHashingTests();
@@ -0,0 +1,118 @@
+// SMS Send Window Tests
+
+import {
+  formatTimeOfDay,
+  getSendWindow,
+  nextSendTime,
+  parseTimeOfDay,
+  resolveLeadTimeZone,
+  SendWindow,
+  timeZoneForPhone
+} from '../../src/worker/utils/send-window';
+import { DripCampaign, Lead } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function test(name: string, testFn: () => void) {
+  try {
+    testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+const weekdays: SendWindow = {
+  start: 9 * 60,
+  end: 20 * 60,
+  days: [1, 2, 3, 4, 5],
+  timeZone: 'America/Chicago'
+};
+
+const lead: Lead = {
+  id: 'lead-1',
+  campaign_id: 'campaign-1',
+  phone: '+15125550100',
+  captured_at: Date.now(),
+  status: 'active'
+};
+
+console.log('🧪 Send Window Tests\n');
+
+test('keeps times inside the window', () => {
+  // Wed 2024-03-06 10:30 CST
+  const at = Date.parse('2024-03-06T16:30:00Z');
+  assert(nextSendTime(at, weekdays) === at, 'should not move');
+});
+
+test('moves early morning sends to the window start', () => {
+  // Wed 2024-03-06 02:00 CST → 09:00 CST
+  const result = nextSendTime(Date.parse('2024-03-06T08:00:00Z'), weekdays);
+  assert(result === Date.parse('2024-03-06T15:00:00Z'), new Date(result).toISOString());
+});
+
+test('moves evening sends to the next morning', () => {
+  // Wed 2024-03-06 21:15 CST → Thu 09:00 CST
+  const result = nextSendTime(Date.parse('2024-03-07T03:15:00Z'), weekdays);
+  assert(result === Date.parse('2024-03-07T15:00:00Z'), new Date(result).toISOString());
+});
+
+test('skips disallowed weekdays', () => {
+  // Fri 2024-03-08 20:00 CST (window end is exclusive) → Mon 09:00 CST
+  const result = nextSendTime(Date.parse('2024-03-09T02:00:00Z'), weekdays);
+  assert(result === Date.parse('2024-03-11T14:00:00Z'), new Date(result).toISOString());
+});
+
+test('lands on the window start across a DST change', () => {
+  // Sat 2024-03-09 12:00 CST → Mon 09:00 CDT
+  const result = nextSendTime(Date.parse('2024-03-09T18:00:00Z'), weekdays);
+  assert(result === Date.parse('2024-03-11T14:00:00Z'), new Date(result).toISOString());
+});
+
+test('infers timezone from area code', () => {
+  assert(timeZoneForPhone('+1 (512) 555-0100') === 'America/Chicago', 'Austin');
+  assert(timeZoneForPhone('4155550100') === 'America/Los_Angeles', 'San Francisco');
+  assert(timeZoneForPhone('+442071234567') === undefined, 'non-NANP');
+});
+
+test('prefers a timezone form field over the area code', () => {
+  const withField = { ...lead, custom_fields: JSON.stringify({ timezone: 'America/Denver' }) };
+  assert(resolveLeadTimeZone(withField) === 'America/Denver', 'form field');
+  assert(resolveLeadTimeZone(lead) === 'America/Chicago', 'area code');
+});
+
+test('falls back for unknown timezones', () => {
+  const unknown = { ...lead, phone: undefined, custom_fields: JSON.stringify({ timezone: 'Mars/Olympus' }) };
+  assert(resolveLeadTimeZone(unknown, 'America/Phoenix') === 'America/Phoenix', 'fallback');
+});
+
+test('parses and formats times of day', () => {
+  assert(parseTimeOfDay('09:00') === 540 && parseTimeOfDay('23:59') === 1439, 'valid times');
+  assert(parseTimeOfDay('24:00') === null && parseTimeOfDay('9:00') === null && parseTimeOfDay('09:60') === null, 'invalid times');
+  assert(formatTimeOfDay(540) === '09:00' && formatTimeOfDay(1439) === '23:59', 'formatted');
+});
+
+test("places the campaign's window in the lead's timezone", () => {
+  const dripCampaign = {
+    id: 'drip-1',
+    send_window_start: 9 * 60,
+    send_window_end: 20 * 60,
+    send_window_timezone: 'America/Phoenix'
+  } as DripCampaign;
+
+  const window = getSendWindow(dripCampaign, lead);
+  assert(window?.timeZone === 'America/Chicago', 'lead timezone');
+  assert(window?.days.length === 7, 'every day when no days are set');
+
+  const noPhone = getSendWindow(dripCampaign, { ...lead, phone: undefined });
+  assert(noPhone?.timeZone === 'America/Phoenix', "campaign timezone when the lead's is unknown");
+
+  const unrestricted = getSendWindow({ ...dripCampaign, send_window_end: undefined }, lead);
+  assert(unrestricted === null, 'no window without both ends');
+});
@@ -0,0 +1,123 @@
+// Session and Refresh Token Tests
+
+import { AuthService } from '../../src/worker/services/auth';
+import { DatabaseService } from '../../src/worker/services/database';
+import { Session, User } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+async function rejects(promise: Promise<unknown>): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+const user: User = {
+  id: 'user-1',
+  email: 'owner@example.com',
+  password_hash: '',
+  subscription_tier: 'free',
+  onboarding_completed: true,
+  email_verified: true,
+  is_active: true,
+  created_at: 0,
+  updated_at: 0
+};
+
+// In-memory stand-in for the session methods AuthService uses
+function createAuthService() {
+  const sessions = new Map<string, Session>();
+  const find = (predicate: (session: Session) => boolean) => [...sessions.values()].find(predicate) || null;
+
+  const db = {
+    getUserById: async (id: string) => (id === user.id ? user : null),
+    createSession: async (session: Session) => { sessions.set(session.id, { ...session }); },
+    getSessionById: async (id: string) => sessions.get(id) || null,
+    getSessionByRefreshToken: async (hash: string) => find(s => s.refresh_token_hash === hash),
+    getSessionByPreviousToken: async (hash: string) => find(s => s.previous_token_hash === hash),
+    rotateSessionToken: async (id: string, currentHash: string, nextHash: string, expiresAt: number) => {
+      const session = sessions.get(id);
+      if (!session || session.refresh_token_hash !== currentHash || session.revoked_at) return false;
+      Object.assign(session, { refresh_token_hash: nextHash, previous_token_hash: currentHash, expires_at: expiresAt });
+      return true;
+    },
+    revokeSession: async (id: string) => {
+      const session = sessions.get(id);
+      if (session && !session.revoked_at) session.revoked_at = Date.now();
+    }
+  } as unknown as DatabaseService;
+
+  return { auth: new AuthService(db, 'test-secret'), sessions };
+}
+
+async function runSessionTests() {
+  console.log('🧪 Session Tests\n');
+
+  await test('access tokens resolve to the user while the session is active', async () => {
+    const { auth } = createAuthService();
+    const { session } = await auth.createSession(user, { userAgent: 'Mozilla/5.0' });
+    const token = await auth.generateJWT(user, session.id);
+
+    assert((await auth.getUserFromToken(token))?.id === user.id, 'active session');
+
+    await auth.revokeSessionByRefreshToken((await auth.createSession(user)).refreshToken);
+    assert((await auth.getUserFromToken(token))?.id === user.id, 'other sessions are unaffected');
+  });
+
+  await test('revoking a session rejects its access tokens', async () => {
+    const { auth } = createAuthService();
+    const { session, refreshToken } = await auth.createSession(user);
+    const token = await auth.generateJWT(user, session.id);
+
+    await auth.revokeSessionByRefreshToken(refreshToken);
+    assert(await auth.getUserFromToken(token) === null, 'revoked session');
+  });
+
+  await test('refresh tokens rotate on use', async () => {
+    const { auth } = createAuthService();
+    const { refreshToken } = await auth.createSession(user);
+
+    const refreshed = await auth.refreshSession(refreshToken);
+    assert(refreshed.refreshToken !== refreshToken, 'new token issued');
+    assert(refreshed.user.id === user.id, 'same user');
+    assert(!(await rejects(auth.refreshSession(refreshed.refreshToken))), 'new token works');
+  });
+
+  await test('replaying a rotated refresh token revokes the session', async () => {
+    const { auth, sessions } = createAuthService();
+    const { session, refreshToken } = await auth.createSession(user);
+    const { refreshToken: next } = await auth.refreshSession(refreshToken);
+
+    assert(await rejects(auth.refreshSession(refreshToken)), 'old token rejected');
+    assert(!!sessions.get(session.id)?.revoked_at, 'session revoked');
+    assert(await rejects(auth.refreshSession(next)), 'legitimate holder is signed out too');
+  });
+
+  await test('expired sessions cannot refresh', async () => {
+    const { auth, sessions } = createAuthService();
+    const { session, refreshToken } = await auth.createSession(user);
+    sessions.get(session.id)!.expires_at = Date.now() - 1;
+
+    assert(await rejects(auth.refreshSession(refreshToken)), 'expired');
+  });
+}
+
+runSessionTests();
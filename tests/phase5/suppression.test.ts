@@ -0,0 +1,116 @@
+// Suppression List Tests
+
+import { SuppressionService, normalizeAddress } from '../../src/worker/services/suppression';
+import { DatabaseService } from '../../src/worker/services/database';
+import { Campaign, Lead, Suppression } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+function lead(fields: Partial<Lead> = {}): Lead {
+  return {
+    id: 'lead-1',
+    campaign_id: 'campaign-1',
+    email: 'Jo@Example.com',
+    phone: '(555) 123-4567',
+    captured_at: 0,
+    status: 'active',
+    ...fields
+  };
+}
+
+// In-memory suppression table keyed the way the unique index is
+function createSuppressions() {
+  const rows: Suppression[] = [];
+  const find = (userId: string, channel: string, address: string) =>
+    rows.find(s => s.user_id === userId && s.channel === channel && s.address === address) || null;
+
+  const db = {
+    getCampaignById: async (id: string) => (id === 'campaign-1' ? { id, user_id: 'user-1' } as Campaign : null),
+    createSuppression: async (row: Suppression) => {
+      if (!find(row.user_id, row.channel, row.address)) rows.push(row);
+    },
+    getSuppression: async (userId: string, channel: string, address: string) => find(userId, channel, address),
+    deleteSuppressionsByAddress: async (userId: string, channel: string, address: string, source: string) => {
+      const keep = rows.filter(s => !(s.user_id === userId && s.channel === channel && s.address === address && s.source === source));
+      rows.splice(0, rows.length, ...keep);
+    }
+  } as unknown as DatabaseService;
+
+  return { suppressions: new SuppressionService(db), rows };
+}
+
+async function runSuppressionTests() {
+  console.log('🧪 Suppression List Tests\n');
+
+  await test('Normalizes addresses to E.164 and lowercase email', async () => {
+    assert(normalizeAddress('sms', '(555) 123-4567') === '+15551234567', '10-digit NANP number');
+    assert(normalizeAddress('sms', '+1 555 123 4567') === '+15551234567', 'formatted E.164');
+    assert(normalizeAddress('sms', '+44 20 7946 0958') === '+442079460958', 'non-NANP number');
+    assert(normalizeAddress('email', '  Jo@Example.COM ') === 'jo@example.com', 'email');
+  });
+
+  await test('Keeps the first reason and source for an address', async () => {
+    const { suppressions, rows } = createSuppressions();
+    await suppressions.suppress('user-1', 'email', 'jo@example.com', 'hard_bounce', 'Mailbox full');
+    const again = await suppressions.suppress('user-1', 'email', 'JO@example.com', 'manual', 'Asked by phone');
+
+    assert(rows.length === 1, 'one entry');
+    assert(again.source === 'hard_bounce' && again.reason === 'Mailbox full', 'original kept');
+  });
+
+  await test('Blocks unsubscribed leads, revoked SMS consent and listed addresses', async () => {
+    const { suppressions } = createSuppressions();
+
+    assert(await suppressions.getSuppressionReason(lead(), 'sms') === null, 'reachable');
+    assert(await suppressions.getSuppressionReason(lead({ status: 'unsubscribed' }), 'email') === 'Lead unsubscribed', 'unsubscribed');
+    assert(await suppressions.getSuppressionReason(lead({ sms_consent: 'revoked' }), 'sms') === 'Lead opted out of SMS', 'revoked');
+    assert(await suppressions.getSuppressionReason(lead({ sms_consent: 'revoked' }), 'email') === null, 'email still allowed');
+
+    await suppressions.suppressLead(lead(), 'sms', 'stop_reply');
+    const reason = await suppressions.getSuppressionReason(lead(), 'sms');
+    assert(reason === '+15551234567 is on the suppression list (stop_reply)', reason!);
+  });
+
+  await test("Checks a queued message's recipient rather than the lead's current address", async () => {
+    const { suppressions } = createSuppressions();
+    await suppressions.suppress('user-1', 'email', 'old@example.com', 'hard_bounce');
+
+    assert(await suppressions.getSuppressionReason(lead(), 'email') === null, "lead's own address");
+    assert(await suppressions.getSuppressionReason(lead(), 'email', 'OLD@example.com') !== null, 'message recipient');
+  });
+
+  await test('Lifting a suppression leaves entries from other sources', async () => {
+    const { suppressions, rows } = createSuppressions();
+    await suppressions.suppress('user-1', 'sms', '5551234567', 'manual');
+
+    await suppressions.unsuppressLead(lead(), 'sms', 'stop_reply');
+    assert(rows.length === 1, 'manual entry kept');
+
+    await suppressions.unsuppressLead(lead(), 'sms', 'manual');
+    assert(rows.length === 0, 'removed for its own source');
+  });
+
+  await test("Keeps each user's list separate", async () => {
+    const { suppressions } = createSuppressions();
+    await suppressions.suppress('user-2', 'sms', '+15551234567', 'stop_reply');
+
+    assert(await suppressions.getSuppressionReason(lead(), 'sms') === null, "another user's entry");
+  });
+}
+
+runSuppressionTests();
@@ -0,0 +1,83 @@
+// Drip Step Template Engine Tests
+
+import { buildTemplateContext, renderTemplate, validateTemplate } from '../../src/worker/utils/template';
+import { Lead } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function test(name: string, testFn: () => void) {
+  try {
+    testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+const lead: Lead = {
+  id: 'lead-1',
+  campaign_id: 'campaign-1',
+  first_name: 'Maria',
+  last_name: 'Lopez',
+  email: 'maria@example.com',
+  company: 'Acme Roofing',
+  custom_fields: JSON.stringify({ budget: '5000', ad_id: 'ad_123', answers: { nested: true } }),
+  captured_at: Date.now(),
+  status: 'active'
+};
+
+const context = buildTemplateContext(lead, { name: 'Spring Promo' });
+
+console.log('🧪 Template Engine Tests\n');
+
+test('renders lead fields', () => {
+  const result = renderTemplate('Hi {{first_name}} from {{ company }}!', context);
+  assert(result === 'Hi Maria from Acme Roofing!', `got "${result}"`);
+});
+
+test('renders campaign name and full name', () => {
+  const result = renderTemplate('{{full_name}}, thanks for answering {{campaign.name}}', context);
+  assert(result === 'Maria Lopez, thanks for answering Spring Promo', `got "${result}"`);
+});
+
+test('renders custom form answers', () => {
+  const result = renderTemplate('Budget: ${{custom.budget}}', context);
+  assert(result === 'Budget: $5000', `got "${result}"`);
+});
+
+test('uses default when value is missing', () => {
+  const anonymous = buildTemplateContext({ ...lead, first_name: undefined, last_name: undefined });
+  const result = renderTemplate('Hi {{first_name|there}}, welcome to {{campaign.name|our list}}', anonymous);
+  assert(result === 'Hi there, welcome to our list', `got "${result}"`);
+});
+
+test('missing value without default renders empty', () => {
+  const result = renderTemplate('Call {{phone}}', context);
+  assert(result === 'Call ', `got "${result}"`);
+});
+
+test('accepts known and custom variables', () => {
+  const errors = validateTemplate('Hi {{first_name|there}} at {{company}} re {{campaign.name}} {{custom.budget}}');
+  assert(errors.length === 0, errors.join(', '));
+});
+
+test('rejects unknown variables', () => {
+  const errors = validateTemplate('Hi {{firstname}} and {{campaign.budget}}');
+  assert(errors.length === 2, `expected 2 errors, got ${errors.length}`);
+  assert(errors[0] === 'Unknown variable {{firstname}}', errors[0]);
+});
+
+test('rejects unclosed tags', () => {
+  const errors = validateTemplate('Hi {{first_name');
+  assert(errors.length === 1, `expected 1 error, got ${errors.length}`);
+});
+
+test('ignores nested custom field values', () => {
+  assert(context['custom.answers'] === undefined, 'object values should not be exposed');
+});
@@ -0,0 +1,115 @@
+// Twilio Status Callback Tests
+
+import { MessageProcessor } from '../../src/worker/jobs/message-processor';
+import { DatabaseService } from '../../src/worker/services/database';
+import { JourneySchedulerService } from '../../src/worker/services/journey-scheduler';
+import { Env } from '../../src/worker/types/env';
+import { DripStep, LeadJourney, SMSMessage } from '../../src/worker/types/database';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+function smsMessage(status: SMSMessage['status']): SMSMessage {
+  return {
+    id: 'sms-1',
+    lead_id: 'lead-1',
+    drip_step_id: 'step-1',
+    twilio_sid: 'SM123',
+    to_number: '+15551234567',
+    from_number: '+15550000000',
+    content: 'Hi Jo',
+    status,
+    scheduled_at: 0,
+    created_at: 0,
+    updated_at: 0
+  };
+}
+
+// A processor whose database is an in-memory SMS message and journey
+function createProcessor(status: SMSMessage['status']) {
+  const message = smsMessage(status);
+  const counted: Array<[string, string, number]> = [];
+
+  const db = {
+    getSMSMessageBySid: async (sid: string) => (sid === message.twilio_sid ? message : null),
+    updateSMSMessage: async (_id: string, updates: Partial<SMSMessage>) => { Object.assign(message, updates); },
+    getDripStepById: async (id: string) => ({ id, campaign_id: 'drip-1', step_number: 1 }) as DripStep,
+    getJourneyByLeadAndCampaign: async () => ({ id: 'journey-1' }) as LeadJourney,
+    incrementJourneyCounter: async (id: string, counter: string, at: number) => { counted.push([id, counter, at]); }
+  } as unknown as DatabaseService;
+
+  const env = { ENCRYPTION_KEY: 'test-key' } as Env;
+  const processor = new MessageProcessor(env);
+  Object.assign(processor, { db, journeys: new JourneySchedulerService(db, env) });
+
+  const callback = (messageStatus: string, fields: { sid?: string; errorCode?: string; timestamp?: number } = {}) =>
+    processor.processWebhookEvent({
+      type: 'twilio',
+      messageId: fields.sid ?? 'SM123',
+      status: messageStatus,
+      timestamp: fields.timestamp ?? 1000,
+      errorCode: fields.errorCode
+    });
+
+  return { callback, message, counted };
+}
+
+async function runTwilioStatusTests() {
+  console.log('🧪 Twilio Status Callback Tests\n');
+
+  await test('Marks a message delivered and counts it on the journey', async () => {
+    const { callback, message, counted } = createProcessor('sent');
+    await callback('delivered', { timestamp: 5000 });
+
+    assert(message.status === 'delivered' && message.delivered_at === 5000, 'delivered');
+    assert(counted.length === 1 && counted[0].join() === 'journey-1,total_sms_delivered,5000', 'delivery counted');
+  });
+
+  await test('Records the carrier error on an undelivered message', async () => {
+    const { callback, message, counted } = createProcessor('sent');
+    await callback('undelivered', { errorCode: '30007' });
+
+    assert(message.status === 'failed' && message.error_code === '30007', 'failed with the code');
+    assert(message.error_message === 'Twilio status undelivered', message.error_message!);
+    assert(counted.length === 0, 'not counted');
+  });
+
+  await test('Never moves a final status backwards', async () => {
+    const { callback, message } = createProcessor('delivered');
+    await callback('sent');
+    await callback('delivered', { timestamp: 9000 });
+
+    assert(message.status === 'delivered' && message.delivered_at === undefined, 'unchanged');
+  });
+
+  await test('Moves a queued message to sent', async () => {
+    const { callback, message } = createProcessor('queued');
+    await callback('sent');
+    assert(message.status === 'sent', 'sent');
+  });
+
+  await test('Ignores intermediate statuses and unknown messages', async () => {
+    const { callback, message } = createProcessor('sent');
+    await callback('sending');
+    await callback('accepted');
+    await callback('delivered', { sid: 'SM999' });
+
+    assert(message.status === 'sent', 'unchanged');
+  });
+}
+
+runTwilioStatusTests();
@@ -0,0 +1,98 @@
+// Twilio and SendGrid Webhook Signature Tests
+
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { TwilioService } from '../../src/worker/services/twilio';
+import { SendGridService } from '../../src/worker/services/sendgrid';
+import { applyCredentials } from '../../src/worker/services/credential-vault';
+import { Env } from '../../src/worker/types/env';
+
+// Test utility functions
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function test(name: string, testFn: () => Promise<void>) {
+  try {
+    await testFn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
+
+async function runWebhookSignatureTests() {
+  console.log('🧪 Webhook Signature Tests\n');
+
+  // Example from Twilio's webhook security documentation
+  const twilio = new TwilioService({ TWILIO_AUTH_TOKEN: '12345' } as Env);
+  const twilioUrl = 'https://mycompany.com/myapp.php?foo=1&bar=2';
+  const twilioParams = {
+    CallSid: 'CA1234567890ABCDE',
+    Caller: '+12349013030',
+    Digits: '1234',
+    From: '+12349013030',
+    To: '+18005551212'
+  };
+
+  await test('Twilio: accepts a valid signature', async () => {
+    const valid = await twilio.validateWebhookSignature(twilioUrl, twilioParams, '0/KCTR6DLpKmkAf8muzZqo1nDgQ=');
+    assert(valid, 'documented signature should verify');
+  });
+
+  await test('Twilio: rejects a tampered parameter', async () => {
+    const valid = await twilio.validateWebhookSignature(
+      twilioUrl,
+      { ...twilioParams, Digits: '9999' },
+      '0/KCTR6DLpKmkAf8muzZqo1nDgQ='
+    );
+    assert(!valid, 'tampered payload should not verify');
+  });
+
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const sendgrid = new SendGridService({
+    SENDGRID_WEBHOOK_PUBLIC_KEY: publicKey.export({ type: 'spki', format: 'der' }).toString('base64')
+  } as Env);
+  const body = JSON.stringify([{ email: 'lead@example.com', event: 'open', sg_message_id: 'abc.filter' }]);
+  const timestamp = '1700000000';
+
+  await test('SendGrid: accepts a valid ECDSA signature', async () => {
+    // Sign many times so DER integers with and without sign padding are both covered
+    for (let i = 0; i < 20; i++) {
+      const signature = sign('sha256', Buffer.from(timestamp + body), privateKey).toString('base64');
+      const valid = await sendgrid.verifyWebhookSignature(body, signature, timestamp);
+      assert(valid, `signature ${i} should verify`);
+    }
+  });
+
+  await test('SendGrid: rejects a modified body or timestamp', async () => {
+    const signature = sign('sha256', Buffer.from(timestamp + body), privateKey).toString('base64');
+    assert(!(await sendgrid.verifyWebhookSignature(body + ' ', signature, timestamp)), 'modified body');
+    assert(!(await sendgrid.verifyWebhookSignature(body, signature, '1700000001')), 'modified timestamp');
+  });
+
+  await test('SendGrid: rejects when no public key is configured', async () => {
+    const unconfigured = new SendGridService({} as Env);
+    const signature = sign('sha256', Buffer.from(timestamp + body), privateKey).toString('base64');
+    assert(!(await unconfigured.verifyWebhookSignature(body, signature, timestamp)), 'missing key');
+  });
+
+  await test("SendGrid: verifies with the tenant's key rather than the platform's", async () => {
+    const tenant = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const tenantEnv = applyCredentials({ SENDGRID_WEBHOOK_PUBLIC_KEY: 'platform' } as Env, 'sendgrid', {
+      apiKey: 'SG.tenant',
+      fromEmail: 'hello@tenant.example',
+      webhookPublicKey: tenant.publicKey.export({ type: 'spki', format: 'der' }).toString('base64')
+    });
+    const tenantSendgrid = new SendGridService(tenantEnv);
+
+    const signature = sign('sha256', Buffer.from(timestamp + body), tenant.privateKey).toString('base64');
+    assert(await tenantSendgrid.verifyWebhookSignature(body, signature, timestamp), 'tenant signature');
+    const platformSignature = sign('sha256', Buffer.from(timestamp + body), privateKey).toString('base64');
+    assert(!(await tenantSendgrid.verifyWebhookSignature(body, platformSignature, timestamp)), 'platform signature');
+  });
+}
+
+runWebhookSignatureTests();